@@ -1,39 +1,90 @@
-import React, { useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import { Routes, Route, Navigate, useNavigate, useLocation } from 'react-router-dom';
-import { Toaster } from 'react-hot-toast';
+import toast, { Toaster } from 'react-hot-toast';
 import { Navbar } from './components/layout/Navbar';
 import { BackgroundWrapper } from './components/layout/BackgroundWrapper';
 import { HeroSection } from './components/landing/HeroSection';
 import { StudentDashboard } from './components/dashboard/StudentDashboard';
 import { useAuthStore } from './stores/authStore';
+import { useNotificationStore } from './stores/notificationStore';
 import { AuthModal } from './components/auth/AuthModal';
 import { StudentProfilePage } from './components/profile/StudentProfilePage';
 import { OpportunitiesPage } from './components/opportunities/OpportunitiesPage';
+import { OpportunityDetailPage } from './components/opportunities/OpportunityDetailPage';
 import { ApplicationTrackerPage } from './components/applications/ApplicationTrackerPage';
+import { SavedOpportunitiesPage } from './components/saved/SavedOpportunitiesPage';
 import { ProtectedRoute } from './components/auth/ProtectedRoute';
+import { PasswordResetPage } from './components/auth/PasswordResetPage';
+import { PasswordUpdatePage } from './components/auth/PasswordUpdatePage';
+import { EmailVerificationPage } from './components/auth/EmailVerificationPage';
+import { OnboardingPage } from './components/onboarding/OnboardingPage';
 import { CompanyDashboard } from './components/company/CompanyDashboard';
 import { OpportunityForm } from './components/company/OpportunityForm';
 import { ApplicantsPage } from './components/company/ApplicantsPage';
+import { CompanySettingsPage } from './components/company/CompanySettingsPage';
+import { CompanyAnalyticsPage } from './components/company/CompanyAnalyticsPage';
+import { CompanyPublicPage } from './components/companies/CompanyPublicPage';
+import { AdminPage } from './components/admin/AdminPage';
+import { CoordinatorDashboard } from './components/coordinator/CoordinatorDashboard';
+import { PlacementReportPage } from './components/reports/PlacementReportPage';
+import { getHomePath } from './utils/roles';
 
 function App() {
   const navigate = useNavigate();
   const location = useLocation();
-  const { user, loading, checkSession, userType } = useAuthStore();
+  const { user, loading, checkSession, userType, passwordRecovery, sessionExpired, clearSessionExpired, accountSuspended, clearAccountSuspended } = useAuthStore();
+  const { loadNotifications, reset: resetNotifications } = useNotificationStore();
   const [showAuthModal, setShowAuthModal] = useState(false);
   const [authMode, setAuthMode] = useState<'signin' | 'signup'>('signin');
+  // Set by ProtectedRoute when it bounces a signed-out visitor to the landing page
+  const returnTo = (location.state as { from?: string } | null)?.from ?? null;
 
   useEffect(() => {
     checkSession();
   }, [checkSession]);
 
+  // Keep the notification inbox bound to the signed-in user
+  useEffect(() => {
+    if (user?.id) {
+      loadNotifications(user.id);
+    } else {
+      resetNotifications();
+    }
+  }, [user?.id, loadNotifications, resetNotifications]);
+
+  // Recovery links can land anywhere the redirect allow-list permits; always finish on the update form
+  useEffect(() => {
+    if (passwordRecovery && location.pathname !== '/reset-password') {
+      navigate('/reset-password', { replace: true });
+    }
+  }, [passwordRecovery, location.pathname, navigate]);
+
+  useEffect(() => {
+    if (user || !returnTo) return;
+    if (sessionExpired) {
+      toast.error('Your session expired. Sign in again to pick up where you left off.');
+      clearSessionExpired();
+    }
+    setAuthMode('signin');
+    setShowAuthModal(true);
+  }, [user, returnTo, sessionExpired, clearSessionExpired]);
+
+  // Sign-in reports suspension in the modal; this covers sessions restored on load
+  useEffect(() => {
+    if (!accountSuspended) return;
+    toast.error('This account has been suspended. Contact support if you think this is a mistake.');
+    clearAccountSuspended();
+  }, [accountSuspended, clearAccountSuspended]);
+
   const openAuth = (mode: 'signin' | 'signup') => {
     setAuthMode(mode);
     setShowAuthModal(true);
   };
 
-  const navigateTo = (path: string) => {
+  // Stable so pages can list it as an effect dependency
+  const navigateTo = useCallback((path: string) => {
     navigate(path);
-  };
+  }, [navigate]);
 
   // Determine navbar theme based on current route
   const getNavbarTheme = () => {
@@ -64,7 +115,7 @@ function App() {
                 path="/"
                 element={
                   user ? (
-                    <Navigate to={userType === 'company' ? '/company' : '/dashboard'} replace />
+                    <Navigate to={returnTo ?? getHomePath(userType)} replace />
                   ) : (
                     <HeroSection
                       onLoginClick={() => openAuth('signin')}
@@ -74,18 +125,50 @@ function App() {
                 }
               />
 
+              <Route path="/forgot-password" element={<PasswordResetPage navigateTo={navigateTo} />} />
+              <Route path="/reset-password" element={<PasswordUpdatePage navigateTo={navigateTo} />} />
+              <Route path="/verify-email" element={<EmailVerificationPage navigateTo={navigateTo} />} />
+
               <Route element={<ProtectedRoute />}>
-                {/* Student routes */}
-                <Route path="/dashboard" element={userType === 'company' ? <Navigate to="/company" replace /> : <StudentDashboard navigateTo={navigateTo} />} />
-                <Route path="/profile" element={userType === 'company' ? <Navigate to="/company" replace /> : <StudentProfilePage navigateTo={navigateTo} />} />
-                <Route path="/opportunities" element={userType === 'company' ? <Navigate to="/company/opportunities" replace /> : <OpportunitiesPage />} />
-                <Route path="/applications" element={userType === 'company' ? <Navigate to="/company" replace /> : <ApplicationTrackerPage />} />
-
-                {/* Company routes */}
-                <Route path="/company" element={userType === 'student' ? <Navigate to="/dashboard" replace /> : <CompanyDashboard navigateTo={navigateTo} />} />
-                <Route path="/company/opportunities/new" element={userType === 'student' ? <Navigate to="/dashboard" replace /> : <OpportunityForm />} />
-                <Route path="/company/opportunities/:id/edit" element={userType === 'student' ? <Navigate to="/dashboard" replace /> : <OpportunityForm />} />
-                <Route path="/company/opportunities/:id/applicants" element={userType === 'student' ? <Navigate to="/dashboard" replace /> : <ApplicantsPage />} />
+                <Route path="/onboarding" element={<OnboardingPage navigateTo={navigateTo} />} />
+
+                {/* Shared: students browse, companies preview their own pages, admins moderate */}
+                <Route path="/companies/:id" element={<CompanyPublicPage />} />
+                <Route path="/opportunities/:slug" element={<OpportunityDetailPage />} />
+              </Route>
+
+              {/* Student routes */}
+              <Route element={<ProtectedRoute roles={['student']} />}>
+                <Route path="/dashboard" element={<StudentDashboard navigateTo={navigateTo} />} />
+                <Route path="/profile" element={<StudentProfilePage navigateTo={navigateTo} />} />
+                <Route path="/opportunities" element={<OpportunitiesPage />} />
+                <Route path="/applications" element={<ApplicationTrackerPage />} />
+                <Route path="/saved" element={<SavedOpportunitiesPage />} />
+              </Route>
+
+              {/* Company routes */}
+              <Route element={<ProtectedRoute roles={['company']} />}>
+                <Route path="/company" element={<CompanyDashboard navigateTo={navigateTo} />} />
+                <Route path="/company/settings" element={<CompanySettingsPage navigateTo={navigateTo} />} />
+                <Route path="/company/analytics" element={<CompanyAnalyticsPage />} />
+                <Route path="/company/opportunities/new" element={<OpportunityForm />} />
+                <Route path="/company/opportunities/:id/edit" element={<OpportunityForm />} />
+                <Route path="/company/opportunities/:id/applicants" element={<ApplicantsPage />} />
+              </Route>
+
+              {/* Placement cell; coordinators only ever see their own college */}
+              <Route element={<ProtectedRoute roles={['college_coordinator']} />}>
+                <Route path="/coordinator" element={<CoordinatorDashboard />} />
+              </Route>
+
+              {/* Reports scope themselves to the caller's college or company */}
+              <Route element={<ProtectedRoute roles={['college_coordinator', 'company']} />}>
+                <Route path="/reports" element={<PlacementReportPage />} />
+              </Route>
+
+              {/* Admin console; the RPCs behind it re-check the role */}
+              <Route element={<ProtectedRoute roles={['admin']} />}>
+                <Route path="/admin" element={<AdminPage />} />
               </Route>
 
               <Route path="*" element={<Navigate to="/" replace />} />
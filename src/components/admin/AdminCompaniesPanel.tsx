@@ -0,0 +1,206 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import toast from 'react-hot-toast';
+import { CheckBadgeIcon } from '@heroicons/react/24/outline';
+import { supabase } from '@/lib/supabase';
+import type { Company, JsonValue } from '@/types';
+import { parseVerificationDocuments } from '@/utils/admin';
+import { formatDate } from '@/utils/formatting';
+
+type ReviewCompany = Pick<
+  Company,
+  'company_id' | 'company_name' | 'industry' | 'headquarters_location' | 'website_url' | 'linkedin_url' | 'logo_url' | 'is_verified'
+> & {
+  verification_documents: JsonValue | null;
+  created_at: string;
+};
+
+type VerificationFilter = 'pending' | 'verified' | 'all';
+
+const FILTERS: { value: VerificationFilter; label: string }[] = [
+  { value: 'pending', label: 'Awaiting review' },
+  { value: 'verified', label: 'Verified' },
+  { value: 'all', label: 'All companies' },
+];
+
+export const AdminCompaniesPanel: React.FC = () => {
+  const [filter, setFilter] = useState<VerificationFilter>('pending');
+  const [companies, setCompanies] = useState<ReviewCompany[]>([]);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isSubscribed = true;
+
+    const load = async () => {
+      setLoading(true);
+      let query = supabase
+        .from('companies')
+        .select('company_id, company_name, industry, headquarters_location, website_url, linkedin_url, logo_url, is_verified, verification_documents, created_at')
+        .order('created_at', { ascending: true })
+        .limit(100);
+      if (filter === 'pending') query = query.or('is_verified.is.null,is_verified.eq.false');
+      if (filter === 'verified') query = query.eq('is_verified', true);
+
+      const { data, error } = await query.returns<ReviewCompany[]>();
+      if (!isSubscribed) return;
+      if (error) {
+        console.error('Failed to load companies:', error);
+        toast.error('Could not load companies');
+      }
+      setCompanies(data ?? []);
+      setLoading(false);
+    };
+    load();
+
+    return () => {
+      isSubscribed = false;
+    };
+  }, [filter]);
+
+  const setVerification = async (company: ReviewCompany, verified: boolean) => {
+    const note = notes[company.company_id]?.trim() ?? '';
+    if (!verified && !note) {
+      toast.error('Add a note so the company knows what to fix');
+      return;
+    }
+
+    setUpdatingId(company.company_id);
+    const { error } = await supabase.rpc('admin_set_company_verification', {
+      p_company_id: company.company_id,
+      p_verified: verified,
+      p_note: note || null,
+    });
+    setUpdatingId(null);
+
+    if (error) {
+      console.error('Failed to update company verification:', error);
+      toast.error(error.message || 'Could not update the company');
+      return;
+    }
+    // A declined company stays in the review queue; approving or revoking moves it out of the current filter
+    const stillMatches = filter === 'all' || (filter === 'verified') === verified;
+    setCompanies((prev) =>
+      stillMatches
+        ? prev.map((c) => (c.company_id === company.company_id ? { ...c, is_verified: verified } : c))
+        : prev.filter((c) => c.company_id !== company.company_id),
+    );
+    setNotes((prev) => ({ ...prev, [company.company_id]: '' }));
+    toast.success(verified ? `${company.company_name} verified` : `${company.company_name} declined`);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-2">
+        {FILTERS.map((option) => (
+          <button
+            key={option.value}
+            onClick={() => setFilter(option.value)}
+            className={`px-3 py-1 text-sm rounded-md border ${filter === option.value ? 'bg-purple-600 text-white border-purple-600' : 'hover:bg-gray-50'}`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {loading ? (
+        <p className="text-gray-500">Loading...</p>
+      ) : companies.length === 0 ? (
+        <p className="text-gray-600">{filter === 'pending' ? 'No companies are waiting for review.' : 'No companies found.'}</p>
+      ) : (
+        <div className="grid gap-4">
+          {companies.map((company) => {
+            const documents = parseVerificationDocuments(company.verification_documents);
+            return (
+              <div key={company.company_id} className="border rounded-lg p-4 bg-white space-y-3">
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <Link to={`/companies/${company.company_id}`} className="flex items-center gap-1 font-medium text-lg hover:underline">
+                      {company.company_name}
+                      {company.is_verified && <CheckBadgeIcon className="h-5 w-5 text-purple-600" title="Verified company" />}
+                    </Link>
+                    <div className="text-sm text-gray-600">
+                      {[company.industry, company.headquarters_location].filter(Boolean).join(' • ') || 'No details yet'}
+                    </div>
+                    <div className="text-xs text-gray-500 mt-1">Joined {formatDate(company.created_at)}</div>
+                  </div>
+                  <div className="flex gap-3 text-sm">
+                    {company.website_url && (
+                      <a href={company.website_url} target="_blank" rel="noopener noreferrer" className="text-purple-600 hover:underline">
+                        Website
+                      </a>
+                    )}
+                    {company.linkedin_url && (
+                      <a href={company.linkedin_url} target="_blank" rel="noopener noreferrer" className="text-purple-600 hover:underline">
+                        LinkedIn
+                      </a>
+                    )}
+                  </div>
+                </div>
+
+                <div className="text-sm">
+                  <div className="font-medium text-gray-700">Verification documents</div>
+                  {documents.length === 0 ? (
+                    <p className="text-gray-500">None uploaded.</p>
+                  ) : (
+                    <ul className="list-disc pl-5">
+                      {documents.map((doc) => (
+                        <li key={doc.url}>
+                          {/^https?:\/\//.test(doc.url) ? (
+                            <a href={doc.url} target="_blank" rel="noopener noreferrer" className="text-purple-600 hover:underline">
+                              {doc.name}
+                            </a>
+                          ) : (
+                            <span>
+                              {doc.name} <span className="text-gray-500">({doc.url})</span>
+                            </span>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+
+                <div className="flex flex-col md:flex-row gap-2">
+                  <input
+                    value={notes[company.company_id] ?? ''}
+                    onChange={(e) => setNotes((prev) => ({ ...prev, [company.company_id]: e.target.value }))}
+                    placeholder={company.is_verified ? 'Reason for revoking' : 'Note for the company (required to decline)'}
+                    className="flex-1 rounded-md border px-3 py-1 text-sm"
+                  />
+                  {company.is_verified ? (
+                    <button
+                      disabled={updatingId === company.company_id}
+                      onClick={() => setVerification(company, false)}
+                      className="px-3 py-1 text-sm rounded-md border text-red-600 hover:bg-gray-50 disabled:opacity-50"
+                    >
+                      Revoke
+                    </button>
+                  ) : (
+                    <>
+                      <button
+                        disabled={updatingId === company.company_id}
+                        onClick={() => setVerification(company, true)}
+                        className="px-3 py-1 text-sm rounded-md bg-purple-600 text-white hover:bg-purple-700 disabled:opacity-50"
+                      >
+                        Approve
+                      </button>
+                      <button
+                        disabled={updatingId === company.company_id}
+                        onClick={() => setVerification(company, false)}
+                        className="px-3 py-1 text-sm rounded-md border text-red-600 hover:bg-gray-50 disabled:opacity-50"
+                      >
+                        Decline
+                      </button>
+                    </>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
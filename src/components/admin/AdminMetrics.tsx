@@ -0,0 +1,59 @@
+import React, { useEffect, useState } from 'react';
+import { supabase } from '@/lib/supabase';
+import type { PlatformMetrics } from '@/types';
+
+const StatTile: React.FC<{ label: string; value: number; hint?: string }> = ({ label, value, hint }) => (
+  <div className="rounded-xl border border-gray-200 bg-white p-4">
+    <div className="text-2xl font-semibold text-gray-900">{value.toLocaleString()}</div>
+    <div className="text-sm text-gray-500">{label}</div>
+    {hint && <div className="text-xs text-gray-400 mt-1">{hint}</div>}
+  </div>
+);
+
+export const AdminMetrics: React.FC = () => {
+  const [metrics, setMetrics] = useState<PlatformMetrics | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let isSubscribed = true;
+
+    const load = async () => {
+      const { data, error } = await supabase.rpc('admin_platform_metrics');
+      if (!isSubscribed) return;
+      if (error) console.error('Failed to load platform metrics:', error);
+      setMetrics((data as PlatformMetrics | null) ?? null);
+      setLoading(false);
+    };
+    load();
+
+    return () => {
+      isSubscribed = false;
+    };
+  }, []);
+
+  if (loading) return <p className="text-gray-500">Loading...</p>;
+  if (!metrics) return <p className="text-gray-600">Platform metrics are unavailable right now.</p>;
+
+  return (
+    <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+      <StatTile label="Students" value={metrics.students} />
+      <StatTile
+        label="Companies"
+        value={metrics.companies}
+        hint={`${metrics.verified_companies.toLocaleString()} verified`}
+      />
+      <StatTile label="New accounts" value={metrics.new_users_7d} hint="Last 7 days" />
+      <StatTile label="Active opportunities" value={metrics.active_opportunities} />
+      <StatTile
+        label="Applications submitted"
+        value={metrics.applications}
+        hint={`${metrics.applications_7d.toLocaleString()} in the last 7 days`}
+      />
+      <StatTile
+        label="Suspended accounts"
+        value={metrics.suspended_users}
+        hint={`${metrics.taken_down_opportunities.toLocaleString()} opportunities taken down`}
+      />
+    </div>
+  );
+};
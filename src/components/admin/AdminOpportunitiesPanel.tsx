@@ -0,0 +1,194 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import toast from 'react-hot-toast';
+import { supabase } from '@/lib/supabase';
+import { fetchApplicationStats } from '@/lib/hiringStats';
+import type { OpportunityApplicationStats, OpportunityRecord } from '@/types';
+import { useDebounce } from '@/hooks/useDebounce';
+import { getOpportunityPath } from '@/utils/opportunityDetail';
+import { formatDate } from '@/utils/formatting';
+
+type ModeratedOpportunity = Pick<
+  OpportunityRecord,
+  | 'opportunity_id'
+  | 'slug'
+  | 'title'
+  | 'status'
+  | 'view_count'
+  | 'taken_down_at'
+  | 'takedown_reason'
+  | 'created_at'
+> & {
+  companies: { company_id: string; company_name: string } | null;
+};
+
+type ListingFilter = 'active' | 'taken_down';
+
+export const AdminOpportunitiesPanel: React.FC = () => {
+  const [query, setQuery] = useState('');
+  const [filter, setFilter] = useState<ListingFilter>('active');
+  const [opportunities, setOpportunities] = useState<ModeratedOpportunity[]>([]);
+  const [applicationStats, setApplicationStats] = useState<Map<string, OpportunityApplicationStats>>(new Map());
+  const [loading, setLoading] = useState(true);
+  const [takingDown, setTakingDown] = useState<string | null>(null);
+  const [reason, setReason] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const debouncedQuery = useDebounce(query, 300);
+
+  useEffect(() => {
+    let isSubscribed = true;
+
+    const load = async () => {
+      setLoading(true);
+      let request = supabase
+        .from('opportunities')
+        .select('opportunity_id, slug, title, status, view_count, taken_down_at, takedown_reason, created_at, companies(company_id, company_name)')
+        .limit(50);
+      request =
+        filter === 'active'
+          ? request.eq('status', 'active').order('created_at', { ascending: false })
+          : request.not('taken_down_at', 'is', null).order('taken_down_at', { ascending: false });
+      const term = debouncedQuery.trim();
+      if (term) request = request.ilike('title', `%${term}%`);
+
+      const { data, error } = await request.returns<ModeratedOpportunity[]>();
+      if (!isSubscribed) return;
+      if (error) {
+        console.error('Failed to load opportunities:', error);
+        toast.error('Could not load opportunities');
+      }
+      setOpportunities(data ?? []);
+      setLoading(false);
+
+      try {
+        const stats = await fetchApplicationStats((data ?? []).map((opp) => opp.opportunity_id));
+        if (isSubscribed) setApplicationStats(stats);
+      } catch (statsError) {
+        console.error('Failed to load application stats:', statsError);
+      }
+    };
+    load();
+
+    return () => {
+      isSubscribed = false;
+    };
+  }, [debouncedQuery, filter]);
+
+  const startTakedown = (opportunityId: string) => {
+    setTakingDown(opportunityId);
+    setReason('');
+  };
+
+  const takeDown = async (opportunity: ModeratedOpportunity) => {
+    if (!reason.trim()) {
+      toast.error('Give a reason; the company will see it');
+      return;
+    }
+
+    setSubmitting(true);
+    const { error } = await supabase.rpc('admin_take_down_opportunity', {
+      p_opportunity_id: opportunity.opportunity_id,
+      p_reason: reason.trim(),
+    });
+    setSubmitting(false);
+
+    if (error) {
+      console.error('Failed to take down opportunity:', error);
+      toast.error(error.message || 'Could not take the opportunity down');
+      return;
+    }
+    setOpportunities((prev) => prev.filter((o) => o.opportunity_id !== opportunity.opportunity_id));
+    setTakingDown(null);
+    toast.success(`"${opportunity.title}" taken down`);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col md:flex-row gap-3">
+        <input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search by title"
+          className="w-full rounded-xl border-gray-200 focus:border-purple-500 focus:ring-purple-500 px-4 py-2.5"
+        />
+        <select
+          value={filter}
+          onChange={(e) => setFilter(e.target.value as ListingFilter)}
+          className="rounded-xl border-gray-200 focus:border-purple-500 focus:ring-purple-500 px-4 py-2.5 md:w-48"
+        >
+          <option value="active">Live listings</option>
+          <option value="taken_down">Taken down</option>
+        </select>
+      </div>
+
+      {loading ? (
+        <p className="text-gray-500">Loading...</p>
+      ) : opportunities.length === 0 ? (
+        <p className="text-gray-600">No opportunities match.</p>
+      ) : (
+        <div className="grid gap-4">
+          {opportunities.map((opp) => (
+            <div key={opp.opportunity_id} className="border rounded-lg p-4 bg-white space-y-3">
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <Link to={getOpportunityPath(opp)} className="font-medium text-lg hover:underline">
+                    {opp.title}
+                  </Link>
+                  <div className="text-sm text-gray-600">
+                    {opp.companies ? (
+                      <Link to={`/companies/${opp.companies.company_id}`} className="hover:underline">
+                        {opp.companies.company_name}
+                      </Link>
+                    ) : (
+                      'Unknown company'
+                    )}
+                    {` • Posted ${formatDate(opp.created_at)} • ${applicationStats.get(opp.opportunity_id)?.applications_count ?? 0} applications • ${opp.view_count ?? 0} views`}
+                  </div>
+                  {opp.taken_down_at && (
+                    <div className="text-xs text-red-600 mt-1">
+                      Taken down {formatDate(opp.taken_down_at)}: {opp.takedown_reason}
+                    </div>
+                  )}
+                </div>
+                {!opp.taken_down_at && takingDown !== opp.opportunity_id && (
+                  <button
+                    onClick={() => startTakedown(opp.opportunity_id)}
+                    className="px-3 py-1 text-sm rounded-md border text-red-600 hover:bg-gray-50"
+                  >
+                    Take down
+                  </button>
+                )}
+              </div>
+
+              {takingDown === opp.opportunity_id && (
+                <div className="flex flex-col md:flex-row gap-2">
+                  <input
+                    autoFocus
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value)}
+                    placeholder="Reason, e.g. misleading stipend or spam"
+                    className="flex-1 rounded-md border px-3 py-1 text-sm"
+                  />
+                  <button
+                    disabled={submitting}
+                    onClick={() => takeDown(opp)}
+                    className="px-3 py-1 text-sm rounded-md bg-red-600 text-white hover:bg-red-700 disabled:opacity-50"
+                  >
+                    Confirm takedown
+                  </button>
+                  <button
+                    disabled={submitting}
+                    onClick={() => setTakingDown(null)}
+                    className="px-3 py-1 text-sm rounded-md border hover:bg-gray-50"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,51 @@
+import React from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { AdminMetrics } from './AdminMetrics';
+import { AdminUsersPanel } from './AdminUsersPanel';
+import { AdminCompaniesPanel } from './AdminCompaniesPanel';
+import { AdminOpportunitiesPanel } from './AdminOpportunitiesPanel';
+
+type AdminTab = 'overview' | 'users' | 'companies' | 'opportunities';
+
+const TABS: { id: AdminTab; label: string }[] = [
+  { id: 'overview', label: 'Overview' },
+  { id: 'users', label: 'Users' },
+  { id: 'companies', label: 'Company Verification' },
+  { id: 'opportunities', label: 'Opportunities' },
+];
+
+const isAdminTab = (value: string | null): value is AdminTab => TABS.some((tab) => tab.id === value);
+
+export const AdminPage: React.FC = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const requested = searchParams.get('tab');
+  const activeTab: AdminTab = isAdminTab(requested) ? requested : 'overview';
+
+  return (
+    <div className="max-w-6xl mx-auto px-4 py-8 space-y-6">
+      <div>
+        <h1 className="text-2xl font-semibold">Admin Console</h1>
+        <p className="text-sm text-gray-500 mt-1">Moderate accounts, verify companies and keep listings clean.</p>
+      </div>
+
+      <div className="flex gap-2 border-b">
+        {TABS.map((tab) => (
+          <button
+            key={tab.id}
+            onClick={() => setSearchParams(tab.id === 'overview' ? {} : { tab: tab.id }, { replace: true })}
+            className={`px-4 py-2 text-sm font-medium border-b-2 -mb-px ${
+              activeTab === tab.id ? 'border-purple-600 text-purple-700' : 'border-transparent text-gray-600 hover:text-gray-900'
+            }`}
+          >
+            {tab.label}
+          </button>
+        ))}
+      </div>
+
+      {activeTab === 'overview' && <AdminMetrics />}
+      {activeTab === 'users' && <AdminUsersPanel />}
+      {activeTab === 'companies' && <AdminCompaniesPanel />}
+      {activeTab === 'opportunities' && <AdminOpportunitiesPanel />}
+    </div>
+  );
+};
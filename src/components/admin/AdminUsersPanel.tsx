@@ -0,0 +1,207 @@
+import React, { useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import { supabase } from '@/lib/supabase';
+import type { AdminUserRow, UserType } from '@/types';
+import { useAuthStore } from '@/stores/authStore';
+import { useDebounce } from '@/hooks/useDebounce';
+import { formatDate, formatRelativeDate } from '@/utils/formatting';
+
+const USER_TYPE_FILTERS: { value: UserType | ''; label: string }[] = [
+  { value: '', label: 'All accounts' },
+  { value: 'student', label: 'Students' },
+  { value: 'company', label: 'Companies' },
+  { value: 'college_coordinator', label: 'Placement coordinators' },
+  { value: 'admin', label: 'Admins' },
+];
+
+export const AdminUsersPanel: React.FC = () => {
+  const { user } = useAuthStore();
+  const [query, setQuery] = useState('');
+  const [userType, setUserType] = useState<UserType | ''>('');
+  const [users, setUsers] = useState<AdminUserRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+  const [assigningId, setAssigningId] = useState<string | null>(null);
+  const [collegeName, setCollegeName] = useState('');
+  const debouncedQuery = useDebounce(query, 300);
+
+  useEffect(() => {
+    let isSubscribed = true;
+
+    const search = async () => {
+      setLoading(true);
+      const { data, error } = await supabase.rpc('admin_search_users', {
+        p_query: debouncedQuery.trim() || null,
+        p_user_type: userType || null,
+        p_limit: 50,
+      });
+      if (!isSubscribed) return;
+      if (error) {
+        console.error('Failed to search users:', error);
+        toast.error('Could not load users');
+      }
+      setUsers((data as AdminUserRow[] | null) ?? []);
+      setLoading(false);
+    };
+    search();
+
+    return () => {
+      isSubscribed = false;
+    };
+  }, [debouncedQuery, userType]);
+
+  const setAccess = async (row: AdminUserRow, isActive: boolean) => {
+    const label = row.display_name || row.email;
+    if (!isActive && !window.confirm(`Suspend ${label}? They will be signed out and unable to sign back in.`)) return;
+
+    setUpdatingId(row.user_id);
+    const { data, error } = await supabase.rpc('admin_set_user_access', { p_user_id: row.user_id, p_is_active: isActive });
+    setUpdatingId(null);
+
+    if (error) {
+      console.error('Failed to update account access:', error);
+      toast.error(error.message || 'Could not update the account');
+      return;
+    }
+    setUsers((prev) =>
+      prev.map((u) =>
+        u.user_id === row.user_id ? { ...u, is_active: isActive, verification_status: data as AdminUserRow['verification_status'] } : u,
+      ),
+    );
+    toast.success(isActive ? `${label} reinstated` : `${label} suspended`);
+  };
+
+  const makeCoordinator = async (row: AdminUserRow) => {
+    if (!collegeName.trim()) {
+      toast.error('Enter the college this coordinator manages');
+      return;
+    }
+
+    setUpdatingId(row.user_id);
+    const { error } = await supabase.rpc('admin_make_coordinator', { p_user_id: row.user_id, p_college_name: collegeName.trim() });
+    setUpdatingId(null);
+
+    if (error) {
+      console.error('Failed to assign coordinator:', error);
+      toast.error(error.message || 'Could not assign the coordinator');
+      return;
+    }
+    setUsers((prev) => prev.map((u) => (u.user_id === row.user_id ? { ...u, user_type: 'college_coordinator' } : u)));
+    setAssigningId(null);
+    toast.success(`${row.display_name || row.email} now manages ${collegeName.trim()}`);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col md:flex-row gap-3">
+        <input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search by name or email"
+          className="w-full rounded-xl border-gray-200 focus:border-purple-500 focus:ring-purple-500 px-4 py-2.5"
+        />
+        <select
+          value={userType}
+          onChange={(e) => setUserType(e.target.value as UserType | '')}
+          className="rounded-xl border-gray-200 focus:border-purple-500 focus:ring-purple-500 px-4 py-2.5 md:w-48"
+        >
+          {USER_TYPE_FILTERS.map((filter) => (
+            <option key={filter.value} value={filter.value}>
+              {filter.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {loading ? (
+        <p className="text-gray-500">Loading...</p>
+      ) : users.length === 0 ? (
+        <p className="text-gray-600">No accounts match this search.</p>
+      ) : (
+        <div className="overflow-x-auto rounded-lg border bg-white">
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-50 text-left text-gray-600">
+              <tr>
+                <th className="px-4 py-2 font-medium">Account</th>
+                <th className="px-4 py-2 font-medium">Type</th>
+                <th className="px-4 py-2 font-medium">Joined</th>
+                <th className="px-4 py-2 font-medium">Last sign-in</th>
+                <th className="px-4 py-2 font-medium">Status</th>
+                <th className="px-4 py-2" />
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {users.map((row) => (
+                <React.Fragment key={row.user_id}>
+                  <tr>
+                    <td className="px-4 py-2">
+                      <div className="font-medium text-gray-900">{row.display_name || '—'}</div>
+                      <div className="text-gray-500">{row.email}</div>
+                    </td>
+                    <td className="px-4 py-2 capitalize">{row.user_type.replace('_', ' ')}</td>
+                    <td className="px-4 py-2 text-gray-600">{formatDate(row.created_at)}</td>
+                    <td className="px-4 py-2 text-gray-600">{row.last_login ? formatRelativeDate(row.last_login) : 'Never'}</td>
+                    <td className="px-4 py-2">
+                      {row.is_active ? (
+                        <span className="rounded-md bg-green-50 px-2 py-0.5 text-green-700 capitalize">{row.verification_status ?? 'active'}</span>
+                      ) : (
+                        <span className="rounded-md bg-red-50 px-2 py-0.5 text-red-700">Suspended</span>
+                      )}
+                    </td>
+                    <td className="px-4 py-2 text-right space-x-2 whitespace-nowrap">
+                      {row.is_active && row.user_type !== 'admin' && row.user_type !== 'college_coordinator' && assigningId !== row.user_id && (
+                        <button
+                          onClick={() => {
+                            setAssigningId(row.user_id);
+                            setCollegeName('');
+                          }}
+                          className="px-3 py-1 text-sm rounded-md border hover:bg-gray-50"
+                        >
+                          Make coordinator
+                        </button>
+                      )}
+                      {row.user_id !== user?.id && (
+                        <button
+                          disabled={updatingId === row.user_id}
+                          onClick={() => setAccess(row, !row.is_active)}
+                          className={`px-3 py-1 text-sm rounded-md border hover:bg-gray-50 disabled:opacity-50 ${row.is_active ? 'text-red-600' : ''}`}
+                        >
+                          {row.is_active ? 'Suspend' : 'Reinstate'}
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                  {assigningId === row.user_id && (
+                    <tr>
+                      <td colSpan={6} className="bg-gray-50 px-4 py-2">
+                        <div className="flex flex-col md:flex-row gap-2">
+                          <input
+                            autoFocus
+                            value={collegeName}
+                            onChange={(e) => setCollegeName(e.target.value)}
+                            placeholder="College name, exactly as students enter it"
+                            className="flex-1 rounded-md border px-3 py-1 text-sm"
+                          />
+                          <button
+                            disabled={updatingId === row.user_id}
+                            onClick={() => makeCoordinator(row)}
+                            className="px-3 py-1 text-sm rounded-md bg-purple-600 text-white hover:bg-purple-700 disabled:opacity-50"
+                          >
+                            Assign
+                          </button>
+                          <button onClick={() => setAssigningId(null)} className="px-3 py-1 text-sm rounded-md border hover:bg-gray-50">
+                            Cancel
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  )}
+                </React.Fragment>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
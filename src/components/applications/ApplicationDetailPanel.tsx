@@ -0,0 +1,369 @@
+import React, { useState } from 'react';
+import { AnimatePresence, motion } from 'framer-motion';
+import {
+  XMarkIcon,
+  BuildingOfficeIcon,
+  CalendarDaysIcon,
+  MapPinIcon,
+  PencilSquareIcon,
+  TrashIcon,
+  PaperClipIcon,
+} from '@heroicons/react/24/outline';
+import type { ApplicationWithDetails } from '../../types';
+import { useApplicationInterviews } from '../../hooks/useInterviews';
+import { useApplicationNotes } from '../../hooks/useApplicationNotes';
+import { useStatusHistory } from '../../hooks/useStatusHistory';
+import { StatusTimeline } from './StatusTimeline';
+import { canStudentMoveToLane, getTrackerLane } from '../../utils/applicationStatus';
+import type { TrackerLane } from '../../utils/applicationStatus';
+import {
+  formatApplicationStatus,
+  formatDate,
+  formatDuration,
+  formatStipend,
+  getStatusColor,
+} from '../../utils/formatting';
+
+interface ApplicationDetailPanelProps {
+  application: ApplicationWithDetails | null;
+  studentId: string | null;
+  onClose: () => void;
+  onMove: (application: ApplicationWithDetails, lane: TrackerLane) => void;
+}
+
+const PANEL_ACTIONS: { lane: TrackerLane; label: string; className: string }[] = [
+  { lane: 'submitted', label: 'Submit Application', className: 'bg-purple-600 text-white hover:bg-purple-700' },
+  { lane: 'offer_accepted', label: 'Accept Offer', className: 'bg-green-600 text-white hover:bg-green-700' },
+  { lane: 'offer_declined', label: 'Decline Offer', className: 'border hover:bg-gray-50' },
+  { lane: 'selected', label: 'Undo Offer Decision', className: 'border hover:bg-gray-50' },
+  { lane: 'withdrawn', label: 'Withdraw', className: 'border text-red-600 hover:bg-red-50' },
+];
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+const formatAnswer = (value: unknown) => {
+  if (value == null || value === '') return '—';
+  if (Array.isArray(value)) return value.join(', ');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+export const ApplicationDetailPanel: React.FC<ApplicationDetailPanelProps> = ({
+  application,
+  studentId,
+  onClose,
+  onMove,
+}) => {
+  const applicationId = application?.application_id ?? null;
+  const { interviews } = useApplicationInterviews(applicationId);
+  const { history, loading: historyLoading } = useStatusHistory(
+    applicationId ? [applicationId] : [],
+    application ? `${application.status}:${application.status_updated_at}` : null,
+  );
+  const { notes, loading: notesLoading, addNote, updateNote, deleteNote } = useApplicationNotes(applicationId, studentId);
+  const [draftNote, setDraftNote] = useState('');
+  const [editingNoteId, setEditingNoteId] = useState<string | null>(null);
+  const [editingBody, setEditingBody] = useState('');
+
+  const handleAddNote = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await addNote(draftNote)) setDraftNote('');
+  };
+
+  const handleSaveEdit = async (noteId: string) => {
+    if (await updateNote(noteId, editingBody)) setEditingNoteId(null);
+  };
+
+  const opportunity = application?.opportunity;
+  const lane = application ? getTrackerLane(application) : null;
+  const answers = Object.entries(application?.answers_to_questions ?? {});
+
+  return (
+    <AnimatePresence>
+      {application && opportunity && (
+        <motion.div
+          key="application-panel-overlay"
+          className="fixed inset-0 z-[110] flex justify-end bg-black/40"
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          onClick={onClose}
+        >
+          <motion.aside
+            key="application-panel"
+            className="h-full w-full max-w-lg overflow-y-auto bg-white shadow-2xl"
+            initial={{ x: '100%' }}
+            animate={{ x: 0 }}
+            exit={{ x: '100%' }}
+            transition={{ duration: 0.25, ease: 'easeOut' }}
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="sticky top-0 z-10 flex items-start justify-between gap-4 border-b bg-white p-6">
+              <div>
+                <h2 className="text-2xl font-bold text-gray-900">{opportunity.title}</h2>
+                <p className="mt-1 flex items-center gap-1 text-gray-600">
+                  <BuildingOfficeIcon className="h-4 w-4" />
+                  {opportunity.company?.company_name || 'Company'}
+                </p>
+                <div className="mt-3 flex flex-wrap gap-2 text-xs">
+                  <span className={`rounded-md px-2 py-1 ${getStatusColor(application.status)}`}>
+                    {formatApplicationStatus(application.status)}
+                  </span>
+                  {lane === 'offer_accepted' && (
+                    <span className="rounded-md bg-green-100 px-2 py-1 text-green-800">Offer accepted</span>
+                  )}
+                  {lane === 'offer_declined' && (
+                    <span className="rounded-md bg-gray-100 px-2 py-1 text-gray-700">Offer declined</span>
+                  )}
+                </div>
+              </div>
+              <button onClick={onClose} className="rounded-full p-2 text-gray-500 hover:bg-gray-100" aria-label="Close">
+                <XMarkIcon className="h-5 w-5" />
+              </button>
+            </div>
+
+            <div className="space-y-8 p-6">
+              {/* Actions */}
+              {PANEL_ACTIONS.some((action) => canStudentMoveToLane(application, action.lane).allowed) && (
+                <div className="flex flex-wrap gap-2">
+                  {PANEL_ACTIONS.filter((action) => canStudentMoveToLane(application, action.lane).allowed).map(
+                    (action) => (
+                      <button
+                        key={action.lane}
+                        onClick={() => onMove(application, action.lane)}
+                        className={`rounded-md px-3 py-1 text-sm ${action.className}`}
+                      >
+                        {action.label}
+                      </button>
+                    ),
+                  )}
+                </div>
+              )}
+
+              {/* Opportunity */}
+              <section className="space-y-3">
+                <h3 className="text-sm font-semibold uppercase tracking-wide text-gray-500">Opportunity</h3>
+                <div className="grid grid-cols-2 gap-3 text-sm">
+                  <div>
+                    <p className="text-gray-500">Stipend</p>
+                    <p className="font-medium">
+                      {formatStipend(opportunity.stipend_min, opportunity.stipend_max, opportunity.currency ?? 'INR')}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-gray-500">Duration</p>
+                    <p className="font-medium">{formatDuration(opportunity.duration_months)}</p>
+                  </div>
+                  <div>
+                    <p className="text-gray-500">Work mode</p>
+                    <p className="font-medium">{formatApplicationStatus(opportunity.work_mode)}</p>
+                  </div>
+                  <div>
+                    <p className="text-gray-500">Deadline</p>
+                    <p className="font-medium">
+                      {opportunity.application_deadline ? formatDate(opportunity.application_deadline) : 'No deadline'}
+                    </p>
+                  </div>
+                  {typeof opportunity.location === 'string' && opportunity.location && (
+                    <div className="col-span-2 flex items-center gap-1 text-gray-600">
+                      <MapPinIcon className="h-4 w-4" />
+                      {opportunity.location}
+                    </div>
+                  )}
+                </div>
+              </section>
+
+              {/* Submission */}
+              <section className="space-y-3">
+                <h3 className="text-sm font-semibold uppercase tracking-wide text-gray-500">Your Application</h3>
+                {application.cover_letter ? (
+                  <p className="whitespace-pre-line rounded-lg bg-gray-50 p-3 text-sm text-gray-700">
+                    {application.cover_letter}
+                  </p>
+                ) : (
+                  <p className="text-sm text-gray-500">No cover letter attached.</p>
+                )}
+                {application.additional_documents && application.additional_documents.length > 0 && (
+                  <ul className="space-y-1 text-sm">
+                    {application.additional_documents.map((url) => (
+                      <li key={url}>
+                        <a
+                          href={url}
+                          target="_blank"
+                          rel="noreferrer"
+                          className="flex items-center gap-1 text-purple-600 hover:underline"
+                        >
+                          <PaperClipIcon className="h-4 w-4" />
+                          {decodeURIComponent(url.split('/').pop() || 'Document')}
+                        </a>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                {answers.length > 0 && (
+                  <dl className="space-y-2 text-sm">
+                    {answers.map(([question, answer]) => (
+                      <div key={question}>
+                        <dt className="text-gray-500">{question}</dt>
+                        <dd className="font-medium text-gray-800">{formatAnswer(answer)}</dd>
+                      </div>
+                    ))}
+                  </dl>
+                )}
+              </section>
+
+              {/* Company response */}
+              {(application.feedback_by_company ||
+                application.rejection_reason ||
+                application.offer_letter_url ||
+                application.rating_by_company) && (
+                <section className="space-y-2 text-sm">
+                  <h3 className="text-sm font-semibold uppercase tracking-wide text-gray-500">From the Company</h3>
+                  {application.rating_by_company && <p>Rating: {application.rating_by_company} / 5</p>}
+                  {application.feedback_by_company && <p className="text-gray-700">{application.feedback_by_company}</p>}
+                  {application.rejection_reason && (
+                    <p className="text-red-600">Reason: {application.rejection_reason}</p>
+                  )}
+                  {application.offer_letter_url && (
+                    <a
+                      href={application.offer_letter_url}
+                      target="_blank"
+                      rel="noreferrer"
+                      className="inline-flex items-center gap-1 text-purple-600 hover:underline"
+                    >
+                      <PaperClipIcon className="h-4 w-4" />
+                      Offer letter
+                    </a>
+                  )}
+                </section>
+              )}
+
+              {/* Timeline */}
+              <section className="space-y-3">
+                <h3 className="text-sm font-semibold uppercase tracking-wide text-gray-500">Timeline</h3>
+                <StatusTimeline history={history} loading={historyLoading} />
+              </section>
+
+              {/* Interviews */}
+              {interviews.length > 0 && (
+                <section className="space-y-2">
+                  <h3 className="text-sm font-semibold uppercase tracking-wide text-gray-500">Interview Rounds</h3>
+                  <ul className="space-y-2 text-sm">
+                    {interviews.map((interview) => (
+                      <li key={interview.interview_id} className="flex items-start justify-between rounded-lg border p-3">
+                        <div>
+                          <p className="font-medium text-gray-800">
+                            Round {interview.round_number} · {formatApplicationStatus(interview.interview_type)}
+                          </p>
+                          <p className="flex items-center gap-1 text-xs text-gray-500">
+                            <CalendarDaysIcon className="h-3 w-3" />
+                            {interview.scheduled_at ? formatDateTime(interview.scheduled_at) : 'Time not set'}
+                          </p>
+                        </div>
+                        <span className={`rounded-md px-2 py-1 text-xs ${getStatusColor(interview.status)}`}>
+                          {formatApplicationStatus(interview.status)}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </section>
+              )}
+
+              {/* Notes */}
+              <section className="space-y-3">
+                <h3 className="text-sm font-semibold uppercase tracking-wide text-gray-500">Private Notes</h3>
+                <form onSubmit={handleAddNote} className="space-y-2">
+                  <textarea
+                    value={draftNote}
+                    onChange={(e) => setDraftNote(e.target.value)}
+                    rows={3}
+                    placeholder="Recruiter names, prep reminders, follow-ups... only you can see these."
+                    className="w-full rounded-md border px-3 py-2 text-sm"
+                  />
+                  <button
+                    type="submit"
+                    disabled={!draftNote.trim()}
+                    className="rounded-md bg-purple-600 px-3 py-1 text-sm text-white hover:bg-purple-700 disabled:opacity-50"
+                  >
+                    Add Note
+                  </button>
+                </form>
+
+                {notesLoading && notes.length === 0 ? (
+                  <p className="text-sm text-gray-500">Loading notes...</p>
+                ) : notes.length === 0 ? (
+                  <p className="text-sm text-gray-500">No notes yet.</p>
+                ) : (
+                  <ul className="space-y-2">
+                    {notes.map((note) => (
+                      <li key={note.note_id} className="rounded-lg border p-3 text-sm">
+                        {editingNoteId === note.note_id ? (
+                          <div className="space-y-2">
+                            <textarea
+                              value={editingBody}
+                              onChange={(e) => setEditingBody(e.target.value)}
+                              rows={3}
+                              className="w-full rounded-md border px-3 py-2"
+                            />
+                            <div className="flex gap-2">
+                              <button
+                                onClick={() => handleSaveEdit(note.note_id)}
+                                disabled={!editingBody.trim()}
+                                className="rounded-md bg-purple-600 px-3 py-1 text-white hover:bg-purple-700 disabled:opacity-50"
+                              >
+                                Save
+                              </button>
+                              <button
+                                onClick={() => setEditingNoteId(null)}
+                                className="rounded-md border px-3 py-1 hover:bg-gray-50"
+                              >
+                                Cancel
+                              </button>
+                            </div>
+                          </div>
+                        ) : (
+                          <>
+                            <p className="whitespace-pre-line text-gray-800">{note.body}</p>
+                            <div className="mt-2 flex items-center justify-between text-xs text-gray-400">
+                              <span>{formatDateTime(note.updated_at || note.created_at)}</span>
+                              <div className="flex gap-2">
+                                <button
+                                  onClick={() => {
+                                    setEditingNoteId(note.note_id);
+                                    setEditingBody(note.body);
+                                  }}
+                                  className="hover:text-purple-600"
+                                  aria-label="Edit note"
+                                >
+                                  <PencilSquareIcon className="h-4 w-4" />
+                                </button>
+                                <button
+                                  onClick={() => deleteNote(note.note_id)}
+                                  className="hover:text-red-600"
+                                  aria-label="Delete note"
+                                >
+                                  <TrashIcon className="h-4 w-4" />
+                                </button>
+                              </div>
+                            </div>
+                          </>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </section>
+            </div>
+          </motion.aside>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
@@ -1,29 +1,38 @@
 import React, { useState, useEffect, useMemo } from 'react';
+import toast from 'react-hot-toast';
 import { supabase } from '../../lib/supabase';
 import { useAuthStore } from '../../stores/authStore';
+import { useUpcomingInterviews } from '../../hooks/useInterviews';
+import type { ApplicationWithDetails, UpcomingInterview } from '../../types';
+import { canStudentMoveToLane, getTrackerLane } from '../../utils/applicationStatus';
+import type { TrackerLane } from '../../utils/applicationStatus';
+import { ApplicationDetailPanel } from './ApplicationDetailPanel';
 import { motion } from 'framer-motion';
 
-interface Application {
-  application_id: string;
-  title: string;
-  company_name: string;
-  status: string;
-}
-
-const statusColumns = [
+// Every application_status_enum value has a column; selected offers are split by is_accepted
+const statusColumns: { id: TrackerLane; title: string }[] = [
+  { id: 'draft', title: 'Draft' },
   { id: 'submitted', title: 'Submitted' },
   { id: 'under_review', title: 'Under Review' },
   { id: 'shortlisted', title: 'Shortlisted' },
-  { id: 'interview_scheduled', title: 'Interview' },
-  { id: 'selected', title: 'Selected' },
+  { id: 'interview_scheduled', title: 'Interview Scheduled' },
+  { id: 'interviewed', title: 'Interviewed' },
+  { id: 'selected', title: 'Offer Received' },
+  { id: 'offer_accepted', title: 'Offer Accepted' },
+  { id: 'offer_declined', title: 'Offer Declined' },
   { id: 'rejected', title: 'Rejected' },
+  { id: 'withdrawn', title: 'Withdrawn' },
 ];
 
 export const ApplicationTrackerPage: React.FC = () => {
-  const { user } = useAuthStore();
-  const [applications, setApplications] = useState<Application[]>([]);
+  const { user, studentId } = useAuthStore();
+  const { interviews: upcomingInterviews } = useUpcomingInterviews(studentId, 50);
+  const [applications, setApplications] = useState<ApplicationWithDetails[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dragOverLane, setDragOverLane] = useState<TrackerLane | null>(null);
 
   useEffect(() => {
     const fetchApplications = async () => {
@@ -52,39 +61,19 @@ export const ApplicationTrackerPage: React.FC = () => {
         const { data, error: appError } = await supabase
           .from('applications')
           .select(`
-            application_id,
-            status,
-            opportunities (
-              title,
-              companies (
-                company_name
-              )
+            *,
+            opportunity:opportunities (
+              *,
+              company:companies (*)
             )
           `)
-          .eq('student_id', studentData.student_id);
+          .eq('student_id', studentData.student_id)
+          .order('updated_at', { ascending: false })
+          .returns<ApplicationWithDetails[]>();
 
         if (appError) throw appError;
 
-        // Fixed: Properly type the data transformation
-        interface ApplicationData {
-          application_id: string;
-          status: string;
-          opportunities?: {
-            title?: string;
-            companies?: {
-              company_name?: string;
-            };
-          };
-        }
-
-        const formatted = (data as ApplicationData[] || []).map((item) => ({
-          application_id: item.application_id,
-          title: item.opportunities?.title || 'N/A',
-          company_name: item.opportunities?.companies?.company_name || 'N/A',
-          status: item.status,
-        }));
-        
-        setApplications(formatted);
+        setApplications(data ?? []);
         return studentData.student_id;
       } catch (err) {
         // Fixed: Properly handle the error type
@@ -141,11 +130,76 @@ export const ApplicationTrackerPage: React.FC = () => {
     
   const applicationsByStatus = useMemo(() => {
     return statusColumns.reduce((acc, column) => {
-      acc[column.id] = applications.filter(app => app.status === column.id);
+      acc[column.id] = applications.filter(app => getTrackerLane(app) === column.id);
       return acc;
-    }, {} as Record<string, Application[]>);
+    }, {} as Record<TrackerLane, ApplicationWithDetails[]>);
   }, [applications]);
 
+  const selectedApplication = applications.find(app => app.application_id === selectedId) ?? null;
+  const draggingApplication = applications.find(app => app.application_id === draggingId) ?? null;
+
+  const moveApplication = async (application: ApplicationWithDetails, lane: TrackerLane) => {
+    const check = canStudentMoveToLane(application, lane);
+    if (!check.allowed) {
+      if (check.reason) toast.error(check.reason);
+      return;
+    }
+
+    if (lane === 'withdrawn' && !window.confirm(`Withdraw your application for ${application.opportunity?.title ?? 'this role'}? This cannot be undone.`)) {
+      return;
+    }
+
+    const patch =
+      lane === 'offer_accepted' || lane === 'offer_declined' || (lane === 'selected' && application.status === 'selected')
+        ? { is_accepted: lane === 'offer_accepted' ? true : lane === 'offer_declined' ? false : null }
+        : lane === 'submitted'
+          ? { status: lane, applied_date: new Date().toISOString() }
+          : { status: lane as ApplicationWithDetails['status'] };
+
+    const previous = applications;
+    setApplications(prev =>
+      prev.map(app => (app.application_id === application.application_id ? { ...app, ...patch } : app)),
+    );
+
+    const { error: updateError } = await supabase
+      .from('applications')
+      .update(patch)
+      .eq('application_id', application.application_id);
+
+    if (updateError) {
+      console.error('Failed to update application:', updateError);
+      setApplications(previous);
+      toast.error(updateError.message || 'Could not update application');
+      return;
+    }
+
+    toast.success(`Moved to ${statusColumns.find(column => column.id === lane)?.title ?? lane}`);
+  };
+
+  const handleDrop = (lane: TrackerLane) => {
+    setDragOverLane(null);
+    setDraggingId(null);
+    if (draggingApplication) {
+      moveApplication(draggingApplication, lane);
+    }
+  };
+
+  // Interviews arrive sorted by time, so the first one seen per application is the next round
+  const nextInterviewByApplication = useMemo(() => {
+    const map = new Map<string, UpcomingInterview>();
+    upcomingInterviews.forEach((interview) => {
+      if (!map.has(interview.application_id)) {
+        map.set(interview.application_id, interview);
+      }
+    });
+    return map;
+  }, [upcomingInterviews]);
+
+  const formatNextRound = (interview?: UpcomingInterview) =>
+    interview?.scheduled_at
+      ? `Round ${interview.round_number} · ${new Date(interview.scheduled_at).toLocaleString()}`
+      : null;
+
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -165,7 +219,8 @@ export const ApplicationTrackerPage: React.FC = () => {
             Application Tracker
           </h1>
           <p className="text-lg text-gray-600 mb-8">
-            Manage and track all your job applications in one place.
+            Manage and track all your job applications in one place. Drag a card to submit a draft,
+            withdraw, or record your decision on an offer.
           </p>
         </motion.div>
         
@@ -180,49 +235,98 @@ export const ApplicationTrackerPage: React.FC = () => {
         )}
         
         <div className="flex space-x-4 overflow-x-auto pb-4">
-          {statusColumns.map((column, index) => (
-            <div 
-              key={column.id} 
-              className="bg-gray-100 rounded-xl w-72 flex-shrink-0"
-            >
-              <div className="p-4 border-b border-gray-200">
-                <h2 className="font-semibold text-gray-800 flex items-center gap-2">
-                  {column.title}
-                  <span className="text-sm font-normal text-gray-500 bg-gray-200 rounded-full px-2">
-                    {applicationsByStatus[column.id]?.length || 0}
-                  </span>
-                </h2>
-              </div>
+          {statusColumns.map((column, index) => {
+            const isDropTarget = draggingApplication ? canStudentMoveToLane(draggingApplication, column.id).allowed : false;
+            return (
+              <div 
+                key={column.id} 
+                onDragOver={(e) => {
+                  if (!isDropTarget) return;
+                  e.preventDefault();
+                  setDragOverLane(column.id);
+                }}
+                onDragLeave={() => setDragOverLane(current => (current === column.id ? null : current))}
+                onDrop={(e) => {
+                  e.preventDefault();
+                  handleDrop(column.id);
+                }}
+                className={`bg-gray-100 rounded-xl w-72 flex-shrink-0 transition-all ${
+                  dragOverLane === column.id
+                    ? 'ring-2 ring-purple-500 bg-purple-50'
+                    : isDropTarget
+                      ? 'ring-2 ring-purple-200'
+                      : draggingApplication
+                        ? 'opacity-60'
+                        : ''
+                }`}
+              >
+                <div className="p-4 border-b border-gray-200">
+                  <h2 className="font-semibold text-gray-800 flex items-center gap-2">
+                    {column.title}
+                    <span className="text-sm font-normal text-gray-500 bg-gray-200 rounded-full px-2">
+                      {applicationsByStatus[column.id]?.length || 0}
+                    </span>
+                  </h2>
+                </div>
               
-              <div className="p-4 space-y-4 h-[60vh] overflow-y-auto">
-                {applicationsByStatus[column.id] && applicationsByStatus[column.id].length > 0 ? (
-                  applicationsByStatus[column.id].map((app, appIndex) => (
-                    <motion.div
-                      key={app.application_id}
-                      layout
-                      initial={{ opacity: 0, y: 20 }}
-                      animate={{ opacity: 1, y: 0 }}
-                      transition={{ delay: (index * 0.1) + (appIndex * 0.05) }}
-                      className="bg-white p-4 rounded-lg shadow-sm border border-gray-200/80 cursor-pointer hover:shadow-md hover:border-purple-300 transition-all"
-                    >
-                      <h3 className="font-semibold text-gray-900 mb-1">
-                        {app.title}
-                      </h3>
-                      <p className="text-sm text-gray-600">
-                        {app.company_name}
-                      </p>
-                    </motion.div>
-                  ))
-                ) : (
-                  <div className="text-center text-sm text-gray-400 pt-10">
-                    No applications in this stage.
-                  </div>
-                )}
+                <div className="p-4 space-y-4 h-[60vh] overflow-y-auto">
+                  {applicationsByStatus[column.id] && applicationsByStatus[column.id].length > 0 ? (
+                    applicationsByStatus[column.id].map((app, appIndex) => (
+                      <motion.div
+                        key={app.application_id}
+                        layout
+                        initial={{ opacity: 0, y: 20 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        transition={{ delay: (index * 0.1) + (appIndex * 0.05) }}
+                      >
+                        <div
+                          draggable
+                          onDragStart={(e) => {
+                            e.dataTransfer.effectAllowed = 'move';
+                            e.dataTransfer.setData('text/plain', app.application_id);
+                            setDraggingId(app.application_id);
+                          }}
+                          onDragEnd={() => {
+                            setDraggingId(null);
+                            setDragOverLane(null);
+                          }}
+                          onClick={() => setSelectedId(app.application_id)}
+                          className={`bg-white p-4 rounded-lg shadow-sm border border-gray-200/80 cursor-pointer hover:shadow-md hover:border-purple-300 transition-all ${
+                            draggingId === app.application_id ? 'opacity-50' : ''
+                          }`}
+                        >
+                          <h3 className="font-semibold text-gray-900 mb-1">
+                            {app.opportunity?.title || 'N/A'}
+                          </h3>
+                          <p className="text-sm text-gray-600">
+                            {app.opportunity?.company?.company_name || 'N/A'}
+                          </p>
+                          {formatNextRound(nextInterviewByApplication.get(app.application_id)) && (
+                            <p className="mt-2 text-xs font-medium text-purple-700 bg-purple-50 rounded-md px-2 py-1">
+                              {formatNextRound(nextInterviewByApplication.get(app.application_id))}
+                            </p>
+                          )}
+                        </div>
+                      </motion.div>
+                    ))
+                  ) : (
+                    <div className="text-center text-sm text-gray-400 pt-10">
+                      No applications in this stage.
+                    </div>
+                  )}
+                </div>
               </div>
-            </div>
-          ))}
+            );
+          })}
         </div>
       </div>
+
+      <ApplicationDetailPanel
+        application={selectedApplication}
+        studentId={studentId}
+        onClose={() => setSelectedId(null)}
+        onMove={moveApplication}
+      />
     </div>
   );
 };
\ No newline at end of file
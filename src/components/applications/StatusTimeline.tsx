@@ -0,0 +1,74 @@
+import React, { useMemo } from 'react';
+import type { ApplicationStatusChange } from '../../types';
+import { getStageDurations } from '../../utils/applicationStatus';
+import { formatApplicationStatus, formatElapsed, getStatusColor } from '../../utils/formatting';
+
+interface StatusTimelineProps {
+  history: ApplicationStatusChange[];
+  loading?: boolean;
+  /** Companies see who made each move; students only see the move itself. */
+  showActor?: boolean;
+}
+
+const ACTOR_LABELS: Record<ApplicationStatusChange['actor_type'], string> = {
+  student: 'Candidate',
+  company: 'Recruiter',
+  system: 'Automatic',
+};
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+export const StatusTimeline: React.FC<StatusTimelineProps> = ({ history, loading = false, showActor = false }) => {
+  const stages = useMemo(() => getStageDurations(history), [history]);
+
+  if (loading && history.length === 0) {
+    return <p className="text-sm text-gray-500">Loading history...</p>;
+  }
+
+  if (history.length === 0) {
+    return <p className="text-sm text-gray-500">No status changes recorded yet.</p>;
+  }
+
+  const ordered = [...history].sort((a, b) => new Date(a.changed_at).getTime() - new Date(b.changed_at).getTime());
+
+  return (
+    <ol className="relative ml-2 space-y-4 border-l border-gray-200">
+      {ordered.map((change, index) => {
+        const stage = stages[index];
+        return (
+          <li key={change.history_id} className="ml-4">
+            <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border-2 border-white bg-purple-500" />
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              {change.from_status && (
+                <>
+                  <span className="text-gray-500">{formatApplicationStatus(change.from_status)}</span>
+                  <span className="text-gray-400">→</span>
+                </>
+              )}
+              <span className={`rounded-md px-2 py-0.5 text-xs ${getStatusColor(change.to_status)}`}>
+                {formatApplicationStatus(change.to_status)}
+              </span>
+            </div>
+            <p className="text-xs text-gray-400">
+              {formatDateTime(change.changed_at)}
+              {showActor && ` · ${ACTOR_LABELS[change.actor_type]}`}
+            </p>
+            {change.reason && <p className="text-xs text-gray-600">Reason: {change.reason}</p>}
+            {stage && (
+              <p className="text-xs text-gray-500">
+                {stage.exitedAt ? 'Spent' : 'In stage for'} {formatElapsed(stage.durationMs)}
+              </p>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
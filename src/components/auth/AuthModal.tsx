@@ -1,5 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
+import { useNavigate } from 'react-router-dom';
 import { XMarkIcon, EyeIcon, EyeSlashIcon, ArrowRightIcon, UserIcon } from '@heroicons/react/24/outline';
 import { useAuthStore } from '../../stores/authStore';
 import toast from 'react-hot-toast';
@@ -25,6 +26,7 @@ export const AuthModal: React.FC<AuthModalProps> = ({ isOpen, onClose, mode, onS
   const [loading, setLoading] = useState(false);
 
   const { signIn, signUp } = useAuthStore();
+  const navigate = useNavigate();
 
   useEffect(() => {
     if (isOpen) {
@@ -222,6 +224,18 @@ export const AuthModal: React.FC<AuthModalProps> = ({ isOpen, onClose, mode, onS
                                       </motion.button>
                                     ) : <NextButton />}
                                 </div>
+                                {mode === 'signin' && (
+                                  <button
+                                    type="button"
+                                    onClick={() => {
+                                      onClose();
+                                      navigate('/forgot-password');
+                                    }}
+                                    className="mt-3 text-sm text-white/70 hover:text-white hover:underline"
+                                  >
+                                    Forgot password?
+                                  </button>
+                                )}
                             </motion.div>
                         )}
                         {mode === 'signup' && step === 4 && (
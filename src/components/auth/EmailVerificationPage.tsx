@@ -10,27 +10,25 @@ interface EmailVerificationPageProps {
 }
 
 export const EmailVerificationPage: React.FC<EmailVerificationPageProps> = ({ navigateTo }) => {
-  const [isVerified, setIsVerified] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [resendLoading, setResendLoading] = useState(false);
-  const { user } = useAuthStore();
+  const { user, refreshUser } = useAuthStore();
+  const userId = user?.id;
+  // The auth store follows USER_UPDATED / SIGNED_IN, so confirmation in another tab shows up here too
+  const isVerified = Boolean(user?.email_confirmed_at);
 
   useEffect(() => {
     const checkVerification = async () => {
-      if (!user) {
+      if (!userId) {
         navigateTo('/');
         return;
       }
 
       try {
-        // Refresh the user session to get latest verification status
-        const { data: { user: refreshedUser }, error } = await supabase.auth.getUser();
-        if (error) throw error;
-
-        if (refreshedUser?.email_confirmed_at) {
-          setIsVerified(true);
-        }
+        // Refresh the user to get the latest verification status. Right after sign-up
+        // there's no session yet, so a null here just means "still waiting".
+        await refreshUser();
       } catch (err) {
         console.error('Error checking verification:', err);
         setError('Failed to check verification status');
@@ -40,17 +38,7 @@ export const EmailVerificationPage: React.FC<EmailVerificationPageProps> = ({ na
     };
 
     checkVerification();
-
-    // Listen for auth state changes
-    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => {
-      if (event === 'USER_UPDATED' && session?.user?.email_confirmed_at) {
-        setIsVerified(true);
-        setIsLoading(false);
-      }
-    });
-
-    return () => subscription.unsubscribe();
-  }, [user, navigateTo]);
+  }, [userId, navigateTo, refreshUser]);
 
   const handleResendEmail = async () => {
     if (!user?.email) return;
@@ -60,6 +48,7 @@ export const EmailVerificationPage: React.FC<EmailVerificationPageProps> = ({ na
       const { error } = await supabase.auth.resend({
         type: 'signup',
         email: user.email,
+        options: { emailRedirectTo: `${window.location.origin}/verify-email` },
       });
 
       if (error) throw error;
@@ -101,7 +90,7 @@ export const EmailVerificationPage: React.FC<EmailVerificationPageProps> = ({ na
             Your email has been successfully verified. You can now access all features of TrackIntern.
           </p>
           <motion.button
-            onClick={() => navigateTo('/dashboard')}
+            onClick={() => navigateTo('/')}
             whileHover={{ scale: 1.05 }}
             whileTap={{ scale: 0.95 }}
             className="px-8 py-3 bg-gradient-to-r from-green-600 to-emerald-600 text-white font-bold rounded-full hover:shadow-lg focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-offset-2"
@@ -1,9 +1,18 @@
 import React from 'react';
-import { Navigate, Outlet } from 'react-router-dom';
+import { Navigate, Outlet, useLocation } from 'react-router-dom';
 import { useAuthStore } from '../../stores/authStore';
+import { needsOnboarding } from '../../utils/onboarding';
+import { getHomePath } from '../../utils/roles';
+import type { UserType } from '../../types';
 
-export const ProtectedRoute: React.FC = () => {
-  const { user, loading } = useAuthStore();
+interface Props {
+  /** Account types allowed through; anyone else is sent to their own home page. */
+  roles?: UserType[];
+}
+
+export const ProtectedRoute: React.FC<Props> = ({ roles }) => {
+  const { user, loading, passwordRecovery, userType, profile, companyProfile } = useAuthStore();
+  const location = useLocation();
 
   if (loading) {
     return (
@@ -17,7 +26,27 @@ export const ProtectedRoute: React.FC = () => {
   }
 
   if (!user) {
-    return <Navigate to="/" replace />;
+    // App reopens the sign-in modal and sends the user back here afterwards
+    return <Navigate to="/" replace state={{ from: `${location.pathname}${location.search}` }} />;
+  }
+
+  // A recovery link signs the user in, but only to choose a new password
+  if (passwordRecovery) {
+    return <Navigate to="/reset-password" replace />;
+  }
+
+  if (!user.email_confirmed_at) {
+    return <Navigate to="/verify-email" replace />;
+  }
+
+  // Dashboards assume a profile row with the basics filled in
+  if (location.pathname !== '/onboarding' && needsOnboarding(userType, profile, companyProfile)) {
+    return <Navigate to="/onboarding" replace />;
+  }
+
+  // Accounts without a type fall back to the student experience, as before
+  if (roles && !roles.includes(userType ?? 'student')) {
+    return <Navigate to={getHomePath(userType)} replace />;
   }
 
   return <Outlet />;
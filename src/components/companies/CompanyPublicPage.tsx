@@ -0,0 +1,208 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { BuildingOffice2Icon, GlobeAltIcon, MapPinIcon, CheckBadgeIcon } from '@heroicons/react/24/outline';
+import { supabase } from '../../lib/supabase';
+import { fetchCompanyHiringStats } from '../../lib/hiringStats';
+import type { Company, CompanyHiringStats, OpportunityRecord } from '../../types';
+import { COMPANY_SIZES, parseCompanyCulture } from '../../utils/companyForm';
+import { formatDeadlineCountdown, formatStipend, formatWorkMode } from '../../utils/formatting';
+
+type CompanyOpportunity = Pick<
+  OpportunityRecord,
+  | 'opportunity_id'
+  | 'title'
+  | 'type'
+  | 'work_mode'
+  | 'location'
+  | 'stipend_min'
+  | 'stipend_max'
+  | 'currency'
+  | 'application_deadline'
+  | 'status'
+  | 'created_at'
+>;
+
+const StatTile: React.FC<{ label: string; value: number | string }> = ({ label, value }) => (
+  <div className="rounded-xl border border-gray-200 bg-white p-4">
+    <div className="text-2xl font-semibold text-gray-900">{value}</div>
+    <div className="text-sm text-gray-500">{label}</div>
+  </div>
+);
+
+const TagList: React.FC<{ items: string[] }> = ({ items }) => (
+  <div className="flex flex-wrap gap-2">
+    {items.map((item) => (
+      <span key={item} className="rounded-md bg-purple-50 px-2 py-1 text-sm text-purple-700">
+        {item}
+      </span>
+    ))}
+  </div>
+);
+
+export const CompanyPublicPage: React.FC = () => {
+  const { id } = useParams();
+  const [company, setCompany] = useState<Company | null>(null);
+  const [opportunities, setOpportunities] = useState<CompanyOpportunity[]>([]);
+  const [stats, setStats] = useState<CompanyHiringStats | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let isSubscribed = true;
+
+    const load = async () => {
+      if (!id) return;
+      setLoading(true);
+      const [companyResult, opportunitiesResult, statsResult] = await Promise.all([
+        supabase.from('companies').select('*').eq('company_id', id).returns<Company[]>().maybeSingle(),
+        supabase
+          .from('opportunities')
+          .select('opportunity_id, title, type, work_mode, location, stipend_min, stipend_max, currency, application_deadline, status, created_at')
+          .eq('company_id', id)
+          .eq('status', 'active')
+          .order('created_at', { ascending: false })
+          .returns<CompanyOpportunity[]>(),
+        // Closed postings are hidden by RLS, so the totals are counted server-side
+        fetchCompanyHiringStats(id).catch((error: unknown) => {
+          console.error('Failed to load company hiring stats:', error);
+          return null;
+        }),
+      ]);
+      if (!isSubscribed) return;
+
+      if (companyResult.error) console.error('Failed to load company:', companyResult.error);
+      if (opportunitiesResult.error) console.error('Failed to load company opportunities:', opportunitiesResult.error);
+      setCompany(companyResult.data ?? null);
+      setOpportunities(opportunitiesResult.data ?? []);
+      setStats(statsResult);
+      setLoading(false);
+    };
+    load();
+
+    return () => {
+      isSubscribed = false;
+    };
+  }, [id]);
+
+  if (loading) {
+    return <div className="max-w-5xl mx-auto px-4 py-10 text-gray-500">Loading...</div>;
+  }
+
+  if (!company) {
+    return (
+      <div className="max-w-5xl mx-auto px-4 py-10">
+        <p className="text-gray-600">This company could not be found.</p>
+        <Link to="/opportunities" className="text-purple-600 hover:underline">Browse opportunities</Link>
+      </div>
+    );
+  }
+
+  const culture = parseCompanyCulture(company.company_culture);
+  const sizeLabel = COMPANY_SIZES.find((size) => size.value === company.company_size)?.label;
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 py-10 space-y-8">
+      <div className="flex items-start gap-5">
+        <div className="flex h-20 w-20 shrink-0 items-center justify-center rounded-2xl border border-gray-200 bg-white text-2xl font-semibold text-gray-400">
+          {company.logo_url ? (
+            <img src={company.logo_url} alt={`${company.company_name} logo`} className="h-full w-full rounded-2xl object-contain" />
+          ) : (
+            company.company_name.charAt(0)
+          )}
+        </div>
+        <div className="space-y-2">
+          <h1 className="flex items-center gap-2 text-3xl font-semibold tracking-tight">
+            {company.company_name}
+            {company.is_verified && <CheckBadgeIcon className="h-6 w-6 text-purple-600" title="Verified company" />}
+          </h1>
+          <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm text-gray-600">
+            {company.industry && (
+              <span className="flex items-center gap-1">
+                <BuildingOffice2Icon className="h-4 w-4" />
+                {company.industry}
+                {sizeLabel && ` · ${sizeLabel}`}
+                {company.employee_count_range && ` · ${company.employee_count_range} employees`}
+              </span>
+            )}
+            {company.headquarters_location && (
+              <span className="flex items-center gap-1">
+                <MapPinIcon className="h-4 w-4" />
+                {company.headquarters_location}
+              </span>
+            )}
+            {company.website_url && (
+              <a href={company.website_url} target="_blank" rel="noopener noreferrer" className="flex items-center gap-1 text-purple-600 hover:underline">
+                <GlobeAltIcon className="h-4 w-4" />
+                Website
+              </a>
+            )}
+            {company.linkedin_url && (
+              <a href={company.linkedin_url} target="_blank" rel="noopener noreferrer" className="text-purple-600 hover:underline">
+                LinkedIn
+              </a>
+            )}
+            {company.founded_year && <span>Founded {company.founded_year}</span>}
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <StatTile label="Open roles" value={stats?.open_roles ?? opportunities.length} />
+        <StatTile label="Roles posted" value={stats?.roles_posted ?? '—'} />
+        <StatTile label="Hired through TrackIntern" value={stats?.hired ?? '—'} />
+        <StatTile label="Applications received" value={stats?.applications ?? '—'} />
+      </div>
+
+      {company.company_description && (
+        <section className="space-y-2">
+          <h2 className="text-lg font-semibold text-gray-900">About</h2>
+          <p className="whitespace-pre-line text-gray-700">{company.company_description}</p>
+        </section>
+      )}
+
+      {(company.tech_stack ?? []).length > 0 && (
+        <section className="space-y-2">
+          <h2 className="text-lg font-semibold text-gray-900">Tech Stack</h2>
+          <TagList items={company.tech_stack ?? []} />
+        </section>
+      )}
+
+      {(culture.summary || (culture.values ?? []).length > 0) && (
+        <section className="space-y-2">
+          <h2 className="text-lg font-semibold text-gray-900">Culture</h2>
+          {culture.summary && <p className="text-gray-700">{culture.summary}</p>}
+          {(culture.values ?? []).length > 0 && <TagList items={culture.values ?? []} />}
+        </section>
+      )}
+
+      {(company.benefits_offered ?? []).length > 0 && (
+        <section className="space-y-2">
+          <h2 className="text-lg font-semibold text-gray-900">Benefits</h2>
+          <TagList items={company.benefits_offered ?? []} />
+        </section>
+      )}
+
+      <section className="space-y-3">
+        <h2 className="text-lg font-semibold text-gray-900">Open Opportunities</h2>
+        {opportunities.length === 0 ? (
+          <p className="text-gray-600">No open roles right now.</p>
+        ) : (
+          <div className="grid gap-4">
+            {opportunities.map((opp) => (
+              <div key={opp.opportunity_id} className="border rounded-lg p-4 bg-white">
+                <div className="font-medium text-lg">{opp.title}</div>
+                <div className="text-sm text-gray-600">
+                  {formatWorkMode(opp.work_mode)}
+                  {opp.location && ` • ${opp.location}`}
+                  {(opp.stipend_min || opp.stipend_max) && ` • ${formatStipend(opp.stipend_min, opp.stipend_max, opp.currency ?? 'INR')}`}
+                </div>
+                {opp.application_deadline && (
+                  <div className="text-xs text-gray-500 mt-1">{formatDeadlineCountdown(opp.application_deadline)}</div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </section>
+    </div>
+  );
+};
@@ -1,14 +1,95 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { useParams } from 'react-router-dom';
+import toast from 'react-hot-toast';
 import { supabase } from '@/lib/supabase';
-import type { Application, StudentProfile } from '@/types';
+import type { Application, ApplicationStatus, ApplicationStatusChange, CustomQuestion, JsonValue, StudentProfile } from '@/types';
+import {
+  APPLICATION_STATUSES,
+  canTransition,
+  getAllowedTransitions,
+  getAverageTimeInStage,
+  getStageDurations,
+} from '@/utils/applicationStatus';
+import { formatApplicationStatus, formatElapsed, getStatusColor } from '@/utils/formatting';
+import { formatCustomQuestionAnswer, parseCustomQuestions } from '@/utils/customQuestions';
+import { useStatusHistory } from '@/hooks/useStatusHistory';
+import { StatusTimeline } from '@/components/applications/StatusTimeline';
+import { InterviewScheduler } from './InterviewScheduler';
 
 type Applicant = Application & { student: Pick<StudentProfile, 'student_id' | 'full_name' | 'college_name' | 'skills' | 'resume_url'> };
 
+interface StatusChangeDetails {
+  rejectionReason: string;
+  feedback: string;
+  rating: number | null;
+}
+
+const EMPTY_DETAILS: StatusChangeDetails = { rejectionReason: '', feedback: '', rating: null };
+
+const COMPANY_TARGET_STATUSES: ApplicationStatus[] = [
+  'under_review',
+  'shortlisted',
+  'interview_scheduled',
+  'interviewed',
+  'selected',
+  'rejected',
+];
+
+const INTERVIEW_STAGE_STATUSES = new Set<ApplicationStatus>(['shortlisted', 'interview_scheduled', 'interviewed']);
+
+const StatusChangeFields: React.FC<{
+  target: ApplicationStatus | '';
+  details: StatusChangeDetails;
+  onChange: (details: StatusChangeDetails) => void;
+}> = ({ target, details, onChange }) => (
+  <div className="grid gap-2 md:grid-cols-3">
+    {target === 'rejected' && (
+      <input
+        value={details.rejectionReason}
+        onChange={(e) => onChange({ ...details, rejectionReason: e.target.value })}
+        placeholder="Rejection reason"
+        className="rounded-md border px-3 py-1 text-sm md:col-span-3"
+      />
+    )}
+    <textarea
+      value={details.feedback}
+      onChange={(e) => onChange({ ...details, feedback: e.target.value })}
+      placeholder="Feedback for the candidate (optional)"
+      className="rounded-md border px-3 py-1 text-sm md:col-span-2"
+      rows={2}
+    />
+    <select
+      value={details.rating ?? ''}
+      onChange={(e) => onChange({ ...details, rating: e.target.value ? Number(e.target.value) : null })}
+      className="rounded-md border px-3 py-1 text-sm"
+    >
+      <option value="">No rating</option>
+      {[1, 2, 3, 4, 5].map((r) => (
+        <option key={r} value={r}>{r} / 5</option>
+      ))}
+    </select>
+  </div>
+);
+
 export const ApplicantsPage: React.FC = () => {
   const { id } = useParams();
   const [loading, setLoading] = useState(true);
   const [applicants, setApplicants] = useState<Applicant[]>([]);
+  const [statusFilter, setStatusFilter] = useState<ApplicationStatus | 'all'>('all');
+  const [sortBy, setSortBy] = useState<'applied' | 'fit'>('applied');
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [bulkTarget, setBulkTarget] = useState<ApplicationStatus | ''>('');
+  const [bulkDetails, setBulkDetails] = useState<StatusChangeDetails>(EMPTY_DETAILS);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [rowTarget, setRowTarget] = useState<ApplicationStatus | ''>('');
+  const [rowDetails, setRowDetails] = useState<StatusChangeDetails>(EMPTY_DETAILS);
+  const [saving, setSaving] = useState(false);
+  const [interviewsOpenId, setInterviewsOpenId] = useState<string | null>(null);
+  const [historyOpenId, setHistoryOpenId] = useState<string | null>(null);
+  const [answersOpenId, setAnswersOpenId] = useState<string | null>(null);
+  const [questions, setQuestions] = useState<CustomQuestion[]>([]);
+  // student_id -> the placement cell's note, if any
+  const [nominations, setNominations] = useState<Map<string, string | null>>(new Map());
 
   useEffect(() => {
     const fetchApplicants = async () => {
@@ -18,6 +99,7 @@ export const ApplicantsPage: React.FC = () => {
         .from('applications')
         .select('*, student:students(student_id, full_name, college_name, skills, resume_url)')
         .eq('opportunity_id', id)
+        .neq('status', 'draft')
         .order('applied_date', { ascending: false });
       if (!error && data) setApplicants(data as unknown as Applicant[]);
       setLoading(false);
@@ -25,44 +107,417 @@ export const ApplicantsPage: React.FC = () => {
     fetchApplicants();
   }, [id]);
 
+  useEffect(() => {
+    const fetchQuestions = async () => {
+      if (!id) return;
+      const { data, error } = await supabase
+        .from('opportunities')
+        .select('additional_questions')
+        .eq('opportunity_id', id)
+        .returns<{ additional_questions: JsonValue | null }[]>()
+        .single();
+      if (!error && data) setQuestions(parseCustomQuestions(data.additional_questions));
+    };
+    fetchQuestions();
+  }, [id]);
+
+  useEffect(() => {
+    const fetchNominations = async () => {
+      if (!id) return;
+      const { data, error } = await supabase
+        .from('opportunity_nominations')
+        .select('student_id, note')
+        .eq('opportunity_id', id)
+        .returns<{ student_id: string; note: string | null }[]>();
+      if (!error && data) setNominations(new Map(data.map((n) => [n.student_id, n.note])));
+    };
+    fetchNominations();
+  }, [id]);
+
+  // Interview changes move the application status server-side, so re-read it
+  const refreshApplicantStatus = async (applicationId: string) => {
+    const { data, error } = await supabase
+      .from('applications')
+      .select('status, status_updated_at')
+      .eq('application_id', applicationId)
+      .single();
+    if (!error && data) {
+      setApplicants((prev) => prev.map((a) => (a.application_id === applicationId ? { ...a, ...data } : a)));
+    }
+  };
+
+  const countsByStatus = useMemo(() => {
+    return applicants.reduce((acc, a) => {
+      acc[a.status] = (acc[a.status] ?? 0) + 1;
+      return acc;
+    }, {} as Partial<Record<ApplicationStatus, number>>);
+  }, [applicants]);
+
+  const applicationIds = useMemo(() => applicants.map((a) => a.application_id), [applicants]);
+  // Any status change bumps status_updated_at, which is enough to know the history is stale
+  const historyKey = useMemo(() => applicants.map((a) => a.status_updated_at).join('|'), [applicants]);
+  const { history, loading: historyLoading } = useStatusHistory(applicationIds, historyKey);
+
+  const historyByApplication = useMemo(() => {
+    const map = new Map<string, ApplicationStatusChange[]>();
+    history.forEach((change) => {
+      map.set(change.application_id, [...(map.get(change.application_id) ?? []), change]);
+    });
+    return map;
+  }, [history]);
+
+  const averageTimeInStage = useMemo(() => getAverageTimeInStage(history), [history]);
+
+  const visibleApplicants = useMemo(() => {
+    const matching = statusFilter === 'all' ? applicants : applicants.filter((a) => a.status === statusFilter);
+    if (sortBy === 'applied') return matching;
+    // Unscored applications (submitted before scoring existed) go last
+    return [...matching].sort((a, b) => (b.application_score ?? -1) - (a.application_score ?? -1));
+  }, [applicants, statusFilter, sortBy]);
+
+  // Rows hidden by the status filter stay ticked but are left out of bulk actions
+  const selectedApplicants = useMemo(
+    () => visibleApplicants.filter((a) => selectedIds.has(a.application_id)),
+    [visibleApplicants, selectedIds],
+  );
+
+  const toggleSelected = (applicationId: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(applicationId)) {
+        next.delete(applicationId);
+      } else {
+        next.add(applicationId);
+      }
+      return next;
+    });
+  };
+
+  const toggleSelectAll = () => {
+    setSelectedIds(
+      selectedApplicants.length === visibleApplicants.length
+        ? new Set()
+        : new Set(visibleApplicants.map((a) => a.application_id)),
+    );
+  };
+
+  const applyStatusChange = async (targets: Applicant[], to: ApplicationStatus, details: StatusChangeDetails) => {
+    const legal = targets.filter((a) => canTransition(a.status, to, 'company').allowed);
+    const skipped = targets.length - legal.length;
+
+    if (legal.length === 0) {
+      const reason = targets.length === 1 ? canTransition(targets[0].status, to, 'company').reason : null;
+      toast.error(reason ?? `None of the selected applicants can move to ${formatApplicationStatus(to)}.`);
+      return false;
+    }
+
+    if (to === 'rejected' && !details.rejectionReason.trim()) {
+      toast.error('Please give a rejection reason.');
+      return false;
+    }
+
+    const patch: Partial<Application> = {
+      status: to,
+      status_updated_at: new Date().toISOString(),
+    };
+    if (to === 'rejected') patch.rejection_reason = details.rejectionReason.trim();
+    if (details.feedback.trim()) patch.feedback_by_company = details.feedback.trim();
+    if (details.rating !== null) patch.rating_by_company = details.rating;
+
+    setSaving(true);
+    const ids = legal.map((a) => a.application_id);
+    const { error } = await supabase.from('applications').update(patch).in('application_id', ids);
+    setSaving(false);
+
+    if (error) {
+      console.error('Failed to update application status:', error);
+      toast.error(`Failed to update status: ${error.message}`);
+      return false;
+    }
+
+    const updatedIds = new Set(ids);
+    setApplicants((prev) => prev.map((a) => (updatedIds.has(a.application_id) ? { ...a, ...patch } : a)));
+    toast.success(
+      `Moved ${legal.length} applicant${legal.length === 1 ? '' : 's'} to ${formatApplicationStatus(to)}` +
+        (skipped > 0 ? ` (${skipped} skipped)` : ''),
+    );
+    return true;
+  };
+
+  const handleBulkApply = async () => {
+    if (!bulkTarget) return;
+    if (await applyStatusChange(selectedApplicants, bulkTarget, bulkDetails)) {
+      setSelectedIds(new Set());
+      setBulkTarget('');
+      setBulkDetails(EMPTY_DETAILS);
+    }
+  };
+
+  const startEditing = (applicant: Applicant) => {
+    setEditingId(applicant.application_id);
+    setRowTarget('');
+    setRowDetails({
+      rejectionReason: applicant.rejection_reason ?? '',
+      feedback: applicant.feedback_by_company ?? '',
+      rating: applicant.rating_by_company,
+    });
+  };
+
+  const handleRowApply = async (applicant: Applicant) => {
+    if (!rowTarget) return;
+    if (await applyStatusChange([applicant], rowTarget, rowDetails)) {
+      setEditingId(null);
+    }
+  };
+
   return (
     <div className="max-w-5xl mx-auto px-4 py-8">
       <h1 className="text-2xl font-semibold mb-6">Applicants</h1>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        <button
+          onClick={() => setStatusFilter('all')}
+          className={`px-3 py-1 text-sm rounded-md border ${statusFilter === 'all' ? 'bg-purple-600 text-white border-purple-600' : 'hover:bg-gray-50'}`}
+        >
+          All ({applicants.length})
+        </button>
+        {APPLICATION_STATUSES.filter((s) => s !== 'draft').map((s) => (
+          <button
+            key={s}
+            onClick={() => setStatusFilter(s)}
+            className={`px-3 py-1 text-sm rounded-md border ${statusFilter === s ? 'bg-purple-600 text-white border-purple-600' : 'hover:bg-gray-50'}`}
+          >
+            {formatApplicationStatus(s)} ({countsByStatus[s] ?? 0})
+          </button>
+        ))}
+        <select
+          value={sortBy}
+          onChange={(e) => setSortBy(e.target.value as 'applied' | 'fit')}
+          className="ml-auto rounded-md border px-3 py-1 text-sm"
+          aria-label="Sort applicants"
+        >
+          <option value="applied">Newest first</option>
+          <option value="fit">Best fit first</option>
+        </select>
+      </div>
+
+      {Object.keys(averageTimeInStage).length > 0 && (
+        <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-500 mb-4">
+          <span className="font-medium text-gray-600">Avg. time in stage:</span>
+          {APPLICATION_STATUSES.filter((s) => averageTimeInStage[s] !== undefined).map((s) => (
+            <span key={s}>
+              {formatApplicationStatus(s)} {formatElapsed(averageTimeInStage[s])}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {selectedApplicants.length > 0 && (
+        <div className="border rounded-lg p-4 mb-4 bg-purple-50 space-y-3">
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-sm font-medium">{selectedApplicants.length} selected</span>
+            <select
+              value={bulkTarget}
+              onChange={(e) => setBulkTarget(e.target.value as ApplicationStatus | '')}
+              className="rounded-md border px-3 py-1 text-sm"
+            >
+              <option value="">Move to...</option>
+              {COMPANY_TARGET_STATUSES.map((s) => (
+                <option key={s} value={s}>{formatApplicationStatus(s)}</option>
+              ))}
+            </select>
+            <button
+              disabled={!bulkTarget || saving}
+              onClick={handleBulkApply}
+              className="px-3 py-1 text-sm rounded-md bg-purple-600 text-white hover:bg-purple-700 disabled:opacity-50"
+            >
+              Apply
+            </button>
+            <button onClick={() => setSelectedIds(new Set())} className="px-3 py-1 text-sm rounded-md border hover:bg-gray-50">
+              Clear
+            </button>
+          </div>
+          {bulkTarget && <StatusChangeFields target={bulkTarget} details={bulkDetails} onChange={setBulkDetails} />}
+        </div>
+      )}
+
       {loading ? (
         <p className="text-gray-500">Loading...</p>
-      ) : applicants.length === 0 ? (
+      ) : visibleApplicants.length === 0 ? (
         <div className="text-gray-600">No applicants yet.</div>
       ) : (
         <div className="space-y-4">
-          {applicants.map((a) => (
-            <div key={a.application_id} className="border rounded-lg p-4">
-              <div className="flex items-start justify-between">
-                <div>
-                  <div className="font-medium">{a.student.full_name || 'Unnamed Student'}</div>
-                  <div className="text-sm text-gray-600">{a.student.college_name}</div>
-                  {a.student.skills && (
-                    <div className="flex flex-wrap gap-2 mt-2">
-                      {a.student.skills.map((s) => (
-                        <span key={s} className="text-xs bg-gray-100 px-2 py-1 rounded-md">{s}</span>
-                      ))}
+          <label className="flex items-center gap-2 text-sm text-gray-600">
+            <input
+              type="checkbox"
+              checked={selectedApplicants.length === visibleApplicants.length}
+              onChange={toggleSelectAll}
+            />
+            Select all
+          </label>
+          {visibleApplicants.map((a) => {
+            const nextStatuses = getAllowedTransitions(a.status, 'company');
+            const applicantHistory = historyByApplication.get(a.application_id) ?? [];
+            const stages = getStageDurations(applicantHistory);
+            const currentStage = stages[stages.length - 1];
+            return (
+              <div key={a.application_id} className="border rounded-lg p-4">
+                <div className="flex items-start justify-between">
+                  <div className="flex items-start gap-3">
+                    <input
+                      type="checkbox"
+                      className="mt-1"
+                      checked={selectedIds.has(a.application_id)}
+                      onChange={() => toggleSelected(a.application_id)}
+                    />
+                    <div>
+                      <div className="font-medium">{a.student.full_name || 'Unnamed Student'}</div>
+                      <div className="text-sm text-gray-600">{a.student.college_name}</div>
+                      {(nominations.has(a.student.student_id) || a.college_approved_at) && (
+                        <div className="flex flex-wrap gap-2 mt-1">
+                          {nominations.has(a.student.student_id) && (
+                            <span
+                              className="text-xs bg-purple-50 text-purple-700 px-2 py-0.5 rounded-md"
+                              title={nominations.get(a.student.student_id) ?? undefined}
+                            >
+                              Nominated by placement cell
+                            </span>
+                          )}
+                          {a.college_approved_at && (
+                            <span className="text-xs bg-green-50 text-green-700 px-2 py-0.5 rounded-md">College approved</span>
+                          )}
+                        </div>
+                      )}
+                      {a.student.skills && (
+                        <div className="flex flex-wrap gap-2 mt-2">
+                          {a.student.skills.map((s) => (
+                            <span key={s} className="text-xs bg-gray-100 px-2 py-1 rounded-md">{s}</span>
+                          ))}
+                        </div>
+                      )}
                     </div>
-                  )}
+                  </div>
+                  <div className="text-right space-y-1">
+                    <span className={`inline-block text-xs px-2 py-1 rounded-md ${getStatusColor(a.status)}`}>
+                      {formatApplicationStatus(a.status)}
+                    </span>
+                    <div className="text-sm text-gray-600">
+                      Applied: {new Date(a.applied_date).toLocaleDateString()}
+                    </div>
+                    {a.application_score !== null && (
+                      <div className="text-xs font-medium text-purple-700">Fit: {a.application_score}%</div>
+                    )}
+                    {currentStage && (
+                      <div className="text-xs text-gray-500">In stage for {formatElapsed(currentStage.durationMs)}</div>
+                    )}
+                    {a.rating_by_company && <div className="text-xs text-gray-500">Rating: {a.rating_by_company} / 5</div>}
+                  </div>
                 </div>
-                <div className="text-sm text-gray-600">
-                  Applied: {new Date(a.applied_date).toLocaleDateString()}
+                {a.rejection_reason && a.status === 'rejected' && (
+                  <p className="mt-2 text-sm text-red-600">Reason: {a.rejection_reason}</p>
+                )}
+                {a.feedback_by_company && <p className="mt-2 text-sm text-gray-600">Feedback: {a.feedback_by_company}</p>}
+                <div className="mt-3 flex gap-2">
+                  {a.student.resume_url && (
+                    <a href={a.student.resume_url} target="_blank" rel="noreferrer" className="px-3 py-1 text-sm rounded-md border hover:bg-gray-50">Resume</a>
+                  )}
+                  {INTERVIEW_STAGE_STATUSES.has(a.status) && (
+                    <button
+                      onClick={() => setInterviewsOpenId(interviewsOpenId === a.application_id ? null : a.application_id)}
+                      className="px-3 py-1 text-sm rounded-md border hover:bg-gray-50"
+                    >
+                      {interviewsOpenId === a.application_id ? 'Hide Interviews' : 'Interviews'}
+                    </button>
+                  )}
+                  {questions.length > 0 && (
+                    <button
+                      onClick={() => setAnswersOpenId(answersOpenId === a.application_id ? null : a.application_id)}
+                      className="px-3 py-1 text-sm rounded-md border hover:bg-gray-50"
+                    >
+                      {answersOpenId === a.application_id ? 'Hide Answers' : 'Answers'}
+                    </button>
+                  )}
+                  <button
+                    onClick={() => setHistoryOpenId(historyOpenId === a.application_id ? null : a.application_id)}
+                    className="px-3 py-1 text-sm rounded-md border hover:bg-gray-50"
+                  >
+                    {historyOpenId === a.application_id ? 'Hide History' : 'History'}
+                  </button>
+                  {nextStatuses.length > 0 && editingId !== a.application_id && (
+                    <button onClick={() => startEditing(a)} className="px-3 py-1 text-sm rounded-md border hover:bg-gray-50">
+                      Change Status
+                    </button>
+                  )}
                 </div>
-              </div>
-              <div className="mt-3 flex gap-2">
-                {a.student.resume_url && (
-                  <a href={a.student.resume_url} target="_blank" rel="noreferrer" className="px-3 py-1 text-sm rounded-md border hover:bg-gray-50">Resume</a>
+                {answersOpenId === a.application_id && (
+                  <dl className="mt-3 border-t pt-3 space-y-3">
+                    {questions.map((q) => {
+                      const answer = formatCustomQuestionAnswer(a.answers_to_questions?.[q.id]);
+                      return (
+                        <div key={q.id}>
+                          <dt className="text-sm font-medium text-gray-700">{q.question}</dt>
+                          <dd className="text-sm text-gray-600 whitespace-pre-wrap">
+                            {!answer ? (
+                              <span className="italic text-gray-400">No answer</span>
+                            ) : q.type === 'file' || q.type === 'url' ? (
+                              <a href={answer} target="_blank" rel="noreferrer" className="text-purple-600 hover:underline break-all">
+                                {q.type === 'file' ? 'View file' : answer}
+                              </a>
+                            ) : (
+                              answer
+                            )}
+                          </dd>
+                        </div>
+                      );
+                    })}
+                  </dl>
+                )}
+                {historyOpenId === a.application_id && (
+                  <div className="mt-3 border-t pt-3">
+                    <StatusTimeline history={applicantHistory} loading={historyLoading} showActor />
+                  </div>
+                )}
+                {interviewsOpenId === a.application_id && (
+                  <div className="mt-3 border-t pt-3">
+                    <InterviewScheduler
+                      applicationId={a.application_id}
+                      onChanged={() => refreshApplicantStatus(a.application_id)}
+                    />
+                  </div>
+                )}
+                {editingId === a.application_id && (
+                  <div className="mt-3 space-y-2 border-t pt-3">
+                    <div className="flex flex-wrap gap-2">
+                      {nextStatuses.map((s) => (
+                        <button
+                          key={s}
+                          onClick={() => setRowTarget(s)}
+                          className={`px-3 py-1 text-sm rounded-md border ${rowTarget === s ? 'bg-purple-600 text-white border-purple-600' : 'hover:bg-gray-50'}`}
+                        >
+                          {formatApplicationStatus(s)}
+                        </button>
+                      ))}
+                    </div>
+                    {rowTarget && <StatusChangeFields target={rowTarget} details={rowDetails} onChange={setRowDetails} />}
+                    <div className="flex gap-2">
+                      <button
+                        disabled={!rowTarget || saving}
+                        onClick={() => handleRowApply(a)}
+                        className="px-3 py-1 text-sm rounded-md bg-purple-600 text-white hover:bg-purple-700 disabled:opacity-50"
+                      >
+                        Save
+                      </button>
+                      <button onClick={() => setEditingId(null)} className="px-3 py-1 text-sm rounded-md border hover:bg-gray-50">
+                        Cancel
+                      </button>
+                    </div>
+                  </div>
                 )}
               </div>
-            </div>
-          ))}
+            );
+          })}
         </div>
       )}
     </div>
   );
 };
-
-
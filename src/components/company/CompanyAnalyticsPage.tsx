@@ -0,0 +1,328 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import toast from 'react-hot-toast';
+import { format, subDays } from 'date-fns';
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { supabase } from '@/lib/supabase';
+import type { CompanyFunnelData } from '@/types';
+import { countFunnel, getFunnelComparison, getFunnelStages, getFunnelTrend, getSourceBreakdown } from '@/utils/companyFunnel';
+import { formatPercent } from '@/utils/placementReport';
+import { KpiTile } from '@/components/reports/KpiTile';
+
+// More bars than this per group turns the comparison chart into noise
+const MAX_COMPARED = 5;
+const COMPARE_COLORS = ['#7c3aed', '#c4b5fd', '#0ea5e9', '#f59e0b', '#10b981'];
+const COMPARISON_METRICS: { metric: string; key: 'applyRate' | 'shortlistRate' | 'interviewRate' | 'offerRate' }[] = [
+  { metric: 'View → apply', key: 'applyRate' },
+  { metric: 'Apply → shortlist', key: 'shortlistRate' },
+  { metric: 'Shortlist → interview', key: 'interviewRate' },
+  { metric: 'Apply → offer', key: 'offerRate' },
+];
+const shortLabel = (label: string) => (label.length > 24 ? `${label.slice(0, 23)}…` : label);
+
+export const CompanyAnalyticsPage: React.FC = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [from, setFrom] = useState(() => format(subDays(new Date(), 29), 'yyyy-MM-dd'));
+  const [to, setTo] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+  const [data, setData] = useState<CompanyFunnelData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [compared, setCompared] = useState<string[] | null>(null);
+  // Deep links from the dashboard focus a single posting
+  const selectedId = searchParams.get('opportunity') ?? '';
+
+  useEffect(() => {
+    let isSubscribed = true;
+
+    const load = async () => {
+      if (!from || !to || from > to) return;
+      setLoading(true);
+      const { data: report, error } = await supabase.rpc('company_funnel_report', { p_from: from, p_to: to });
+      if (!isSubscribed) return;
+      if (error) {
+        console.error('Failed to load hiring analytics:', error);
+        toast.error(error.message || 'Could not load analytics');
+      }
+      setData((report as CompanyFunnelData | null) ?? null);
+      setLoading(false);
+    };
+    load();
+
+    return () => {
+      isSubscribed = false;
+    };
+  }, [from, to]);
+
+  const scope = useMemo(() => (selectedId ? [selectedId] : undefined), [selectedId]);
+  const counts = useMemo(() => (data ? countFunnel(data, scope) : null), [data, scope]);
+  const stages = useMemo(() => (counts ? getFunnelStages(counts) : []), [counts]);
+  const trend = useMemo(() => (data ? getFunnelTrend(data, { from, to }, scope) : []), [data, from, to, scope]);
+  const sources = useMemo(() => (data ? getSourceBreakdown(data, scope) : []), [data, scope]);
+  const comparison = useMemo(() => (data ? getFunnelComparison(data) : []), [data]);
+
+  // Until the user picks, compare the busiest postings
+  const comparedIds = compared ?? comparison.slice(0, MAX_COMPARED).map((row) => row.opportunityId);
+  const comparedRows = comparison.filter((row) => comparedIds.includes(row.opportunityId));
+  const comparisonChart = COMPARISON_METRICS.map(({ metric, key }) => ({
+    metric,
+    ...Object.fromEntries(comparedRows.map((row) => [row.opportunityId, Math.round(row[key] * 100)])),
+  }));
+
+  const selectOpportunity = (opportunityId: string) => {
+    const next = new URLSearchParams(searchParams);
+    if (opportunityId) {
+      next.set('opportunity', opportunityId);
+    } else {
+      next.delete('opportunity');
+    }
+    setSearchParams(next, { replace: true });
+  };
+
+  const toggleCompared = (opportunityId: string) => {
+    if (comparedIds.includes(opportunityId)) {
+      setCompared(comparedIds.filter((id) => id !== opportunityId));
+      return;
+    }
+    if (comparedIds.length >= MAX_COMPARED) {
+      toast.error(`Compare up to ${MAX_COMPARED} postings at a time`);
+      return;
+    }
+    setCompared([...comparedIds, opportunityId]);
+  };
+
+  return (
+    <div className="max-w-6xl mx-auto px-4 py-8 space-y-6">
+      <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold">Hiring Analytics</h1>
+          <p className="text-sm text-gray-500 mt-1">
+            Views and applications {from} to {to}
+          </p>
+        </div>
+        <div className="flex flex-wrap items-end gap-2">
+          <label className="text-sm text-gray-600">
+            Posting
+            <select
+              value={selectedId}
+              onChange={(e) => selectOpportunity(e.target.value)}
+              className="block rounded-xl border-gray-200 focus:border-purple-500 focus:ring-purple-500 px-3 py-2 max-w-xs"
+            >
+              <option value="">All postings</option>
+              {data?.opportunities.map((opportunity) => (
+                <option key={opportunity.opportunity_id} value={opportunity.opportunity_id}>
+                  {opportunity.title}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="text-sm text-gray-600">
+            From
+            <input
+              type="date"
+              value={from}
+              max={to}
+              onChange={(e) => setFrom(e.target.value)}
+              className="block rounded-xl border-gray-200 focus:border-purple-500 focus:ring-purple-500 px-3 py-2"
+            />
+          </label>
+          <label className="text-sm text-gray-600">
+            To
+            <input
+              type="date"
+              value={to}
+              min={from}
+              onChange={(e) => setTo(e.target.value)}
+              className="block rounded-xl border-gray-200 focus:border-purple-500 focus:ring-purple-500 px-3 py-2"
+            />
+          </label>
+        </div>
+      </div>
+
+      {loading ? (
+        <p className="text-gray-500">Loading...</p>
+      ) : !data || !counts ? (
+        <p className="text-gray-600">Analytics are unavailable right now.</p>
+      ) : data.opportunities.length === 0 ? (
+        <p className="text-gray-600">Post an opportunity to start collecting hiring analytics.</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <KpiTile label="Views" value={counts.viewed.toString()} hint="Unique viewers per day" />
+            <KpiTile label="Applications" value={counts.applied.toString()} hint={`${formatPercent(stages[1].conversionRate ?? 0)} of views`} />
+            <KpiTile
+              label="Interview rate"
+              value={formatPercent(counts.applied === 0 ? 0 : counts.interviewed / counts.applied)}
+              hint={`${counts.interviewed} applicants interviewed`}
+            />
+            <KpiTile
+              label="Offer rate"
+              value={formatPercent(counts.applied === 0 ? 0 : counts.offered / counts.applied)}
+              hint={`${counts.offered} offers made`}
+            />
+          </div>
+
+          <section className="space-y-3">
+            <h2 className="text-lg font-semibold text-gray-900">Funnel</h2>
+            <div className="h-72 rounded-xl border border-gray-200 bg-white p-4">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={stages} layout="vertical" margin={{ left: 24 }}>
+                  <CartesianGrid strokeDasharray="3 3" horizontal={false} />
+                  <XAxis type="number" allowDecimals={false} tick={{ fontSize: 12 }} />
+                  <YAxis type="category" dataKey="label" tick={{ fontSize: 12 }} width={90} />
+                  <Tooltip />
+                  <Bar dataKey="count" name="Candidates" fill="#7c3aed" isAnimationActive={false} />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+            <div className="flex flex-wrap gap-2 text-sm">
+              {stages.slice(1).map((stage, index) => (
+                <span key={stage.key} className="rounded-md bg-purple-50 px-2 py-1 text-purple-700">
+                  {stages[index].label} → {stage.label}: {formatPercent(stage.conversionRate ?? 0)}
+                </span>
+              ))}
+            </div>
+          </section>
+
+          <section className="space-y-3">
+            <h2 className="text-lg font-semibold text-gray-900">Trend</h2>
+            <div className="h-72 rounded-xl border border-gray-200 bg-white p-4">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={trend}>
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                  <XAxis dataKey="label" tick={{ fontSize: 12 }} minTickGap={16} />
+                  <YAxis allowDecimals={false} tick={{ fontSize: 12 }} />
+                  <Tooltip />
+                  <Legend />
+                  <Line type="monotone" dataKey="views" name="Views" stroke="#c4b5fd" strokeWidth={2} dot={false} isAnimationActive={false} />
+                  <Line
+                    type="monotone"
+                    dataKey="applications"
+                    name="Applications"
+                    stroke="#7c3aed"
+                    strokeWidth={2}
+                    dot={false}
+                    isAnimationActive={false}
+                  />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </section>
+
+          <section className="space-y-3">
+            <h2 className="text-lg font-semibold text-gray-900">Applicant sources</h2>
+            {sources.length === 0 ? (
+              <p className="text-gray-600">No applications in this date range.</p>
+            ) : (
+              <div className="overflow-x-auto rounded-lg border bg-white">
+                <table className="min-w-full text-sm">
+                  <thead className="bg-gray-50 text-left text-gray-600">
+                    <tr>
+                      <th className="px-4 py-2 font-medium">Source</th>
+                      <th className="px-4 py-2 font-medium">Applications</th>
+                      <th className="px-4 py-2 font-medium">Share</th>
+                      <th className="px-4 py-2 font-medium">Offers</th>
+                      <th className="px-4 py-2 font-medium">Offer rate</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y">
+                    {sources.map((row) => (
+                      <tr key={row.source}>
+                        <td className="px-4 py-2 font-medium text-gray-900">{row.label}</td>
+                        <td className="px-4 py-2">{row.applications}</td>
+                        <td className="px-4 py-2">{formatPercent(row.applications / counts.applied)}</td>
+                        <td className="px-4 py-2">{row.offers}</td>
+                        <td className="px-4 py-2">{formatPercent(row.offers / row.applications)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </section>
+
+          <section className="space-y-3">
+            <h2 className="text-lg font-semibold text-gray-900">Compare postings</h2>
+            {comparedRows.length > 0 && (
+              <div className="h-72 rounded-xl border border-gray-200 bg-white p-4">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={comparisonChart}>
+                    <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                    <XAxis dataKey="metric" tick={{ fontSize: 12 }} interval={0} />
+                    <YAxis domain={[0, 100]} unit="%" tick={{ fontSize: 12 }} />
+                    <Tooltip formatter={(value) => `${value}%`} />
+                    <Legend />
+                    {comparedRows.map((row, index) => (
+                      <Bar
+                        key={row.opportunityId}
+                        dataKey={row.opportunityId}
+                        name={shortLabel(row.title)}
+                        fill={COMPARE_COLORS[index % COMPARE_COLORS.length]}
+                        isAnimationActive={false}
+                      />
+                    ))}
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            )}
+            <div className="overflow-x-auto rounded-lg border bg-white">
+              <table className="min-w-full text-sm">
+                <thead className="bg-gray-50 text-left text-gray-600">
+                  <tr>
+                    <th className="px-4 py-2 font-medium">Compare</th>
+                    <th className="px-4 py-2 font-medium">Posting</th>
+                    <th className="px-4 py-2 font-medium">Views</th>
+                    <th className="px-4 py-2 font-medium">Applied</th>
+                    <th className="px-4 py-2 font-medium">Shortlisted</th>
+                    <th className="px-4 py-2 font-medium">Interviewed</th>
+                    <th className="px-4 py-2 font-medium">Offers</th>
+                    <th className="px-4 py-2 font-medium">View → apply</th>
+                    <th className="px-4 py-2 font-medium">Offer rate</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {comparison.map((row) => (
+                    <tr key={row.opportunityId}>
+                      <td className="px-4 py-2">
+                        <input
+                          type="checkbox"
+                          checked={comparedIds.includes(row.opportunityId)}
+                          onChange={() => toggleCompared(row.opportunityId)}
+                          className="rounded border-gray-300 text-purple-600 focus:ring-purple-500"
+                        />
+                      </td>
+                      <td className="px-4 py-2">
+                        <button onClick={() => selectOpportunity(row.opportunityId)} className="font-medium text-gray-900 hover:text-purple-700 text-left">
+                          {row.title}
+                        </button>
+                        <div className="text-xs text-gray-500 capitalize">{row.status}</div>
+                      </td>
+                      <td className="px-4 py-2" title={`${row.totalViews} all time`}>
+                        {row.viewed}
+                      </td>
+                      <td className="px-4 py-2">{row.applied}</td>
+                      <td className="px-4 py-2">{row.shortlisted}</td>
+                      <td className="px-4 py-2">{row.interviewed}</td>
+                      <td className="px-4 py-2">{row.offered}</td>
+                      <td className="px-4 py-2">{formatPercent(row.applyRate)}</td>
+                      <td className="px-4 py-2">{formatPercent(row.offerRate)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </section>
+        </>
+      )}
+    </div>
+  );
+};
@@ -2,6 +2,7 @@ import React, { useEffect, useState } from 'react';
 import { supabase } from '@/lib/supabase';
 import { Opportunity } from '@/types';
 import { useAuthStore } from '@/stores/authStore';
+import { getOpportunityPath } from '@/utils/opportunityDetail';
 
 interface Props {
   navigateTo: (path: string) => void;
@@ -31,12 +32,17 @@ export const CompanyDashboard: React.FC<Props> = ({ navigateTo }) => {
     <div className="max-w-5xl mx-auto px-4 py-8">
       <div className="flex items-center justify-between mb-6">
         <h1 className="text-2xl font-semibold">Your Opportunities</h1>
-        <button
-          onClick={() => navigateTo('/company/opportunities/new')}
-          className="px-4 py-2 rounded-md bg-purple-600 text-white hover:bg-purple-700"
-        >
-          Post Opportunity
-        </button>
+        <div className="flex gap-2">
+          <button onClick={() => navigateTo('/company/analytics')} className="px-4 py-2 rounded-md border hover:bg-gray-50">
+            Analytics
+          </button>
+          <button
+            onClick={() => navigateTo('/company/opportunities/new')}
+            className="px-4 py-2 rounded-md bg-purple-600 text-white hover:bg-purple-700"
+          >
+            Post Opportunity
+          </button>
+        </div>
       </div>
 
       {loading ? (
@@ -50,15 +56,32 @@ export const CompanyDashboard: React.FC<Props> = ({ navigateTo }) => {
               <div>
                 <div className="font-medium text-lg">{opp.title}</div>
                 <div className="text-sm text-gray-600">{opp.work_mode} • {opp.location && Array.isArray(opp.location) ? (opp.location as any[]).join(', ') : ''}</div>
-                <div className="text-xs text-gray-500 mt-1">Status: {opp.status}</div>
+                <div className="text-xs text-gray-500 mt-1">
+                  Status: {opp.status} • {opp.view_count ?? 0} views
+                </div>
+                {opp.taken_down_at && (
+                  <div className="text-xs text-red-600 mt-1">Taken down by a moderator: {opp.takedown_reason}</div>
+                )}
               </div>
               <div className="flex gap-2">
+                <button
+                  className="px-3 py-1 text-sm rounded-md border hover:bg-gray-50"
+                  onClick={() => navigateTo(getOpportunityPath(opp))}
+                >
+                  Preview
+                </button>
                 <button
                   className="px-3 py-1 text-sm rounded-md border hover:bg-gray-50"
                   onClick={() => navigateTo(`/company/opportunities/${opp.opportunity_id}/applicants`)}
                 >
                   View Applicants
                 </button>
+                <button
+                  className="px-3 py-1 text-sm rounded-md border hover:bg-gray-50"
+                  onClick={() => navigateTo(`/company/analytics?opportunity=${opp.opportunity_id}`)}
+                >
+                  Analytics
+                </button>
                 <button
                   className="px-3 py-1 text-sm rounded-md border hover:bg-gray-50"
                   onClick={() => navigateTo(`/company/opportunities/${opp.opportunity_id}/edit`)}
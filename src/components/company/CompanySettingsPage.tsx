@@ -0,0 +1,271 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Controller, useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { supabase } from '@/lib/supabase';
+import { useAuthStore } from '@/stores/authStore';
+import { useSkillsMaster } from '@/hooks/useSkillsMaster';
+import type { Company } from '@/types';
+import {
+  COMPANY_SIZES,
+  EMPLOYEE_COUNT_RANGES,
+  companySchema,
+  toCompanyFormInput,
+  toCompanyPayload,
+} from '@/utils/companyForm';
+import type { CompanyFormInput, CompanyFormValues } from '@/utils/companyForm';
+import { TagInput } from './TagInput';
+import toast from 'react-hot-toast';
+
+const inputClass = 'w-full rounded-xl border-gray-200 focus:border-purple-500 focus:ring-purple-500 px-4 py-2.5';
+
+const MAX_LOGO_SIZE = 2 * 1024 * 1024;
+
+const FieldError: React.FC<{ message?: string }> = ({ message }) =>
+  message ? <p className="text-sm text-red-600 mt-1">{message}</p> : null;
+
+const Section: React.FC<{ title: string; description: string; children: React.ReactNode }> = ({ title, description, children }) => (
+  <section className="space-y-4 pt-6 first:pt-0">
+    <div>
+      <h2 className="text-lg font-semibold text-gray-900">{title}</h2>
+      <p className="text-sm text-gray-500">{description}</p>
+    </div>
+    {children}
+  </section>
+);
+
+interface Props {
+  navigateTo: (path: string) => void;
+}
+
+export const CompanySettingsPage: React.FC<Props> = ({ navigateTo }) => {
+  const { user, companyId, fetchUserProfile } = useAuthStore();
+  const { skills } = useSkillsMaster();
+  const skillNames = useMemo(() => skills.map((s) => s.skill_name), [skills]);
+  const [loading, setLoading] = useState(true);
+  const [uploadingLogo, setUploadingLogo] = useState(false);
+  const {
+    register,
+    control,
+    handleSubmit,
+    reset,
+    getValues,
+    setValue,
+    watch,
+    formState: { errors, isSubmitting, isDirty },
+  } = useForm<CompanyFormInput, unknown, CompanyFormValues>({
+    resolver: zodResolver(companySchema),
+  });
+  const logoUrl = watch('logo_url');
+
+  useEffect(() => {
+    const load = async () => {
+      if (!companyId) return;
+      setLoading(true);
+      const { data, error } = await supabase
+        .from('companies')
+        .select('*')
+        .eq('company_id', companyId)
+        .returns<Company[]>()
+        .single();
+      if (error) {
+        console.error('Failed to load company profile:', error);
+        toast.error('Could not load your company profile');
+      } else if (data) {
+        reset(toCompanyFormInput(data));
+      }
+      setLoading(false);
+    };
+    load();
+  }, [companyId, reset]);
+
+  const handleLogoChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file || !user) return;
+    if (!file.type.startsWith('image/') || file.size > MAX_LOGO_SIZE) {
+      toast.error('Please upload an image under 2MB.');
+      return;
+    }
+    setUploadingLogo(true);
+    try {
+      const extension = file.name.split('.').pop()?.toLowerCase() || 'png';
+      const filePath = `${user.id}/logo-${Date.now()}.${extension}`;
+      const { error } = await supabase.storage.from('company-logos').upload(filePath, file, { upsert: true });
+      if (error) throw new Error(`Storage upload failed: ${error.message}`);
+      const {
+        data: { publicUrl },
+      } = supabase.storage.from('company-logos').getPublicUrl(filePath);
+      // Saved with the rest of the form
+      setValue('logo_url', publicUrl, { shouldDirty: true });
+    } catch (err) {
+      console.error('Failed to upload logo:', err);
+      toast.error(err instanceof Error && err.message ? err.message : 'Could not upload the logo');
+    } finally {
+      setUploadingLogo(false);
+    }
+  };
+
+  const onSubmit = async (values: CompanyFormValues) => {
+    if (!companyId) return;
+    const { error } = await supabase.from('companies').update(toCompanyPayload(values)).eq('company_id', companyId);
+    if (error) throw error;
+    await fetchUserProfile();
+    // Keep what was typed but mark it as saved
+    reset(getValues());
+  };
+
+  if (loading) {
+    return <div className="max-w-3xl mx-auto px-4 py-10 text-gray-500">Loading...</div>;
+  }
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 py-10">
+      <div className="mb-6 flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-semibold tracking-tight">Company Profile</h1>
+          <p className="text-sm text-gray-500 mt-1">What students see on your company page and next to every opportunity.</p>
+        </div>
+        {companyId && (
+          <button
+            type="button"
+            onClick={() => navigateTo(`/companies/${companyId}`)}
+            className="px-3 py-1 text-sm rounded-md border hover:bg-gray-50"
+          >
+            View public page
+          </button>
+        )}
+      </div>
+      <div className="rounded-2xl border border-gray-200 shadow-sm bg-white overflow-hidden">
+        <form onSubmit={handleSubmit(async (values) => {
+          const t = toast.loading('Saving profile...');
+          try {
+            await onSubmit(values);
+            toast.success('Saved', { id: t });
+          } catch (err) {
+            console.error('Failed to save company profile:', err);
+            toast.error(err instanceof Error && err.message ? err.message : 'Something went wrong', { id: t });
+          }
+        }, () => toast.error('Please fix the highlighted fields'))} className="p-6 divide-y divide-gray-100 space-y-6">
+          <Section title="Overview" description="Who you are and what you do.">
+            <div className="flex items-center gap-4">
+              <div className="flex h-16 w-16 items-center justify-center rounded-lg border border-gray-200 bg-gray-50 text-xl font-semibold text-gray-400">
+                {logoUrl ? <img src={logoUrl} alt="Company logo" className="h-full w-full rounded-lg object-contain" /> : 'Logo'}
+              </div>
+              <input type="file" id="company-logo" onChange={handleLogoChange} className="hidden" accept="image/*" />
+              <label htmlFor="company-logo" className="cursor-pointer px-3 py-1 text-sm rounded-md border hover:bg-gray-50">
+                {uploadingLogo ? 'Uploading...' : logoUrl ? 'Replace logo' : 'Upload logo'}
+              </label>
+              {logoUrl && (
+                <button type="button" onClick={() => setValue('logo_url', '', { shouldDirty: true })} className="text-sm text-gray-500 hover:text-red-600">
+                  Remove
+                </button>
+              )}
+            </div>
+            <div className="space-y-1">
+              <label className="block text-sm font-medium text-gray-700">Company Name</label>
+              <input className={inputClass} {...register('company_name')} />
+              <FieldError message={errors.company_name?.message} />
+            </div>
+            <div className="space-y-1">
+              <label className="block text-sm font-medium text-gray-700">About</label>
+              <textarea className={`${inputClass} h-36`} placeholder="What you build and who you build it for" {...register('company_description')} />
+              <FieldError message={errors.company_description?.message} />
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-1">
+                <label className="block text-sm font-medium text-gray-700">Industry</label>
+                <input className={inputClass} placeholder="e.g., Fintech" {...register('industry')} />
+                <FieldError message={errors.industry?.message} />
+              </div>
+              <div className="space-y-1">
+                <label className="block text-sm font-medium text-gray-700">Company Size</label>
+                <select className={inputClass} {...register('company_size')}>
+                  {COMPANY_SIZES.map((size) => (
+                    <option key={size.value} value={size.value}>{size.label}</option>
+                  ))}
+                </select>
+                <FieldError message={errors.company_size?.message} />
+              </div>
+              <div className="space-y-1">
+                <label className="block text-sm font-medium text-gray-700">Employees</label>
+                <select className={inputClass} {...register('employee_count_range')}>
+                  <option value="">Not specified</option>
+                  {EMPLOYEE_COUNT_RANGES.map((range) => (
+                    <option key={range} value={range}>{range}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="space-y-1">
+                <label className="block text-sm font-medium text-gray-700">Founded</label>
+                <input type="number" className={inputClass} placeholder="2015" {...register('founded_year')} />
+                <FieldError message={errors.founded_year?.message} />
+              </div>
+            </div>
+          </Section>
+
+          <Section title="Location & Links" description="Where you are and where students can learn more.">
+            <div className="space-y-1">
+              <label className="block text-sm font-medium text-gray-700">Headquarters</label>
+              <input className={inputClass} placeholder="e.g., Bengaluru" {...register('headquarters_location')} />
+              <FieldError message={errors.headquarters_location?.message} />
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-1">
+                <label className="block text-sm font-medium text-gray-700">Website</label>
+                <input className={inputClass} placeholder="acme.com" {...register('website_url')} />
+                <FieldError message={errors.website_url?.message} />
+              </div>
+              <div className="space-y-1">
+                <label className="block text-sm font-medium text-gray-700">LinkedIn</label>
+                <input className={inputClass} placeholder="linkedin.com/company/acme" {...register('linkedin_url')} />
+                <FieldError message={errors.linkedin_url?.message} />
+              </div>
+            </div>
+          </Section>
+
+          <Section title="Tech Stack" description="Tools and languages interns will work with.">
+            <Controller
+              control={control}
+              name="tech_stack"
+              render={({ field }) => (
+                <TagInput value={field.value} onChange={field.onChange} suggestions={skillNames} placeholder="e.g., React, Go, PostgreSQL" />
+              )}
+            />
+          </Section>
+
+          <Section title="Benefits" description="What every hire gets, regardless of role.">
+            <Controller
+              control={control}
+              name="benefits_offered"
+              render={({ field }) => (
+                <TagInput value={field.value} onChange={field.onChange} placeholder="e.g., Health insurance, Learning budget" />
+              )}
+            />
+          </Section>
+
+          <Section title="Culture" description="How the team works day to day.">
+            <div className="space-y-1">
+              <label className="block text-sm font-medium text-gray-700">Summary</label>
+              <textarea className={`${inputClass} h-24`} placeholder="e.g., Small teams that ship weekly" {...register('culture_summary')} />
+            </div>
+            <div className="space-y-1">
+              <label className="block text-sm font-medium text-gray-700">Values</label>
+              <Controller
+                control={control}
+                name="culture_values"
+                render={({ field }) => (
+                  <TagInput value={field.value} onChange={field.onChange} placeholder="e.g., Ownership, Remote-first" />
+                )}
+              />
+            </div>
+          </Section>
+
+          <div className="pt-6">
+            <button disabled={isSubmitting || uploadingLogo || !isDirty} className="inline-flex items-center gap-2 px-5 py-2.5 rounded-xl bg-gradient-to-r from-purple-600 to-blue-600 text-white hover:from-purple-700 hover:to-blue-700 disabled:opacity-50">
+              Save Changes
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
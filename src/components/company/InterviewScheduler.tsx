@@ -0,0 +1,276 @@
+import React, { useState } from 'react';
+import type { Interview, InterviewType } from '@/types';
+import { ACTIVE_INTERVIEW_STATUSES, useApplicationInterviews } from '@/hooks/useInterviews';
+import { formatApplicationStatus } from '@/utils/formatting';
+
+interface Props {
+  applicationId: string;
+  onChanged?: () => void;
+}
+
+const INTERVIEW_TYPES: InterviewType[] = ['technical', 'hr', 'managerial', 'group'];
+
+const INTERVIEW_STATUS_COLORS: Record<Interview['status'], string> = {
+  scheduled: 'bg-purple-100 text-purple-800',
+  rescheduled: 'bg-amber-100 text-amber-800',
+  completed: 'bg-green-100 text-green-800',
+  cancelled: 'bg-gray-100 text-gray-600',
+};
+
+const EMPTY_FORM = {
+  interview_type: 'technical' as InterviewType,
+  scheduled_at: '',
+  duration_minutes: 60,
+  meeting_link: '',
+  interviewer_names: '',
+  notes: '',
+};
+
+// datetime-local inputs work in the browser's local time without a zone suffix
+const toLocalInputValue = (iso: string | null) => {
+  if (!iso) return '';
+  const date = new Date(iso);
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+};
+
+const isActive = (interview: Interview) =>
+  (ACTIVE_INTERVIEW_STATUSES as readonly string[]).includes(interview.status);
+
+export const InterviewScheduler: React.FC<Props> = ({ applicationId, onChanged }) => {
+  const { interviews, loading, scheduleInterview, rescheduleInterview, cancelInterview, completeInterview } =
+    useApplicationInterviews(applicationId);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [reschedulingId, setReschedulingId] = useState<string | null>(null);
+  const [rescheduleAt, setRescheduleAt] = useState('');
+  const [completingId, setCompletingId] = useState<string | null>(null);
+  const [outcome, setOutcome] = useState({ feedback: '', rating: '' });
+  const [busy, setBusy] = useState(false);
+
+  const run = async (action: () => Promise<boolean>) => {
+    setBusy(true);
+    const ok = await action();
+    setBusy(false);
+    if (ok) onChanged?.();
+    return ok;
+  };
+
+  const handleSchedule = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.scheduled_at) return;
+    const ok = await run(() =>
+      scheduleInterview({
+        interview_type: form.interview_type,
+        scheduled_at: new Date(form.scheduled_at).toISOString(),
+        duration_minutes: form.duration_minutes,
+        meeting_link: form.meeting_link.trim() || null,
+        interviewer_names: form.interviewer_names.split(',').map((n) => n.trim()).filter(Boolean),
+        notes: form.notes.trim() || null,
+      }),
+    );
+    if (ok) setForm(EMPTY_FORM);
+  };
+
+  const handleReschedule = async (interviewId: string) => {
+    if (!rescheduleAt) return;
+    const ok = await run(() => rescheduleInterview(interviewId, new Date(rescheduleAt).toISOString()));
+    if (ok) setReschedulingId(null);
+  };
+
+  const handleComplete = async (interviewId: string) => {
+    const ok = await run(() =>
+      completeInterview(interviewId, {
+        feedback: outcome.feedback.trim() || null,
+        rating: outcome.rating ? Number(outcome.rating) : null,
+      }),
+    );
+    if (ok) {
+      setCompletingId(null);
+      setOutcome({ feedback: '', rating: '' });
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <h3 className="text-sm font-semibold text-gray-700">Interview Rounds</h3>
+      {loading && interviews.length === 0 ? (
+        <p className="text-sm text-gray-500">Loading...</p>
+      ) : interviews.length === 0 ? (
+        <p className="text-sm text-gray-500">No rounds scheduled yet.</p>
+      ) : (
+        <div className="space-y-2">
+          {interviews.map((interview) => (
+            <div key={interview.interview_id} className="border rounded-md p-3 text-sm">
+              <div className="flex items-start justify-between">
+                <div>
+                  <div className="font-medium">
+                    Round {interview.round_number} · {formatApplicationStatus(interview.interview_type)}
+                  </div>
+                  <div className="text-gray-600">
+                    {interview.scheduled_at ? new Date(interview.scheduled_at).toLocaleString() : 'Time not set'} ·{' '}
+                    {interview.duration_minutes} min
+                  </div>
+                  {interview.interviewer_names && interview.interviewer_names.length > 0 && (
+                    <div className="text-gray-500">With {interview.interviewer_names.join(', ')}</div>
+                  )}
+                  {interview.meeting_link && (
+                    <a href={interview.meeting_link} target="_blank" rel="noreferrer" className="text-purple-600 hover:underline">
+                      Meeting link
+                    </a>
+                  )}
+                  {interview.feedback && <div className="text-gray-600 mt-1">Feedback: {interview.feedback}</div>}
+                </div>
+                <span className={`text-xs px-2 py-1 rounded-md ${INTERVIEW_STATUS_COLORS[interview.status]}`}>
+                  {formatApplicationStatus(interview.status)}
+                </span>
+              </div>
+
+              {isActive(interview) && (
+                <div className="mt-2 flex flex-wrap gap-2">
+                  <button
+                    className="px-3 py-1 text-sm rounded-md border hover:bg-gray-50"
+                    onClick={() => {
+                      setReschedulingId(interview.interview_id);
+                      setRescheduleAt(toLocalInputValue(interview.scheduled_at));
+                    }}
+                  >
+                    Reschedule
+                  </button>
+                  <button
+                    className="px-3 py-1 text-sm rounded-md border hover:bg-gray-50"
+                    onClick={() => setCompletingId(interview.interview_id)}
+                  >
+                    Mark Completed
+                  </button>
+                  <button
+                    disabled={busy}
+                    className="px-3 py-1 text-sm rounded-md border text-red-600 hover:bg-red-50 disabled:opacity-50"
+                    onClick={() => {
+                      if (window.confirm(`Cancel round ${interview.round_number}?`)) {
+                        run(() => cancelInterview(interview.interview_id));
+                      }
+                    }}
+                  >
+                    Cancel
+                  </button>
+                </div>
+              )}
+
+              {reschedulingId === interview.interview_id && (
+                <div className="mt-2 flex flex-wrap items-center gap-2">
+                  <input
+                    type="datetime-local"
+                    value={rescheduleAt}
+                    onChange={(e) => setRescheduleAt(e.target.value)}
+                    className="rounded-md border px-3 py-1 text-sm"
+                  />
+                  <button
+                    disabled={busy || !rescheduleAt}
+                    onClick={() => handleReschedule(interview.interview_id)}
+                    className="px-3 py-1 text-sm rounded-md bg-purple-600 text-white hover:bg-purple-700 disabled:opacity-50"
+                  >
+                    Save
+                  </button>
+                  <button onClick={() => setReschedulingId(null)} className="px-3 py-1 text-sm rounded-md border hover:bg-gray-50">
+                    Close
+                  </button>
+                </div>
+              )}
+
+              {completingId === interview.interview_id && (
+                <div className="mt-2 grid gap-2 md:grid-cols-3">
+                  <textarea
+                    value={outcome.feedback}
+                    onChange={(e) => setOutcome((prev) => ({ ...prev, feedback: e.target.value }))}
+                    placeholder="Interview feedback"
+                    rows={2}
+                    className="rounded-md border px-3 py-1 text-sm md:col-span-2"
+                  />
+                  <select
+                    value={outcome.rating}
+                    onChange={(e) => setOutcome((prev) => ({ ...prev, rating: e.target.value }))}
+                    className="rounded-md border px-3 py-1 text-sm"
+                  >
+                    <option value="">No rating</option>
+                    {[1, 2, 3, 4, 5].map((r) => (
+                      <option key={r} value={r}>{r} / 5</option>
+                    ))}
+                  </select>
+                  <div className="flex gap-2 md:col-span-3">
+                    <button
+                      disabled={busy}
+                      onClick={() => handleComplete(interview.interview_id)}
+                      className="px-3 py-1 text-sm rounded-md bg-purple-600 text-white hover:bg-purple-700 disabled:opacity-50"
+                    >
+                      Save
+                    </button>
+                    <button onClick={() => setCompletingId(null)} className="px-3 py-1 text-sm rounded-md border hover:bg-gray-50">
+                      Close
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <form onSubmit={handleSchedule} className="border rounded-md p-3 grid gap-2 md:grid-cols-3 text-sm">
+        <select
+          value={form.interview_type}
+          onChange={(e) => setForm((prev) => ({ ...prev, interview_type: e.target.value as InterviewType }))}
+          className="rounded-md border px-3 py-1"
+        >
+          {INTERVIEW_TYPES.map((t) => (
+            <option key={t} value={t}>{formatApplicationStatus(t)}</option>
+          ))}
+        </select>
+        <input
+          type="datetime-local"
+          required
+          value={form.scheduled_at}
+          onChange={(e) => setForm((prev) => ({ ...prev, scheduled_at: e.target.value }))}
+          className="rounded-md border px-3 py-1"
+        />
+        <input
+          type="number"
+          min={15}
+          step={15}
+          value={form.duration_minutes}
+          onChange={(e) => setForm((prev) => ({ ...prev, duration_minutes: Number(e.target.value) || 60 }))}
+          className="rounded-md border px-3 py-1"
+          aria-label="Duration in minutes"
+        />
+        <input
+          type="url"
+          value={form.meeting_link}
+          onChange={(e) => setForm((prev) => ({ ...prev, meeting_link: e.target.value }))}
+          placeholder="Meeting link"
+          className="rounded-md border px-3 py-1"
+        />
+        <input
+          value={form.interviewer_names}
+          onChange={(e) => setForm((prev) => ({ ...prev, interviewer_names: e.target.value }))}
+          placeholder="Interviewers (comma separated)"
+          className="rounded-md border px-3 py-1 md:col-span-2"
+        />
+        <textarea
+          value={form.notes}
+          onChange={(e) => setForm((prev) => ({ ...prev, notes: e.target.value }))}
+          placeholder="Notes for the candidate (optional)"
+          rows={2}
+          className="rounded-md border px-3 py-1 md:col-span-3"
+        />
+        <div className="md:col-span-3">
+          <button
+            type="submit"
+            disabled={busy || !form.scheduled_at}
+            className="px-3 py-1 text-sm rounded-md bg-purple-600 text-white hover:bg-purple-700 disabled:opacity-50"
+          >
+            Schedule Round
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
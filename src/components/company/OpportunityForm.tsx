@@ -1,112 +1,335 @@
-import React, { useEffect } from 'react';
-import { useForm } from 'react-hook-form';
-import { z } from 'zod';
+import React, { useEffect, useMemo } from 'react';
+import { Controller, useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { useNavigate, useParams } from 'react-router-dom';
 import { supabase } from '@/lib/supabase';
 import { useAuthStore } from '@/stores/authStore';
-import type { Opportunity } from '@/types';
+import { useSkillsMaster } from '@/hooks/useSkillsMaster';
+import type { OpportunityRecord } from '@/types';
+import {
+  CURRENCIES,
+  EMPTY_OPPORTUNITY_FORM,
+  YEARS_OF_STUDY,
+  opportunitySchema,
+  toOpportunityFormInput,
+  toOpportunityPayload,
+} from '@/utils/opportunityForm';
+import type { OpportunityFormInput, OpportunityFormValues } from '@/utils/opportunityForm';
+import { TagInput } from './TagInput';
+import { ScreeningQuestionBuilder } from './ScreeningQuestionBuilder';
 import toast from 'react-hot-toast';
 
-const schema = z.object({
-  title: z.string().min(3),
-  description: z.string().min(10),
-  type: z.enum(['internship', 'placement', 'apprenticeship']).default('internship'),
-  work_mode: z.enum(['remote', 'hybrid', 'onsite']).default('remote'),
-  status: z.enum(['draft', 'active', 'paused', 'closed', 'expired']).default('active'),
-});
+const inputClass = 'w-full rounded-xl border-gray-200 focus:border-purple-500 focus:ring-purple-500 px-4 py-2.5';
 
-type FormValues = z.infer<typeof schema>;
+const FieldError: React.FC<{ message?: string }> = ({ message }) =>
+  message ? <p className="text-sm text-red-600 mt-1">{message}</p> : null;
+
+const Section: React.FC<{ title: string; description: string; children: React.ReactNode }> = ({ title, description, children }) => (
+  <section className="space-y-4 pt-6 first:pt-0">
+    <div>
+      <h2 className="text-lg font-semibold text-gray-900">{title}</h2>
+      <p className="text-sm text-gray-500">{description}</p>
+    </div>
+    {children}
+  </section>
+);
 
 export const OpportunityForm: React.FC = () => {
   const { id } = useParams();
   const navigate = useNavigate();
   const { companyId } = useAuthStore();
-  const { register, handleSubmit, reset, formState: { errors, isSubmitting } } = useForm<FormValues>({ resolver: zodResolver(schema) });
+  const isEditing = Boolean(id && id !== 'new');
+  const { skills } = useSkillsMaster();
+  const skillNames = useMemo(() => skills.map((s) => s.skill_name), [skills]);
+  const {
+    register,
+    control,
+    handleSubmit,
+    reset,
+    watch,
+    formState: { errors, isSubmitting },
+  } = useForm<OpportunityFormInput, unknown, OpportunityFormValues>({
+    resolver: zodResolver(opportunitySchema),
+    defaultValues: EMPTY_OPPORTUNITY_FORM,
+  });
+
+  const isPlacement = watch('type') === 'placement';
 
   useEffect(() => {
     const load = async () => {
       if (!id || id === 'new') return;
-      const { data, error } = await supabase.from('opportunities').select('*').eq('opportunity_id', id).single();
+      const { data, error } = await supabase
+        .from('opportunities')
+        .select('*')
+        .eq('opportunity_id', id)
+        .returns<OpportunityRecord[]>()
+        .single();
       if (!error && data) {
-        const opp = data as Opportunity;
-        // Coerce to expected enums if needed
-        reset({ title: opp.title, description: opp.description, type: (opp as any).type || 'internship', work_mode: opp.work_mode as any, status: (opp.status as any) });
+        reset(toOpportunityFormInput(data));
       }
     };
     load();
   }, [id, reset]);
 
-  const onSubmit = async (values: FormValues) => {
+  const onSubmit = async (values: OpportunityFormValues) => {
     if (!companyId) return;
-    if (!id || id === 'new') {
-      const { error } = await supabase.from('opportunities').insert([{ ...values, company_id: companyId }]);
+    const payload = toOpportunityPayload(values);
+    if (!isEditing) {
+      const { error } = await supabase.from('opportunities').insert([{ ...payload, company_id: companyId }]);
       if (error) throw error;
-      navigate('/company');
     } else {
-      const { error } = await supabase.from('opportunities').update(values).eq('opportunity_id', id);
+      const { error } = await supabase.from('opportunities').update(payload).eq('opportunity_id', id);
       if (error) throw error;
-      navigate('/company');
     }
+    navigate('/company');
   };
 
   return (
     <div className="max-w-3xl mx-auto px-4 py-10">
       <div className="mb-6">
-        <h1 className="text-3xl font-semibold tracking-tight">{id && id !== 'new' ? 'Edit Opportunity' : 'Post Opportunity'}</h1>
+        <h1 className="text-3xl font-semibold tracking-tight">{isEditing ? 'Edit Opportunity' : 'Post Opportunity'}</h1>
         <p className="text-sm text-gray-500 mt-1">Share role details, responsibilities, and expectations.</p>
       </div>
       <div className="rounded-2xl border border-gray-200 shadow-sm bg-white overflow-hidden">
         <form onSubmit={handleSubmit(async (values) => {
-          const t = toast.loading(id && id !== 'new' ? 'Saving changes...' : 'Creating opportunity...');
+          const t = toast.loading(isEditing ? 'Saving changes...' : 'Creating opportunity...');
           try {
             await onSubmit(values);
-            toast.success(id && id !== 'new' ? 'Saved' : 'Created', { id: t });
-          } catch {
-            toast.error('Something went wrong', { id: t });
+            toast.success(isEditing ? 'Saved' : 'Created', { id: t });
+          } catch (err) {
+            console.error('Failed to save opportunity:', err);
+            toast.error(err instanceof Error && err.message ? err.message : 'Something went wrong', { id: t });
           }
-        })} className="p-6 space-y-6">
-          <div className="space-y-1">
-            <label className="block text-sm font-medium text-gray-700">Title</label>
-            <input className="w-full rounded-xl border-gray-200 focus:border-purple-500 focus:ring-purple-500 px-4 py-2.5" placeholder="e.g., Frontend Intern" {...register('title')} />
-            {errors.title && <p className="text-sm text-red-600 mt-1">{errors.title.message}</p>}
-          </div>
-          <div className="space-y-1">
-            <label className="block text-sm font-medium text-gray-700">Description</label>
-            <textarea className="w-full rounded-xl border-gray-200 focus:border-purple-500 focus:ring-purple-500 px-4 py-2.5 h-44" placeholder="Describe the role, responsibilities, and qualifications" {...register('description')} />
-            {errors.description && <p className="text-sm text-red-600 mt-1">{errors.description.message}</p>}
-          </div>
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        }, () => toast.error('Please fix the highlighted fields'))} className="p-6 divide-y divide-gray-100 space-y-6">
+          <Section title="Basics" description="What the role is and how it's run.">
             <div className="space-y-1">
-              <label className="block text-sm font-medium text-gray-700">Type</label>
-              <select className="w-full rounded-xl border-gray-200 focus:border-purple-500 focus:ring-purple-500 px-4 py-2.5" {...register('type')}>
-                <option value="internship">Internship</option>
-                <option value="placement">Placement</option>
-                <option value="apprenticeship">Apprenticeship</option>
-              </select>
+              <label className="block text-sm font-medium text-gray-700">Title</label>
+              <input className={inputClass} placeholder="e.g., Frontend Intern" {...register('title')} />
+              <FieldError message={errors.title?.message} />
             </div>
             <div className="space-y-1">
-              <label className="block text-sm font-medium text-gray-700">Work Mode</label>
-              <select className="w-full rounded-xl border-gray-200 focus:border-purple-500 focus:ring-purple-500 px-4 py-2.5" {...register('work_mode')}>
-                <option value="remote">Remote</option>
-                <option value="hybrid">Hybrid</option>
-                <option value="onsite">Onsite</option>
-              </select>
+              <label className="block text-sm font-medium text-gray-700">Description</label>
+              <textarea className={`${inputClass} h-44`} placeholder="Describe the role, responsibilities, and qualifications" {...register('description')} />
+              <FieldError message={errors.description?.message} />
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-1">
+                <label className="block text-sm font-medium text-gray-700">Type</label>
+                <select className={inputClass} {...register('type')}>
+                  <option value="internship">Internship</option>
+                  <option value="placement">Placement</option>
+                  <option value="apprenticeship">Apprenticeship</option>
+                </select>
+              </div>
+              <div className="space-y-1">
+                <label className="block text-sm font-medium text-gray-700">Work Mode</label>
+                <select className={inputClass} {...register('work_mode')}>
+                  <option value="remote">Remote</option>
+                  <option value="hybrid">Hybrid</option>
+                  <option value="onsite">Onsite</option>
+                </select>
+              </div>
+              <div className="space-y-1">
+                <label className="block text-sm font-medium text-gray-700">Status</label>
+                <select className={inputClass} {...register('status')}>
+                  <option value="active">Active</option>
+                  <option value="paused">Paused</option>
+                  <option value="closed">Closed</option>
+                  <option value="draft">Draft</option>
+                  <option value="expired">Expired</option>
+                </select>
+              </div>
             </div>
             <div className="space-y-1">
-              <label className="block text-sm font-medium text-gray-700">Status</label>
-              <select className="w-full rounded-xl border-gray-200 focus:border-purple-500 focus:ring-purple-500 px-4 py-2.5" {...register('status')}>
-                <option value="active">Active</option>
-                <option value="paused">Paused</option>
-                <option value="closed">Closed</option>
-                <option value="draft">Draft</option>
-                <option value="expired">Expired</option>
-              </select>
+              <label className="block text-sm font-medium text-gray-700">Location</label>
+              <input className={inputClass} placeholder="e.g., Bengaluru, Pune" {...register('location')} />
+              <FieldError message={errors.location?.message} />
             </div>
-          </div>
-          <div className="pt-2">
+          </Section>
+
+          <Section title="Compensation & Logistics" description="Pay, timeline, and how many people you're hiring.">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-1">
+                <label className="block text-sm font-medium text-gray-700">Min Stipend / month</label>
+                <input type="number" min={0} className={inputClass} placeholder="10000" {...register('stipend_min')} />
+                <FieldError message={errors.stipend_min?.message} />
+              </div>
+              <div className="space-y-1">
+                <label className="block text-sm font-medium text-gray-700">Max Stipend / month</label>
+                <input type="number" min={0} className={inputClass} placeholder="25000" {...register('stipend_max')} />
+                <FieldError message={errors.stipend_max?.message} />
+              </div>
+              <div className="space-y-1">
+                <label className="block text-sm font-medium text-gray-700">Currency</label>
+                <select className={inputClass} {...register('currency')}>
+                  {CURRENCIES.map((c) => (
+                    <option key={c} value={c}>{c}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            {isPlacement && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-1">
+                  <label className="block text-sm font-medium text-gray-700">Min CTC (LPA)</label>
+                  <input type="number" min={0} step="0.1" className={inputClass} placeholder="6" {...register('ctc_min')} />
+                  <FieldError message={errors.ctc_min?.message} />
+                </div>
+                <div className="space-y-1">
+                  <label className="block text-sm font-medium text-gray-700">Max CTC (LPA)</label>
+                  <input type="number" min={0} step="0.1" className={inputClass} placeholder="12" {...register('ctc_max')} />
+                  <FieldError message={errors.ctc_max?.message} />
+                </div>
+              </div>
+            )}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-1">
+                <label className="block text-sm font-medium text-gray-700">Duration (months)</label>
+                <input type="number" min={1} max={60} className={inputClass} placeholder="6" {...register('duration_months')} />
+                <FieldError message={errors.duration_months?.message} />
+              </div>
+              <div className="space-y-1">
+                <label className="block text-sm font-medium text-gray-700">Openings</label>
+                <input type="number" min={1} className={inputClass} {...register('positions_available')} />
+                <FieldError message={errors.positions_available?.message} />
+              </div>
+              <div className="space-y-1">
+                <label className="block text-sm font-medium text-gray-700">Application Deadline</label>
+                <input type="date" className={inputClass} {...register('application_deadline')} />
+                <FieldError message={errors.application_deadline?.message} />
+              </div>
+              <div className="space-y-1">
+                <label className="block text-sm font-medium text-gray-700">Start Date</label>
+                <input type="date" className={inputClass} {...register('start_date')} />
+                <FieldError message={errors.start_date?.message} />
+              </div>
+            </div>
+          </Section>
+
+          <Section title="Skills" description="Pick from the skills catalogue or type your own and press Enter.">
+            <div className="space-y-1">
+              <label className="block text-sm font-medium text-gray-700">Required Skills</label>
+              <Controller
+                control={control}
+                name="required_skills"
+                render={({ field }) => (
+                  <TagInput value={field.value} onChange={field.onChange} suggestions={skillNames} placeholder="e.g., React" />
+                )}
+              />
+              <FieldError message={errors.required_skills?.message} />
+            </div>
+            <div className="space-y-1">
+              <label className="block text-sm font-medium text-gray-700">Preferred Skills</label>
+              <Controller
+                control={control}
+                name="preferred_skills"
+                render={({ field }) => (
+                  <TagInput value={field.value} onChange={field.onChange} suggestions={skillNames} placeholder="Nice to have" />
+                )}
+              />
+              <FieldError message={errors.preferred_skills?.message} />
+            </div>
+          </Section>
+
+          <Section title="Eligibility" description="Leave anything blank that shouldn't restrict who can apply.">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-1">
+                <label className="block text-sm font-medium text-gray-700">Minimum CGPA</label>
+                <input type="number" step="0.01" min={0} max={10} className={inputClass} placeholder="7.0" {...register('min_cgpa')} />
+                <FieldError message={errors.min_cgpa?.message} />
+              </div>
+              <div className="space-y-1">
+                <label className="block text-sm font-medium text-gray-700">Graduating From</label>
+                <input type="date" className={inputClass} {...register('graduation_after')} />
+                <FieldError message={errors.graduation_after?.message} />
+              </div>
+              <div className="space-y-1">
+                <label className="block text-sm font-medium text-gray-700">Graduating By</label>
+                <input type="date" className={inputClass} {...register('graduation_before')} />
+                <FieldError message={errors.graduation_before?.message} />
+              </div>
+            </div>
+            <div className="space-y-1">
+              <label className="block text-sm font-medium text-gray-700">Allowed Courses</label>
+              <Controller
+                control={control}
+                name="allowed_courses"
+                render={({ field }) => (
+                  <TagInput value={field.value} onChange={field.onChange} placeholder="e.g., B.Tech, BCA (any course if empty)" />
+                )}
+              />
+            </div>
+            <div className="space-y-1">
+              <label className="block text-sm font-medium text-gray-700">Allowed Years of Study</label>
+              <Controller
+                control={control}
+                name="allowed_years"
+                render={({ field }) => (
+                  <div className="flex flex-wrap gap-4">
+                    {YEARS_OF_STUDY.map((year) => (
+                      <label key={year} className="flex items-center gap-2 text-sm text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={field.value.includes(year)}
+                          onChange={(e) =>
+                            field.onChange(e.target.checked ? [...field.value, year] : field.value.filter((y) => y !== year))
+                          }
+                        />
+                        Year {year}
+                      </label>
+                    ))}
+                  </div>
+                )}
+              />
+            </div>
+            <div className="space-y-1">
+              <label className="block text-sm font-medium text-gray-700">Must-have Skills</label>
+              <Controller
+                control={control}
+                name="must_have_skills"
+                render={({ field }) => (
+                  <TagInput
+                    value={field.value}
+                    onChange={field.onChange}
+                    suggestions={skillNames}
+                    placeholder="Applicants without these can't apply"
+                  />
+                )}
+              />
+            </div>
+          </Section>
+
+          <Section title="Perks & Benefits" description="Anything beyond pay that makes the role attractive.">
+            <Controller
+              control={control}
+              name="perks_benefits"
+              render={({ field }) => (
+                <TagInput value={field.value} onChange={field.onChange} placeholder="e.g., Certificate, Flexible hours, PPO" />
+              )}
+            />
+          </Section>
+
+          <Section title="Screening Questions" description="Extra questions applicants answer after their cover letter.">
+            <Controller
+              control={control}
+              name="additional_questions"
+              render={({ field }) => (
+                <ScreeningQuestionBuilder
+                  value={field.value}
+                  onChange={field.onChange}
+                  errorFor={(index) => {
+                    const questionErrors = errors.additional_questions?.[index];
+                    return questionErrors?.question?.message ?? questionErrors?.options?.message;
+                  }}
+                />
+              )}
+            />
+            <FieldError message={errors.additional_questions?.message} />
+          </Section>
+
+          <div className="pt-6">
             <button disabled={isSubmitting} className="inline-flex items-center gap-2 px-5 py-2.5 rounded-xl bg-gradient-to-r from-purple-600 to-blue-600 text-white hover:from-purple-700 hover:to-blue-700 disabled:opacity-50">
-              {id && id !== 'new' ? 'Save Changes' : 'Create Opportunity'}
+              {isEditing ? 'Save Changes' : 'Create Opportunity'}
             </button>
           </div>
         </form>
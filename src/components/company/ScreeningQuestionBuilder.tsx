@@ -0,0 +1,119 @@
+import React from 'react';
+import { ArrowDownIcon, ArrowUpIcon, PlusIcon, TrashIcon } from '@heroicons/react/24/outline';
+import type { CustomQuestionType } from '@/types';
+import { QUESTION_TYPES_WITH_OPTIONS, CUSTOM_QUESTION_TYPES, createQuestionId } from '@/utils/customQuestions';
+import { TagInput } from './TagInput';
+
+export interface QuestionDraft {
+  id: string;
+  question: string;
+  type: CustomQuestionType;
+  required: boolean;
+  options: string[];
+}
+
+interface Props {
+  value: QuestionDraft[];
+  onChange: (next: QuestionDraft[]) => void;
+  errorFor?: (index: number) => string | undefined;
+}
+
+const inputClass = 'w-full rounded-xl border-gray-200 focus:border-purple-500 focus:ring-purple-500 px-4 py-2.5';
+
+export const ScreeningQuestionBuilder: React.FC<Props> = ({ value, onChange, errorFor }) => {
+  const update = (index: number, patch: Partial<QuestionDraft>) =>
+    onChange(value.map((q, i) => (i === index ? { ...q, ...patch } : q)));
+
+  const move = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= value.length) return;
+    const next = [...value];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  const add = () =>
+    onChange([...value, { id: createQuestionId(), question: '', type: 'text', required: false, options: [] }]);
+
+  return (
+    <div className="space-y-3">
+      {value.length === 0 && (
+        <p className="text-sm text-gray-500">No screening questions. Applicants will only send a cover letter and documents.</p>
+      )}
+      {value.map((q, index) => (
+        <div key={q.id} className="border rounded-xl p-4 space-y-3">
+          <div className="flex items-start gap-2">
+            <span className="mt-2.5 text-sm font-medium text-gray-500">{index + 1}.</span>
+            <input
+              value={q.question}
+              onChange={(e) => update(index, { question: e.target.value })}
+              placeholder="e.g., Why do you want to join us?"
+              className={inputClass}
+            />
+            <div className="flex shrink-0 gap-1">
+              <button
+                type="button"
+                onClick={() => move(index, -1)}
+                disabled={index === 0}
+                className="rounded-md border p-2 hover:bg-gray-50 disabled:opacity-40"
+                aria-label="Move question up"
+              >
+                <ArrowUpIcon className="h-4 w-4" />
+              </button>
+              <button
+                type="button"
+                onClick={() => move(index, 1)}
+                disabled={index === value.length - 1}
+                className="rounded-md border p-2 hover:bg-gray-50 disabled:opacity-40"
+                aria-label="Move question down"
+              >
+                <ArrowDownIcon className="h-4 w-4" />
+              </button>
+              <button
+                type="button"
+                onClick={() => onChange(value.filter((_, i) => i !== index))}
+                className="rounded-md border p-2 text-red-600 hover:bg-red-50"
+                aria-label="Remove question"
+              >
+                <TrashIcon className="h-4 w-4" />
+              </button>
+            </div>
+          </div>
+          <div className="flex flex-wrap items-center gap-4 pl-6">
+            <select
+              value={q.type}
+              onChange={(e) => update(index, { type: e.target.value as CustomQuestionType })}
+              className="rounded-xl border-gray-200 focus:border-purple-500 focus:ring-purple-500 px-3 py-2 text-sm"
+            >
+              {CUSTOM_QUESTION_TYPES.map((t) => (
+                <option key={t.value} value={t.value}>{t.label}</option>
+              ))}
+            </select>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input type="checkbox" checked={q.required} onChange={(e) => update(index, { required: e.target.checked })} />
+              Required
+            </label>
+          </div>
+          {QUESTION_TYPES_WITH_OPTIONS.has(q.type) && (
+            <div className="pl-6">
+              <TagInput
+                value={q.options}
+                onChange={(options) => update(index, { options })}
+                placeholder="Type an option and press Enter"
+              />
+            </div>
+          )}
+          {errorFor?.(index) && <p className="pl-6 text-sm text-red-600">{errorFor(index)}</p>}
+        </div>
+      ))}
+      <button
+        type="button"
+        onClick={add}
+        className="inline-flex items-center gap-2 px-3 py-1 text-sm rounded-md border hover:bg-gray-50"
+      >
+        <PlusIcon className="h-4 w-4" />
+        Add Question
+      </button>
+    </div>
+  );
+};
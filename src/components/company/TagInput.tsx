@@ -0,0 +1,93 @@
+import React, { useMemo, useState } from 'react';
+import { XMarkIcon } from '@heroicons/react/24/outline';
+
+interface Props {
+  value: string[];
+  onChange: (next: string[]) => void;
+  placeholder?: string;
+  /** Offered as a dropdown while typing; anything else can still be added with Enter. */
+  suggestions?: string[];
+  maxSuggestions?: number;
+}
+
+export const TagInput: React.FC<Props> = ({ value, onChange, placeholder, suggestions = [], maxSuggestions = 8 }) => {
+  const [draft, setDraft] = useState('');
+  const [focused, setFocused] = useState(false);
+
+  const matches = useMemo(() => {
+    const query = draft.trim().toLowerCase();
+    if (!query) return [];
+    const taken = new Set(value.map((v) => v.toLowerCase()));
+    return suggestions
+      .filter((s) => s.toLowerCase().includes(query) && !taken.has(s.toLowerCase()))
+      .slice(0, maxSuggestions);
+  }, [draft, suggestions, value, maxSuggestions]);
+
+  const add = (raw: string) => {
+    const tag = raw.trim();
+    if (!tag) return;
+    // Prefer the canonical spelling when the typed text matches a suggestion
+    const canonical = suggestions.find((s) => s.toLowerCase() === tag.toLowerCase()) ?? tag;
+    if (!value.some((v) => v.toLowerCase() === canonical.toLowerCase())) {
+      onChange([...value, canonical]);
+    }
+    setDraft('');
+  };
+
+  const remove = (tag: string) => onChange(value.filter((v) => v !== tag));
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      add(draft);
+    } else if (e.key === 'Backspace' && !draft && value.length > 0) {
+      remove(value[value.length - 1]);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <div className="flex flex-wrap items-center gap-2 rounded-xl border border-gray-200 px-3 py-2 focus-within:border-purple-500">
+        {value.map((tag) => (
+          <span key={tag} className="inline-flex items-center gap-1 rounded-md bg-purple-50 px-2 py-1 text-sm text-purple-700">
+            {tag}
+            <button type="button" onClick={() => remove(tag)} aria-label={`Remove ${tag}`} className="hover:text-purple-900">
+              <XMarkIcon className="h-3 w-3" />
+            </button>
+          </span>
+        ))}
+        <input
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setFocused(true)}
+          onBlur={() => {
+            setFocused(false);
+            add(draft);
+          }}
+          placeholder={value.length === 0 ? placeholder : ''}
+          className="min-w-[8rem] flex-1 border-none p-1 text-sm focus:outline-none focus:ring-0"
+        />
+      </div>
+      {focused && matches.length > 0 && (
+        <ul className="absolute z-20 mt-1 max-h-56 w-full overflow-y-auto rounded-xl border border-gray-200 bg-white py-1 shadow-lg">
+          {matches.map((match) => (
+            <li key={match}>
+              <button
+                type="button"
+                // mousedown fires before the input blurs, so the click isn't lost
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  add(match);
+                }}
+                className="w-full px-3 py-1.5 text-left text-sm hover:bg-purple-50"
+              >
+                {match}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
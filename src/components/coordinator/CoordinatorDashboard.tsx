@@ -0,0 +1,302 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import toast from 'react-hot-toast';
+import { ArrowDownTrayIcon } from '@heroicons/react/24/outline';
+import { supabase } from '@/lib/supabase';
+import type { CohortStudent, CollegeCoordinator, PlacementStatus } from '@/types';
+import { useAuthStore } from '@/stores/authStore';
+import {
+  COHORT_CSV_COLUMNS,
+  EMPTY_COHORT_FILTERS,
+  PLACEMENT_STATUS_LABELS,
+  filterCohort,
+  getCohortCourses,
+  getCohortSummary,
+  getPlacementStatus,
+  type CohortFilters,
+} from '@/utils/coordinator';
+import { downloadCsv, toCsv } from '@/utils/csv';
+import { formatDate } from '@/utils/formatting';
+import { CoordinatorStudentApplications } from './CoordinatorStudentApplications';
+import { NominatePanel } from './NominatePanel';
+
+const PLACEMENT_BADGE_STYLES: Record<PlacementStatus, string> = {
+  placed: 'bg-green-50 text-green-700',
+  offered: 'bg-emerald-50 text-emerald-700',
+  interviewing: 'bg-blue-50 text-blue-700',
+  applied: 'bg-gray-100 text-gray-700',
+  not_applied: 'bg-amber-50 text-amber-700',
+};
+
+const SummaryTile: React.FC<{ label: string; value: number; active: boolean; onClick: () => void }> = ({ label, value, active, onClick }) => (
+  <button
+    onClick={onClick}
+    className={`rounded-xl border p-4 text-left bg-white ${active ? 'border-purple-500 ring-1 ring-purple-500' : 'border-gray-200 hover:border-gray-300'}`}
+  >
+    <div className="text-2xl font-semibold text-gray-900">{value}</div>
+    <div className="text-sm text-gray-500">{label}</div>
+  </button>
+);
+
+export const CoordinatorDashboard: React.FC = () => {
+  const { user } = useAuthStore();
+  const [coordinator, setCoordinator] = useState<CollegeCoordinator | null>(null);
+  const [students, setStudents] = useState<CohortStudent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [filters, setFilters] = useState<CohortFilters>(EMPTY_COHORT_FILTERS);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [nominating, setNominating] = useState(false);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    let isSubscribed = true;
+
+    const load = async () => {
+      if (!user) return;
+      setLoading(true);
+      const [coordinatorResult, cohortResult] = await Promise.all([
+        supabase
+          .from('college_coordinators')
+          .select('coordinator_id, user_id, college_name, full_name, designation')
+          .eq('user_id', user.id)
+          .returns<CollegeCoordinator[]>()
+          .maybeSingle(),
+        supabase.rpc('coordinator_cohort'),
+      ]);
+      if (!isSubscribed) return;
+
+      if (coordinatorResult.error) console.error('Failed to load coordinator profile:', coordinatorResult.error);
+      if (cohortResult.error) {
+        console.error('Failed to load cohort:', cohortResult.error);
+        toast.error('Could not load your students');
+      }
+      setCoordinator(coordinatorResult.data ?? null);
+      setStudents((cohortResult.data as CohortStudent[] | null) ?? []);
+      setLoading(false);
+    };
+    load();
+
+    return () => {
+      isSubscribed = false;
+    };
+  }, [user, reloadKey]);
+
+  const courses = useMemo(() => getCohortCourses(students), [students]);
+  const summary = useMemo(() => getCohortSummary(students), [students]);
+  const visibleStudents = useMemo(() => filterCohort(students, filters), [students, filters]);
+
+  const updateFilters = (patch: Partial<CohortFilters>) => setFilters((prev) => ({ ...prev, ...patch }));
+
+  const toggleSelected = (studentId: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(studentId)) {
+        next.delete(studentId);
+      } else {
+        next.add(studentId);
+      }
+      return next;
+    });
+  };
+
+  // Students hidden by the filters stay ticked but are never nominated
+  const selectedStudentIds = useMemo(
+    () => visibleStudents.filter((s) => selectedIds.has(s.student_id)).map((s) => s.student_id),
+    [visibleStudents, selectedIds],
+  );
+  const allVisibleSelected = visibleStudents.length > 0 && selectedStudentIds.length === visibleStudents.length;
+
+  const toggleSelectAll = () => {
+    setSelectedIds(allVisibleSelected ? new Set() : new Set(visibleStudents.map((s) => s.student_id)));
+  };
+
+  const exportCsv = () => {
+    const college = (coordinator?.college_name ?? 'cohort').toLowerCase().replace(/[^a-z0-9]+/g, '-');
+    downloadCsv(`${college}-students-${new Date().toISOString().slice(0, 10)}.csv`, toCsv(visibleStudents, COHORT_CSV_COLUMNS));
+  };
+
+  if (loading) {
+    return <div className="max-w-6xl mx-auto px-4 py-8 text-gray-500">Loading...</div>;
+  }
+
+  if (!coordinator) {
+    return (
+      <div className="max-w-6xl mx-auto px-4 py-8">
+        <p className="text-gray-600">Your account isn't linked to a college yet. Ask a TrackIntern admin to set it up.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-6xl mx-auto px-4 py-8 space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold">{coordinator.college_name}</h1>
+          <p className="text-sm text-gray-500 mt-1">Placement cell overview of students who listed this college on their profile.</p>
+        </div>
+        <button
+          onClick={exportCsv}
+          disabled={visibleStudents.length === 0}
+          className="flex items-center gap-1 px-3 py-1 text-sm rounded-md border hover:bg-gray-50 disabled:opacity-50"
+        >
+          <ArrowDownTrayIcon className="h-4 w-4" />
+          Export CSV
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-6 gap-3">
+        <SummaryTile label="Students" value={summary.total} active={filters.placement === 'all'} onClick={() => updateFilters({ placement: 'all' })} />
+        {(Object.keys(PLACEMENT_STATUS_LABELS) as PlacementStatus[]).map((status) => (
+          <SummaryTile
+            key={status}
+            label={PLACEMENT_STATUS_LABELS[status]}
+            value={summary[status]}
+            active={filters.placement === status}
+            onClick={() => updateFilters({ placement: status })}
+          />
+        ))}
+      </div>
+
+      <div className="grid gap-3 md:grid-cols-4">
+        <input
+          value={filters.search}
+          onChange={(e) => updateFilters({ search: e.target.value })}
+          placeholder="Search by name or email"
+          className="w-full rounded-xl border-gray-200 focus:border-purple-500 focus:ring-purple-500 px-4 py-2.5"
+        />
+        <select
+          value={filters.course}
+          onChange={(e) => updateFilters({ course: e.target.value })}
+          className="w-full rounded-xl border-gray-200 focus:border-purple-500 focus:ring-purple-500 px-4 py-2.5"
+        >
+          <option value="">All courses</option>
+          {courses.map((course) => (
+            <option key={course} value={course}>
+              {course}
+            </option>
+          ))}
+        </select>
+        <select
+          value={filters.yearOfStudy ?? ''}
+          onChange={(e) => updateFilters({ yearOfStudy: e.target.value ? Number(e.target.value) : null })}
+          className="w-full rounded-xl border-gray-200 focus:border-purple-500 focus:ring-purple-500 px-4 py-2.5"
+        >
+          <option value="">All years</option>
+          {[1, 2, 3, 4].map((year) => (
+            <option key={year} value={year}>
+              Year {year}
+            </option>
+          ))}
+        </select>
+        <input
+          type="number"
+          min={0}
+          max={10}
+          step={0.1}
+          value={filters.minCgpa ?? ''}
+          onChange={(e) => updateFilters({ minCgpa: e.target.value === '' ? null : Number(e.target.value) })}
+          placeholder="Minimum CGPA"
+          className="w-full rounded-xl border-gray-200 focus:border-purple-500 focus:ring-purple-500 px-4 py-2.5"
+        />
+      </div>
+
+      {selectedStudentIds.length > 0 && !nominating && (
+        <div className="flex items-center gap-3 text-sm">
+          <span>{selectedStudentIds.length} selected</span>
+          <button onClick={() => setNominating(true)} className="px-3 py-1 text-sm rounded-md bg-purple-600 text-white hover:bg-purple-700">
+            Nominate for an opportunity
+          </button>
+          <button onClick={() => setSelectedIds(new Set())} className="text-purple-600 hover:underline">
+            Clear
+          </button>
+        </div>
+      )}
+
+      {nominating && (
+        <NominatePanel
+          studentIds={selectedStudentIds}
+          onCancel={() => setNominating(false)}
+          onDone={() => {
+            setNominating(false);
+            setSelectedIds(new Set());
+            setReloadKey((key) => key + 1);
+          }}
+        />
+      )}
+
+      {visibleStudents.length === 0 ? (
+        <p className="text-gray-600">{students.length === 0 ? 'No students have listed your college yet.' : 'No students match these filters.'}</p>
+      ) : (
+        <div className="overflow-x-auto rounded-lg border bg-white">
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-50 text-left text-gray-600">
+              <tr>
+                <th className="px-4 py-2">
+                  <input type="checkbox" checked={allVisibleSelected} onChange={toggleSelectAll} aria-label="Select all students" />
+                </th>
+                <th className="px-4 py-2 font-medium">Student</th>
+                <th className="px-4 py-2 font-medium">Course</th>
+                <th className="px-4 py-2 font-medium">CGPA</th>
+                <th className="px-4 py-2 font-medium">Applications</th>
+                <th className="px-4 py-2 font-medium">Status</th>
+                <th className="px-4 py-2" />
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {visibleStudents.map((student) => {
+                const status = getPlacementStatus(student);
+                const expanded = expandedId === student.student_id;
+                return (
+                  <React.Fragment key={student.student_id}>
+                    <tr>
+                      <td className="px-4 py-2">
+                        <input
+                          type="checkbox"
+                          checked={selectedIds.has(student.student_id)}
+                          onChange={() => toggleSelected(student.student_id)}
+                          aria-label={`Select ${student.full_name}`}
+                        />
+                      </td>
+                      <td className="px-4 py-2">
+                        <div className="font-medium text-gray-900">{student.full_name}</div>
+                        <div className="text-gray-500">{student.email}</div>
+                      </td>
+                      <td className="px-4 py-2 text-gray-600">
+                        {student.course || '—'}
+                        {student.year_of_study && <span className="text-gray-400"> • Year {student.year_of_study}</span>}
+                      </td>
+                      <td className="px-4 py-2 text-gray-600">{student.cgpa ?? '—'}</td>
+                      <td className="px-4 py-2 text-gray-600">
+                        {student.applications_count}
+                        {student.nominations_count > 0 && <span className="text-gray-400"> • {student.nominations_count} nominated</span>}
+                        {student.last_applied_at && <div className="text-xs text-gray-400">Last {formatDate(student.last_applied_at)}</div>}
+                      </td>
+                      <td className="px-4 py-2">
+                        <span className={`rounded-md px-2 py-0.5 ${PLACEMENT_BADGE_STYLES[status]}`}>{PLACEMENT_STATUS_LABELS[status]}</span>
+                      </td>
+                      <td className="px-4 py-2 text-right">
+                        <button
+                          onClick={() => setExpandedId(expanded ? null : student.student_id)}
+                          className="px-3 py-1 text-sm rounded-md border hover:bg-gray-50"
+                        >
+                          {expanded ? 'Hide' : 'Applications'}
+                        </button>
+                      </td>
+                    </tr>
+                    {expanded && (
+                      <tr>
+                        <td colSpan={7} className="bg-gray-50 px-6 py-3">
+                          <CoordinatorStudentApplications studentId={student.student_id} />
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
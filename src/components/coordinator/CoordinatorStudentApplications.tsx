@@ -0,0 +1,95 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import toast from 'react-hot-toast';
+import { supabase } from '@/lib/supabase';
+import type { CoordinatorApplication } from '@/types';
+import { formatApplicationStatus, formatDate, getStatusColor } from '@/utils/formatting';
+import { getOpportunityPath } from '@/utils/opportunityDetail';
+
+interface Props {
+  studentId: string;
+}
+
+export const CoordinatorStudentApplications: React.FC<Props> = ({ studentId }) => {
+  const [applications, setApplications] = useState<CoordinatorApplication[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isSubscribed = true;
+
+    const load = async () => {
+      setLoading(true);
+      const { data, error } = await supabase.rpc('coordinator_student_applications', { p_student_id: studentId });
+      if (!isSubscribed) return;
+      if (error) {
+        console.error('Failed to load student applications:', error);
+        toast.error('Could not load applications');
+      }
+      setApplications((data as CoordinatorApplication[] | null) ?? []);
+      setLoading(false);
+    };
+    load();
+
+    return () => {
+      isSubscribed = false;
+    };
+  }, [studentId]);
+
+  const toggleApproval = async (application: CoordinatorApplication) => {
+    const approve = !application.college_approved_at;
+    setUpdatingId(application.application_id);
+    const { data, error } = await supabase.rpc('coordinator_set_application_approval', {
+      p_application_id: application.application_id,
+      p_approved: approve,
+    });
+    setUpdatingId(null);
+
+    if (error) {
+      console.error('Failed to update approval:', error);
+      toast.error(error.message || 'Could not update the approval');
+      return;
+    }
+    setApplications((prev) =>
+      prev.map((a) => (a.application_id === application.application_id ? { ...a, college_approved_at: (data as string | null) ?? null } : a)),
+    );
+  };
+
+  if (loading) return <p className="text-sm text-gray-500">Loading...</p>;
+  if (applications.length === 0) return <p className="text-sm text-gray-600">No applications yet.</p>;
+
+  return (
+    <ul className="divide-y">
+      {applications.map((application) => (
+        <li key={application.application_id} className="flex items-center justify-between gap-4 py-2 text-sm">
+          <div>
+            <Link
+              to={getOpportunityPath({ opportunity_id: application.opportunity_id, slug: application.opportunity_slug })}
+              className="font-medium hover:underline"
+            >
+              {application.opportunity_title}
+            </Link>
+            <span className="text-gray-600">
+              {application.company_name && ` • ${application.company_name}`}
+              {application.applied_date && ` • Applied ${formatDate(application.applied_date)}`}
+            </span>
+          </div>
+          <div className="flex items-center gap-2">
+            <span className={`text-xs px-2 py-1 rounded-md ${getStatusColor(application.status)}`}>
+              {formatApplicationStatus(application.status)}
+              {application.status === 'selected' && application.is_accepted && ' (accepted)'}
+            </span>
+            <button
+              disabled={updatingId === application.application_id}
+              onClick={() => toggleApproval(application)}
+              className={`px-3 py-1 text-sm rounded-md border hover:bg-gray-50 disabled:opacity-50 ${application.college_approved_at ? 'text-green-700' : ''}`}
+              title={application.college_approved_at ? `Approved ${formatDate(application.college_approved_at)}` : undefined}
+            >
+              {application.college_approved_at ? 'Approved' : 'Approve'}
+            </button>
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+};
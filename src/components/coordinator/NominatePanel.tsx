@@ -0,0 +1,140 @@
+import React, { useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import { supabase } from '@/lib/supabase';
+import { useDebounce } from '@/hooks/useDebounce';
+import { formatDeadlineCountdown } from '@/utils/formatting';
+
+interface OpenOpportunity {
+  opportunity_id: string;
+  title: string;
+  application_deadline: string | null;
+  companies: { company_name: string } | null;
+}
+
+interface Props {
+  studentIds: string[];
+  onDone: () => void;
+  onCancel: () => void;
+}
+
+export const NominatePanel: React.FC<Props> = ({ studentIds, onDone, onCancel }) => {
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<OpenOpportunity[]>([]);
+  const [selected, setSelected] = useState<OpenOpportunity | null>(null);
+  const [note, setNote] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const debouncedQuery = useDebounce(query, 300);
+
+  useEffect(() => {
+    let isSubscribed = true;
+
+    const search = async () => {
+      let request = supabase
+        .from('opportunities')
+        .select('opportunity_id, title, application_deadline, companies(company_name)')
+        .eq('status', 'active')
+        .order('created_at', { ascending: false })
+        .limit(10);
+      const term = debouncedQuery.trim();
+      if (term) request = request.ilike('title', `%${term}%`);
+
+      const { data, error } = await request.returns<OpenOpportunity[]>();
+      if (!isSubscribed) return;
+      if (error) console.error('Failed to search opportunities:', error);
+      setResults(data ?? []);
+    };
+    search();
+
+    return () => {
+      isSubscribed = false;
+    };
+  }, [debouncedQuery]);
+
+  const nominate = async () => {
+    if (!selected) return;
+    setSubmitting(true);
+    const { data, error } = await supabase.rpc('coordinator_nominate', {
+      p_opportunity_id: selected.opportunity_id,
+      p_student_ids: studentIds,
+      p_note: note.trim() || null,
+    });
+    setSubmitting(false);
+
+    if (error) {
+      console.error('Failed to nominate students:', error);
+      toast.error(error.message || 'Could not nominate students');
+      return;
+    }
+    const added = (data as number | null) ?? 0;
+    const alreadyNominated = studentIds.length - added;
+    toast.success(
+      `Nominated ${added} student${added === 1 ? '' : 's'} for ${selected.title}` +
+        (alreadyNominated > 0 ? ` (${alreadyNominated} already nominated)` : ''),
+    );
+    onDone();
+  };
+
+  return (
+    <div className="rounded-lg border border-purple-200 bg-purple-50/50 p-4 space-y-3">
+      <div className="font-medium">
+        Nominate {studentIds.length} student{studentIds.length === 1 ? '' : 's'}
+      </div>
+      {selected ? (
+        <div className="flex items-center justify-between rounded-md border bg-white px-3 py-2 text-sm">
+          <span>
+            <span className="font-medium">{selected.title}</span>
+            {selected.companies && ` • ${selected.companies.company_name}`}
+          </span>
+          <button onClick={() => setSelected(null)} className="text-purple-600 hover:underline">
+            Change
+          </button>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          <input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search open opportunities"
+            className="w-full rounded-xl border-gray-200 focus:border-purple-500 focus:ring-purple-500 px-4 py-2.5"
+          />
+          <ul className="max-h-56 overflow-y-auto divide-y rounded-md border bg-white">
+            {results.length === 0 ? (
+              <li className="px-3 py-2 text-sm text-gray-500">No open opportunities match.</li>
+            ) : (
+              results.map((opportunity) => (
+                <li key={opportunity.opportunity_id}>
+                  <button onClick={() => setSelected(opportunity)} className="w-full px-3 py-2 text-left text-sm hover:bg-gray-50">
+                    <span className="font-medium">{opportunity.title}</span>
+                    {opportunity.companies && ` • ${opportunity.companies.company_name}`}
+                    {opportunity.application_deadline && (
+                      <span className="text-gray-500"> • {formatDeadlineCountdown(opportunity.application_deadline)}</span>
+                    )}
+                  </button>
+                </li>
+              ))
+            )}
+          </ul>
+        </div>
+      )}
+      <textarea
+        value={note}
+        onChange={(e) => setNote(e.target.value)}
+        placeholder="Note for the company (optional)"
+        rows={2}
+        className="w-full rounded-md border px-3 py-1 text-sm"
+      />
+      <div className="flex gap-2">
+        <button
+          disabled={!selected || submitting}
+          onClick={nominate}
+          className="px-3 py-1 text-sm rounded-md bg-purple-600 text-white hover:bg-purple-700 disabled:opacity-50"
+        >
+          Nominate
+        </button>
+        <button onClick={onCancel} className="px-3 py-1 text-sm rounded-md border hover:bg-gray-50">
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,169 @@
+import React, { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Bar, BarChart, CartesianGrid, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { ClockIcon, LightBulbIcon } from '@heroicons/react/24/outline';
+import type { InsightApplication } from '../../types';
+import {
+  DEFAULT_STALLED_DAYS,
+  STALLED_DAY_OPTIONS,
+  getInsightNudges,
+  getStalledApplications,
+  getSuccessByType,
+  getSuccessByWorkMode,
+  getWeeklyApplications,
+  summarizeApplications,
+} from '../../utils/applicationInsights';
+import type { SuccessBreakdownRow } from '../../utils/applicationInsights';
+import { formatApplicationStatus, formatElapsed } from '../../utils/formatting';
+
+interface ApplicationInsightsProps {
+  applications: InsightApplication[];
+  profileStrength: number;
+  navigateTo: (path: string) => void;
+}
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+const SuccessTable: React.FC<{ title: string; rows: SuccessBreakdownRow[] }> = ({ title, rows }) => (
+  <div>
+    <h3 className="font-semibold text-gray-800 mb-2">{title}</h3>
+    {rows.length === 0 ? (
+      <p className="text-sm text-gray-500">No applications yet.</p>
+    ) : (
+      <div className="space-y-2">
+        {rows.map((row) => (
+          <div key={row.key} className="text-sm">
+            <div className="flex justify-between text-gray-600">
+              <span>{row.label}</span>
+              <span>
+                {row.offers}/{row.applications} offers • {percent(row.successRate)}
+              </span>
+            </div>
+            <div className="w-full h-2 bg-gray-100 rounded-full mt-1">
+              <div className="h-2 bg-green-500 rounded-full" style={{ width: percent(row.successRate) }} />
+            </div>
+          </div>
+        ))}
+      </div>
+    )}
+  </div>
+);
+
+export const ApplicationInsights: React.FC<ApplicationInsightsProps> = ({ applications, profileStrength, navigateTo }) => {
+  const [stalledDays, setStalledDays] = useState(DEFAULT_STALLED_DAYS);
+
+  const summary = useMemo(() => summarizeApplications(applications), [applications]);
+  const weekly = useMemo(() => getWeeklyApplications(applications), [applications]);
+  const byType = useMemo(() => getSuccessByType(applications), [applications]);
+  const byWorkMode = useMemo(() => getSuccessByWorkMode(applications), [applications]);
+  const stalled = useMemo(() => getStalledApplications(applications, stalledDays), [applications, stalledDays]);
+  const nudges = useMemo(
+    () => getInsightNudges(applications, { stalled, profileStrength }),
+    [applications, stalled, profileStrength],
+  );
+
+  const tiles = [
+    { label: 'Response rate', value: percent(summary.responseRate), hint: `${summary.responded} of ${summary.applications} heard back` },
+    { label: 'Avg. first response', value: formatElapsed(summary.averageResponseMs), hint: 'From applying to the first company update' },
+    { label: 'Interview rate', value: percent(summary.applications === 0 ? 0 : summary.interviews / summary.applications), hint: `${summary.interviews} reached interviews` },
+    { label: 'Offer rate', value: percent(summary.applications === 0 ? 0 : summary.offers / summary.applications), hint: `${summary.offers} offers so far` },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {tiles.map((tile) => (
+          <div key={tile.label} className="bg-white border border-gray-200/80 rounded-2xl p-4 shadow-sm">
+            <p className="text-sm text-gray-500 font-medium">{tile.label}</p>
+            <p className="text-2xl font-bold text-gray-800 mt-1">{tile.value}</p>
+            <p className="text-xs text-gray-400 mt-1">{tile.hint}</p>
+          </div>
+        ))}
+      </div>
+
+      {nudges.length > 0 && (
+        <div className="bg-purple-50 border border-purple-100 rounded-2xl p-4 space-y-3">
+          {nudges.map((nudge) => (
+            <div key={nudge.kind} className="flex flex-col sm:flex-row sm:items-center gap-2">
+              <LightBulbIcon className="w-5 h-5 text-purple-600 flex-shrink-0" />
+              <p className="flex-1 text-sm text-gray-700">{nudge.message}</p>
+              <button
+                onClick={() => navigateTo(nudge.link)}
+                className="text-sm font-medium text-purple-600 hover:text-purple-700 whitespace-nowrap"
+              >
+                {nudge.action} →
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="bg-white border border-gray-200/80 rounded-2xl p-6 shadow-sm">
+          <h3 className="font-semibold text-gray-800 mb-4">Applications per week</h3>
+          <div className="h-56">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={weekly}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                <XAxis dataKey="label" tick={{ fontSize: 12 }} minTickGap={8} />
+                <YAxis allowDecimals={false} tick={{ fontSize: 12 }} />
+                <Tooltip labelFormatter={(label) => `Week of ${label}`} />
+                <Bar dataKey="applications" name="Applications" fill="#7c3aed" radius={[4, 4, 0, 0]} isAnimationActive={false} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+
+        <div className="bg-white border border-gray-200/80 rounded-2xl p-6 shadow-sm space-y-6">
+          <SuccessTable title="Success by opportunity type" rows={byType} />
+          <SuccessTable title="Success by work mode" rows={byWorkMode} />
+        </div>
+      </div>
+
+      <div className="bg-white border border-gray-200/80 rounded-2xl p-6 shadow-sm">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="font-semibold text-gray-800">Stalled applications</h3>
+          <label className="text-sm text-gray-500">
+            No update in{' '}
+            <select
+              value={stalledDays}
+              onChange={(e) => setStalledDays(Number(e.target.value))}
+              className="rounded-lg border-gray-200 focus:border-purple-500 focus:ring-purple-500 py-1 text-sm"
+            >
+              {STALLED_DAY_OPTIONS.map((days) => (
+                <option key={days} value={days}>
+                  {days} days
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+        {stalled.length === 0 ? (
+          <p className="text-sm text-gray-500">Nothing stalled. Every open application has moved in the last {stalledDays} days.</p>
+        ) : (
+          <div className="space-y-3">
+            {stalled.map((row, index) => (
+              <motion.div
+                key={row.applicationId}
+                initial={{ opacity: 0, x: -20 }}
+                animate={{ opacity: 1, x: 0 }}
+                transition={{ delay: 0.05 * index }}
+                onClick={() => navigateTo('/applications')}
+                className="flex justify-between items-center pb-3 border-b last:border-b-0 border-gray-100 cursor-pointer"
+              >
+                <div className="flex-1 min-w-0">
+                  <p className="font-semibold text-gray-800 truncate">{row.title}</p>
+                  <p className="text-sm text-gray-500">{formatApplicationStatus(row.status)}</p>
+                </div>
+                <p className="flex items-center gap-1 text-sm text-amber-600 ml-4 whitespace-nowrap">
+                  <ClockIcon className="w-4 h-4" />
+                  {row.daysStalled} days
+                </p>
+              </motion.div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
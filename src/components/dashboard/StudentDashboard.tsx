@@ -1,9 +1,18 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { motion, animate } from 'framer-motion';
 import { supabase } from '../../lib/supabase';
 import { useAuthStore } from '../../stores/authStore';
 import toast from 'react-hot-toast';
 import ShinyText from '../ui/ShinyText';
+import { ApplicationInsights } from './ApplicationInsights';
+import { fetchUpcomingInterviews, useUpcomingInterviews } from '../../hooks/useInterviews';
+import { useSkillsMaster } from '../../hooks/useSkillsMaster';
+import { buildRelatedSkillIndex, computeMatchScore, getTopMatchReason } from '../../utils/matchScore';
+import { getOpportunityPath } from '../../utils/opportunityDetail';
+import { track } from '../../lib/analytics';
+import type { InsightApplication, JsonValue } from '../../types';
+import { deadlineToEvent, downloadCalendar, interviewToEvent } from '../../utils/calendar';
+import type { CalendarEvent, DeadlineSource } from '../../utils/calendar';
 import { 
   ArrowUpRightIcon, 
   BriefcaseIcon, 
@@ -12,6 +21,8 @@ import {
   ChartBarIcon, 
   PencilIcon,
   RocketLaunchIcon,
+  CalendarDaysIcon,
+  ArrowDownTrayIcon,
   CheckIcon,
   XMarkIcon
 } from '@heroicons/react/24/outline';
@@ -56,6 +67,7 @@ interface ProfileCompletionItem {
 
 interface RecommendedOpportunity {
   opportunity_id: string;
+  slug?: string | null;
   title: string;
   companies?: {
     company_name: string;
@@ -65,8 +77,15 @@ interface RecommendedOpportunity {
   ctc_min?: number;
   ctc_max?: number;
   currency?: string;
+  required_skills?: JsonValue | null;
+  preferred_skills?: JsonValue | null;
+  location?: JsonValue | null;
+  work_mode?: string | null;
 }
 
+// Recommendations are ranked client-side from this many of the newest active openings
+const RECOMMENDATION_POOL_SIZE = 50;
+
 interface StudentDashboardProps {
   navigateTo: (path: string) => void;
 }
@@ -103,7 +122,21 @@ export const StudentDashboard: React.FC<StudentDashboardProps> = ({ navigateTo }
   const [recentActivity, setRecentActivity] = useState<RecentActivity[]>([]);
   const [upcomingDeadlines, setUpcomingDeadlines] = useState<UpcomingDeadline[]>([]);
   const [recommendedOpportunities, setRecommendedOpportunities] = useState<RecommendedOpportunity[]>([]);
+  const [insightApplications, setInsightApplications] = useState<InsightApplication[]>([]);
   const [loading, setLoading] = useState(true);
+  const [exportingCalendar, setExportingCalendar] = useState(false);
+  const { interviews: upcomingInterviews } = useUpcomingInterviews(studentId);
+  const { skills: skillsMaster } = useSkillsMaster();
+  const relatedSkills = useMemo(() => buildRelatedSkillIndex(skillsMaster), [skillsMaster]);
+
+  const rankedRecommendations = useMemo(
+    () =>
+      recommendedOpportunities
+        .map((opportunity) => ({ opportunity, match: computeMatchScore(opportunity, profile, relatedSkills) }))
+        .sort((a, b) => b.match.score - a.match.score)
+        .slice(0, 3),
+    [recommendedOpportunities, profile, relatedSkills],
+  );
 
   useEffect(() => {
     const fetchData = async () => {
@@ -115,13 +148,22 @@ export const StudentDashboard: React.FC<StudentDashboardProps> = ({ navigateTo }
       try {
         setLoading(true);
 
-        // Fetch application statistics
+        // Fetch applications for the stats and insights
         const { data: applications, error: appError } = await supabase
           .from('applications')
-          .select('status')
-          .eq('student_id', studentId);
+          .select(`
+            application_id,
+            status,
+            applied_date,
+            status_updated_at,
+            opportunities (title, slug, type, work_mode),
+            application_status_history (to_status, actor_type, changed_at)
+          `)
+          .eq('student_id', studentId)
+          .returns<InsightApplication[]>();
 
         if (appError) throw appError;
+        setInsightApplications(applications ?? []);
 
         const totalApps = applications?.length || 0;
         const interviews =
@@ -199,19 +241,24 @@ export const StudentDashboard: React.FC<StudentDashboardProps> = ({ navigateTo }
             .from('opportunities')
             .select(`
               opportunity_id,
+              slug,
               title,
               stipend_min,
               stipend_max,
               ctc_min,
               ctc_max,
               currency,
+              required_skills,
+              preferred_skills,
+              location,
+              work_mode,
               companies (
                 company_name
               )
             `)
             .eq('status', 'active')
             .order('created_at', { ascending: false })
-            .limit(3);
+            .limit(RECOMMENDATION_POOL_SIZE);
 
           if (!recommendedError && recommendedData) {
             setRecommendedOpportunities(recommendedData as RecommendedOpportunity[]);
@@ -299,6 +346,57 @@ export const StudentDashboard: React.FC<StudentDashboardProps> = ({ navigateTo }
     }
   ].filter(item => !item.completed).slice(0, 3); // Show top 3 incomplete items
 
+  const handleExportCalendar = async () => {
+    if (!studentId) return;
+    setExportingCalendar(true);
+
+    // The dashboard only shows the next few deadlines and live rounds; the feed
+    // carries all of them, plus cancelled rounds so imported copies get withdrawn
+    const [deadlines, interviews] = await Promise.all([
+      supabase.rpc('get_upcoming_deadlines_for_student', {
+        p_student_id: studentId,
+        p_limit: 100,
+      }),
+      fetchUpcomingInterviews(studentId, { limit: 100, includeCancelled: true }).catch((error: unknown) => {
+        console.error('Calendar export error:', error);
+        return null;
+      }),
+    ]);
+
+    // The deadlines feed has no slug or revision, which the events link to and
+    // version by, so a moved deadline replaces the copy already imported
+    const deadlineRows = (deadlines.data as UpcomingDeadline[] | null) ?? [];
+    const revisions = deadlineRows.length > 0
+      ? await supabase
+          .from('opportunities')
+          .select('opportunity_id, slug, updated_at')
+          .in('opportunity_id', deadlineRows.map((deadline) => deadline.opportunity_id))
+          .returns<Pick<DeadlineSource, 'opportunity_id' | 'slug' | 'updated_at'>[]>()
+      : { data: [], error: null };
+
+    setExportingCalendar(false);
+
+    if (deadlines.error || !interviews || revisions.error) {
+      if (deadlines.error) console.error('Calendar export error:', deadlines.error);
+      if (revisions.error) console.error('Calendar export error:', revisions.error);
+      toast.error('Could not export your calendar.');
+      return;
+    }
+
+    const revisionById = new Map((revisions.data ?? []).map((revision) => [revision.opportunity_id, revision]));
+    const events = [
+      ...deadlineRows.map((deadline) => deadlineToEvent({ ...deadline, ...revisionById.get(deadline.opportunity_id) })),
+      ...interviews.map(interviewToEvent),
+    ].filter((event): event is CalendarEvent => event !== null);
+
+    if (events.length === 0) {
+      toast('Nothing to export yet.');
+      return;
+    }
+
+    downloadCalendar('trackintern', events, 'TrackIntern');
+  };
+
   // Animation variants for staggered loading
   const containerVariants = {
     hidden: { opacity: 0 },
@@ -316,15 +414,32 @@ export const StudentDashboard: React.FC<StudentDashboardProps> = ({ navigateTo }
   return (
     <div className="min-h-screen text-gray-800 p-4 sm:p-8">
       <div className="max-w-7xl mx-auto">
-        <motion.div initial={{ opacity: 0, y: -20 }} animate={{ opacity: 1, y: 0 }}>
-          <h1 className="text-4xl font-bold mb-2">
-            <ShinyText 
-              text={`Welcome, ${displayName}`}
-              speed={3}
-              className="text-4xl font-bold text-gray-900"
-            />
-          </h1>
-          <p className="text-lg text-gray-600 mb-8">Here's your job search at a glance.</p>
+        <motion.div
+          initial={{ opacity: 0, y: -20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4 mb-8"
+        >
+          <div>
+            <h1 className="text-4xl font-bold mb-2">
+              <ShinyText 
+                text={`Welcome, ${displayName}`}
+                speed={3}
+                className="text-4xl font-bold text-gray-900"
+              />
+            </h1>
+            <p className="text-lg text-gray-600">Here's your job search at a glance.</p>
+          </div>
+          <motion.button
+            onClick={handleExportCalendar}
+            disabled={exportingCalendar}
+            whileHover={{ scale: 1.02 }}
+            whileTap={{ scale: 0.98 }}
+            className="flex items-center gap-2 px-4 py-2 bg-white border border-gray-200 rounded-lg text-sm font-medium text-gray-700 shadow-sm hover:border-purple-300 hover:text-purple-700 disabled:opacity-50"
+            title="Download deadlines and interviews as an .ics file"
+          >
+            <ArrowDownTrayIcon className="w-4 h-4" />
+            {exportingCalendar ? 'Exporting...' : 'Export Calendar'}
+          </motion.button>
         </motion.div>
 
         <motion.div 
@@ -482,6 +597,64 @@ export const StudentDashboard: React.FC<StudentDashboardProps> = ({ navigateTo }
               </motion.button>
             </motion.div>
 
+            {/* Upcoming Interviews */}
+            {upcomingInterviews.length > 0 && (
+              <motion.div variants={itemVariants} className="bg-white border border-gray-200/80 rounded-2xl p-6 shadow-sm">
+                <h2 className="text-xl font-semibold mb-4">Upcoming Interviews</h2>
+                <div className="space-y-4">
+                  {upcomingInterviews.slice(0, 3).map((interview, index) => (
+                    <motion.div
+                      key={interview.interview_id}
+                      initial={{ opacity: 0, y: 10 }}
+                      animate={{ opacity: 1, y: 0 }}
+                      transition={{ delay: index * 0.1 }}
+                      whileHover={{ x: 5 }}
+                      onClick={() => navigateTo('/applications')}
+                      className="pb-4 border-b last:border-b-0 border-gray-100 cursor-pointer hover:bg-gray-50/50 p-2 rounded-lg transition-all"
+                    >
+                      <p className="font-semibold text-gray-800 truncate">{interview.opportunity_title}</p>
+                      <p className="text-sm text-gray-500">
+                        {interview.company_name} · Round {interview.round_number} ({interview.interview_type})
+                      </p>
+                      <p className="text-sm font-semibold text-purple-600 mt-1 flex items-center gap-1">
+                        <CalendarDaysIcon className="w-4 h-4" />
+                        {interview.scheduled_at &&
+                          new Date(interview.scheduled_at).toLocaleString('en-US', {
+                            month: 'short',
+                            day: 'numeric',
+                            hour: 'numeric',
+                            minute: '2-digit',
+                          })}
+                      </p>
+                      <div className="flex items-center gap-3 mt-1">
+                        {interview.meeting_link && (
+                          <a
+                            href={interview.meeting_link}
+                            target="_blank"
+                            rel="noreferrer"
+                            onClick={(e) => e.stopPropagation()}
+                            className="text-xs text-blue-600 hover:underline"
+                          >
+                            Join meeting
+                          </a>
+                        )}
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            const event = interviewToEvent(interview);
+                            if (event) downloadCalendar(`interview-${interview.interview_id}`, [event]);
+                          }}
+                          className="text-xs text-gray-500 hover:text-purple-600 hover:underline"
+                        >
+                          Add to calendar
+                        </button>
+                      </div>
+                    </motion.div>
+                  ))}
+                </div>
+              </motion.div>
+            )}
+
             {/* Upcoming Deadlines / Recommendations */}
             <motion.div variants={itemVariants} className="bg-white border border-gray-200/80 rounded-2xl p-6 shadow-sm">
               <h2 className="text-xl font-semibold mb-4">
@@ -509,15 +682,18 @@ export const StudentDashboard: React.FC<StudentDashboardProps> = ({ navigateTo }
                       </p>
                     </motion.div>
                   ))
-                ) : recommendedOpportunities.length > 0 ? (
-                  recommendedOpportunities.map((opportunity, index) => (
+                ) : rankedRecommendations.length > 0 ? (
+                  rankedRecommendations.map(({ opportunity, match }, index) => (
                     <motion.div
                       key={opportunity.opportunity_id}
                       initial={{ opacity: 0, y: 10 }}
                       animate={{ opacity: 1, y: 0 }}
                       transition={{ delay: index * 0.1 }}
                       whileHover={{ scale: 1.02, y: -2 }}
-                      onClick={() => navigateTo('/opportunities')}
+                      onClick={() => {
+                        track('opportunity_clicked', { opportunity_id: opportunity.opportunity_id, position: index, list: 'recommended' });
+                        navigateTo(getOpportunityPath(opportunity));
+                      }}
                       className="p-4 border border-gray-100 rounded-lg hover:border-purple-200 hover:shadow-md cursor-pointer transition-all group"
                     >
                       <div className="flex justify-between items-start mb-2">
@@ -527,6 +703,12 @@ export const StudentDashboard: React.FC<StudentDashboardProps> = ({ navigateTo }
                         <ArrowUpRightIcon className="w-4 h-4 text-gray-400 group-hover:text-purple-500 flex-shrink-0 ml-2" />
                       </div>
                       <p className="text-sm text-gray-500 mb-2">{opportunity.companies?.company_name || 'Company'}</p>
+                      {match.factors.length > 0 && (
+                        <p className="text-xs text-gray-500 mb-2">
+                          <span className="font-semibold text-purple-700">{match.score}% match</span>
+                          {getTopMatchReason(match) && <> · {getTopMatchReason(match)}</>}
+                        </p>
+                      )}
                       {(opportunity.stipend_min || opportunity.ctc_min) && (
                         <div className="flex items-center gap-2">
                           <span className="text-xs bg-green-100 text-green-700 px-2 py-1 rounded-full">
@@ -560,6 +742,18 @@ export const StudentDashboard: React.FC<StudentDashboardProps> = ({ navigateTo }
           </div>
         </motion.div>
 
+        {/* Application Insights */}
+        {insightApplications.length > 0 && (
+          <motion.div variants={itemVariants} initial="hidden" animate="visible" className="mt-12">
+            <h2 className="text-2xl font-semibold mb-4">Application Insights</h2>
+            <ApplicationInsights
+              applications={insightApplications}
+              profileStrength={profileStrength}
+              navigateTo={navigateTo}
+            />
+          </motion.div>
+        )}
+
         {/* Application Pipeline */}
         <motion.div
           variants={itemVariants}
@@ -25,7 +25,7 @@ export const BackgroundWrapper: React.FC<BackgroundWrapperProps> = ({ children }
 
   return (
     <div className="relative min-h-screen">
-      <div className="fixed inset-0 z-0">
+      <div className="fixed inset-0 z-0 print:hidden">
         <PixelBlast
           variant="circle"
           pixelSize={6}
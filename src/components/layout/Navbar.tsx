@@ -2,6 +2,9 @@ import React, { useState, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { UserCircleIcon } from '@heroicons/react/24/outline';
 import { useAuthStore } from '../../stores/authStore';
+import { getHomePath } from '../../utils/roles';
+import { flushAnalytics } from '../../lib/analytics';
+import { useAnalyticsConsent } from '../../hooks/useAnalyticsConsent';
 import { NotificationDropdown } from '@/components/notifications/NotificationDropdown';
 
 interface NavbarProps {
@@ -14,6 +17,7 @@ export const Navbar: React.FC<NavbarProps> = ({ navigateTo, theme = 'light', cur
   const [isExpanded, setIsExpanded] = useState(false);
   const [isProfileOpen, setIsProfileOpen] = useState(false);
   const { user, signOut, userType } = useAuthStore();
+  const { consent: analyticsConsent, setConsent: setAnalyticsConsent } = useAnalyticsConsent();
   
   // Do not auto-expand; expand only on hover or when a dropdown is open
 
@@ -39,6 +43,8 @@ export const Navbar: React.FC<NavbarProps> = ({ navigateTo, theme = 'light', cur
   const collapseTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
   const handleSignOut = async () => {
+    // Queued events belong to this user and can't be sent once the session is gone
+    await flushAnalytics();
     await signOut();
     setIsProfileOpen(false);
     navigateTo('/');
@@ -125,7 +131,7 @@ export const Navbar: React.FC<NavbarProps> = ({ navigateTo, theme = 'light', cur
       ref={navRef}
       onMouseEnter={handleMouseEnter}
       onMouseLeave={handleMouseLeave}
-      className="fixed top-4 z-[9999] transition-all duration-300 ease-out"
+      className="fixed top-4 z-[9999] transition-all duration-300 ease-out print:hidden"
       style={{ 
         left: '50%', 
         transform: 'translateX(-50%)',
@@ -148,7 +154,7 @@ export const Navbar: React.FC<NavbarProps> = ({ navigateTo, theme = 'light', cur
           <motion.div
             whileHover={{ scale: 1.05 }}
             className="flex items-center space-x-2 cursor-pointer"
-            onClick={() => navigateTo(user ? '/dashboard' : '/')}
+            onClick={() => navigateTo(user ? getHomePath(userType) : '/')}
           >
             <div className="w-8 h-8 bg-gradient-to-r from-purple-600 to-blue-600 rounded-lg flex items-center justify-center">
               <span className="text-white font-bold text-xl">T</span>
@@ -161,7 +167,7 @@ export const Navbar: React.FC<NavbarProps> = ({ navigateTo, theme = 'light', cur
           {/* Navigation Links - Only show when expanded and user exists */}
           {isExpanded && user && (
             <div className="flex items-center space-x-4">
-              {userType !== 'company' && (
+              {(userType === 'student' || !userType) && (
                 <>
                   <motion.button
                     onClick={() => handleNavigate('/dashboard')}
@@ -181,6 +187,12 @@ export const Navbar: React.FC<NavbarProps> = ({ navigateTo, theme = 'light', cur
                   >
                     Applications
                   </motion.button>
+                  <motion.button
+                    onClick={() => handleNavigate('/saved')}
+                    className={`${linkStyles} font-medium transition-colors whitespace-nowrap hover:scale-105`}
+                  >
+                    Saved
+                  </motion.button>
                 </>
               )}
               {userType === 'company' && (
@@ -197,8 +209,44 @@ export const Navbar: React.FC<NavbarProps> = ({ navigateTo, theme = 'light', cur
                   >
                     Post Opportunity
                   </motion.button>
+                  <motion.button
+                    onClick={() => handleNavigate('/company/settings')}
+                    className={`${linkStyles} font-medium transition-colors whitespace-nowrap hover:scale-105`}
+                  >
+                    Company Profile
+                  </motion.button>
+                  <motion.button
+                    onClick={() => handleNavigate('/reports')}
+                    className={`${linkStyles} font-medium transition-colors whitespace-nowrap hover:scale-105`}
+                  >
+                    Reports
+                  </motion.button>
                 </>
               )}
+              {userType === 'college_coordinator' && (
+                <>
+                  <motion.button
+                    onClick={() => handleNavigate('/coordinator')}
+                    className={`${linkStyles} font-medium transition-colors whitespace-nowrap hover:scale-105`}
+                  >
+                    Placement Cell
+                  </motion.button>
+                  <motion.button
+                    onClick={() => handleNavigate('/reports')}
+                    className={`${linkStyles} font-medium transition-colors whitespace-nowrap hover:scale-105`}
+                  >
+                    Reports
+                  </motion.button>
+                </>
+              )}
+              {userType === 'admin' && (
+                <motion.button
+                  onClick={() => handleNavigate('/admin')}
+                  className={`${linkStyles} font-medium transition-colors whitespace-nowrap hover:scale-105`}
+                >
+                  Admin Console
+                </motion.button>
+              )}
             </div>
           )}
 
@@ -267,6 +315,20 @@ export const Navbar: React.FC<NavbarProps> = ({ navigateTo, theme = 'light', cur
                       >
                         Profile
                       </button>
+                      <label
+                        className={`flex w-full items-center justify-between gap-2 px-3 py-2 rounded-lg text-sm cursor-pointer transition-colors ${
+                          theme === 'dark'
+                            ? 'text-slate-200 hover:bg-slate-700'
+                            : 'text-gray-700 hover:bg-gray-100'
+                        }`}
+                      >
+                        Usage analytics
+                        <input
+                          type="checkbox"
+                          checked={analyticsConsent}
+                          onChange={(e) => setAnalyticsConsent(e.target.checked)}
+                        />
+                      </label>
                       <div
                         className={`border-t my-2 ${
                           theme === 'dark'
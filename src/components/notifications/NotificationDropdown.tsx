@@ -123,7 +123,7 @@ export const NotificationDropdown: React.FC<NotificationDropdownProps> = ({ them
                 <div className="p-2 space-y-2">
                   {recentNotifications.map((notification) => (
                     <NotificationItem
-                      key={notification.id}
+                      key={notification.notification_id}
                       notification={notification}
                       onMarkAsRead={markAsRead}
                       onRemove={removeNotification}
@@ -1,14 +1,16 @@
 import React from 'react';
 import { motion } from 'framer-motion';
 import {
-  CheckCircleIcon,
+  BriefcaseIcon,
+  ChatBubbleLeftRightIcon,
   ExclamationTriangleIcon,
+  EyeIcon,
   InformationCircleIcon,
-  XCircleIcon,
+  SparklesIcon,
   XMarkIcon,
   ClockIcon
 } from '@heroicons/react/24/outline';
-import { Notification } from '../../stores/notificationStore';
+import type { Notification } from '../../types';
 import { formatDistanceToNow } from 'date-fns';
 
 interface NotificationItemProps {
@@ -20,30 +22,39 @@ interface NotificationItemProps {
 
 const getIcon = (type: Notification['type']) => {
   switch (type) {
-    case 'success':
-      return <CheckCircleIcon className="w-6 h-6 text-green-500" />;
-    case 'warning':
+    case 'application_update':
+      return <BriefcaseIcon className="w-6 h-6 text-purple-500" />;
+    case 'new_opportunity':
+      return <SparklesIcon className="w-6 h-6 text-blue-500" />;
+    case 'deadline_reminder':
       return <ExclamationTriangleIcon className="w-6 h-6 text-yellow-500" />;
-    case 'error':
-      return <XCircleIcon className="w-6 h-6 text-red-500" />;
+    case 'profile_view':
+      return <EyeIcon className="w-6 h-6 text-green-500" />;
+    case 'message':
+      return <ChatBubbleLeftRightIcon className="w-6 h-6 text-indigo-500" />;
     default:
       return <InformationCircleIcon className="w-6 h-6 text-blue-500" />;
   }
 };
 
-const getBorderColor = (type: Notification['type']) => {
-  switch (type) {
-    case 'success':
-      return 'border-l-green-500';
-    case 'warning':
-      return 'border-l-yellow-500';
-    case 'error':
+const getBorderColor = (priority: Notification['priority']) => {
+  switch (priority) {
+    case 'urgent':
       return 'border-l-red-500';
+    case 'high':
+      return 'border-l-yellow-500';
+    case 'low':
+      return 'border-l-gray-300';
     default:
       return 'border-l-blue-500';
   }
 };
 
+const getActionText = (notification: Notification) => {
+  const actionText = notification.metadata?.action_text;
+  return typeof actionText === 'string' && actionText.trim() ? actionText : 'View';
+};
+
 export const NotificationItem: React.FC<NotificationItemProps> = React.memo(({
   notification,
   onMarkAsRead,
@@ -51,11 +62,11 @@ export const NotificationItem: React.FC<NotificationItemProps> = React.memo(({
   onAction,
 }) => {
   const handleAction = () => {
-    if (notification.actionUrl && onAction) {
-      onAction(notification.actionUrl);
+    if (notification.action_url && onAction) {
+      onAction(notification.action_url);
     }
-    if (!notification.read) {
-      onMarkAsRead(notification.id);
+    if (!notification.is_read) {
+      onMarkAsRead(notification.notification_id);
     }
   };
 
@@ -65,8 +76,8 @@ export const NotificationItem: React.FC<NotificationItemProps> = React.memo(({
       animate={{ opacity: 1, y: 0 }}
       exit={{ opacity: 0, y: -10 }}
       className={`relative p-4 border-l-4 bg-white/80 backdrop-blur-sm rounded-r-lg shadow-sm hover:shadow-md transition-all duration-200 ${
-        getBorderColor(notification.type)
-      } ${!notification.read ? 'bg-blue-50/80' : ''}`}
+        getBorderColor(notification.priority)
+      } ${!notification.is_read ? 'bg-blue-50/80' : ''}`}
     >
       <div className="flex items-start space-x-3">
         <div className="flex-shrink-0">
@@ -77,19 +88,19 @@ export const NotificationItem: React.FC<NotificationItemProps> = React.memo(({
           <div className="flex items-start justify-between">
             <div className="flex-1">
               <h4 className={`text-sm font-medium ${
-                notification.read ? 'text-gray-900' : 'text-gray-900 font-semibold'
+                notification.is_read ? 'text-gray-900' : 'text-gray-900 font-semibold'
               }`}>
                 {notification.title}
               </h4>
               <p className={`text-sm mt-1 ${
-                notification.read ? 'text-gray-600' : 'text-gray-700'
+                notification.is_read ? 'text-gray-600' : 'text-gray-700'
               }`}>
                 {notification.message}
               </p>
             </div>
 
             <button
-              onClick={() => onRemove(notification.id)}
+              onClick={() => onRemove(notification.notification_id)}
               className="flex-shrink-0 ml-2 p-1 text-gray-400 hover:text-gray-600 transition-colors"
             >
               <XMarkIcon className="w-4 h-4" />
@@ -99,25 +110,25 @@ export const NotificationItem: React.FC<NotificationItemProps> = React.memo(({
           <div className="flex items-center justify-between mt-3">
             <div className="flex items-center text-xs text-gray-500">
               <ClockIcon className="w-3 h-3 mr-1" />
-              {formatDistanceToNow(notification.timestamp, { addSuffix: true })}
+              {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true })}
             </div>
 
             <div className="flex items-center space-x-2">
-              {!notification.read && (
+              {!notification.is_read && (
                 <button
-                  onClick={() => onMarkAsRead(notification.id)}
+                  onClick={() => onMarkAsRead(notification.notification_id)}
                   className="text-xs text-blue-600 hover:text-blue-800 font-medium"
                 >
                   Mark as read
                 </button>
               )}
 
-              {notification.actionText && notification.actionUrl && (
+              {notification.action_url && (
                 <button
                   onClick={handleAction}
                   className="text-xs bg-purple-600 text-white px-2 py-1 rounded hover:bg-purple-700 transition-colors"
                 >
-                  {notification.actionText}
+                  {getActionText(notification)}
                 </button>
               )}
             </div>
@@ -125,7 +136,7 @@ export const NotificationItem: React.FC<NotificationItemProps> = React.memo(({
         </div>
       </div>
 
-      {!notification.read && (
+      {!notification.is_read && (
         <div className="absolute top-2 right-2 w-2 h-2 bg-blue-500 rounded-full"></div>
       )}
     </motion.div>
@@ -0,0 +1,216 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import toast from 'react-hot-toast';
+import { supabase } from '../../lib/supabase';
+import { useAuthStore } from '../../stores/authStore';
+import { OnboardingProgress } from './OnboardingProgress';
+import { COMPANY_ONBOARDING_STEPS, getPendingCompanySteps, getResumeStepIndex, normalizeWebsite } from '../../utils/onboarding';
+import { COMPANY_SIZES } from '../../utils/companyForm';
+
+const inputClass = 'w-full rounded-xl border-gray-200 focus:border-purple-500 focus:ring-purple-500 px-4 py-2.5';
+
+const MAX_LOGO_SIZE = 2 * 1024 * 1024;
+
+interface Props {
+  onComplete: () => void;
+}
+
+export const CompanyOnboarding: React.FC<Props> = ({ onComplete }) => {
+  const { user, companyProfile, companyId, fetchUserProfile } = useAuthStore();
+
+  // Reopen on the first step that hasn't been saved yet
+  const [step, setStep] = useState(() => getResumeStepIndex(COMPANY_ONBOARDING_STEPS, getPendingCompanySteps(companyProfile)));
+  const [companyName, setCompanyName] = useState(companyProfile?.company_name ?? user?.user_metadata?.full_name ?? '');
+  const [industry, setIndustry] = useState(companyProfile?.industry ?? '');
+  const [companySize, setCompanySize] = useState(companyProfile?.company_size ?? '');
+  const [headquarters, setHeadquarters] = useState(companyProfile?.headquarters_location ?? '');
+  const [website, setWebsite] = useState(companyProfile?.website_url ?? '');
+  const [logoFile, setLogoFile] = useState<File | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const logoPreview = useMemo(() => (logoFile ? URL.createObjectURL(logoFile) : null), [logoFile]);
+  useEffect(() => () => {
+    if (logoPreview) URL.revokeObjectURL(logoPreview);
+  }, [logoPreview]);
+
+  const current = COMPANY_ONBOARDING_STEPS[step];
+  const isLast = step === COMPANY_ONBOARDING_STEPS.length - 1;
+
+  const saveCompany = async (fields: Record<string, unknown>) => {
+    if (!user) throw new Error('You must be logged in.');
+    if (companyId) {
+      const { error: updateError } = await supabase.from('companies').update(fields).eq('company_id', companyId);
+      if (updateError) throw updateError;
+    } else {
+      // Company accounts created before the signup trigger handled them have no row yet
+      const { error: insertError } = await supabase.from('companies').insert([{ user_id: user.id, ...fields }]);
+      if (insertError) throw insertError;
+    }
+    await fetchUserProfile();
+  };
+
+  const uploadLogo = async (file: File) => {
+    if (!user) return null;
+    const extension = file.name.split('.').pop()?.toLowerCase() || 'png';
+    const filePath = `${user.id}/logo-${Date.now()}.${extension}`;
+    const { error: uploadError } = await supabase.storage.from('company-logos').upload(filePath, file, { upsert: true });
+    if (uploadError) {
+      throw new Error(`Storage upload failed: ${uploadError.message}`);
+    }
+    const {
+      data: { publicUrl },
+    } = supabase.storage.from('company-logos').getPublicUrl(filePath);
+    return publicUrl;
+  };
+
+  const handleLogoChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    if (!file.type.startsWith('image/') || file.size > MAX_LOGO_SIZE) {
+      setError('Please upload an image under 2MB.');
+      return;
+    }
+    setError(null);
+    setLogoFile(file);
+  };
+
+  // Returns the columns to save for the current step, or an error message
+  const buildStepUpdate = async (): Promise<Record<string, unknown> | string> => {
+    switch (current.id) {
+      case 'company':
+        if (!companyName.trim() || !industry.trim() || !companySize) {
+          return 'Fill in your company name, industry and size.';
+        }
+        return { company_name: companyName.trim(), industry: industry.trim(), company_size: companySize };
+      case 'presence':
+        if (!headquarters.trim() || !website.trim()) return 'Fill in your headquarters and website.';
+        return { headquarters_location: headquarters.trim(), website_url: normalizeWebsite(website) };
+      case 'logo': {
+        if (!logoFile) return {};
+        const logoUrl = await uploadLogo(logoFile);
+        return { logo_url: logoUrl };
+      }
+    }
+  };
+
+  const handleContinue = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+    try {
+      const update = await buildStepUpdate();
+      if (typeof update === 'string') {
+        setError(update);
+        return;
+      }
+      if (Object.keys(update).length > 0) {
+        await saveCompany(update);
+      }
+      if (isLast) {
+        toast.success('Your company profile is ready');
+        onComplete();
+      } else {
+        setStep((s) => s + 1);
+      }
+    } catch (err) {
+      console.error('Failed to save onboarding step:', err);
+      toast.error(err instanceof Error && err.message ? err.message : 'Could not save your progress');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleContinue}>
+      <OnboardingProgress steps={COMPANY_ONBOARDING_STEPS} current={step} />
+
+      <div className="mb-6">
+        <h2 className="text-xl font-semibold text-gray-900">{current.title}</h2>
+        <p className="text-sm text-gray-500">{current.description}</p>
+      </div>
+
+      <div className="space-y-4">
+        {current.id === 'company' && (
+          <>
+            <label className="block">
+              <span className="text-sm font-medium text-gray-700">Company name</span>
+              <input className={inputClass} value={companyName} onChange={(e) => setCompanyName(e.target.value)} />
+            </label>
+            <div className="grid gap-4 md:grid-cols-2">
+              <label className="block">
+                <span className="text-sm font-medium text-gray-700">Industry</span>
+                <input className={inputClass} value={industry} onChange={(e) => setIndustry(e.target.value)} placeholder="e.g. Fintech" />
+              </label>
+              <label className="block">
+                <span className="text-sm font-medium text-gray-700">Company size</span>
+                <select className={inputClass} value={companySize} onChange={(e) => setCompanySize(e.target.value)}>
+                  <option value="">Select size</option>
+                  {COMPANY_SIZES.map((size) => (
+                    <option key={size.value} value={size.value}>
+                      {size.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+          </>
+        )}
+
+        {current.id === 'presence' && (
+          <>
+            <label className="block">
+              <span className="text-sm font-medium text-gray-700">Headquarters</span>
+              <input className={inputClass} value={headquarters} onChange={(e) => setHeadquarters(e.target.value)} placeholder="e.g. Bengaluru" />
+            </label>
+            <label className="block">
+              <span className="text-sm font-medium text-gray-700">Website</span>
+              <input className={inputClass} value={website} onChange={(e) => setWebsite(e.target.value)} placeholder="acme.com" />
+            </label>
+          </>
+        )}
+
+        {current.id === 'logo' && (
+          <div className="flex items-center gap-4">
+            {(logoPreview || companyProfile?.logo_url) && (
+              <img
+                src={logoPreview ?? companyProfile?.logo_url ?? ''}
+                alt="Company logo"
+                className="h-16 w-16 rounded-lg border border-gray-200 object-contain"
+              />
+            )}
+            <input type="file" id="onboarding-logo" onChange={handleLogoChange} className="hidden" accept="image/*" />
+            <label
+              htmlFor="onboarding-logo"
+              className="cursor-pointer px-4 py-2 bg-gray-100 text-gray-700 font-semibold rounded-lg border border-gray-200 hover:bg-gray-200 transition-colors"
+            >
+              {logoFile ? `Selected: ${logoFile.name}` : 'Choose image (max 2MB)'}
+            </label>
+          </div>
+        )}
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+      </div>
+
+      <div className="mt-8 flex items-center justify-between">
+        <button
+          type="button"
+          onClick={() => {
+            setError(null);
+            setStep((s) => s - 1);
+          }}
+          disabled={step === 0 || saving}
+          className="px-4 py-2 text-sm rounded-md border hover:bg-gray-50 disabled:opacity-50"
+        >
+          Back
+        </button>
+        <button
+          type="submit"
+          disabled={saving}
+          className="px-4 py-2 rounded-md bg-purple-600 text-white hover:bg-purple-700 disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : isLast ? (current.optional && !logoFile && !companyProfile?.logo_url ? 'Skip for now' : 'Finish') : 'Continue'}
+        </button>
+      </div>
+    </form>
+  );
+};
@@ -0,0 +1,45 @@
+import React, { useState } from 'react';
+import { Navigate } from 'react-router-dom';
+import { useAuthStore } from '../../stores/authStore';
+import { needsOnboarding } from '../../utils/onboarding';
+import { getHomePath } from '../../utils/roles';
+import { StudentOnboarding } from './StudentOnboarding';
+import { CompanyOnboarding } from './CompanyOnboarding';
+
+interface Props {
+  navigateTo: (path: string) => void;
+}
+
+export const OnboardingPage: React.FC<Props> = ({ navigateTo }) => {
+  const { userType, profile, companyProfile } = useAuthStore();
+  const home = getHomePath(userType);
+
+  // Checked once on arrival only; the wizard saves as it goes, and finishing a
+  // required step mustn't cut the optional ones short
+  const [alreadyDone] = useState(() => !needsOnboarding(userType, profile, companyProfile));
+  if (alreadyDone) {
+    return <Navigate to={home} replace />;
+  }
+
+  return (
+    <div className="max-w-2xl mx-auto px-4 py-10">
+      <div className="mb-6">
+        <h1 className="text-3xl font-semibold tracking-tight">
+          {userType === 'company' ? 'Set up your company' : 'Set up your profile'}
+        </h1>
+        <p className="text-sm text-gray-500 mt-1">
+          {userType === 'company'
+            ? 'A few details so students know who they are applying to.'
+            : 'A few details so companies can consider you. You can pick up where you left off at any time.'}
+        </p>
+      </div>
+      <div className="rounded-2xl border border-gray-200 shadow-sm bg-white p-6">
+        {userType === 'company' ? (
+          <CompanyOnboarding onComplete={() => navigateTo(home)} />
+        ) : (
+          <StudentOnboarding onComplete={() => navigateTo(home)} />
+        )}
+      </div>
+    </div>
+  );
+};
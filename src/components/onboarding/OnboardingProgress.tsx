@@ -0,0 +1,33 @@
+import React from 'react';
+import { CheckIcon } from '@heroicons/react/24/outline';
+import type { OnboardingStepInfo } from '../../types';
+
+interface Props {
+  steps: OnboardingStepInfo[];
+  current: number;
+}
+
+export const OnboardingProgress: React.FC<Props> = ({ steps, current }) => (
+  <ol className="flex items-center gap-2 mb-8">
+    {steps.map((step, index) => {
+      const done = index < current;
+      const active = index === current;
+      return (
+        <li key={step.id} className="flex flex-1 items-center gap-2">
+          <span
+            className={`flex h-8 w-8 shrink-0 items-center justify-center rounded-full text-sm font-semibold ${
+              done ? 'bg-purple-600 text-white' : active ? 'border-2 border-purple-600 text-purple-600' : 'border-2 border-gray-200 text-gray-400'
+            }`}
+          >
+            {done ? <CheckIcon className="h-4 w-4" /> : index + 1}
+          </span>
+          <span className={`text-sm ${active ? 'font-medium text-gray-900' : 'text-gray-500'}`}>
+            {step.title}
+            {step.optional && <span className="text-gray-400"> (optional)</span>}
+          </span>
+          {index < steps.length - 1 && <span className="h-px flex-1 bg-gray-200" />}
+        </li>
+      );
+    })}
+  </ol>
+);
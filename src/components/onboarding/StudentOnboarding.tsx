@@ -0,0 +1,206 @@
+import React, { useMemo, useState } from 'react';
+import toast from 'react-hot-toast';
+import { supabase } from '../../lib/supabase';
+import { useAuthStore } from '../../stores/authStore';
+import { useSkillsMaster } from '../../hooks/useSkillsMaster';
+import { TagInput } from '../company/TagInput';
+import { OnboardingProgress } from './OnboardingProgress';
+import { STUDENT_ONBOARDING_STEPS, getPendingStudentSteps, getResumeStepIndex } from '../../utils/onboarding';
+import { YEARS_OF_STUDY } from '../../utils/opportunityForm';
+
+const inputClass = 'w-full rounded-xl border-gray-200 focus:border-purple-500 focus:ring-purple-500 px-4 py-2.5';
+
+const MAX_RESUME_SIZE = 2 * 1024 * 1024;
+
+interface Props {
+  onComplete: () => void;
+}
+
+export const StudentOnboarding: React.FC<Props> = ({ onComplete }) => {
+  const { user, profile, studentId, fetchUserProfile } = useAuthStore();
+  const { skills: skillCatalogue } = useSkillsMaster();
+  const skillNames = useMemo(() => skillCatalogue.map((s) => s.skill_name), [skillCatalogue]);
+
+  // Reopen on the first step that hasn't been saved yet
+  const [step, setStep] = useState(() => getResumeStepIndex(STUDENT_ONBOARDING_STEPS, getPendingStudentSteps(profile)));
+  const [collegeName, setCollegeName] = useState(profile?.college_name ?? '');
+  const [course, setCourse] = useState(profile?.course ?? '');
+  const [yearOfStudy, setYearOfStudy] = useState(profile?.year_of_study ? String(profile.year_of_study) : '');
+  const [skills, setSkills] = useState<string[]>(profile?.skills ?? []);
+  const [resumeFile, setResumeFile] = useState<File | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const current = STUDENT_ONBOARDING_STEPS[step];
+  const isLast = step === STUDENT_ONBOARDING_STEPS.length - 1;
+
+  const saveStudent = async (fields: Record<string, unknown>) => {
+    if (!user) throw new Error('You must be logged in.');
+    if (studentId) {
+      const { error: updateError } = await supabase.from('students').update(fields).eq('student_id', studentId);
+      if (updateError) throw updateError;
+    } else {
+      // Accounts created before the signup trigger existed have no row yet
+      const { error: insertError } = await supabase.from('students').insert([
+        { user_id: user.id, full_name: user.user_metadata?.full_name || user.email.split('@')[0], ...fields },
+      ]);
+      if (insertError) throw insertError;
+    }
+    await fetchUserProfile();
+  };
+
+  const uploadResume = async (file: File) => {
+    if (!user) return null;
+    const filePath = `${user.id}/${studentId ?? 'onboarding'}-resume-${Date.now()}.pdf`;
+    const { error: uploadError } = await supabase.storage.from('resumes').upload(filePath, file, { upsert: true });
+    if (uploadError) {
+      throw new Error(`Storage upload failed: ${uploadError.message}`);
+    }
+    const {
+      data: { publicUrl },
+    } = supabase.storage.from('resumes').getPublicUrl(filePath);
+    return publicUrl;
+  };
+
+  const handleResumeChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    if (file.type !== 'application/pdf' || file.size > MAX_RESUME_SIZE) {
+      setError('Please upload a PDF file under 2MB.');
+      return;
+    }
+    setError(null);
+    setResumeFile(file);
+  };
+
+  // Returns the columns to save for the current step, or an error message
+  const buildStepUpdate = async (): Promise<Record<string, unknown> | string> => {
+    switch (current.id) {
+      case 'education':
+        if (!collegeName.trim() || !course.trim() || !yearOfStudy) {
+          return 'Fill in your college, course and year of study.';
+        }
+        return { college_name: collegeName.trim(), course: course.trim(), year_of_study: Number(yearOfStudy) };
+      case 'skills':
+        if (skills.length === 0) return 'Add at least one skill.';
+        return { skills };
+      case 'resume': {
+        if (!resumeFile) {
+          return profile?.resume_url ? {} : 'Upload your resume to finish.';
+        }
+        const resumeUrl = await uploadResume(resumeFile);
+        return { resume_url: resumeUrl };
+      }
+    }
+  };
+
+  const handleContinue = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+    try {
+      const update = await buildStepUpdate();
+      if (typeof update === 'string') {
+        setError(update);
+        return;
+      }
+      if (Object.keys(update).length > 0) {
+        await saveStudent(update);
+      }
+      if (isLast) {
+        toast.success('Your profile is ready');
+        onComplete();
+      } else {
+        setStep((s) => s + 1);
+      }
+    } catch (err) {
+      console.error('Failed to save onboarding step:', err);
+      toast.error(err instanceof Error && err.message ? err.message : 'Could not save your progress');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleContinue}>
+      <OnboardingProgress steps={STUDENT_ONBOARDING_STEPS} current={step} />
+
+      <div className="mb-6">
+        <h2 className="text-xl font-semibold text-gray-900">{current.title}</h2>
+        <p className="text-sm text-gray-500">{current.description}</p>
+      </div>
+
+      <div className="space-y-4">
+        {current.id === 'education' && (
+          <>
+            <label className="block">
+              <span className="text-sm font-medium text-gray-700">College</span>
+              <input className={inputClass} value={collegeName} onChange={(e) => setCollegeName(e.target.value)} placeholder="e.g. NIT Calicut" />
+            </label>
+            <div className="grid gap-4 md:grid-cols-2">
+              <label className="block">
+                <span className="text-sm font-medium text-gray-700">Course</span>
+                <input className={inputClass} value={course} onChange={(e) => setCourse(e.target.value)} placeholder="e.g. B.Tech Computer Science" />
+              </label>
+              <label className="block">
+                <span className="text-sm font-medium text-gray-700">Year of study</span>
+                <select className={inputClass} value={yearOfStudy} onChange={(e) => setYearOfStudy(e.target.value)}>
+                  <option value="">Select year</option>
+                  {YEARS_OF_STUDY.map((year) => (
+                    <option key={year} value={year}>
+                      Year {year}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+          </>
+        )}
+
+        {current.id === 'skills' && (
+          <TagInput value={skills} onChange={setSkills} suggestions={skillNames} placeholder="Type a skill and press Enter" />
+        )}
+
+        {current.id === 'resume' && (
+          <div className="flex items-center gap-4">
+            <input type="file" id="onboarding-resume" onChange={handleResumeChange} className="hidden" accept=".pdf" />
+            <label
+              htmlFor="onboarding-resume"
+              className="cursor-pointer px-4 py-2 bg-gray-100 text-gray-700 font-semibold rounded-lg border border-gray-200 hover:bg-gray-200 transition-colors"
+            >
+              {resumeFile ? `Selected: ${resumeFile.name}` : 'Choose PDF (max 2MB)'}
+            </label>
+            {profile?.resume_url && !resumeFile && (
+              <a href={profile.resume_url} target="_blank" rel="noopener noreferrer" className="text-purple-600 hover:underline">
+                View current resume
+              </a>
+            )}
+          </div>
+        )}
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+      </div>
+
+      <div className="mt-8 flex items-center justify-between">
+        <button
+          type="button"
+          onClick={() => {
+            setError(null);
+            setStep((s) => s - 1);
+          }}
+          disabled={step === 0 || saving}
+          className="px-4 py-2 text-sm rounded-md border hover:bg-gray-50 disabled:opacity-50"
+        >
+          Back
+        </button>
+        <button
+          type="submit"
+          disabled={saving}
+          className="px-4 py-2 rounded-md bg-purple-600 text-white hover:bg-purple-700 disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : isLast ? 'Finish' : 'Continue'}
+        </button>
+      </div>
+    </form>
+  );
+};
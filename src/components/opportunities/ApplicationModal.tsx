@@ -15,16 +15,14 @@ import {
 import { CheckIcon, ExclamationTriangleIcon, ArrowPathIcon } from '@heroicons/react/24/solid';
 import { supabase } from '../../lib/supabase';
 import { useAuthStore } from '../../stores/authStore';
-
-type QuestionType = 'text' | 'textarea' | 'select' | 'radio';
-
-export interface CustomQuestion {
-  id: string;
-  question: string;
-  type: QuestionType;
-  required?: boolean;
-  options?: string[];
-}
+import { track } from '../../lib/analytics';
+import type { CustomQuestion, CustomQuestionAnswer, EligibilityResult } from '../../types';
+import {
+  formatCustomQuestionAnswer,
+  normalizeCustomQuestionAnswers,
+  validateCustomQuestionAnswers,
+} from '../../utils/customQuestions';
+import { getFailedChecks } from '../../utils/eligibility';
 
 interface UploadedFileMeta {
   name: string;
@@ -41,13 +39,15 @@ interface ApplicationModalProps {
   companyName: string;
   studentId: string;
   customQuestions?: CustomQuestion[];
+  /** Failed rules block the whole flow; the student sees what to fix instead of the form. */
+  eligibility?: EligibilityResult | null;
   onSuccess: () => void;
 }
 
 interface FormState {
   coverLetter: string;
   additionalDocuments: string[];
-  answersToQuestions: Record<string, string>;
+  answersToQuestions: Record<string, CustomQuestionAnswer>;
 }
 
 const stepVariants = {
@@ -66,6 +66,14 @@ const ACCEPTED_EXTENSIONS = ['pdf', 'doc', 'docx'];
 const MAX_FILE_SIZE_BYTES = 5 * 1024 * 1024;
 const MAX_FILES = 3;
 
+const inputClass =
+  'w-full rounded-2xl border border-white/20 bg-white/10 px-4 py-3 text-sm text-white placeholder:text-white/40 focus:border-white/40 focus:outline-none focus:ring-2 focus:ring-white/50';
+
+const isAcceptedDocument = (file: File) => {
+  const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+  return ACCEPTED_EXTENSIONS.includes(extension) && ACCEPTED_MIME_TYPES.includes(file.type);
+};
+
 const sanitizeFilename = (fileName: string) => {
   const name = fileName.substring(0, fileName.lastIndexOf('.'));
   const extension = fileName.substring(fileName.lastIndexOf('.'));
@@ -91,10 +99,13 @@ export const ApplicationModal: React.FC<ApplicationModalProps> = ({
   companyName,
   studentId,
   customQuestions,
+  eligibility,
   onSuccess,
 }) => {
   const { user } = useAuthStore();
   const questions = customQuestions ?? [];
+  const failedChecks = getFailedChecks(eligibility);
+  const isIneligible = failedChecks.length > 0;
   const stepKeys = useMemo(
     () => (questions.length > 0 ? ['cover', 'documents', 'questions', 'review'] : ['cover', 'documents', 'review']),
     [questions.length],
@@ -109,6 +120,7 @@ export const ApplicationModal: React.FC<ApplicationModalProps> = ({
   const [uploadedFiles, setUploadedFiles] = useState<UploadedFileMeta[]>([]);
   const [uploading, setUploading] = useState(false);
   const [submitting, setSubmitting] = useState(false);
+  const [questionErrors, setQuestionErrors] = useState<Record<string, string>>({});
 
   const currentStepKey = stepKeys[step] ?? stepKeys[stepKeys.length - 1];
   const totalSteps = stepKeys.length;
@@ -124,6 +136,7 @@ export const ApplicationModal: React.FC<ApplicationModalProps> = ({
     setUploadedFiles([]);
     setUploading(false);
     setSubmitting(false);
+    setQuestionErrors({});
   }, []);
 
   useEffect(() => {
@@ -132,10 +145,16 @@ export const ApplicationModal: React.FC<ApplicationModalProps> = ({
     }
   }, [isOpen, resetState]);
 
+  useEffect(() => {
+    if (isOpen) {
+      track('apply_started', { opportunity_id: opportunityId, method: 'full' });
+    }
+  }, [isOpen, opportunityId]);
+
   const hasDirtyData =
     formData.coverLetter.trim().length > 0 ||
     formData.additionalDocuments.length > 0 ||
-    Object.values(formData.answersToQuestions).some((value) => value && value.trim().length > 0);
+    Object.values(formData.answersToQuestions).some((value) => String(value).trim().length > 0);
 
   const handleRequestClose = (force?: boolean) => {
     if (!force && hasDirtyData) {
@@ -144,6 +163,10 @@ export const ApplicationModal: React.FC<ApplicationModalProps> = ({
         return;
       }
     }
+    // Forced closes come from a successful submit
+    if (!force) {
+      track('apply_abandoned', { opportunity_id: opportunityId, method: 'full', step: currentStepKey });
+    }
     onClose();
   };
 
@@ -151,7 +174,7 @@ export const ApplicationModal: React.FC<ApplicationModalProps> = ({
     setFormData((prev) => ({ ...prev, coverLetter: value }));
   };
 
-  const handleQuestionAnswer = (questionId: string, value: string) => {
+  const handleQuestionAnswer = (questionId: string, value: CustomQuestionAnswer) => {
     setFormData((prev) => ({
       ...prev,
       answersToQuestions: {
@@ -159,6 +182,21 @@ export const ApplicationModal: React.FC<ApplicationModalProps> = ({
         [questionId]: value,
       },
     }));
+    setQuestionErrors((prev) => {
+      if (!prev[questionId]) return prev;
+      const next = { ...prev };
+      delete next[questionId];
+      return next;
+    });
+  };
+
+  const toggleCheckboxAnswer = (questionId: string, option: string) => {
+    const current = formData.answersToQuestions[questionId];
+    const selected = Array.isArray(current) ? current : [];
+    handleQuestionAnswer(
+      questionId,
+      selected.includes(option) ? selected.filter((item) => item !== option) : [...selected, option],
+    );
   };
 
   const validateCoverLetter = () => {
@@ -178,9 +216,10 @@ export const ApplicationModal: React.FC<ApplicationModalProps> = ({
     if (questions.length === 0) {
       return true;
     }
-    const missing = questions.filter((q) => q.required && !formData.answersToQuestions[q.id]?.trim());
-    if (missing.length > 0) {
-      toast.error('Please answer all required questions before proceeding.');
+    const errors = validateCustomQuestionAnswers(questions, formData.answersToQuestions);
+    setQuestionErrors(errors);
+    if (Object.keys(errors).length > 0) {
+      toast.error('Please fix the highlighted answers before proceeding.');
       return false;
     }
     return true;
@@ -219,8 +258,7 @@ export const ApplicationModal: React.FC<ApplicationModalProps> = ({
       const filesToUpload = files.slice(0, availableSlots);
 
       for (const file of filesToUpload) {
-        const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
-        if (!ACCEPTED_EXTENSIONS.includes(extension) || !ACCEPTED_MIME_TYPES.includes(file.type)) {
+        if (!isAcceptedDocument(file)) {
           toast.error(`Unsupported file type: ${file.name}`);
           continue;
         }
@@ -270,6 +308,44 @@ export const ApplicationModal: React.FC<ApplicationModalProps> = ({
     [opportunityId, studentId, uploadedFiles.length, user, formData.additionalDocuments],
   );
 
+  const uploadQuestionFile = async (questionId: string, file: File | undefined) => {
+    if (!file) {
+      return;
+    }
+    if (!user) {
+      toast.error('You must be logged in to upload documents.');
+      return;
+    }
+    if (!isAcceptedDocument(file)) {
+      toast.error(`Unsupported file type: ${file.name}`);
+      return;
+    }
+    if (file.size > MAX_FILE_SIZE_BYTES) {
+      toast.error(`File ${file.name} exceeds 5MB limit.`);
+      return;
+    }
+
+    const filePath = `${user.id}/${opportunityId}/questions/${Date.now()}-${sanitizeFilename(file.name)}`;
+    const toastId = toast.loading(`Uploading ${file.name}...`);
+    setUploading(true);
+    const { error } = await supabase.storage.from('application-documents').upload(filePath, file, {
+      cacheControl: '3600',
+      upsert: false,
+    });
+    setUploading(false);
+
+    if (error) {
+      toast.error(`Failed to upload ${file.name}: ${error.message}`, { id: toastId });
+      return;
+    }
+
+    const {
+      data: { publicUrl },
+    } = supabase.storage.from('application-documents').getPublicUrl(filePath);
+    handleQuestionAnswer(questionId, publicUrl);
+    toast.success(`${file.name} uploaded successfully`, { id: toastId });
+  };
+
   const handleFileInputChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     ingestFiles(event.target.files);
     event.target.value = '';
@@ -325,6 +401,10 @@ export const ApplicationModal: React.FC<ApplicationModalProps> = ({
   };
 
   const handleSubmit = async () => {
+    if (isIneligible) {
+      toast.error("You don't meet the eligibility criteria for this opportunity.");
+      return;
+    }
     if (!validateCoverLetter()) {
       return;
     }
@@ -346,11 +426,16 @@ export const ApplicationModal: React.FC<ApplicationModalProps> = ({
       applied_date: new Date().toISOString(),
       cover_letter: formData.coverLetter.trim(),
       additional_documents: formData.additionalDocuments,
-      answers_to_questions: formData.answersToQuestions,
-      application_score: null,
+      answers_to_questions: normalizeCustomQuestionAnswers(questions, formData.answersToQuestions),
+      source: 'application_form',
     };
 
-    const { error } = await supabase.from('applications').insert(payload);
+    const { data: inserted, error } = await supabase
+      .from('applications')
+      .insert(payload)
+      .select('application_id')
+      .returns<{ application_id: string }[]>()
+      .maybeSingle();
 
     if (error) {
       if (error.code === '23505' || error.message.toLowerCase().includes('duplicate')) {
@@ -363,11 +448,48 @@ export const ApplicationModal: React.FC<ApplicationModalProps> = ({
     }
 
     toast.success('Application submitted successfully!', { id: toastId });
+    track('apply_submitted', { opportunity_id: opportunityId, method: 'full', application_id: inserted?.application_id });
     onSuccess();
     setSubmitting(false);
     handleRequestClose(true);
   };
 
+  const textAnswer = (questionId: string) => {
+    const answer = formData.answersToQuestions[questionId];
+    return answer === undefined || Array.isArray(answer) ? '' : String(answer);
+  };
+
+  const renderIneligibleNotice = () => (
+    <motion.div
+      key="ineligible"
+      className="space-y-6"
+      variants={stepVariants}
+      initial="initial"
+      animate="animate"
+      exit="exit"
+      transition={{ duration: 0.25, ease: 'easeOut' }}
+    >
+      <div className="space-y-2">
+        <h3 className="text-2xl font-semibold">You&apos;re Not Eligible Yet</h3>
+        <p className="text-sm text-white/70">
+          This opportunity has eligibility criteria your profile doesn&apos;t meet. Update your profile if any of these are
+          out of date.
+        </p>
+      </div>
+      <ul className="space-y-3">
+        {failedChecks.map((check) => (
+          <li
+            key={check.rule}
+            className="flex items-start gap-3 rounded-2xl border border-white/10 bg-white/10 px-4 py-3 text-sm text-white/90"
+          >
+            <ExclamationTriangleIcon className="mt-0.5 h-5 w-5 flex-shrink-0 text-amber-200" />
+            <span>{check.reason}</span>
+          </li>
+        ))}
+      </ul>
+    </motion.div>
+  );
+
   const renderCoverLetterStep = () => (
     <motion.div
       key="cover"
@@ -530,27 +652,80 @@ export const ApplicationModal: React.FC<ApplicationModalProps> = ({
               {question.type === 'textarea' && (
                 <textarea
                   rows={4}
-                  value={formData.answersToQuestions[question.id] ?? ''}
+                  value={textAnswer(question.id)}
                   onChange={(e) => handleQuestionAnswer(question.id, e.target.value)}
-                  className="w-full rounded-2xl border border-white/20 bg-white/10 px-4 py-3 text-sm text-white placeholder:text-white/40 focus:border-white/40 focus:outline-none focus:ring-2 focus:ring-white/50"
+                  className={inputClass}
                   placeholder="Type your response..."
                 />
               )}
-              {question.type === 'text' && (
+              {(question.type === 'text' || question.type === 'url' || question.type === 'number') && (
                 <input
-                  type="text"
-                  value={formData.answersToQuestions[question.id] ?? ''}
+                  type={question.type}
+                  value={textAnswer(question.id)}
                   onChange={(e) => handleQuestionAnswer(question.id, e.target.value)}
-                  className="w-full rounded-2xl border border-white/20 bg-white/10 px-4 py-3 text-sm text-white placeholder:text-white/40 focus:border-white/40 focus:outline-none focus:ring-2 focus:ring-white/50"
-                  placeholder="Type your response..."
+                  className={inputClass}
+                  placeholder={question.type === 'url' ? 'https://...' : 'Type your response...'}
                 />
               )}
+              {question.type === 'checkbox' &&
+                (question.options?.length ? (
+                  <div className="flex flex-wrap gap-2">
+                    {question.options.map((option) => {
+                      const answer = formData.answersToQuestions[question.id];
+                      const selected = Array.isArray(answer) && answer.includes(option);
+                      return (
+                        <button
+                          type="button"
+                          key={option}
+                          onClick={() => toggleCheckboxAnswer(question.id, option)}
+                          className={`flex items-center gap-2 rounded-full px-4 py-2 text-sm font-medium transition ${
+                            selected ? 'bg-white text-purple-700' : 'bg-white/10 text-white hover:bg-white/20'
+                          }`}
+                        >
+                          {selected && <CheckIcon className="h-4 w-4" />}
+                          {option}
+                        </button>
+                      );
+                    })}
+                  </div>
+                ) : (
+                  <p className="text-xs text-white/60">No options provided for this question.</p>
+                ))}
+              {question.type === 'file' && (
+                <div className="flex flex-wrap items-center gap-3">
+                  <label className="flex cursor-pointer items-center gap-2 rounded-full bg-white/10 px-4 py-2 text-sm font-medium text-white transition hover:bg-white/20">
+                    <ArrowUpTrayIcon className="h-4 w-4" />
+                    {textAnswer(question.id) ? 'Replace file' : 'Upload file'}
+                    <input
+                      type="file"
+                      accept=".pdf,.doc,.docx"
+                      className="hidden"
+                      disabled={uploading}
+                      onChange={(e) => {
+                        uploadQuestionFile(question.id, e.target.files?.[0]);
+                        e.target.value = '';
+                      }}
+                    />
+                  </label>
+                  {textAnswer(question.id) && (
+                    <a
+                      href={textAnswer(question.id)}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="flex items-center gap-1 text-xs text-white/70 underline transition hover:text-white"
+                    >
+                      <PaperClipIcon className="h-4 w-4" />
+                      View uploaded file
+                    </a>
+                  )}
+                </div>
+              )}
               {(question.type === 'select' || question.type === 'radio') && (
                 <div className="space-y-2">
                   {question.options?.length ? (
                     question.type === 'select' ? (
                       <select
-                        value={formData.answersToQuestions[question.id] ?? ''}
+                        value={textAnswer(question.id)}
                         onChange={(e) => handleQuestionAnswer(question.id, e.target.value)}
                         className="w-full rounded-2xl border border-white/20 bg-white/10 px-4 py-3 text-sm text-white focus:border-white/40 focus:outline-none focus:ring-2 focus:ring-white/50"
                       >
@@ -586,6 +761,9 @@ export const ApplicationModal: React.FC<ApplicationModalProps> = ({
                 </div>
               )}
             </div>
+            {questionErrors[question.id] && (
+              <p className="mt-2 text-xs font-medium text-rose-200">{questionErrors[question.id]}</p>
+            )}
           </div>
         ))}
       </div>
@@ -673,7 +851,9 @@ export const ApplicationModal: React.FC<ApplicationModalProps> = ({
                 <div key={question.id} className="rounded-2xl border border-white/10 bg-white/5 p-3">
                   <p className="font-semibold text-white">{question.question}</p>
                   <p className="mt-1 text-white/75">
-                    {formData.answersToQuestions[question.id]?.trim() || <span className="italic text-white/50">No answer</span>}
+                    {formatCustomQuestionAnswer(formData.answersToQuestions[question.id]).trim() || (
+                      <span className="italic text-white/50">No answer</span>
+                    )}
                   </p>
                 </div>
               ))}
@@ -739,10 +919,11 @@ export const ApplicationModal: React.FC<ApplicationModalProps> = ({
 
               <div className="min-h-[320px]">
                 <AnimatePresence mode="wait">
-                  {currentStepKey === 'cover' && renderCoverLetterStep()}
-                  {currentStepKey === 'documents' && renderDocumentsStep()}
-                  {currentStepKey === 'questions' && renderQuestionsStep()}
-                  {currentStepKey === 'review' && renderReviewStep()}
+                  {isIneligible && renderIneligibleNotice()}
+                  {!isIneligible && currentStepKey === 'cover' && renderCoverLetterStep()}
+                  {!isIneligible && currentStepKey === 'documents' && renderDocumentsStep()}
+                  {!isIneligible && currentStepKey === 'questions' && renderQuestionsStep()}
+                  {!isIneligible && currentStepKey === 'review' && renderReviewStep()}
                 </AnimatePresence>
               </div>
 
@@ -752,58 +933,70 @@ export const ApplicationModal: React.FC<ApplicationModalProps> = ({
                   <span>Your information is securely stored and can be edited later.</span>
                 </div>
                 <div className="flex flex-col-reverse gap-3 sm:flex-row">
-                  {step > 0 && (
+                  {isIneligible ? (
                     <button
                       type="button"
-                      onClick={handleBack}
-                      className="flex items-center justify-center gap-2 rounded-full border border-white/30 px-5 py-2 text-sm font-semibold text-white transition hover:border-white/60 hover:bg-white/10"
+                      onClick={() => handleRequestClose(true)}
+                      className="flex items-center justify-center gap-2 rounded-full bg-white px-6 py-2 text-sm font-semibold text-purple-700 shadow-lg transition hover:shadow-xl"
                     >
-                      <ArrowLeftIcon className="h-4 w-4" />
-                      Back
+                      Close
                     </button>
-                  )}
-                  {currentStepKey !== 'review' && (
-                    <div className="flex items-center gap-3">
-                      {currentStepKey === 'documents' && (
+                  ) : (
+                    <>
+                      {step > 0 && (
                         <button
                           type="button"
-                          onClick={handleNext}
-                          className="rounded-full bg-white/10 px-5 py-2 text-sm font-semibold text-white transition hover:bg-white/20"
-                          disabled={uploading}
+                          onClick={handleBack}
+                          className="flex items-center justify-center gap-2 rounded-full border border-white/30 px-5 py-2 text-sm font-semibold text-white transition hover:border-white/60 hover:bg-white/10"
                         >
-                          Skip
+                          <ArrowLeftIcon className="h-4 w-4" />
+                          Back
                         </button>
                       )}
-                      <button
-                        type="button"
-                        onClick={handleNext}
-                        className="flex items-center justify-center gap-2 rounded-full bg-white px-6 py-2 text-sm font-semibold text-purple-700 shadow-lg transition hover:shadow-xl disabled:cursor-not-allowed disabled:opacity-60"
-                        disabled={uploading}
-                      >
-                        Next
-                        <ArrowRightIcon className="h-4 w-4" />
-                      </button>
-                    </div>
-                  )}
-                  {currentStepKey === 'review' && (
-                    <button
-                      type="button"
-                      onClick={handleSubmit}
-                      disabled={submitting}
-                      className="flex items-center justify-center gap-2 rounded-full bg-white px-6 py-3 text-sm font-semibold text-purple-700 shadow-lg transition hover:shadow-xl disabled:cursor-not-allowed disabled:opacity-60"
-                    >
-                      {submitting ? (
-                        <>
-                          <ArrowPathIcon className="h-4 w-4 animate-spin" />
-                          Submitting...
-                        </>
-                      ) : (
-                        <>
-                          Submit Application
-                          <CheckIcon className="h-4 w-4" />
-                        </>
+                      {currentStepKey !== 'review' && (
+                        <div className="flex items-center gap-3">
+                          {currentStepKey === 'documents' && (
+                            <button
+                              type="button"
+                              onClick={handleNext}
+                              className="rounded-full bg-white/10 px-5 py-2 text-sm font-semibold text-white transition hover:bg-white/20"
+                              disabled={uploading}
+                            >
+                              Skip
+                            </button>
+                          )}
+                          <button
+                            type="button"
+                            onClick={handleNext}
+                            className="flex items-center justify-center gap-2 rounded-full bg-white px-6 py-2 text-sm font-semibold text-purple-700 shadow-lg transition hover:shadow-xl disabled:cursor-not-allowed disabled:opacity-60"
+                            disabled={uploading}
+                          >
+                            Next
+                            <ArrowRightIcon className="h-4 w-4" />
+                          </button>
+                        </div>
                       )}
-                    </button>
+                      {currentStepKey === 'review' && (
+                        <button
+                          type="button"
+                          onClick={handleSubmit}
+                          disabled={submitting}
+                          className="flex items-center justify-center gap-2 rounded-full bg-white px-6 py-3 text-sm font-semibold text-purple-700 shadow-lg transition hover:shadow-xl disabled:cursor-not-allowed disabled:opacity-60"
+                        >
+                          {submitting ? (
+                            <>
+                              <ArrowPathIcon className="h-4 w-4 animate-spin" />
+                              Submitting...
+                            </>
+                          ) : (
+                            <>
+                              Submit Application
+                              <CheckIcon className="h-4 w-4" />
+                            </>
+                          )}
+                        </button>
+                      )}
+                    </>
                   )}
                 </div>
               </footer>
@@ -0,0 +1,144 @@
+import React from 'react';
+import type { OpportunityFacets } from '../../types';
+import type { FacetCounts, FacetOption } from '../../utils/opportunityFacets';
+
+interface FacetPanelProps {
+  facets: OpportunityFacets;
+  counts: FacetCounts;
+  onChange: (patch: Partial<OpportunityFacets>) => void;
+}
+
+const FilterPill: React.FC<{
+  checked: boolean;
+  onChange: () => void;
+  label: string;
+  count: number;
+}> = ({ checked, onChange, label, count }) => (
+  <button
+    type="button"
+    onClick={onChange}
+    aria-pressed={checked}
+    // Leave selected pills clickable so an empty combination can still be undone
+    disabled={!checked && count === 0}
+    className={`rounded-full px-3 py-1 text-xs font-semibold transition disabled:cursor-not-allowed disabled:opacity-40 ${
+      checked
+        ? 'bg-white text-purple-700 shadow'
+        : 'bg-white/10 text-white hover:bg-white/20 border border-white/15'
+    }`}
+  >
+    {label}
+    <span className={`ml-1.5 ${checked ? 'text-purple-400' : 'text-white/50'}`}>{count}</span>
+  </button>
+);
+
+const FacetGroup: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <div>
+    <p className="mb-2 text-xs font-semibold uppercase tracking-wide text-white/60">{title}</p>
+    <div className="flex flex-wrap gap-2">{children}</div>
+  </div>
+);
+
+const toggle = <T,>(values: T[], value: T): T[] =>
+  values.includes(value) ? values.filter((existing) => existing !== value) : [...values, value];
+
+// Locations and skills are free text, so "Bangalore" and "bangalore" are one option
+const hasText = (values: string[], value: string) =>
+  values.some((existing) => existing.toLowerCase() === value.toLowerCase());
+
+const toggleText = (values: string[], value: string) =>
+  hasText(values, value) ? values.filter((existing) => existing.toLowerCase() !== value.toLowerCase()) : [...values, value];
+
+export const FacetPanel: React.FC<FacetPanelProps> = ({ facets, counts, onChange }) => {
+  // Single-choice facets: picking the selected option again clears it
+  const single = <T extends string | number>(
+    options: FacetOption<T>[],
+    selected: T,
+    cleared: T,
+    apply: (value: T) => Partial<OpportunityFacets>,
+  ) =>
+    options.map((option) => (
+      <FilterPill
+        key={option.value}
+        label={option.label}
+        count={option.count}
+        checked={selected === option.value}
+        onChange={() => onChange(apply(selected === option.value ? cleared : option.value))}
+      />
+    ));
+
+  const text = (
+    options: FacetOption[],
+    selected: string[],
+    apply: (values: string[]) => Partial<OpportunityFacets>,
+    emptyLabel: string,
+  ) =>
+    options.length > 0 ? (
+      options.map((option) => (
+        <FilterPill
+          key={option.value}
+          label={option.label}
+          count={option.count}
+          checked={hasText(selected, option.value)}
+          onChange={() => onChange(apply(toggleText(selected, option.value)))}
+        />
+      ))
+    ) : (
+      <p className="text-xs text-white/50">{emptyLabel}</p>
+    );
+
+  return (
+    <div className="mt-4 grid gap-4 rounded-2xl border border-white/10 bg-white/5 p-4 sm:grid-cols-2 lg:grid-cols-3">
+      <FacetGroup title="Work mode">
+        {single(counts.workMode, facets.workMode, '', (workMode) => ({ workMode }))}
+      </FacetGroup>
+      <FacetGroup title="Pay per month">
+        {single(counts.stipendMin, facets.stipendMin, 0, (stipendMin) => ({ stipendMin }))}
+      </FacetGroup>
+      <FacetGroup title="Duration">
+        {counts.durations.map((option) => (
+          <FilterPill
+            key={option.value}
+            label={option.label}
+            count={option.count}
+            checked={facets.durations.includes(option.value)}
+            onChange={() => onChange({ durations: toggle(facets.durations, option.value) })}
+          />
+        ))}
+      </FacetGroup>
+      <FacetGroup title="Deadline">
+        {single(counts.deadline, facets.deadline, '', (deadline) => ({ deadline }))}
+      </FacetGroup>
+      <FacetGroup title="Location">
+        {text(counts.locations, facets.locations, (locations) => ({ locations }), 'No locations listed')}
+      </FacetGroup>
+      <FacetGroup title="Skills">
+        {text(counts.skills, facets.skills, (skills) => ({ skills }), 'No skills listed')}
+      </FacetGroup>
+      <FacetGroup title="Company size">
+        {counts.companySizes.map((option) => (
+          <FilterPill
+            key={option.value}
+            label={option.label}
+            count={option.count}
+            checked={facets.companySizes.includes(option.value)}
+            onChange={() => onChange({ companySizes: toggle(facets.companySizes, option.value) })}
+          />
+        ))}
+      </FacetGroup>
+      <FacetGroup title="Perks">
+        <FilterPill
+          label="PPO offered"
+          count={counts.ppo}
+          checked={facets.ppo}
+          onChange={() => onChange({ ppo: !facets.ppo })}
+        />
+        <FilterPill
+          label="Featured"
+          count={counts.featured}
+          checked={facets.featured}
+          onChange={() => onChange({ featured: !facets.featured })}
+        />
+      </FacetGroup>
+    </div>
+  );
+};
@@ -0,0 +1,29 @@
+import React, { useMemo } from 'react';
+import { parseHighlight } from '../../lib/opportunitySearch';
+
+interface HighlightedTextProps {
+  /** Search RPC output with matches wrapped in highlight markers. */
+  text: string;
+  markClassName?: string;
+}
+
+export const HighlightedText: React.FC<HighlightedTextProps> = ({
+  text,
+  markClassName = 'rounded bg-yellow-300/30 px-0.5 text-inherit',
+}) => {
+  const segments = useMemo(() => parseHighlight(text), [text]);
+
+  return (
+    <>
+      {segments.map((segment, index) =>
+        segment.highlighted ? (
+          <mark key={index} className={markClassName}>
+            {segment.text}
+          </mark>
+        ) : (
+          <React.Fragment key={index}>{segment.text}</React.Fragment>
+        ),
+      )}
+    </>
+  );
+};
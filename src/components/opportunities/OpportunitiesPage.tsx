@@ -1,39 +1,44 @@
-import React, { useEffect, useMemo, useState, useCallback } from 'react';
-import { motion, AnimatePresence } from 'framer-motion';
+import React, { useEffect, useMemo, useRef, useState, useCallback } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import {
   MagnifyingGlassIcon,
   XMarkIcon,
   BuildingOffice2Icon,
+  AdjustmentsHorizontalIcon,
 } from '@heroicons/react/24/outline';
-import { supabase } from '../../lib/supabase';
 import OpportunityCard, { 
   OpportunityCardOpportunity, 
   StudentProfileSnapshot 
 } from './OpportunityCard';
 import { useAuthStore } from '../../stores/authStore';
+import type {
+  OpportunityFacets,
+  OpportunitySortKey,
+  SavedSearch,
+  SavedSearchFilters,
+} from '../../types';
+import { evaluateEligibility } from '../../utils/eligibility';
+import { buildRelatedSkillIndex, computeMatchScore } from '../../utils/matchScore';
+import { getOpportunityPath } from '../../utils/opportunityDetail';
+import { useSkillsMaster } from '../../hooks/useSkillsMaster';
+import { useSavedOpportunities } from '../../hooks/useSavedOpportunities';
+import { useSavedSearches } from '../../hooks/useSavedSearches';
+import {
+  describeSearchFilters,
+  isSameSearch,
+  normalizeSearchFilters,
+  searchFiltersFromParams,
+  searchFiltersToParams,
+} from '../../utils/savedSearches';
+import { DEFAULT_FACETS, SORT_LABELS, countActiveFacets } from '../../utils/opportunityFacets';
+import { SavedSearchesBar } from './SavedSearchesBar';
+import { FacetPanel } from './FacetPanel';
+import { track } from '../../lib/analytics';
+import { OPPORTUNITY_PAGE_SIZE } from '../../lib/opportunitySearch';
+import { useOpportunityFeed, type FeedOpportunity } from '../../hooks/useOpportunityFeed';
 
 type TabKey = 'internships' | 'placements' | 'all';
 
-interface FetchedOpportunity {
-  opportunity_id: string;
-  title: string;
-  type: 'internship' | 'placement' | null;
-  stipend_min?: number | null;
-  stipend_max?: number | null;
-  currency?: string | null;
-  duration_months?: number | null;
-  work_mode?: string | null;
-  location?: string[] | string | null;
-  application_deadline?: string | null;
-  created_at?: string | null;
-  companies?: {
-    company_name?: string | null;
-    logo_url?: string | null;
-  } | null;
-}
-
-const TYPE_TAGS = ['Tech', 'Non-Tech', 'Core', 'Research'] as const;
-
 // Simple debounce hook
 const useDebounce = <T,>(value: T, delay: number): T => {
   const [debouncedValue, setDebouncedValue] = useState<T>(value);
@@ -81,155 +86,129 @@ const EmptyState: React.FC<{ onClear?: () => void }> = ({ onClear }) => (
   </div>
 );
 
-const FilterPill: React.FC<{
-  checked: boolean;
-  onChange: () => void;
-  label: string;
-}> = ({ checked, onChange, label }) => (
-  <button
-    type="button"
-    onClick={onChange}
-    className={`rounded-full px-3 py-1 text-xs font-semibold transition ${
-      checked
-        ? 'bg-white text-purple-700 shadow'
-        : 'bg-white/10 text-white hover:bg-white/20 border border-white/15'
-    }`}
-  >
-    {label}
-  </button>
-);
-
 export const OpportunitiesPage: React.FC = () => {
-  const { user } = useAuthStore();
-  const studentId = user?.id || null;
-
-  // Get URL parameters - simple approach without react-router-dom
-  const getUrlParam = (key: string) => {
-    const params = new URLSearchParams(window.location.search);
-    return params.get(key);
-  };
+  const navigate = useNavigate();
+  const { profile, studentId } = useAuthStore();
 
-  const initialTab = ((getUrlParam('tab') as TabKey) || 'internships');
-  const initialQuery = getUrlParam('q') || '';
+  // Filters live in the URL, so reloading or sharing a link restores the same view
+  const [searchParams, setSearchParams] = useSearchParams();
+  const urlFilters = useMemo(() => searchFiltersFromParams(searchParams), [searchParams]);
+  const { tab: activeTab, sort: sortBy } = urlFilters;
 
-  const [activeTab, setActiveTab] = useState<TabKey>(initialTab);
-  const [searchQuery, setSearchQuery] = useState(initialQuery);
+  const [searchQuery, setSearchQuery] = useState(urlFilters.q);
   const debouncedSearch = useDebounce(searchQuery, 300);
+  const [showFacets, setShowFacets] = useState(false);
 
-  const [filters, setFilters] = useState({
-    workMode: getUrlParam('workMode') || '',
-    types: new Set<string>(),
-  });
+  const { isSaved, toggleSave } = useSavedOpportunities(studentId);
+  const { searches, newCounts, createSearch, setAlertMode, deleteSearch, markViewed } = useSavedSearches(studentId);
 
-  const [opportunities, setOpportunities] = useState<FetchedOpportunity[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [selected, setSelected] = useState<FetchedOpportunity | null>(null);
-  const [isModalOpen, setModalOpen] = useState(false);
-  const [savedOpportunities, setSavedOpportunities] = useState<Set<string>>(new Set());
+  const updateFilters = useCallback((patch: Partial<SavedSearchFilters>) => {
+    setSearchParams(
+      (prev) => searchFiltersToParams({ ...searchFiltersFromParams(prev), ...patch }),
+      { replace: true },
+    );
+  }, [setSearchParams]);
 
-  // Update URL when filters change
+  // The search box writes to the URL once typing settles
+  const lastWrittenQuery = useRef(debouncedSearch);
   useEffect(() => {
-    const params = new URLSearchParams();
-    if (debouncedSearch) params.set('q', debouncedSearch);
-    params.set('tab', activeTab);
-    if (filters.workMode) params.set('workMode', filters.workMode);
-    
-    const newUrl = `${window.location.pathname}?${params.toString()}`;
-    window.history.replaceState({}, '', newUrl);
-  }, [debouncedSearch, activeTab, filters.workMode]);
-
-  // Load saved opportunities from memory (not localStorage)
-  const [savedInMemory] = useState<Set<string>>(new Set());
-
-  const fetchOpportunities = useCallback(async () => {
-    setLoading(true);
-    const serverType = activeTab === 'internships' ? 'internship' : activeTab === 'placements' ? 'placement' : null;
-
-    try {
-      // Build query with server-side filtering
-      let query = supabase
-        .from('opportunities')
-        .select(`
-          opportunity_id,
-          title,
-          type,
-          stipend_min,
-          stipend_max,
-          currency,
-          duration_months,
-          work_mode,
-          location,
-          application_deadline,
-          created_at,
-          companies (
-            company_name,
-            logo_url
-          )
-        `)
-        .in('status', ['active', 'open'])
-        ;
-
-      // Fetch all active opportunities; filter by tab client-side to avoid server-side misses
-
-      // Apply server-side search filtering
-      if (debouncedSearch.trim()) {
-        // Search in title and company name
-        query = query.or(`title.ilike.%${debouncedSearch}%,companies.company_name.ilike.%${debouncedSearch}%`);
-      }
-
-      // Apply server-side work mode filtering
-      if (filters.workMode) {
-        query = query.eq('work_mode', filters.workMode);
-      }
-
-      // No category filter on server (column not present in schema)
-
-      const { data, error } = await query;
-
-      if (error) {
-        console.error('Error fetching opportunities:', error);
-        setOpportunities([]);
-      } else if (data) {
-        setOpportunities(data as FetchedOpportunity[]);
-      }
-    } catch (err) {
-      console.error('Unexpected error:', err);
-      setOpportunities([]);
-    }
-
-    setLoading(false);
-  }, [activeTab, debouncedSearch, filters.workMode, filters.types]);
-
+    if (lastWrittenQuery.current === debouncedSearch) return;
+    lastWrittenQuery.current = debouncedSearch;
+    updateFilters({ q: debouncedSearch });
+  }, [debouncedSearch, updateFilters]);
+
+  // Ahead of the URL by the one render it takes the settled query to land there
+  const currentFilters = useMemo<SavedSearchFilters>(
+    () => normalizeSearchFilters({ ...urlFilters, q: debouncedSearch }),
+    [urlFilters, debouncedSearch],
+  );
+  const { pages, hits: searchHits, total, hasMore, facetCounts, loading, loadingMore, loadMore } =
+    useOpportunityFeed(currentFilters);
+  const opportunities = useMemo(() => pages.flat(), [pages]);
+  const activeFacetCount = countActiveFacets(urlFilters);
+  const isSearching = currentFilters.q !== '';
+
+  // Fetch the next page a little before the end of the list comes into view
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore) return;
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) void loadMore();
+      },
+      { rootMargin: '600px 0px' },
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, loadMore]);
+
+
+  // One event per settled search, once results for it have loaded
+  const lastTrackedSearch = useRef('');
   useEffect(() => {
-    fetchOpportunities();
-  }, [fetchOpportunities]);
-  
-  // Client-side type filter to ensure visibility regardless of server quirks
-  const filtered = useMemo(() => {
-    const typeFilter = activeTab === 'internships' ? 'internship' : activeTab === 'placements' ? 'placement' : null;
-    if (!typeFilter) return opportunities;
-    return opportunities.filter(o => (o.type || 'internship') === typeFilter);
-  }, [opportunities, activeTab]);
+    const query = debouncedSearch.trim();
+    if (loading || !query) return;
+    const key = `${activeTab}:${query}`;
+    if (lastTrackedSearch.current === key) return;
+    lastTrackedSearch.current = key;
+    track('search_performed', { query_length: query.length, results_count: total, tab: activeTab });
+  }, [debouncedSearch, activeTab, loading, total]);
+
+  const changeTab = (tab: TabKey) => {
+    if (tab === activeTab) return;
+    updateFilters({ tab });
+    track('filter_changed', { filter: 'tab', value: tab });
+  };
+
+  const changeSort = (next: OpportunitySortKey) => {
+    updateFilters({ sort: next });
+    track('filter_changed', { filter: 'sort', value: next });
+  };
+
+  const changeFacets = (patch: Partial<OpportunityFacets>) => {
+    updateFilters(patch);
+    (Object.keys(patch) as (keyof OpportunityFacets)[]).forEach((filter) => {
+      track('filter_changed', { filter, value: patch[filter] ?? null });
+    });
+  };
 
   const clearAllFilters = () => {
-    setFilters({ workMode: '', types: new Set() });
+    updateFilters({ ...DEFAULT_FACETS, q: '' });
     setSearchQuery('');
+    track('filter_changed', { filter: 'clear', value: null });
   };
 
-  const onToggleSave = (opportunityId: string, next: boolean) => {
-    setSavedOpportunities(prev => {
-      const copy = new Set(prev);
-      if (next) {
-        copy.add(opportunityId);
-      } else {
-        copy.delete(opportunityId);
-      }
-      return copy;
-    });
+  const activeSearchId = searches.find((search) => isSameSearch(search.filters, currentFilters))?.search_id ?? null;
+
+  const applySavedSearch = useCallback((search: SavedSearch) => {
+    const saved = normalizeSearchFilters(search.filters);
+    setSearchQuery(saved.q);
+    setSearchParams(searchFiltersToParams(saved), { replace: true });
+    void markViewed(search.search_id);
+  }, [markViewed, setSearchParams]);
+
+  // Digest notifications link to /opportunities?search=<id>; read once, since the next filter change drops it
+  const linkedSearchId = useRef(searchParams.get('search'));
+  useEffect(() => {
+    if (!linkedSearchId.current || searches.length === 0) return;
+    const linked = searches.find((search) => search.search_id === linkedSearchId.current);
+    linkedSearchId.current = null;
+    if (linked) applySavedSearch(linked);
+  }, [searches, applySavedSearch]);
+
+  const saveCurrentSearch = () => {
+    const name = window.prompt('Name this search', describeSearchFilters(currentFilters))?.trim();
+    if (name) void createSearch(name, currentFilters);
+  };
+
+  const onToggleSave = (opportunityId: string) => {
+    void toggleSave(opportunityId);
   };
 
-  const mappedToCard = (o: FetchedOpportunity): OpportunityCardOpportunity => ({
+  const mappedToCard = (o: FeedOpportunity): OpportunityCardOpportunity => ({
     opportunity_id: o.opportunity_id,
+    slug: o.slug,
     title: o.title,
     company: o.companies,
     company_name: o.companies?.company_name,
@@ -243,17 +222,22 @@ export const OpportunitiesPage: React.FC = () => {
     duration_months: o.duration_months,
     application_deadline: o.application_deadline,
     created_at: o.created_at,
+    updated_at: o.updated_at,
   });
 
-  // Simple student profile mock (since we don't have the full profile system yet)
-  const studentProfile: StudentProfileSnapshot = {
-    full_name: user?.email?.split('@')[0] || 'Student',
-    college_name: 'Your College',
-    course: 'B.Tech',
-    resume_url: null,
-    skills: [],
-    profile_strength: 50,
-  };
+  const studentProfile: StudentProfileSnapshot | null = profile;
+
+  const eligibilityById = useMemo(
+    () => new Map(opportunities.map((o) => [o.opportunity_id, evaluateEligibility(o.eligibility_criteria, profile)])),
+    [opportunities, profile],
+  );
+
+  const { skills: skillsMaster } = useSkillsMaster();
+  const relatedSkills = useMemo(() => buildRelatedSkillIndex(skillsMaster), [skillsMaster]);
+  const matchById = useMemo(
+    () => new Map(opportunities.map((o) => [o.opportunity_id, computeMatchScore(o, profile, relatedSkills)])),
+    [opportunities, profile, relatedSkills],
+  );
 
   return (
     <div className="min-h-screen bg-gradient-to-b from-slate-900 via-slate-900 to-slate-950 px-4 py-6 sm:px-6 md:px-8">
@@ -263,7 +247,10 @@ export const OpportunitiesPage: React.FC = () => {
             <h1 className="text-3xl font-bold text-white">Browse Opportunities</h1>
             <div className="flex items-center gap-2 text-sm text-white/70">
               <BuildingOffice2Icon className="h-5 w-5" />
-              <span>{filtered.length} matching opportunities</span>
+              <span>
+                {loading ? 'Loading…' : `${total} matching ${total === 1 ? 'opportunity' : 'opportunities'}`}
+                {!loading && opportunities.length < total && ` · showing ${opportunities.length}`}
+              </span>
             </div>
           </div>
         </header>
@@ -274,7 +261,7 @@ export const OpportunitiesPage: React.FC = () => {
                     {(['internships', 'placements'] as TabKey[]).map(tab => (
                     <button 
                       key={tab} 
-                      onClick={() => setActiveTab(tab)}
+                      onClick={() => changeTab(tab)}
                       className={`rounded-full px-4 py-2 text-sm font-semibold transition ${
                         activeTab === tab 
                           ? 'bg-white text-purple-700 shadow' 
@@ -291,10 +278,23 @@ export const OpportunitiesPage: React.FC = () => {
                         <input 
                           value={searchQuery} 
                           onChange={e => setSearchQuery(e.target.value)} 
-                          placeholder="Search by title, company, or domain..."
+                          placeholder="Search by title, company, skills, or location..."
                           className="w-full rounded-full border border-white/15 bg-white/10 pl-10 pr-4 py-2 text-white placeholder:text-white/60 focus:outline-none focus:ring-2 focus:ring-white/30" 
                         />
                     </div>
+                    <button
+                      type="button"
+                      onClick={() => setShowFacets((open) => !open)}
+                      aria-expanded={showFacets}
+                      className={`inline-flex items-center gap-1.5 rounded-full border px-3 py-2 text-xs font-semibold transition ${
+                        showFacets
+                          ? 'border-white bg-white text-purple-700'
+                          : 'border-white/15 bg-white/5 text-white/80 hover:bg-white/10'
+                      }`}
+                    >
+                        <AdjustmentsHorizontalIcon className="h-4 w-4" />
+                        Filters{activeFacetCount > 0 && ` (${activeFacetCount})`}
+                    </button>
                     <button 
                       type="button" 
                       onClick={clearAllFilters} 
@@ -303,100 +303,71 @@ export const OpportunitiesPage: React.FC = () => {
                         <XMarkIcon className="h-4 w-4" />
                         Clear Filters
                     </button>
+                    <select
+                      value={sortBy}
+                      onChange={e => changeSort(e.target.value as OpportunitySortKey)}
+                      className="rounded-full border border-white/15 bg-white/10 px-3 py-2 text-xs font-semibold text-white focus:outline-none focus:ring-2 focus:ring-white/30"
+                      aria-label="Sort opportunities"
+                    >
+                      {(Object.keys(SORT_LABELS) as OpportunitySortKey[])
+                        // Without a profile or a query there is nothing to match against
+                        .filter(key => key !== 'match' || profile || isSearching)
+                        .map(key => (
+                          <option key={key} value={key} className="text-slate-900">
+                            {key === 'match' && isSearching ? 'Relevance' : SORT_LABELS[key]}
+                          </option>
+                        ))}
+                    </select>
                 </div>
-                <div className="mt-4 flex flex-wrap gap-2">
-                    {TYPE_TAGS.map(t => (
-                        <FilterPill
-                            key={t}
-                            label={t}
-                            checked={filters.types.has(t)}
-                            onChange={() => {
-                              setFilters(prev => {
-                                const newTypes = new Set(prev.types);
-                                if (newTypes.has(t)) {
-                                  newTypes.delete(t);
-                                } else {
-                                  newTypes.add(t);
-                                }
-                                return { ...prev, types: newTypes };
-                              });
-                            }}
-                        />
-                    ))}
-                </div>
+                {showFacets && <FacetPanel facets={urlFilters} counts={facetCounts} onChange={changeFacets} />}
+                {studentId && (
+                  <SavedSearchesBar
+                    searches={searches}
+                    newCounts={newCounts}
+                    activeSearchId={activeSearchId}
+                    onApply={applySavedSearch}
+                    onSaveCurrent={saveCurrentSearch}
+                    onAlertModeChange={(searchId, alertMode) => void setAlertMode(searchId, alertMode)}
+                    onDelete={(searchId) => void deleteSearch(searchId)}
+                  />
+                )}
             </div>
         </div>
 
         <section className="grid grid-cols-1 gap-5 md:grid-cols-2 xl:grid-cols-3 mt-6">
           {loading ? (
             Array.from({ length: 6 }).map((_, i) => <ShimmerCard key={i} />)
-          ) : filtered.length > 0 ? (
-            filtered.map(o => (
+          ) : opportunities.length > 0 ? (
+            <>
+            {opportunities.map((o, index) => (
               <OpportunityCard
                 key={o.opportunity_id}
                 opportunity={mappedToCard(o)}
-                isSaved={savedOpportunities.has(o.opportunity_id)}
+                isSaved={isSaved(o.opportunity_id)}
                 onToggleSave={onToggleSave}
-                onClick={() => { 
-                  setSelected(o); 
-                  setModalOpen(true); 
+                onClick={() => {
+                  track('opportunity_clicked', { opportunity_id: o.opportunity_id, position: index, list: 'browse' });
+                  navigate(getOpportunityPath(o));
                 }}
                 showQuickApply
                 studentId={studentId}
                 studentProfile={studentProfile}
+                eligibility={profile ? eligibilityById.get(o.opportunity_id) : null}
+                match={profile ? matchById.get(o.opportunity_id) : null}
+                searchHit={searchHits.get(o.opportunity_id)}
               />
-            ))
+            ))}
+            {loadingMore && Array.from({ length: 3 }).map((_, i) => <ShimmerCard key={`more-${i}`} />)}
+            </>
           ) : (
             <EmptyState onClear={clearAllFilters} />
           )}
         </section>
-      </div>
-
-      {/* Simple Modal Placeholder - ApplicationModal doesn't exist yet */}
-      <AnimatePresence>
-        {isModalOpen && selected && (
-          <motion.div
-            initial={{ opacity: 0 }}
-            animate={{ opacity: 1 }}
-            exit={{ opacity: 0 }}
-            className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4"
-            onClick={() => setModalOpen(false)}
-          >
-            <motion.div
-              initial={{ scale: 0.9, y: 20 }}
-              animate={{ scale: 1, y: 0 }}
-              exit={{ scale: 0.9, y: 20 }}
-              className="bg-white rounded-2xl p-6 max-w-2xl w-full max-h-[80vh] overflow-y-auto"
-              onClick={(e) => e.stopPropagation()}
-            >
-              <div className="flex items-start justify-between mb-4">
-                <div>
-                  <h2 className="text-2xl font-bold text-gray-900">{selected.title}</h2>
-                  <p className="text-gray-600">{selected.companies?.company_name || 'Unknown Company'}</p>
-                </div>
-                <button
-                  onClick={() => setModalOpen(false)}
-                  className="text-gray-400 hover:text-gray-600"
-                >
-                  <XMarkIcon className="h-6 w-6" />
-                </button>
-              </div>
-              
-              <div className="space-y-4">
-                <p className="text-gray-700">
-                  Application modal coming soon! This will allow you to apply for opportunities.
-                </p>
-                <button
-                  onClick={() => setModalOpen(false)}
-                  className="w-full bg-gradient-to-r from-purple-600 to-blue-600 text-white py-3 rounded-lg font-medium hover:shadow-lg transition-all"
-                >
-                  Close
-                </button>
-              </div>
-            </motion.div>
-          </motion.div>
+        <div ref={sentinelRef} aria-hidden="true" />
+        {!loading && !hasMore && opportunities.length > 0 && opportunities.length >= OPPORTUNITY_PAGE_SIZE && (
+          <p className="mt-8 text-center text-sm text-white/50">You've reached the end of the list</p>
         )}
-      </AnimatePresence>
+      </div>
     </div>
   );
 };
\ No newline at end of file
@@ -1,4 +1,5 @@
 import React, { useMemo } from 'react';
+import { Link } from 'react-router-dom';
 import { motion, useAnimation } from 'framer-motion';
 import {
   HeartIcon as HeartIconOutline,
@@ -6,16 +7,26 @@ import {
   CalendarDaysIcon,
   ClockIcon,
   UsersIcon, // ✅ Changed from UserGroupIcon
+  ArrowDownTrayIcon,
+  CheckBadgeIcon,
+  ExclamationTriangleIcon,
 } from '@heroicons/react/24/outline';
 import { HeartIcon as HeartIconSolid, CurrencyRupeeIcon } from '@heroicons/react/24/solid';
+import { deadlineToEvent, downloadCalendar } from '../../utils/calendar';
+import { getFailedChecks } from '../../utils/eligibility';
+import type { EligibilityResult, MatchScore } from '../../types';
+import { HIGHLIGHT_START, type OpportunitySearchHit } from '../../lib/opportunitySearch';
+import QuickApplyButton from './QuickApplyButton';
+import { HighlightedText } from './HighlightedText';
 
 // Interface for the data object passed to this component
 export interface OpportunityCardOpportunity {
   opportunity_id: string;
+  slug?: string | null;
   title?: string | null;
   company?: {
+    company_id?: string | null;
     company_name?: string | null;
-    brand_logo_url?: string | null;
     logo_url?: string | null;
     image_url?: string | null;
   } | null;
@@ -30,6 +41,7 @@ export interface OpportunityCardOpportunity {
   duration_months?: number | null;
   application_deadline?: string | null;
   created_at?: string | null;
+  updated_at?: string | null;
   is_ppo_offered?: boolean | null;
   current_applications?: number | null;
 }
@@ -51,6 +63,11 @@ interface OpportunityCardProps {
   showQuickApply?: boolean;
   studentId: string | null;
   studentProfile: StudentProfileSnapshot | null;
+  /** Evaluated by the parent against the signed-in student; omit to hide the badge. */
+  eligibility?: EligibilityResult | null;
+  match?: MatchScore | null;
+  /** Set while a search query is active, to mark matched words in the title and description. */
+  searchHit?: OpportunitySearchHit | null;
 }
 
 const getCurrencySymbol = (currency?: string | null) => {
@@ -131,11 +148,15 @@ const OpportunityCard: React.FC<OpportunityCardProps> = ({
   showQuickApply = false,
   studentId,
   studentProfile,
+  eligibility,
+  match,
+  searchHit,
 }) => {
   const saveControls = useAnimation();
   
   const companyName = opportunity.company?.company_name || opportunity.company_name || 'Unknown Company';
-  const companyLogo = opportunity.company?.brand_logo_url || null;
+  const companyLogo = opportunity.company?.logo_url || opportunity.company?.image_url || null;
+  const companyId = opportunity.company?.company_id || null;
   
   const locations = useMemo(() => extractLocations(opportunity.location), [opportunity.location]);
   const isPlacement = opportunity.ctc_min != null || opportunity.ctc_max != null;
@@ -150,6 +171,8 @@ const OpportunityCard: React.FC<OpportunityCardProps> = ({
   const workMode = getWorkModeConfig(opportunity.work_mode);
   const deadlineCountdown = getDeadlineCountdown(opportunity.application_deadline);
   const newOpportunity = isNewOpportunity(opportunity.created_at);
+  const deadlineEvent = deadlineToEvent({ ...opportunity, company_name: companyName });
+  const failedChecks = getFailedChecks(eligibility);
 
   return (
     <motion.div
@@ -178,8 +201,22 @@ const OpportunityCard: React.FC<OpportunityCardProps> = ({
             )}
           </div>
           <div>
-            <h3 className="text-lg font-semibold text-white">{opportunity.title}</h3>
-            <p className="mt-1 text-sm text-slate-300">{companyName}</p>
+            <h3 className="text-lg font-semibold text-white">
+              {searchHit?.title_highlight ? <HighlightedText text={searchHit.title_highlight} /> : opportunity.title}
+            </h3>
+            {companyId ? (
+              <Link
+                to={`/companies/${companyId}`}
+                // The whole card opens the apply modal; the company name goes to the company page instead
+                onClick={(e) => e.stopPropagation()}
+                onKeyDown={(e) => e.stopPropagation()}
+                className="mt-1 block text-sm text-slate-300 hover:text-white hover:underline"
+              >
+                {companyName}
+              </Link>
+            ) : (
+              <p className="mt-1 text-sm text-slate-300">{companyName}</p>
+            )}
           </div>
         </div>
         <motion.button
@@ -218,8 +255,39 @@ const OpportunityCard: React.FC<OpportunityCardProps> = ({
             PPO
           </span>
         )}
+        {match && match.factors.length > 0 && (
+          <span
+            className="inline-flex items-center rounded-full bg-purple-500/15 px-3 py-1 font-semibold text-purple-200"
+            title={match.factors.map((factor) => factor.detail).join('\n')}
+          >
+            {match.score}% match
+          </span>
+        )}
+        {eligibility && eligibility.checks.length > 0 && (
+          failedChecks.length === 0 ? (
+            <span className="inline-flex items-center gap-1 rounded-full bg-emerald-500/15 px-3 py-1 font-semibold text-emerald-300">
+              <CheckBadgeIcon className="h-4 w-4" />
+              You're eligible
+            </span>
+          ) : (
+            <span
+              className="inline-flex items-center gap-1 rounded-full bg-amber-500/15 px-3 py-1 font-semibold text-amber-300"
+              title={failedChecks.map((check) => check.reason).join('\n')}
+            >
+              <ExclamationTriangleIcon className="h-4 w-4" />
+              Missing {failedChecks.map((check) => check.label).join(' · ')}
+            </span>
+          )
+        )}
       </div>
 
+      {/* Fuzzy-only hits come back with an unmarked description opening, which says nothing about the match */}
+      {searchHit?.snippet?.includes(HIGHLIGHT_START) && (
+        <p className="mt-4 line-clamp-3 text-sm text-slate-300">
+          <HighlightedText text={searchHit.snippet} />
+        </p>
+      )}
+
       <div className="mt-6 grid grid-cols-2 gap-4 text-sm text-slate-100">
         <div className="flex items-start gap-2">
             <CurrencyRupeeIcon className="mt-0.5 h-5 w-5 text-slate-300/70" />
@@ -265,20 +333,29 @@ const OpportunityCard: React.FC<OpportunityCardProps> = ({
               <span>
                 Apply by: <strong>{deadlineCountdown}</strong>
               </span>
+              {deadlineEvent && deadlineCountdown !== 'Deadline passed' && (
+                <button
+                  type="button"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    downloadCalendar(`deadline-${opportunity.opportunity_id}`, [deadlineEvent]);
+                  }}
+                  className="rounded-full p-1 text-slate-300/80 hover:bg-white/10 hover:text-white"
+                  aria-label="Add deadline to calendar"
+                  title="Add deadline to calendar"
+                >
+                  <ArrowDownTrayIcon className="h-4 w-4" />
+                </button>
+              )}
           </div>
           {showQuickApply && studentId && studentProfile && (
               <div onClick={(e) => e.stopPropagation()}>
-                  <button
-                    className="px-4 py-2 bg-gradient-to-r from-purple-600 to-blue-600 text-white text-sm font-medium rounded-lg hover:shadow-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed"
-                    disabled={!studentId}
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      // TODO: Implement quick apply functionality
-                      console.log('Quick apply:', opportunity.opportunity_id);
-                    }}
-                  >
-                    Quick Apply
-                  </button>
+                  <QuickApplyButton
+                    opportunityId={opportunity.opportunity_id}
+                    studentId={studentId}
+                    studentProfile={studentProfile}
+                    eligibility={eligibility}
+                  />
               </div>
           )}
       </div>
@@ -0,0 +1,422 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import toast from 'react-hot-toast';
+import {
+  BriefcaseIcon,
+  CalendarDaysIcon,
+  CheckCircleIcon,
+  ClockIcon,
+  EyeIcon,
+  HeartIcon,
+  MapPinIcon,
+  UsersIcon,
+  XCircleIcon,
+} from '@heroicons/react/24/outline';
+import { HeartIcon as HeartIconSolid } from '@heroicons/react/24/solid';
+import { supabase } from '../../lib/supabase';
+import { useAuthStore } from '../../stores/authStore';
+import { useSkillsMaster } from '../../hooks/useSkillsMaster';
+import { useSavedOpportunities } from '../../hooks/useSavedOpportunities';
+import { track } from '../../lib/analytics';
+import { fetchApplicationStats } from '../../lib/hiringStats';
+import type { Company, OpportunityApplicationStats, OpportunityRecord } from '../../types';
+import { parseCustomQuestions } from '../../utils/customQuestions';
+import { evaluateEligibility } from '../../utils/eligibility';
+import { buildRelatedSkillIndex, computeMatchScore } from '../../utils/matchScore';
+import { formatDate, formatDuration, formatStipend, formatWorkMode } from '../../utils/formatting';
+import {
+  AVAILABILITY_MESSAGES,
+  getOpportunityAvailability,
+  getOpportunityPath,
+  isOpportunityId,
+  parseSelectionProcess,
+} from '../../utils/opportunityDetail';
+import { ApplicationModal } from './ApplicationModal';
+
+type OpportunityDetail = OpportunityRecord & {
+  companies: Pick<Company, 'company_id' | 'company_name' | 'logo_url' | 'industry' | 'headquarters_location'> | null;
+};
+
+interface ExistingApplication {
+  application_id: string;
+  status: string;
+  applied_date: string | null;
+}
+
+// Views are deduplicated server-side per day; this only stops re-renders and
+// StrictMode from calling the RPC twice in one visit
+const recordedViews = new Set<string>();
+
+const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <section className="space-y-3">
+    <h2 className="text-lg font-semibold text-gray-900">{title}</h2>
+    {children}
+  </section>
+);
+
+export const OpportunityDetailPage: React.FC = () => {
+  const { slug = '' } = useParams();
+  const navigate = useNavigate();
+  const { userType, companyId, studentId, profile } = useAuthStore();
+  const { isSaved, toggleSave } = useSavedOpportunities(userType === 'student' ? studentId : null);
+  const [opportunity, setOpportunity] = useState<OpportunityDetail | null>(null);
+  const [existingApplication, setExistingApplication] = useState<ExistingApplication | null>(null);
+  const [applicationStats, setApplicationStats] = useState<OpportunityApplicationStats | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [isModalOpen, setModalOpen] = useState(false);
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  useEffect(() => {
+    let isSubscribed = true;
+
+    const load = async () => {
+      setLoading(true);
+      const query = supabase
+        .from('opportunities')
+        .select('*, companies (company_id, company_name, logo_url, industry, headquarters_location)');
+      const { data, error } = await (isOpportunityId(slug) ? query.eq('opportunity_id', slug) : query.eq('slug', slug))
+        .returns<OpportunityDetail[]>()
+        .maybeSingle();
+      if (!isSubscribed) return;
+
+      if (error) {
+        console.error('Failed to load opportunity:', error);
+        toast.error('Could not load this opportunity');
+      }
+      setOpportunity(data ?? null);
+      setLoading(false);
+
+      // Deep links by id (notifications, older shares) settle on the readable URL
+      if (data?.slug && data.slug !== slug) {
+        window.history.replaceState(window.history.state, '', `${getOpportunityPath(data)}${window.location.search}`);
+      }
+    };
+    load();
+
+    return () => {
+      isSubscribed = false;
+    };
+  }, [slug, refreshKey]);
+
+  const isPreview = Boolean(opportunity && userType === 'company' && companyId === opportunity.company_id);
+
+  // Unlike view_count, analytics keep every visit
+  const viewedId = opportunity?.opportunity_id;
+  useEffect(() => {
+    if (viewedId && userType === 'student') track('opportunity_viewed', { opportunity_id: viewedId });
+  }, [viewedId, userType]);
+
+  useEffect(() => {
+    if (!opportunity || userType !== 'student' || recordedViews.has(opportunity.opportunity_id)) return;
+    recordedViews.add(opportunity.opportunity_id);
+    supabase.rpc('record_opportunity_view', { p_opportunity_id: opportunity.opportunity_id }).then(({ error }) => {
+      if (error) console.error('Failed to record opportunity view:', error);
+    });
+  }, [opportunity, userType]);
+
+  // The counters on the row are never updated; applications are counted server-side
+  const statsId = opportunity?.opportunity_id;
+  useEffect(() => {
+    let isSubscribed = true;
+
+    const loadStats = async () => {
+      if (!statsId) return;
+      try {
+        const stats = await fetchApplicationStats([statsId]);
+        if (isSubscribed) setApplicationStats(stats.get(statsId) ?? null);
+      } catch (error) {
+        console.error('Failed to load application stats:', error);
+      }
+    };
+    loadStats();
+
+    return () => {
+      isSubscribed = false;
+    };
+  }, [statsId, refreshKey]);
+
+  useEffect(() => {
+    let isSubscribed = true;
+
+    const loadApplication = async () => {
+      if (!opportunity || !studentId) return;
+      const { data, error } = await supabase
+        .from('applications')
+        .select('application_id, status, applied_date')
+        .eq('opportunity_id', opportunity.opportunity_id)
+        .eq('student_id', studentId)
+        .neq('status', 'draft')
+        .limit(1)
+        .returns<ExistingApplication[]>();
+      if (!isSubscribed) return;
+      if (error) console.error('Failed to check existing application:', error);
+      setExistingApplication(data?.[0] ?? null);
+    };
+    loadApplication();
+
+    return () => {
+      isSubscribed = false;
+    };
+  }, [opportunity, studentId]);
+
+  const { skills: skillsMaster } = useSkillsMaster();
+  const relatedSkills = useMemo(() => buildRelatedSkillIndex(skillsMaster), [skillsMaster]);
+  const eligibility = useMemo(
+    () => (opportunity && userType === 'student' ? evaluateEligibility(opportunity.eligibility_criteria, profile) : null),
+    [opportunity, userType, profile],
+  );
+  const match = useMemo(
+    () => (opportunity && userType === 'student' ? computeMatchScore(opportunity, profile, relatedSkills) : null),
+    [opportunity, userType, profile, relatedSkills],
+  );
+  const selectionProcess = useMemo(() => parseSelectionProcess(opportunity?.application_process), [opportunity]);
+  const ownedSkills = useMemo(() => new Set((profile?.skills ?? []).map((s) => s.toLowerCase())), [profile]);
+
+  if (loading) {
+    return <div className="max-w-4xl mx-auto px-4 py-10 text-gray-500">Loading...</div>;
+  }
+
+  // Drafts exist only for the company that owns them
+  if (!opportunity || (opportunity.status === 'draft' && !isPreview)) {
+    return (
+      <div className="max-w-4xl mx-auto px-4 py-10 space-y-2">
+        <h1 className="text-2xl font-semibold">Opportunity not found</h1>
+        <p className="text-gray-600">It may have been removed, or the link is incorrect.</p>
+        <Link to={userType === 'company' ? '/company' : '/opportunities'} className="text-purple-600 hover:underline">
+          {userType === 'company' ? 'Back to your dashboard' : 'Browse opportunities'}
+        </Link>
+      </div>
+    );
+  }
+
+  const availability = getOpportunityAvailability(opportunity);
+  const company = opportunity.companies;
+  const companyName = company?.company_name || 'Unknown Company';
+  const openings = Math.max(0, (opportunity.positions_available ?? 0) - (applicationStats?.hired_count ?? 0));
+
+  const renderApplyAction = () => {
+    if (isPreview) {
+      return (
+        <div className="flex gap-2">
+          <button
+            className="px-3 py-1 text-sm rounded-md border hover:bg-gray-50"
+            onClick={() => navigate(`/company/opportunities/${opportunity.opportunity_id}/edit`)}
+          >
+            Edit
+          </button>
+          <button
+            className="px-3 py-1 text-sm rounded-md border hover:bg-gray-50"
+            onClick={() => navigate(`/company/opportunities/${opportunity.opportunity_id}/applicants`)}
+          >
+            View Applicants
+          </button>
+        </div>
+      );
+    }
+    if (userType !== 'student') return null;
+    if (existingApplication) {
+      return (
+        <Link to="/applications" className="inline-flex items-center gap-2 rounded-md bg-green-50 px-4 py-2 text-sm font-medium text-green-700">
+          <CheckCircleIcon className="h-5 w-5" />
+          Applied{existingApplication.applied_date ? ` on ${formatDate(existingApplication.applied_date)}` : ''}
+        </Link>
+      );
+    }
+    return (
+      <button
+        disabled={availability !== 'open'}
+        onClick={() => {
+          if (!studentId) {
+            toast.error('Complete your student profile before applying.');
+            return;
+          }
+          setModalOpen(true);
+        }}
+        className="px-5 py-2 rounded-md bg-purple-600 text-white hover:bg-purple-700 disabled:cursor-not-allowed disabled:opacity-50"
+      >
+        {availability === 'open' ? 'Apply Now' : 'Applications closed'}
+      </button>
+    );
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto px-4 py-10 space-y-8">
+      {isPreview && (
+        <div className="rounded-lg border border-purple-200 bg-purple-50 px-4 py-3 text-sm text-purple-800">
+          Preview: this is how students see your posting. Your visits are not counted as views.
+        </div>
+      )}
+      {availability !== 'open' && (
+        <div className="rounded-lg border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-800">
+          {AVAILABILITY_MESSAGES[availability]}
+        </div>
+      )}
+
+      <div className="flex flex-col gap-4 md:flex-row md:items-start md:justify-between">
+        <div className="flex items-start gap-4">
+          <div className="flex h-16 w-16 shrink-0 items-center justify-center rounded-2xl border border-gray-200 bg-white text-xl font-semibold text-gray-400">
+            {company?.logo_url ? (
+              <img src={company.logo_url} alt={`${companyName} logo`} className="h-full w-full rounded-2xl object-contain" />
+            ) : (
+              companyName.charAt(0)
+            )}
+          </div>
+          <div>
+            <h1 className="text-3xl font-semibold tracking-tight">{opportunity.title}</h1>
+            {company ? (
+              <Link to={`/companies/${company.company_id}`} className="text-purple-600 hover:underline">
+                {companyName}
+              </Link>
+            ) : (
+              <p className="text-gray-600">{companyName}</p>
+            )}
+            {match && match.factors.length > 0 && (
+              <p className="mt-1 text-sm text-gray-500">{match.score}% match with your profile</p>
+            )}
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          {userType === 'student' && studentId && (
+            <button
+              onClick={() => void toggleSave(opportunity.opportunity_id)}
+              className="flex items-center gap-1 px-4 py-2 text-sm rounded-md border hover:bg-gray-50"
+              aria-label={isSaved(opportunity.opportunity_id) ? 'Remove from saved' : 'Save opportunity'}
+            >
+              {isSaved(opportunity.opportunity_id) ? (
+                <HeartIconSolid className="h-5 w-5 text-rose-500" />
+              ) : (
+                <HeartIcon className="h-5 w-5 text-gray-500" />
+              )}
+              {isSaved(opportunity.opportunity_id) ? 'Saved' : 'Save'}
+            </button>
+          )}
+          {renderApplyAction()}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4 rounded-xl border border-gray-200 bg-white p-4 text-sm text-gray-700 md:grid-cols-3">
+        <span className="flex items-center gap-2">
+          <BriefcaseIcon className="h-4 w-4 text-gray-400" />
+          {opportunity.type.charAt(0).toUpperCase() + opportunity.type.slice(1)} · {formatWorkMode(opportunity.work_mode)}
+        </span>
+        <span className="flex items-center gap-2">
+          <MapPinIcon className="h-4 w-4 text-gray-400" />
+          {opportunity.location || 'Location not specified'}
+        </span>
+        <span>{formatStipend(opportunity.stipend_min, opportunity.stipend_max, opportunity.currency ?? 'INR')}</span>
+        <span className="flex items-center gap-2">
+          <ClockIcon className="h-4 w-4 text-gray-400" />
+          {formatDuration(opportunity.duration_months)}
+        </span>
+        <span className="flex items-center gap-2">
+          <CalendarDaysIcon className="h-4 w-4 text-gray-400" />
+          {opportunity.application_deadline ? `Apply by ${formatDate(opportunity.application_deadline)}` : 'No deadline'}
+        </span>
+        <span className="flex items-center gap-2">
+          <UsersIcon className="h-4 w-4 text-gray-400" />
+          {openings} {openings === 1 ? 'opening' : 'openings'}
+        </span>
+        {isPreview && (
+          <span className="flex items-center gap-2">
+            <EyeIcon className="h-4 w-4 text-gray-400" />
+            {opportunity.view_count ?? 0} views · {applicationStats?.applications_count ?? 0} applications
+          </span>
+        )}
+      </div>
+
+      {opportunity.description && (
+        <Section title="About the Role">
+          <p className="whitespace-pre-line text-gray-700">{opportunity.description}</p>
+        </Section>
+      )}
+
+      {((opportunity.required_skills ?? []).length > 0 || (opportunity.preferred_skills ?? []).length > 0) && (
+        <Section title="Requirements">
+          {[
+            { label: 'Required', skills: opportunity.required_skills ?? [] },
+            { label: 'Nice to have', skills: opportunity.preferred_skills ?? [] },
+          ]
+            .filter((group) => group.skills.length > 0)
+            .map((group) => (
+              <div key={group.label} className="space-y-2">
+                <div className="text-sm font-medium text-gray-500">{group.label}</div>
+                <div className="flex flex-wrap gap-2">
+                  {group.skills.map((skill) => (
+                    <span
+                      key={skill}
+                      className={`rounded-md px-2 py-1 text-sm ${
+                        ownedSkills.has(skill.toLowerCase()) ? 'bg-green-50 text-green-700' : 'bg-gray-100 text-gray-700'
+                      }`}
+                    >
+                      {skill}
+                    </span>
+                  ))}
+                </div>
+              </div>
+            ))}
+        </Section>
+      )}
+
+      {eligibility && eligibility.checks.length > 0 && (
+        <Section title="Eligibility">
+          <ul className="space-y-2">
+            {eligibility.checks.map((check) => (
+              <li key={check.rule} className="flex items-start gap-2 text-sm">
+                {check.passed ? (
+                  <CheckCircleIcon className="h-5 w-5 shrink-0 text-green-600" />
+                ) : (
+                  <XCircleIcon className="h-5 w-5 shrink-0 text-red-500" />
+                )}
+                <span className="text-gray-700">{check.reason}</span>
+              </li>
+            ))}
+          </ul>
+        </Section>
+      )}
+
+      {selectionProcess.length > 0 && (
+        <Section title="Selection Process">
+          <ol className="space-y-3">
+            {selectionProcess.map((stage, index) => (
+              <li key={`${stage.title}-${index}`} className="flex gap-3">
+                <span className="flex h-6 w-6 shrink-0 items-center justify-center rounded-full bg-purple-100 text-xs font-semibold text-purple-700">
+                  {index + 1}
+                </span>
+                <div>
+                  <div className="font-medium text-gray-900">{stage.title}</div>
+                  {stage.description && <p className="text-sm text-gray-600">{stage.description}</p>}
+                </div>
+              </li>
+            ))}
+          </ol>
+        </Section>
+      )}
+
+      {(opportunity.perks_benefits ?? []).length > 0 && (
+        <Section title="Perks">
+          <div className="flex flex-wrap gap-2">
+            {(opportunity.perks_benefits ?? []).map((perk) => (
+              <span key={perk} className="rounded-md bg-purple-50 px-2 py-1 text-sm text-purple-700">
+                {perk}
+              </span>
+            ))}
+          </div>
+        </Section>
+      )}
+
+      {userType === 'student' && studentId && (
+        <ApplicationModal
+          isOpen={isModalOpen}
+          onClose={() => setModalOpen(false)}
+          opportunityId={opportunity.opportunity_id}
+          opportunityTitle={opportunity.title}
+          companyName={companyName}
+          studentId={studentId}
+          customQuestions={parseCustomQuestions(opportunity.additional_questions)}
+          eligibility={eligibility}
+          onSuccess={() => setRefreshKey((key) => key + 1)}
+        />
+      )}
+    </div>
+  );
+};
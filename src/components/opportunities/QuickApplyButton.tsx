@@ -9,6 +9,9 @@ import {
   InformationCircleIcon,
 } from "@heroicons/react/24/outline";
 import { supabase } from "../../lib/supabase";
+import type { EligibilityResult } from "../../types";
+import { getFailedChecks } from "../../utils/eligibility";
+import { track } from "../../lib/analytics";
 
 type ButtonStatus = "idle" | "loading" | "success" | "error" | "applied";
 
@@ -25,6 +28,8 @@ interface QuickApplyButtonProps {
   opportunityId: string;
   studentId: string;
   studentProfile: StudentProfileSnapshot | null;
+  /** When given, Quick Apply stays locked until every rule passes. */
+  eligibility?: EligibilityResult | null;
   disabled?: boolean;
   onSuccess?: () => void;
   className?: string;
@@ -106,6 +111,7 @@ export const QuickApplyButton: React.FC<QuickApplyButtonProps> = ({
   opportunityId,
   studentId,
   studentProfile,
+  eligibility,
   disabled = false,
   onSuccess,
   className,
@@ -143,10 +149,17 @@ export const QuickApplyButton: React.FC<QuickApplyButtonProps> = ({
     return issues;
   }, [studentProfile]);
 
+  const eligibilityIssues = useMemo(
+    () => getFailedChecks(eligibility).map((check) => check.reason),
+    [eligibility]
+  );
+
+  const isIneligible = eligibilityIssues.length > 0;
   const shouldDisableForProfile = profileIssues.length > 0;
+  const isBlocked = isIneligible || shouldDisableForProfile;
   const isApplied = hasApplied || status === "success" || status === "applied";
   const isButtonDisabled =
-    disabled || shouldDisableForProfile || status === "loading" || isApplied;
+    disabled || isBlocked || status === "loading" || isApplied;
 
   useEffect(
     () => () => {
@@ -158,13 +171,13 @@ export const QuickApplyButton: React.FC<QuickApplyButtonProps> = ({
   );
 
   useEffect(() => {
-    if (!shouldDisableForProfile && tooltipVisible) {
+    if (!isBlocked && tooltipVisible) {
       setTooltipVisible(false);
     }
-  }, [shouldDisableForProfile, tooltipVisible]);
+  }, [isBlocked, tooltipVisible]);
 
   const handleMouseEnter = () => {
-    if (shouldDisableForProfile) {
+    if (isBlocked) {
       setTooltipVisible(true);
     }
   };
@@ -176,7 +189,7 @@ export const QuickApplyButton: React.FC<QuickApplyButtonProps> = ({
   };
 
   const handleFocus = () => {
-    if (shouldDisableForProfile) {
+    if (isBlocked) {
       setTooltipVisible(true);
     }
   };
@@ -188,7 +201,14 @@ export const QuickApplyButton: React.FC<QuickApplyButtonProps> = ({
   };
 
   const handleQuickApply = async () => {
-    if (isButtonDisabled && !shouldDisableForProfile) {
+    if (isButtonDisabled && !isBlocked) {
+      return;
+    }
+
+    if (isIneligible) {
+      setTooltipVisible(true);
+      window.setTimeout(() => setTooltipVisible(false), 2400);
+      toast.error("You don't meet the eligibility criteria for this opportunity.");
       return;
     }
 
@@ -211,11 +231,13 @@ export const QuickApplyButton: React.FC<QuickApplyButtonProps> = ({
       return;
     }
 
+    track("apply_started", { opportunity_id: opportunityId, method: "quick" });
     if (
       !window.confirm(
         "Apply with your current profile? You can add a cover letter later."
       )
     ) {
+      track("apply_abandoned", { opportunity_id: opportunityId, method: "quick", step: "confirm" });
       return;
     }
 
@@ -230,7 +252,7 @@ export const QuickApplyButton: React.FC<QuickApplyButtonProps> = ({
           applied_date: new Date().toISOString(),
           cover_letter:
             "I am interested in this opportunity. Please find my resume attached for your review.",
-          application_score: null,
+          source: "quick_apply",
         },
       ]);
 
@@ -252,6 +274,7 @@ export const QuickApplyButton: React.FC<QuickApplyButtonProps> = ({
       setStatus("success");
       triggerConfetti();
       toast.success("Application submitted successfully!");
+      track("apply_submitted", { opportunity_id: opportunityId, method: "quick" });
       onSuccess?.();
 
       appliedTimeoutRef.current = window.setTimeout(() => {
@@ -291,6 +314,13 @@ export const QuickApplyButton: React.FC<QuickApplyButtonProps> = ({
       };
     }
 
+    if (isIneligible) {
+      return {
+        label: "Not Eligible",
+        icon: <InformationCircleIcon className="h-5 w-5" aria-hidden="true" />,
+      };
+    }
+
     if (shouldDisableForProfile) {
       return {
         label: "Complete Profile",
@@ -302,7 +332,7 @@ export const QuickApplyButton: React.FC<QuickApplyButtonProps> = ({
       label: "Quick Apply",
       icon: <BoltIcon className="h-5 w-5" aria-hidden="true" />,
     };
-  }, [isApplied, shouldDisableForProfile, status]);
+  }, [isApplied, isIneligible, shouldDisableForProfile, status]);
 
   const buttonClasses = cn(
     "inline-flex items-center justify-center gap-2 rounded-full px-6 py-3 font-semibold shadow-lg transition-all focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-offset-2",
@@ -310,7 +340,7 @@ export const QuickApplyButton: React.FC<QuickApplyButtonProps> = ({
       ? "bg-emerald-500 text-white focus-visible:ring-emerald-300 shadow-emerald-500/40"
       : status === "error"
       ? "bg-red-500 text-white hover:bg-red-600 focus-visible:ring-red-300 shadow-red-500/30"
-      : shouldDisableForProfile || disabled
+      : isBlocked || disabled
       ? "bg-slate-600/60 text-slate-200 focus-visible:ring-slate-400 cursor-not-allowed"
       : "bg-gradient-to-r from-purple-500 via-indigo-500 to-blue-500 text-white hover:shadow-purple-500/40 focus-visible:ring-purple-300",
     isButtonDisabled && !(status === "loading" || isApplied)
@@ -334,7 +364,7 @@ export const QuickApplyButton: React.FC<QuickApplyButtonProps> = ({
       onBlur={handleBlur}
     >
       <Transition
-        show={shouldDisableForProfile && tooltipVisible}
+        show={isBlocked && tooltipVisible}
         enter="transition ease-out duration-150"
         enterFrom="opacity-0 translate-y-2"
         enterTo="opacity-100 translate-y-0"
@@ -344,10 +374,12 @@ export const QuickApplyButton: React.FC<QuickApplyButtonProps> = ({
       >
         <div className="absolute bottom-full left-1/2 z-20 mb-3 w-64 -translate-x-1/2 rounded-2xl border border-white/10 bg-slate-900/90 p-4 text-sm text-white shadow-2xl backdrop-blur-lg">
           <p className="mb-2 text-sm font-semibold text-purple-300">
-            Complete these steps to quick apply:
+            {isIneligible
+              ? "You don't meet these requirements:"
+              : "Complete these steps to quick apply:"}
           </p>
           <ul className="space-y-1 text-xs text-slate-200">
-            {profileIssues.map((issue) => (
+            {(isIneligible ? eligibilityIssues : profileIssues).map((issue) => (
               <li key={issue} className="flex items-start gap-2">
                 <span className="mt-1 block h-1.5 w-1.5 flex-shrink-0 rounded-full bg-purple-400" />
                 <span>{issue}</span>
@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { BellIcon, BookmarkIcon, TrashIcon } from '@heroicons/react/24/outline';
+import type { SavedSearch, SavedSearchAlertMode } from '../../types';
+import { describeSearchFilters } from '../../utils/savedSearches';
+
+interface SavedSearchesBarProps {
+  searches: SavedSearch[];
+  newCounts: Record<string, number>;
+  activeSearchId: string | null;
+  onApply: (search: SavedSearch) => void;
+  onSaveCurrent: () => void;
+  onAlertModeChange: (searchId: string, alertMode: SavedSearchAlertMode) => void;
+  onDelete: (searchId: string) => void;
+}
+
+const ALERT_MODE_LABELS: Record<SavedSearchAlertMode, string> = {
+  instant: 'Instant alerts',
+  daily: 'Daily digest',
+  off: 'No alerts',
+};
+
+export const SavedSearchesBar: React.FC<SavedSearchesBarProps> = ({
+  searches,
+  newCounts,
+  activeSearchId,
+  onApply,
+  onSaveCurrent,
+  onAlertModeChange,
+  onDelete,
+}) => {
+  const [managing, setManaging] = useState(false);
+  const active = searches.find((search) => search.search_id === activeSearchId) ?? null;
+
+  return (
+    <div className="mt-4 space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          type="button"
+          onClick={onSaveCurrent}
+          disabled={!!active}
+          className="inline-flex items-center gap-1.5 rounded-full border border-white/15 bg-white/5 px-3 py-1 text-xs font-semibold text-white/80 hover:bg-white/10 disabled:opacity-50"
+        >
+          <BookmarkIcon className="h-4 w-4" />
+          {active ? 'Search saved' : 'Save search'}
+        </button>
+        {searches.map((search) => (
+          <button
+            key={search.search_id}
+            type="button"
+            onClick={() => onApply(search)}
+            title={describeSearchFilters(search.filters)}
+            className={`inline-flex items-center gap-1.5 rounded-full px-3 py-1 text-xs font-semibold transition ${
+              search.search_id === activeSearchId
+                ? 'bg-white text-purple-700 shadow'
+                : 'bg-white/10 text-white hover:bg-white/20 border border-white/15'
+            }`}
+          >
+            {search.name}
+            {(newCounts[search.search_id] ?? 0) > 0 && (
+              <span className="rounded-full bg-rose-500 px-1.5 text-[10px] text-white">
+                {newCounts[search.search_id]} new
+              </span>
+            )}
+          </button>
+        ))}
+        {searches.length > 0 && (
+          <button
+            type="button"
+            onClick={() => setManaging((open) => !open)}
+            className="text-xs font-semibold text-white/60 hover:text-white"
+          >
+            {managing ? 'Done' : 'Manage'}
+          </button>
+        )}
+      </div>
+
+      {managing && (
+        <div className="rounded-2xl border border-white/10 bg-white/5 p-3 space-y-2">
+          {searches.map((search) => (
+            <div key={search.search_id} className="flex flex-col gap-2 text-sm text-white sm:flex-row sm:items-center">
+              <div className="flex-1 min-w-0">
+                <p className="font-semibold truncate">{search.name}</p>
+                <p className="text-xs text-white/60 truncate">{describeSearchFilters(search.filters)}</p>
+              </div>
+              <label className="flex items-center gap-1 text-xs text-white/70">
+                <BellIcon className="h-4 w-4" />
+                <select
+                  value={search.alert_mode}
+                  onChange={(e) => onAlertModeChange(search.search_id, e.target.value as SavedSearchAlertMode)}
+                  className="rounded-full border border-white/15 bg-white/10 px-3 py-1 text-xs font-semibold text-white focus:outline-none focus:ring-2 focus:ring-white/30"
+                >
+                  {(Object.keys(ALERT_MODE_LABELS) as SavedSearchAlertMode[]).map((mode) => (
+                    <option key={mode} value={mode} className="text-slate-900">
+                      {ALERT_MODE_LABELS[mode]}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <button
+                type="button"
+                onClick={() => onDelete(search.search_id)}
+                className="inline-flex items-center gap-1 text-xs text-rose-300 hover:text-rose-200"
+              >
+                <TrashIcon className="h-4 w-4" />
+                Delete
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,15 @@
+import React from 'react';
+
+interface Props {
+  label: string;
+  value: string;
+  hint?: string;
+}
+
+export const KpiTile: React.FC<Props> = ({ label, value, hint }) => (
+  <div className="rounded-xl border border-gray-200 bg-white p-4 break-inside-avoid">
+    <div className="text-2xl font-semibold text-gray-900">{value}</div>
+    <div className="text-sm text-gray-500">{label}</div>
+    {hint && <div className="text-xs text-gray-400 mt-1">{hint}</div>}
+  </div>
+);
@@ -0,0 +1,245 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import toast from 'react-hot-toast';
+import { format, subMonths } from 'date-fns';
+import { ArrowDownTrayIcon, PrinterIcon } from '@heroicons/react/24/outline';
+import { Bar, BarChart, CartesianGrid, Legend, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { supabase } from '@/lib/supabase';
+import type { PlacementReportData } from '@/types';
+import {
+  formatLpa,
+  formatPercent,
+  getCourseBreakdown,
+  getGroupBreakdown,
+  placementReportToCsv,
+  summarizePlacements,
+} from '@/utils/placementReport';
+import { downloadCsv } from '@/utils/csv';
+import { formatCurrency } from '@/utils/formatting';
+import { KpiTile } from './KpiTile';
+
+// Long company and course names get cut so the axis stays readable
+const CHART_GROUPS = 10;
+const shortLabel = (label: string) => (label.length > 18 ? `${label.slice(0, 17)}…` : label);
+
+export const PlacementReportPage: React.FC = () => {
+  const [from, setFrom] = useState(() => format(subMonths(new Date(), 12), 'yyyy-MM-dd'));
+  const [to, setTo] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+  const [report, setReport] = useState<PlacementReportData | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let isSubscribed = true;
+
+    const load = async () => {
+      if (!from || !to || from > to) return;
+      setLoading(true);
+      const { data, error } = await supabase.rpc('placement_report', { p_from: from, p_to: to });
+      if (!isSubscribed) return;
+      if (error) {
+        console.error('Failed to load placement report:', error);
+        toast.error(error.message || 'Could not load the report');
+      }
+      setReport((data as PlacementReportData | null) ?? null);
+      setLoading(false);
+    };
+    load();
+
+    return () => {
+      isSubscribed = false;
+    };
+  }, [from, to]);
+
+  const summary = useMemo(() => (report ? summarizePlacements(report) : null), [report]);
+  const groups = useMemo(() => (report ? getGroupBreakdown(report) : []), [report]);
+  const courses = useMemo(() => (report ? getCourseBreakdown(report) : []), [report]);
+  const groupLabel = report?.scope === 'company' ? 'Opportunity' : 'Company';
+
+  const exportCsv = () => {
+    if (!report) return;
+    const name = report.scope_name.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+    downloadCsv(`${name}-placements-${from}-to-${to}.csv`, placementReportToCsv(report, { from, to }));
+  };
+
+  return (
+    <div className="max-w-6xl mx-auto px-4 py-8 space-y-6 print:py-0">
+      <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold">Placement Report</h1>
+          <p className="text-sm text-gray-500 mt-1">
+            {report ? `${report.scope_name} • ` : ''}
+            Applications submitted {from} to {to}
+          </p>
+        </div>
+        <div className="flex flex-wrap items-end gap-2 print:hidden">
+          <label className="text-sm text-gray-600">
+            From
+            <input
+              type="date"
+              value={from}
+              max={to}
+              onChange={(e) => setFrom(e.target.value)}
+              className="block rounded-xl border-gray-200 focus:border-purple-500 focus:ring-purple-500 px-3 py-2"
+            />
+          </label>
+          <label className="text-sm text-gray-600">
+            To
+            <input
+              type="date"
+              value={to}
+              min={from}
+              onChange={(e) => setTo(e.target.value)}
+              className="block rounded-xl border-gray-200 focus:border-purple-500 focus:ring-purple-500 px-3 py-2"
+            />
+          </label>
+          <button
+            onClick={exportCsv}
+            disabled={!report}
+            className="flex items-center gap-1 px-3 py-2 text-sm rounded-md border bg-white hover:bg-gray-50 disabled:opacity-50"
+          >
+            <ArrowDownTrayIcon className="h-4 w-4" />
+            CSV
+          </button>
+          {/* The browser's print dialog doubles as "Save as PDF" */}
+          <button
+            onClick={() => window.print()}
+            disabled={!report}
+            className="flex items-center gap-1 px-3 py-2 text-sm rounded-md border bg-white hover:bg-gray-50 disabled:opacity-50"
+          >
+            <PrinterIcon className="h-4 w-4" />
+            Print / PDF
+          </button>
+        </div>
+      </div>
+
+      {loading ? (
+        <p className="text-gray-500">Loading...</p>
+      ) : !report || !summary ? (
+        <p className="text-gray-600">The report is unavailable right now.</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <KpiTile
+              label="Placement rate"
+              value={formatPercent(summary.placementRate)}
+              hint={`${summary.studentsWithOffers} of ${summary.students} ${report.scope === 'college' ? 'students' : 'applicants'} with an offer`}
+            />
+            <KpiTile
+              label="Offers per student"
+              value={summary.offersPerStudent.toFixed(2)}
+              hint={`${summary.offers} offers, ${summary.acceptedOffers} accepted`}
+            />
+            <KpiTile
+              label="Median stipend"
+              value={summary.stipend.median === null ? '—' : formatCurrency(summary.stipend.median, summary.currency)}
+              hint={
+                summary.stipend.average === null
+                  ? 'No internship offers quoted a stipend'
+                  : `Average ${formatCurrency(summary.stipend.average, summary.currency)} / month`
+              }
+            />
+            <KpiTile
+              label="Median CTC"
+              value={formatLpa(summary.ctc.median)}
+              hint={summary.ctc.average === null ? 'No placement offers quoted a CTC' : `Average ${formatLpa(summary.ctc.average)}`}
+            />
+          </div>
+
+          {summary.applications === 0 ? (
+            <p className="text-gray-600">No applications were submitted in this date range.</p>
+          ) : (
+            <>
+              <section className="space-y-3 break-inside-avoid">
+                <h2 className="text-lg font-semibold text-gray-900">{groupLabel}-wise outcomes</h2>
+                <div className="h-72 rounded-xl border border-gray-200 bg-white p-4">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={groups.slice(0, CHART_GROUPS).map((row) => ({ ...row, label: shortLabel(row.label) }))}>
+                      <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                      <XAxis dataKey="label" tick={{ fontSize: 12 }} interval={0} />
+                      <YAxis allowDecimals={false} tick={{ fontSize: 12 }} />
+                      <Tooltip />
+                      <Legend />
+                      <Bar dataKey="applications" name="Applications" fill="#c4b5fd" isAnimationActive={false} />
+                      <Bar dataKey="offers" name="Offers" fill="#7c3aed" isAnimationActive={false} />
+                    </BarChart>
+                  </ResponsiveContainer>
+                </div>
+                <div className="overflow-x-auto rounded-lg border bg-white">
+                  <table className="min-w-full text-sm">
+                    <thead className="bg-gray-50 text-left text-gray-600">
+                      <tr>
+                        <th className="px-4 py-2 font-medium">{groupLabel}</th>
+                        <th className="px-4 py-2 font-medium">Applications</th>
+                        <th className="px-4 py-2 font-medium">Offers</th>
+                        <th className="px-4 py-2 font-medium">Accepted</th>
+                        <th className="px-4 py-2 font-medium">Offer rate</th>
+                        <th className="px-4 py-2 font-medium">Median stipend</th>
+                        <th className="px-4 py-2 font-medium">Median CTC</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y">
+                      {groups.map((row) => (
+                        <tr key={row.key}>
+                          <td className="px-4 py-2 font-medium text-gray-900">{row.label}</td>
+                          <td className="px-4 py-2">{row.applications}</td>
+                          <td className="px-4 py-2">{row.offers}</td>
+                          <td className="px-4 py-2">{row.acceptedOffers}</td>
+                          <td className="px-4 py-2">{formatPercent(row.conversionRate)}</td>
+                          <td className="px-4 py-2">{row.medianStipend === null ? '—' : formatCurrency(row.medianStipend, summary.currency)}</td>
+                          <td className="px-4 py-2">{formatLpa(row.medianCtc)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </section>
+
+              <section className="space-y-3 break-inside-avoid">
+                <h2 className="text-lg font-semibold text-gray-900">Course-wise placement</h2>
+                <div className="h-72 rounded-xl border border-gray-200 bg-white p-4">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <BarChart
+                      data={courses.slice(0, CHART_GROUPS).map((row) => ({
+                        course: shortLabel(row.course),
+                        rate: Math.round(row.placementRate * 100),
+                      }))}
+                    >
+                      <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                      <XAxis dataKey="course" tick={{ fontSize: 12 }} interval={0} />
+                      <YAxis domain={[0, 100]} unit="%" tick={{ fontSize: 12 }} />
+                      <Tooltip formatter={(value) => `${value}%`} />
+                      <Bar dataKey="rate" name="Placement rate" fill="#7c3aed" isAnimationActive={false} />
+                    </BarChart>
+                  </ResponsiveContainer>
+                </div>
+                <div className="overflow-x-auto rounded-lg border bg-white">
+                  <table className="min-w-full text-sm">
+                    <thead className="bg-gray-50 text-left text-gray-600">
+                      <tr>
+                        <th className="px-4 py-2 font-medium">Course</th>
+                        <th className="px-4 py-2 font-medium">{report.scope === 'college' ? 'Students' : 'Applicants'}</th>
+                        <th className="px-4 py-2 font-medium">With offers</th>
+                        <th className="px-4 py-2 font-medium">Placement rate</th>
+                        <th className="px-4 py-2 font-medium">Offers</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y">
+                      {courses.map((row) => (
+                        <tr key={row.course}>
+                          <td className="px-4 py-2 font-medium text-gray-900">{row.course}</td>
+                          <td className="px-4 py-2">{row.students}</td>
+                          <td className="px-4 py-2">{row.studentsWithOffers}</td>
+                          <td className="px-4 py-2">{formatPercent(row.placementRate)}</td>
+                          <td className="px-4 py-2">{row.offers}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </section>
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
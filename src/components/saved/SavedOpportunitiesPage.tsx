@@ -0,0 +1,250 @@
+import React, { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { BellAlertIcon, FolderIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { useAuthStore } from '../../stores/authStore';
+import { useSavedOpportunities } from '../../hooks/useSavedOpportunities';
+import type { SavedOpportunityPatch } from '../../hooks/useSavedOpportunities';
+import type { SavedOpportunityWithDetails } from '../../types';
+import { TagInput } from '../company/TagInput';
+import { formatDate, formatDeadlineCountdown, formatRelativeDate, formatWorkMode } from '../../utils/formatting';
+import { getOpportunityPath } from '../../utils/opportunityDetail';
+import {
+  UNFILED_COLLECTION,
+  filterSavedOpportunities,
+  getSavedTags,
+  isSavedOpportunityOpen,
+  sortSavedOpportunities,
+} from '../../utils/savedOpportunities';
+import type { SavedSortKey } from '../../utils/savedOpportunities';
+
+const NEW_COLLECTION = '__new__';
+
+interface SavedItemProps {
+  item: SavedOpportunityWithDetails;
+  collections: string[];
+  tagSuggestions: string[];
+  onUpdate: (opportunityId: string, patch: SavedOpportunityPatch) => Promise<boolean>;
+  onRemove: (opportunityId: string) => void;
+  onDismissChange: (opportunityId: string) => void;
+}
+
+const SavedItem: React.FC<SavedItemProps> = ({ item, collections, tagSuggestions, onUpdate, onRemove, onDismissChange }) => {
+  const [notes, setNotes] = useState(item.notes ?? '');
+  const opportunity = item.opportunities;
+  const isOpen = isSavedOpportunityOpen(item);
+
+  const changeCollection = (value: string) => {
+    if (value === NEW_COLLECTION) {
+      const name = window.prompt('Name the new collection')?.trim();
+      if (name) void onUpdate(item.opportunity_id, { collection: name });
+      return;
+    }
+    void onUpdate(item.opportunity_id, { collection: value || null });
+  };
+
+  const saveNotes = () => {
+    const next = notes.trim() || null;
+    if (next !== (item.notes ?? null)) void onUpdate(item.opportunity_id, { notes: next });
+  };
+
+  return (
+    <div className={`rounded-xl border bg-white p-4 space-y-3 ${isOpen ? 'border-gray-200' : 'border-gray-200 opacity-80'}`}>
+      {item.change_note && (
+        <div className="flex items-start gap-2 rounded-lg border border-amber-200 bg-amber-50 px-3 py-2 text-sm text-amber-800">
+          <BellAlertIcon className="h-5 w-5 flex-shrink-0" />
+          <span className="flex-1">
+            {item.change_note}
+            {item.changed_at && <span className="text-amber-600"> ({formatRelativeDate(item.changed_at)})</span>}
+          </span>
+          <button onClick={() => onDismissChange(item.opportunity_id)} className="text-amber-700 hover:underline">
+            Dismiss
+          </button>
+        </div>
+      )}
+
+      <div className="flex items-start justify-between gap-4">
+        <div className="min-w-0">
+          {opportunity ? (
+            <Link to={getOpportunityPath(opportunity)} className="font-semibold text-gray-900 hover:text-purple-700">
+              {opportunity.title}
+            </Link>
+          ) : (
+            // Taken down by a moderator; RLS no longer returns the posting
+            <p className="font-semibold text-gray-500">This posting is no longer available</p>
+          )}
+          {opportunity && (
+            <p className="text-sm text-gray-600">
+              {opportunity.companies?.company_name ?? 'Unknown Company'}
+              {opportunity.work_mode ? ` • ${formatWorkMode(opportunity.work_mode)}` : ''}
+            </p>
+          )}
+          <p className="text-xs text-gray-500 mt-1">
+            {!isOpen
+              ? 'No longer accepting applications'
+              : opportunity?.application_deadline
+                ? `Apply by ${formatDate(opportunity.application_deadline)} • ${formatDeadlineCountdown(opportunity.application_deadline)}`
+                : 'No deadline'}
+            {' • '}Saved {formatRelativeDate(item.saved_at)}
+          </p>
+        </div>
+        <button
+          onClick={() => onRemove(item.opportunity_id)}
+          className="flex items-center gap-1 px-3 py-1 text-sm rounded-md border hover:bg-gray-50 text-red-600"
+        >
+          <TrashIcon className="h-4 w-4" />
+          Remove
+        </button>
+      </div>
+
+      <div className="grid gap-3 md:grid-cols-2">
+        <label className="text-sm text-gray-600">
+          Collection
+          <select
+            value={item.collection ?? ''}
+            onChange={(e) => changeCollection(e.target.value)}
+            className="mt-1 w-full rounded-xl border-gray-200 focus:border-purple-500 focus:ring-purple-500 px-4 py-2.5"
+          >
+            <option value="">Unfiled</option>
+            {collections.map((name) => (
+              <option key={name} value={name}>
+                {name}
+              </option>
+            ))}
+            <option value={NEW_COLLECTION}>+ New collection…</option>
+          </select>
+        </label>
+        <div className="text-sm text-gray-600">
+          Tags
+          <div className="mt-1">
+            <TagInput
+              value={item.tags}
+              onChange={(tags) => void onUpdate(item.opportunity_id, { tags })}
+              placeholder="e.g. dream company, referral"
+              suggestions={tagSuggestions}
+            />
+          </div>
+        </div>
+      </div>
+
+      <label className="block text-sm text-gray-600">
+        Private notes
+        <textarea
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          onBlur={saveNotes}
+          rows={2}
+          placeholder="Only you can see these"
+          className="mt-1 w-full rounded-xl border-gray-200 focus:border-purple-500 focus:ring-purple-500 px-4 py-2.5"
+        />
+      </label>
+    </div>
+  );
+};
+
+export const SavedOpportunitiesPage: React.FC = () => {
+  const { studentId } = useAuthStore();
+  const { saved, collections, loading, toggleSave, updateSaved, dismissChange } = useSavedOpportunities(studentId);
+  const [collection, setCollection] = useState('');
+  const [tag, setTag] = useState('');
+  const [sortBy, setSortBy] = useState<SavedSortKey>('deadline');
+
+  const tags = useMemo(() => getSavedTags(saved), [saved]);
+  const visible = useMemo(
+    () => sortSavedOpportunities(filterSavedOpportunities(saved, { collection, tag }), sortBy),
+    [saved, collection, tag, sortBy],
+  );
+  const changedCount = saved.filter((item) => item.change_note).length;
+
+  const folderButton = (value: string, label: string, count: number) => (
+    <button
+      key={value || 'all'}
+      onClick={() => setCollection(value)}
+      className={`flex w-full items-center justify-between rounded-lg px-3 py-2 text-sm ${
+        collection === value ? 'bg-purple-50 text-purple-700 font-medium' : 'text-gray-700 hover:bg-gray-50'
+      }`}
+    >
+      <span className="flex items-center gap-2 truncate">
+        <FolderIcon className="h-4 w-4 flex-shrink-0" />
+        {label}
+      </span>
+      <span className="text-xs text-gray-400">{count}</span>
+    </button>
+  );
+
+  return (
+    <div className="max-w-6xl mx-auto px-4 py-8">
+      <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-4 mb-6">
+        <div>
+          <h1 className="text-2xl font-semibold">Saved Opportunities</h1>
+          <p className="text-sm text-gray-500 mt-1">
+            {saved.length} saved
+            {changedCount > 0 ? ` • ${changedCount} with updates` : ''}
+          </p>
+        </div>
+        <div className="flex flex-wrap items-end gap-2">
+          {tags.length > 0 && (
+            <select
+              value={tag}
+              onChange={(e) => setTag(e.target.value)}
+              className="rounded-xl border-gray-200 focus:border-purple-500 focus:ring-purple-500 px-4 py-2.5"
+            >
+              <option value="">All tags</option>
+              {tags.map((name) => (
+                <option key={name} value={name}>
+                  {name}
+                </option>
+              ))}
+            </select>
+          )}
+          <select
+            value={sortBy}
+            onChange={(e) => setSortBy(e.target.value as SavedSortKey)}
+            className="rounded-xl border-gray-200 focus:border-purple-500 focus:ring-purple-500 px-4 py-2.5"
+          >
+            <option value="deadline">Deadline (soonest)</option>
+            <option value="recent">Recently saved</option>
+          </select>
+        </div>
+      </div>
+
+      {loading ? (
+        <p className="text-gray-500">Loading...</p>
+      ) : saved.length === 0 ? (
+        <div className="text-gray-600">
+          Nothing saved yet. Tap the heart on any opportunity to keep it here.{' '}
+          <Link to="/opportunities" className="text-purple-600 hover:underline">
+            Browse opportunities
+          </Link>
+        </div>
+      ) : (
+        <div className="grid gap-6 md:grid-cols-[220px_1fr]">
+          <nav className="space-y-1">
+            {folderButton('', 'All saved', saved.length)}
+            {collections.map((name) =>
+              folderButton(name, name, saved.filter((item) => item.collection === name).length),
+            )}
+            {folderButton(UNFILED_COLLECTION, 'Unfiled', saved.filter((item) => !item.collection).length)}
+          </nav>
+
+          <div className="space-y-4">
+            {visible.length === 0 ? (
+              <p className="text-gray-600">Nothing here matches these filters.</p>
+            ) : (
+              visible.map((item) => (
+                <SavedItem
+                  key={item.opportunity_id}
+                  item={item}
+                  collections={collections}
+                  tagSuggestions={tags}
+                  onUpdate={updateSaved}
+                  onRemove={(opportunityId) => void toggleSave(opportunityId)}
+                  onDismissChange={(opportunityId) => void dismissChange(opportunityId)}
+                />
+              ))
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
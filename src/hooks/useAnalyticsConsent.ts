@@ -0,0 +1,8 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import { getAnalyticsConsent, setAnalyticsConsent, subscribeToAnalyticsConsent } from '../lib/analytics';
+
+export function useAnalyticsConsent() {
+  const consent = useSyncExternalStore(subscribeToAnalyticsConsent, getAnalyticsConsent);
+  const setConsent = useCallback((granted: boolean) => setAnalyticsConsent(granted), []);
+  return { consent, setConsent };
+}
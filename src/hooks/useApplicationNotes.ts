@@ -0,0 +1,117 @@
+import { useState, useEffect, useCallback } from 'react';
+import toast from 'react-hot-toast';
+import { supabase } from '../lib/supabase';
+import type { ApplicationNote } from '../types';
+
+export const useApplicationNotes = (applicationId: string | null, studentId: string | null) => {
+  const [notes, setNotes] = useState<ApplicationNote[]>([]);
+  const [loading, setLoading] = useState<boolean>(false);
+
+  useEffect(() => {
+    let isSubscribed = true;
+
+    const fetchNotes = async () => {
+      if (!applicationId) {
+        setNotes([]);
+        return;
+      }
+
+      setLoading(true);
+
+      const { data, error } = await supabase
+        .from('application_notes')
+        .select('*')
+        .eq('application_id', applicationId)
+        .order('created_at', { ascending: false })
+        .returns<ApplicationNote[]>();
+
+      if (!isSubscribed) return;
+
+      if (error) {
+        console.error('Failed to fetch application notes:', error);
+        toast.error('Unable to load your notes');
+        setNotes([]);
+      } else {
+        setNotes(data ?? []);
+      }
+
+      setLoading(false);
+    };
+
+    fetchNotes();
+
+    return () => {
+      isSubscribed = false;
+    };
+  }, [applicationId]);
+
+  const addNote = useCallback(
+    async (body: string) => {
+      const trimmed = body.trim();
+      if (!applicationId || !studentId || !trimmed) return false;
+
+      const { data, error } = await supabase
+        .from('application_notes')
+        .insert({ application_id: applicationId, student_id: studentId, body: trimmed })
+        .select('*')
+        .returns<ApplicationNote[]>()
+        .single();
+
+      if (error || !data) {
+        console.error('Failed to add application note:', error);
+        toast.error('Could not save your note');
+        return false;
+      }
+
+      setNotes((prev) => [data, ...prev]);
+      return true;
+    },
+    [applicationId, studentId],
+  );
+
+  const updateNote = useCallback(
+    async (noteId: string, body: string) => {
+      const trimmed = body.trim();
+      if (!trimmed) return false;
+
+      const previous = notes;
+      setNotes((prev) => prev.map((note) => (note.note_id === noteId ? { ...note, body: trimmed } : note)));
+
+      const { error } = await supabase
+        .from('application_notes')
+        .update({ body: trimmed })
+        .eq('note_id', noteId);
+
+      if (error) {
+        console.error('Failed to update application note:', error);
+        setNotes(previous);
+        toast.error('Could not update your note');
+        return false;
+      }
+
+      return true;
+    },
+    [notes],
+  );
+
+  const deleteNote = useCallback(
+    async (noteId: string) => {
+      const previous = notes;
+      setNotes((prev) => prev.filter((note) => note.note_id !== noteId));
+
+      const { error } = await supabase
+        .from('application_notes')
+        .delete()
+        .eq('note_id', noteId);
+
+      if (error) {
+        console.error('Failed to delete application note:', error);
+        setNotes(previous);
+        toast.error('Could not delete your note');
+      }
+    },
+    [notes],
+  );
+
+  return { notes, loading, addNote, updateNote, deleteNote };
+};
@@ -0,0 +1,226 @@
+import { useState, useEffect, useCallback } from 'react';
+import toast from 'react-hot-toast';
+import { supabase } from '../lib/supabase';
+import type { Interview, InterviewStatus, InterviewType, UpcomingInterview } from '../types';
+
+export interface InterviewInput {
+  interview_type: InterviewType;
+  scheduled_at: string;
+  duration_minutes: number;
+  meeting_link: string | null;
+  interviewer_names: string[];
+  notes?: string | null;
+}
+
+export interface InterviewOutcome {
+  feedback: string | null;
+  rating: number | null;
+}
+
+interface UpcomingInterviewRow extends Interview {
+  applications: {
+    student_id: string;
+    opportunities: {
+      title: string | null;
+      companies: { company_name: string | null } | null;
+    } | null;
+  } | null;
+}
+
+export const ACTIVE_INTERVIEW_STATUSES = ['scheduled', 'rescheduled'] as const;
+
+export const useApplicationInterviews = (applicationId: string | null) => {
+  const [interviews, setInterviews] = useState<Interview[]>([]);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!applicationId) {
+      setInterviews([]);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    const { data, error: fetchError } = await supabase
+      .from('interviews')
+      .select('*')
+      .eq('application_id', applicationId)
+      .order('round_number', { ascending: true })
+      .returns<Interview[]>();
+
+    if (fetchError) {
+      console.error('Failed to fetch interviews:', fetchError);
+      setError('Unable to load interviews. Please try again later.');
+    } else {
+      setInterviews(data ?? []);
+    }
+
+    setLoading(false);
+  }, [applicationId]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const scheduleInterview = useCallback(
+    async (input: InterviewInput) => {
+      if (!applicationId) return false;
+
+      const nextRound = interviews.reduce((max, interview) => Math.max(max, interview.round_number), 0) + 1;
+      const { error: insertError } = await supabase.from('interviews').insert({
+        application_id: applicationId,
+        round_number: nextRound,
+        status: 'scheduled',
+        ...input,
+      });
+
+      if (insertError) {
+        console.error('Failed to schedule interview:', insertError);
+        toast.error('Failed to schedule interview. Please try again.');
+        return false;
+      }
+
+      toast.success(`Round ${nextRound} scheduled`);
+      await refresh();
+      return true;
+    },
+    [applicationId, interviews, refresh],
+  );
+
+  const updateInterview = useCallback(
+    async (interviewId: string, patch: Partial<Interview>, successMessage: string) => {
+      const { error: updateError } = await supabase
+        .from('interviews')
+        .update(patch)
+        .eq('interview_id', interviewId);
+
+      if (updateError) {
+        console.error('Failed to update interview:', updateError);
+        toast.error('Failed to update interview. Please try again.');
+        return false;
+      }
+
+      toast.success(successMessage);
+      await refresh();
+      return true;
+    },
+    [refresh],
+  );
+
+  const rescheduleInterview = useCallback(
+    (interviewId: string, scheduledAt: string, meetingLink?: string | null) =>
+      updateInterview(
+        interviewId,
+        {
+          status: 'rescheduled',
+          scheduled_at: scheduledAt,
+          ...(meetingLink !== undefined ? { meeting_link: meetingLink } : {}),
+        },
+        'Interview rescheduled',
+      ),
+    [updateInterview],
+  );
+
+  const cancelInterview = useCallback(
+    (interviewId: string) => updateInterview(interviewId, { status: 'cancelled' }, 'Interview cancelled'),
+    [updateInterview],
+  );
+
+  const completeInterview = useCallback(
+    (interviewId: string, outcome: InterviewOutcome) =>
+      updateInterview(interviewId, { status: 'completed', ...outcome }, 'Interview marked as completed'),
+    [updateInterview],
+  );
+
+  return {
+    interviews,
+    loading,
+    error,
+    refresh,
+    scheduleInterview,
+    rescheduleInterview,
+    cancelInterview,
+    completeInterview,
+  };
+};
+
+/**
+ * A student's interviews that haven't happened yet, soonest first. Pass
+ * `includeCancelled` where calendar entries for cancelled rounds must be withdrawn.
+ */
+export const fetchUpcomingInterviews = async (
+  studentId: string,
+  { limit = 5, includeCancelled = false }: { limit?: number; includeCancelled?: boolean } = {},
+): Promise<UpcomingInterview[]> => {
+  const statuses: InterviewStatus[] = includeCancelled
+    ? [...ACTIVE_INTERVIEW_STATUSES, 'cancelled']
+    : [...ACTIVE_INTERVIEW_STATUSES];
+
+  const { data, error } = await supabase
+    .from('interviews')
+    .select(`
+      *,
+      applications!inner (
+        student_id,
+        opportunities (
+          title,
+          companies (
+            company_name
+          )
+        )
+      )
+    `)
+    .eq('applications.student_id', studentId)
+    .in('status', statuses)
+    .gte('scheduled_at', new Date().toISOString())
+    .order('scheduled_at', { ascending: true })
+    .limit(limit)
+    .returns<UpcomingInterviewRow[]>();
+
+  if (error) throw error;
+
+  return (data ?? []).map(({ applications, ...interview }) => ({
+    ...interview,
+    opportunity_title: applications?.opportunities?.title || 'Unknown Opportunity',
+    company_name: applications?.opportunities?.companies?.company_name || 'Company',
+  }));
+};
+
+export const useUpcomingInterviews = (studentId: string | null, limit = 5) => {
+  const [interviews, setInterviews] = useState<UpcomingInterview[]>([]);
+  const [loading, setLoading] = useState<boolean>(false);
+
+  useEffect(() => {
+    let isSubscribed = true;
+
+    const loadUpcomingInterviews = async () => {
+      if (!studentId) {
+        setInterviews([]);
+        return;
+      }
+
+      setLoading(true);
+
+      try {
+        const upcoming = await fetchUpcomingInterviews(studentId, { limit });
+        if (isSubscribed) setInterviews(upcoming);
+      } catch (error) {
+        if (!isSubscribed) return;
+        console.error('Failed to fetch upcoming interviews:', error);
+        setInterviews([]);
+      }
+
+      if (isSubscribed) setLoading(false);
+    };
+
+    loadUpcomingInterviews();
+
+    return () => {
+      isSubscribed = false;
+    };
+  }, [studentId, limit]);
+
+  return { interviews, loading };
+};
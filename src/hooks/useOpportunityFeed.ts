@@ -0,0 +1,252 @@
+import { useCallback, useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { useNavigationType } from 'react-router-dom';
+import toast from 'react-hot-toast';
+import { supabase } from '../lib/supabase';
+import {
+  browseOpportunities,
+  fetchFacetCounts,
+  type OpportunityCursor,
+  type OpportunitySearchHit,
+} from '../lib/opportunitySearch';
+import type { CompanySize, JsonValue, SavedSearchFilters } from '../types';
+import { toFacetCounts, type FacetCounts } from '../utils/opportunityFacets';
+
+export interface FeedOpportunity {
+  opportunity_id: string;
+  slug?: string | null;
+  title: string;
+  type: 'internship' | 'placement' | null;
+  stipend_min?: number | null;
+  stipend_max?: number | null;
+  ctc_min?: number | null;
+  ctc_max?: number | null;
+  currency?: string | null;
+  duration_months?: number | null;
+  work_mode?: string | null;
+  location?: string[] | string | null;
+  application_deadline?: string | null;
+  created_at?: string | null;
+  updated_at?: string | null;
+  eligibility_criteria?: JsonValue | null;
+  required_skills?: JsonValue | null;
+  preferred_skills?: JsonValue | null;
+  is_ppo_offered?: boolean | null;
+  is_featured?: boolean | null;
+  companies?: {
+    company_id?: string | null;
+    company_name?: string | null;
+    logo_url?: string | null;
+    company_size?: CompanySize | null;
+  } | null;
+}
+
+interface FeedState {
+  /** The filters these pages were loaded for. */
+  key: string;
+  /** In server order, one array per loaded page. */
+  pages: FeedOpportunity[][];
+  hits: Map<string, OpportunitySearchHit>;
+  total: number;
+  cursor: OpportunityCursor | null;
+  hasMore: boolean;
+  facetCounts: FacetCounts | null;
+  /** The filters facetCounts were counted for, which can lag behind key. */
+  facetCountsKey: string | null;
+}
+
+const OPPORTUNITY_COLUMNS = `
+  opportunity_id,
+  slug,
+  title,
+  type,
+  stipend_min,
+  stipend_max,
+  ctc_min,
+  ctc_max,
+  currency,
+  duration_months,
+  work_mode,
+  location,
+  application_deadline,
+  created_at,
+  updated_at,
+  eligibility_criteria,
+  required_skills,
+  preferred_skills,
+  is_ppo_offered,
+  is_featured,
+  companies (
+    company_id,
+    company_name,
+    logo_url,
+    company_size
+  )
+`;
+
+// The last feed and how far down it was scrolled, so coming back from a detail
+// page restores every loaded page and the scroll position instead of page one
+let lastFeed: FeedState | null = null;
+let lastScrollY = 0;
+
+const emptyFeed = (key: string): FeedState => ({
+  key,
+  pages: [],
+  hits: new Map(),
+  total: 0,
+  cursor: null,
+  hasMore: false,
+  facetCounts: null,
+  facetCountsKey: null,
+});
+
+// Sort doesn't change which postings match, so it doesn't change the counts
+const facetKey = (filters: SavedSearchFilters) => JSON.stringify({ ...filters, sort: null });
+
+const fetchPage = async (filters: SavedSearchFilters, cursor: OpportunityCursor | null) => {
+  const page = await browseOpportunities(filters, cursor);
+  const ids = page.hits.map((hit) => hit.opportunity_id);
+  if (ids.length === 0) return { ...page, items: [] as FeedOpportunity[] };
+
+  const { data, error } = await supabase
+    .from('opportunities')
+    .select(OPPORTUNITY_COLUMNS)
+    .in('opportunity_id', ids)
+    .returns<FeedOpportunity[]>();
+  if (error) throw error;
+
+  // `.in()` doesn't keep the RPC's order
+  const byId = new Map((data ?? []).map((opportunity) => [opportunity.opportunity_id, opportunity]));
+  const items = ids.flatMap((id) => {
+    const opportunity = byId.get(id);
+    return opportunity ? [opportunity] : [];
+  });
+  return { ...page, items };
+};
+
+export const useOpportunityFeed = (filters: SavedSearchFilters) => {
+  const key = JSON.stringify(filters);
+  const navigationType = useNavigationType();
+  const [restored] = useState(() => (navigationType === 'POP' && lastFeed?.key === key ? lastFeed : null));
+  const [feed, setFeed] = useState<FeedState>(() => restored ?? emptyFeed(key));
+  const [loading, setLoading] = useState(!restored);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const loadingMoreRef = useRef(false);
+  const filtersRef = useRef(filters);
+  filtersRef.current = filters;
+  const feedRef = useRef(feed);
+  feedRef.current = feed;
+
+  useEffect(() => {
+    lastFeed = feed;
+  }, [feed]);
+
+  // Before paint, so a restored feed doesn't flash at the top first
+  useLayoutEffect(() => {
+    if (restored) window.scrollTo(0, lastScrollY);
+  }, [restored]);
+
+  useEffect(() => {
+    const onScroll = () => {
+      lastScrollY = window.scrollY;
+    };
+    window.addEventListener('scroll', onScroll, { passive: true });
+    return () => window.removeEventListener('scroll', onScroll);
+  }, []);
+
+  useEffect(() => {
+    let isSubscribed = true;
+
+    const fetchFirstPage = async () => {
+      // Already loaded, when restored from lastFeed
+      if (feedRef.current.key === key && feedRef.current.pages.length > 0) return;
+
+      setLoading(true);
+      setFeed((prev) => ({ ...emptyFeed(key), facetCounts: prev.facetCounts, facetCountsKey: prev.facetCountsKey }));
+      try {
+        const page = await fetchPage(filtersRef.current, null);
+        if (!isSubscribed) return;
+        setFeed((prev) => ({
+          ...prev,
+          key,
+          pages: [page.items],
+          hits: new Map(page.hits.map((hit) => [hit.opportunity_id, hit])),
+          total: page.total,
+          cursor: page.nextCursor,
+          hasMore: page.nextCursor != null,
+        }));
+      } catch (error) {
+        if (!isSubscribed) return;
+        console.error('Error fetching opportunities:', error);
+        toast.error('Unable to load opportunities');
+      }
+      setLoading(false);
+    };
+
+    fetchFirstPage();
+
+    return () => {
+      isSubscribed = false;
+    };
+  }, [key]);
+
+  const countsKey = facetKey(filters);
+  useEffect(() => {
+    let isSubscribed = true;
+
+    const fetchCounts = async () => {
+      if (feedRef.current.facetCountsKey === countsKey) return;
+      try {
+        const counts = await fetchFacetCounts(filtersRef.current);
+        if (isSubscribed) setFeed((prev) => ({ ...prev, facetCounts: counts, facetCountsKey: countsKey }));
+      } catch (error) {
+        console.error('Error counting opportunity facets:', error);
+      }
+    };
+
+    fetchCounts();
+
+    return () => {
+      isSubscribed = false;
+    };
+  }, [countsKey]);
+
+  const loadMore = useCallback(async () => {
+    if (loadingMoreRef.current || loading || !feed.hasMore || feed.key !== key) return;
+
+    loadingMoreRef.current = true;
+    setLoadingMore(true);
+    try {
+      const page = await fetchPage(filtersRef.current, feed.cursor);
+      setFeed((prev) => {
+        // The filters changed while this page was loading
+        if (prev.key !== key) return prev;
+        const hits = new Map(prev.hits);
+        page.hits.forEach((hit) => hits.set(hit.opportunity_id, hit));
+        return {
+          ...prev,
+          pages: page.items.length > 0 ? [...prev.pages, page.items] : prev.pages,
+          hits,
+          total: page.hits.length > 0 ? page.total : prev.total,
+          cursor: page.nextCursor,
+          hasMore: page.nextCursor != null,
+        };
+      });
+    } catch (error) {
+      console.error('Error fetching more opportunities:', error);
+      toast.error('Unable to load more opportunities');
+    }
+    loadingMoreRef.current = false;
+    setLoadingMore(false);
+  }, [feed, key, loading]);
+
+  return {
+    pages: feed.pages,
+    hits: feed.hits,
+    total: feed.total,
+    hasMore: feed.hasMore,
+    facetCounts: feed.facetCounts ?? toFacetCounts(null, filters),
+    loading,
+    loadingMore,
+    loadMore,
+  };
+};
@@ -1,17 +1,36 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import toast from 'react-hot-toast';
 import { supabase } from '../lib/supabase';
-
-interface SavedOpportunityRow {
-  opportunity_id: string;
-}
-
-interface ToggleSaveError extends Error {
-  code?: string;
-}
+import { track } from '../lib/analytics';
+import type { SavedOpportunity, SavedOpportunityWithDetails } from '../types';
+
+export type SavedOpportunityPatch = Partial<Pick<SavedOpportunity, 'collection' | 'notes' | 'tags'>>;
+
+const SAVED_COLUMNS = `
+  saved_id,
+  student_id,
+  opportunity_id,
+  saved_at,
+  collection,
+  notes,
+  tags,
+  change_note,
+  changed_at,
+  opportunities (
+    opportunity_id,
+    slug,
+    title,
+    type,
+    work_mode,
+    status,
+    application_deadline,
+    taken_down_at,
+    companies (company_name, logo_url)
+  )
+`;
 
 export const useSavedOpportunities = (studentId: string | null) => {
-  const [savedOpportunities, setSavedOpportunities] = useState<Set<string>>(() => new Set());
+  const [saved, setSaved] = useState<SavedOpportunityWithDetails[]>([]);
   const [loading, setLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -21,7 +40,7 @@ export const useSavedOpportunities = (studentId: string | null) => {
     const fetchSavedOpportunities = async () => {
       if (!studentId) {
         if (isSubscribed) {
-          setSavedOpportunities(new Set());
+          setSaved([]);
           setError(null);
           setLoading(false);
         }
@@ -32,20 +51,21 @@ export const useSavedOpportunities = (studentId: string | null) => {
       setError(null);
 
       const { data, error: fetchError } = await supabase
-        .from<SavedOpportunityRow>('saved_opportunities')
-        .select('opportunity_id')
-        .eq('student_id', studentId);
+        .from('saved_opportunities')
+        .select(SAVED_COLUMNS)
+        .eq('student_id', studentId)
+        .order('saved_at', { ascending: false })
+        .returns<SavedOpportunityWithDetails[]>();
 
       if (!isSubscribed) return;
 
       if (fetchError) {
         console.error('Failed to fetch saved opportunities:', fetchError);
-        setSavedOpportunities(new Set());
+        setSaved([]);
         setError('Unable to load saved opportunities. Please try again later.');
         toast.error('Unable to load saved opportunities');
       } else {
-        const ids = new Set((data ?? []).map((item) => item.opportunity_id));
-        setSavedOpportunities(ids);
+        setSaved(data ?? []);
         setError(null);
       }
 
@@ -59,27 +79,36 @@ export const useSavedOpportunities = (studentId: string | null) => {
     };
   }, [studentId]);
 
+  const savedOpportunities = useMemo(() => new Set(saved.map((item) => item.opportunity_id)), [saved]);
+
+  const collections = useMemo(
+    () =>
+      [...new Set(saved.map((item) => item.collection).filter((name): name is string => !!name))].sort((a, b) =>
+        a.localeCompare(b),
+      ),
+    [saved],
+  );
+
   const isSaved = useCallback(
     (opportunityId: string) => savedOpportunities.has(opportunityId),
     [savedOpportunities],
   );
 
+  /** Resolves to whether the change stuck; failures are rolled back and toasted here. */
   const toggleSave = useCallback(
-    async (opportunityId: string) => {
+    async (opportunityId: string): Promise<boolean> => {
       if (!studentId) {
         toast.error('Please sign in to save opportunities');
-        return;
+        return false;
       }
 
       setError(null);
 
-      const wasSaved = savedOpportunities.has(opportunityId);
-      const previousState = new Set(savedOpportunities);
-      const optimisticState = new Set(previousState);
+      const previousState = saved;
+      const existing = saved.find((item) => item.opportunity_id === opportunityId);
 
-      if (wasSaved) {
-        optimisticState.delete(opportunityId);
-        setSavedOpportunities(optimisticState);
+      if (existing) {
+        setSaved(previousState.filter((item) => item.opportunity_id !== opportunityId));
 
         const { error: deleteError } = await supabase
           .from('saved_opportunities')
@@ -89,46 +118,119 @@ export const useSavedOpportunities = (studentId: string | null) => {
 
         if (deleteError) {
           console.error('Failed to remove saved opportunity:', deleteError);
-          setSavedOpportunities(previousState);
-          const message =
-            (deleteError as ToggleSaveError).message || 'Failed to remove opportunity from saved list.';
-          setError(message);
+          setSaved(previousState);
+          setError(deleteError.message || 'Failed to remove opportunity from saved list.');
           toast.error('Failed to remove from saved. Please try again.');
-          throw deleteError;
+          return false;
         }
 
+        track('saved', { opportunity_id: opportunityId, saved: false });
         toast.success('Removed from saved');
-      } else {
-        optimisticState.add(opportunityId);
-        setSavedOpportunities(optimisticState);
+        return true;
+      }
 
-        const { error: insertError } = await supabase.from('saved_opportunities').insert({
+      // Shown as saved straight away; the details arrive with the insert below
+      const optimistic: SavedOpportunityWithDetails = {
+        saved_id: opportunityId,
+        student_id: studentId,
+        opportunity_id: opportunityId,
+        saved_at: new Date().toISOString(),
+        collection: null,
+        notes: null,
+        tags: [],
+        change_note: null,
+        changed_at: null,
+        opportunities: null,
+      };
+      setSaved([optimistic, ...previousState]);
+
+      const { data: inserted, error: insertError } = await supabase
+        .from('saved_opportunities')
+        .insert({
           student_id: studentId,
           opportunity_id: opportunityId,
-          saved_at: new Date().toISOString(),
-        });
-
-        if (insertError) {
-          console.error('Failed to save opportunity:', insertError);
-          setSavedOpportunities(previousState);
-          const message =
-            (insertError as ToggleSaveError).message || 'Failed to save opportunity for later.';
-          setError(message);
-          toast.error('Failed to save opportunity. Please try again.');
-          throw insertError;
-        }
+          saved_at: optimistic.saved_at,
+        })
+        .select(SAVED_COLUMNS)
+        .returns<SavedOpportunityWithDetails[]>()
+        .single();
+
+      if (insertError || !inserted) {
+        console.error('Failed to save opportunity:', insertError);
+        setSaved(previousState);
+        setError(insertError?.message || 'Failed to save opportunity for later.');
+        toast.error('Failed to save opportunity. Please try again.');
+        return false;
+      }
 
-        toast.success('Saved for later');
+      setSaved((current) => current.map((item) => (item.opportunity_id === opportunityId ? inserted : item)));
+      track('saved', { opportunity_id: opportunityId, saved: true });
+      toast.success('Saved for later');
+      return true;
+    },
+    [studentId, saved],
+  );
+
+  const updateSaved = useCallback(
+    async (opportunityId: string, patch: SavedOpportunityPatch): Promise<boolean> => {
+      if (!studentId) return false;
+
+      const previousState = saved;
+      setSaved(previousState.map((item) => (item.opportunity_id === opportunityId ? { ...item, ...patch } : item)));
+
+      const { error: updateError } = await supabase
+        .from('saved_opportunities')
+        .update(patch)
+        .eq('student_id', studentId)
+        .eq('opportunity_id', opportunityId);
+
+      if (updateError) {
+        console.error('Failed to update saved opportunity:', updateError);
+        setSaved(previousState);
+        toast.error('Could not save your changes. Please try again.');
+        return false;
+      }
+
+      return true;
+    },
+    [studentId, saved],
+  );
+
+  /** Clears the closed/deadline-moved flag once the student has seen it. */
+  const dismissChange = useCallback(
+    async (opportunityId: string) => {
+      if (!studentId) return;
+
+      const previousState = saved;
+      setSaved(
+        previousState.map((item) =>
+          item.opportunity_id === opportunityId ? { ...item, change_note: null, changed_at: null } : item,
+        ),
+      );
+
+      const { error: updateError } = await supabase
+        .from('saved_opportunities')
+        .update({ change_note: null, changed_at: null })
+        .eq('student_id', studentId)
+        .eq('opportunity_id', opportunityId);
+
+      if (updateError) {
+        console.error('Failed to dismiss saved opportunity change:', updateError);
+        setSaved(previousState);
       }
     },
-    [studentId, savedOpportunities],
+    [studentId, saved],
   );
 
   return {
+    saved,
     savedOpportunities,
+    collections,
     isSaved,
     toggleSave,
+    updateSaved,
+    dismissChange,
     loading,
     error,
   };
-};
\ No newline at end of file
+};
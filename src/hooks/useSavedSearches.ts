@@ -0,0 +1,142 @@
+import { useState, useEffect, useCallback } from 'react';
+import toast from 'react-hot-toast';
+import { supabase } from '../lib/supabase';
+import type { SavedSearch, SavedSearchAlertMode, SavedSearchFilters } from '../types';
+
+interface NewCountRow {
+  search_id: string;
+  new_count: number;
+}
+
+export const useSavedSearches = (studentId: string | null) => {
+  const [searches, setSearches] = useState<SavedSearch[]>([]);
+  const [newCounts, setNewCounts] = useState<Record<string, number>>({});
+  const [loading, setLoading] = useState<boolean>(false);
+
+  useEffect(() => {
+    let isSubscribed = true;
+
+    const fetchSavedSearches = async () => {
+      if (!studentId) {
+        if (isSubscribed) {
+          setSearches([]);
+          setNewCounts({});
+        }
+        return;
+      }
+
+      setLoading(true);
+      const [{ data, error }, { data: counts, error: countsError }] = await Promise.all([
+        supabase
+          .from('saved_searches')
+          .select('*')
+          .eq('student_id', studentId)
+          .order('created_at', { ascending: true })
+          .returns<SavedSearch[]>(),
+        supabase.rpc('saved_search_new_counts'),
+      ]);
+
+      if (!isSubscribed) return;
+
+      if (error) {
+        console.error('Failed to fetch saved searches:', error);
+        toast.error('Unable to load saved searches');
+      } else {
+        setSearches(data ?? []);
+      }
+      if (countsError) {
+        console.error('Failed to count new saved search matches:', countsError);
+      } else {
+        setNewCounts(
+          Object.fromEntries(((counts as NewCountRow[] | null) ?? []).map((row) => [row.search_id, row.new_count])),
+        );
+      }
+      setLoading(false);
+    };
+
+    fetchSavedSearches();
+
+    return () => {
+      isSubscribed = false;
+    };
+  }, [studentId]);
+
+  const createSearch = useCallback(
+    async (name: string, filters: SavedSearchFilters, alertMode: SavedSearchAlertMode = 'daily') => {
+      if (!studentId) return null;
+
+      const { data, error } = await supabase
+        .from('saved_searches')
+        .insert({ student_id: studentId, name: name.trim(), filters, alert_mode: alertMode })
+        .select('*')
+        .returns<SavedSearch[]>()
+        .single();
+
+      if (error || !data) {
+        console.error('Failed to save search:', error);
+        toast.error(error?.code === '23505' ? 'You already have a saved search with that name' : 'Could not save this search');
+        return null;
+      }
+
+      setSearches((prev) => [...prev, data]);
+      setNewCounts((prev) => ({ ...prev, [data.search_id]: 0 }));
+      toast.success(`Saved "${data.name}"`);
+      return data;
+    },
+    [studentId],
+  );
+
+  const setAlertMode = useCallback(
+    async (searchId: string, alertMode: SavedSearchAlertMode) => {
+      const previous = searches;
+      // Restart the digest window so switching to daily doesn't replay old postings
+      const patch = { alert_mode: alertMode, last_digest_at: new Date().toISOString() };
+      setSearches(previous.map((search) => (search.search_id === searchId ? { ...search, ...patch } : search)));
+
+      const { error } = await supabase.from('saved_searches').update(patch).eq('search_id', searchId);
+      if (error) {
+        console.error('Failed to update saved search alerts:', error);
+        setSearches(previous);
+        toast.error('Could not update alerts');
+      }
+    },
+    [searches],
+  );
+
+  const deleteSearch = useCallback(
+    async (searchId: string) => {
+      const previous = searches;
+      setSearches(previous.filter((search) => search.search_id !== searchId));
+
+      const { error } = await supabase.from('saved_searches').delete().eq('search_id', searchId);
+      if (error) {
+        console.error('Failed to delete saved search:', error);
+        setSearches(previous);
+        toast.error('Could not delete the saved search');
+      }
+    },
+    [searches],
+  );
+
+  /** Resets the "new since last visit" count when the student opens a search. */
+  const markViewed = useCallback(async (searchId: string) => {
+    const viewedAt = new Date().toISOString();
+    setNewCounts((prev) => ({ ...prev, [searchId]: 0 }));
+    setSearches((prev) =>
+      prev.map((search) => (search.search_id === searchId ? { ...search, last_viewed_at: viewedAt } : search)),
+    );
+
+    const { error } = await supabase.from('saved_searches').update({ last_viewed_at: viewedAt }).eq('search_id', searchId);
+    if (error) console.error('Failed to mark saved search as viewed:', error);
+  }, []);
+
+  return {
+    searches,
+    newCounts,
+    loading,
+    createSearch,
+    setAlertMode,
+    deleteSearch,
+    markViewed,
+  };
+};
@@ -0,0 +1,50 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import type { SkillMasterEntry } from '../types';
+
+// skills_master is effectively static reference data, so share one request per session
+let skillsCache: SkillMasterEntry[] | null = null;
+let inflight: Promise<SkillMasterEntry[]> | null = null;
+
+const loadSkills = () => {
+  if (skillsCache) return Promise.resolve(skillsCache);
+  if (!inflight) {
+    inflight = (async () => {
+      const { data, error } = await supabase
+        .from('skills_master')
+        .select('*')
+        .order('demand_index', { ascending: false })
+        .returns<SkillMasterEntry[]>();
+
+      inflight = null;
+      if (error) {
+        console.error('Failed to fetch skills:', error);
+        return [];
+      }
+      skillsCache = data ?? [];
+      return skillsCache;
+    })();
+  }
+  return inflight;
+};
+
+export const useSkillsMaster = () => {
+  const [skills, setSkills] = useState<SkillMasterEntry[]>(skillsCache ?? []);
+  const [loading, setLoading] = useState<boolean>(!skillsCache);
+
+  useEffect(() => {
+    let isSubscribed = true;
+
+    loadSkills().then((rows) => {
+      if (!isSubscribed) return;
+      setSkills(rows);
+      setLoading(false);
+    });
+
+    return () => {
+      isSubscribed = false;
+    };
+  }, []);
+
+  return { skills, loading };
+};
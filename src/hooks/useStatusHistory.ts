@@ -0,0 +1,61 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import type { ApplicationStatusChange } from '../types';
+
+/**
+ * Status transitions for one or more applications, oldest first. Pass every
+ * applicant id at once on list pages so the history comes back in one request.
+ * Changing `refreshKey` (e.g. the current status) refetches.
+ */
+export const useStatusHistory = (applicationIds: string[], refreshKey?: string | null) => {
+  const [history, setHistory] = useState<ApplicationStatusChange[]>([]);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const idsKey = applicationIds.join(',');
+
+  const fetchHistory = useCallback(async () => {
+    const ids = idsKey ? idsKey.split(',') : [];
+    if (ids.length === 0) {
+      setHistory([]);
+      return [] as ApplicationStatusChange[];
+    }
+
+    setLoading(true);
+    setError(null);
+
+    const { data, error: fetchError } = await supabase
+      .from('application_status_history')
+      .select('*')
+      .in('application_id', ids)
+      .order('changed_at', { ascending: true })
+      .returns<ApplicationStatusChange[]>();
+
+    setLoading(false);
+
+    if (fetchError) {
+      console.error('Failed to fetch status history:', fetchError);
+      setError('Unable to load status history.');
+      return [] as ApplicationStatusChange[];
+    }
+
+    return data ?? [];
+  }, [idsKey]);
+
+  useEffect(() => {
+    let isSubscribed = true;
+
+    fetchHistory().then((rows) => {
+      if (isSubscribed) setHistory(rows);
+    });
+
+    return () => {
+      isSubscribed = false;
+    };
+  }, [fetchHistory, refreshKey]);
+
+  const refresh = useCallback(async () => {
+    setHistory(await fetchHistory());
+  }, [fetchHistory]);
+
+  return { history, loading, error, refresh };
+};
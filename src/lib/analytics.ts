@@ -0,0 +1,149 @@
+import { supabase } from './supabase';
+import { useAuthStore } from '../stores/authStore';
+import type { JsonValue, OpportunityFacets } from '../types';
+
+/**
+ * Every event the app sends and the shape of its `event_data`. Add new events
+ * here first; `track` rejects names and payloads that aren't in the catalogue.
+ */
+export interface AnalyticsEventCatalogue {
+  opportunity_viewed: { opportunity_id: string };
+  opportunity_clicked: { opportunity_id: string; position: number; list: 'browse' | 'recommended' };
+  /** Only the query's length; the text itself can hold names or other personal data. */
+  search_performed: { query_length: number; results_count: number; tab: string };
+  filter_changed: { filter: 'tab' | 'sort' | 'clear' | keyof OpportunityFacets; value: JsonValue };
+  apply_started: { opportunity_id: string; method: 'full' | 'quick' };
+  apply_submitted: { opportunity_id: string; method: 'full' | 'quick'; application_id?: string };
+  apply_abandoned: { opportunity_id: string; method: 'full' | 'quick'; step?: string };
+  saved: { opportunity_id: string; saved: boolean };
+}
+
+export type AnalyticsEventName = keyof AnalyticsEventCatalogue;
+
+interface QueuedEvent {
+  user_id: string;
+  event_type: AnalyticsEventName;
+  event_data: Record<string, JsonValue>;
+  timestamp: string;
+  session_id: string;
+  user_agent: string;
+}
+
+const CONSENT_KEY = 'trackintern.analytics.consent';
+const SESSION_KEY = 'trackintern.analytics.session';
+const FLUSH_INTERVAL_MS = 10_000;
+const MAX_BATCH = 25;
+// Keeps a failing network from growing the queue without bound
+const MAX_QUEUE = 200;
+
+let queue: QueuedEvent[] = [];
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+let flushing = false;
+// The choice made on this page load, for when storage is blocked
+let consentOverride: boolean | null = null;
+const consentListeners = new Set<() => void>();
+
+/** Off until the user opts in from the account menu. */
+export const getAnalyticsConsent = (): boolean => {
+  if (consentOverride !== null) return consentOverride;
+  try {
+    return localStorage.getItem(CONSENT_KEY) === 'granted';
+  } catch {
+    // Storage can be blocked (private mode, embedded frames); treat that as no consent
+    return false;
+  }
+};
+
+export const setAnalyticsConsent = (granted: boolean) => {
+  consentOverride = granted;
+  try {
+    localStorage.setItem(CONSENT_KEY, granted ? 'granted' : 'denied');
+  } catch {
+    // Still honoured for this page load through consentOverride
+  }
+  if (!granted) {
+    queue = [];
+    if (flushTimer) clearTimeout(flushTimer);
+    flushTimer = null;
+  }
+  consentListeners.forEach((listener) => listener());
+};
+
+export const subscribeToAnalyticsConsent = (listener: () => void) => {
+  consentListeners.add(listener);
+  return () => {
+    consentListeners.delete(listener);
+  };
+};
+
+/** One id per browser tab, kept across reloads so a visit reads as one session. */
+const getSessionId = (): string => {
+  try {
+    const existing = sessionStorage.getItem(SESSION_KEY);
+    if (existing) return existing;
+    const created = crypto.randomUUID();
+    sessionStorage.setItem(SESSION_KEY, created);
+    return created;
+  } catch {
+    return 'no-storage';
+  }
+};
+
+export const flushAnalytics = async () => {
+  if (flushing || queue.length === 0) return;
+  if (flushTimer) clearTimeout(flushTimer);
+  flushTimer = null;
+
+  // RLS only accepts rows for the signed-in user; anything queued before a sign-out is dropped
+  const userId = useAuthStore.getState().user?.id;
+  const batch = queue.filter((event) => event.user_id === userId).slice(0, MAX_BATCH);
+  queue = queue.filter((event) => event.user_id === userId).slice(batch.length);
+  if (batch.length === 0) return;
+
+  flushing = true;
+  const { error } = await supabase.from('analytics_events').insert(batch);
+  flushing = false;
+
+  if (error) {
+    console.error('Failed to send analytics events:', error);
+    queue = [...batch, ...queue].slice(-MAX_QUEUE);
+  }
+  if (queue.length > 0) scheduleFlush();
+};
+
+const scheduleFlush = () => {
+  if (flushTimer) return;
+  flushTimer = setTimeout(() => {
+    flushTimer = null;
+    void flushAnalytics();
+  }, FLUSH_INTERVAL_MS);
+};
+
+export const track = <E extends AnalyticsEventName>(event: E, data: AnalyticsEventCatalogue[E]) => {
+  if (!getAnalyticsConsent()) return;
+  const userId = useAuthStore.getState().user?.id;
+  if (!userId) return;
+
+  queue.push({
+    user_id: userId,
+    event_type: event,
+    event_data: data as unknown as Record<string, JsonValue>,
+    timestamp: new Date().toISOString(),
+    session_id: getSessionId(),
+    user_agent: navigator.userAgent,
+  });
+  queue = queue.slice(-MAX_QUEUE);
+
+  if (queue.length >= MAX_BATCH) {
+    void flushAnalytics();
+  } else {
+    scheduleFlush();
+  }
+};
+
+// Tabs that get hidden are often never shown again; send what we have while we still can
+if (typeof document !== 'undefined') {
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'hidden') void flushAnalytics();
+  });
+}
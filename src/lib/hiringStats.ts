@@ -0,0 +1,25 @@
+import { supabase } from './supabase';
+import type { CompanyHiringStats, OpportunityApplicationStats } from '../types';
+
+/**
+ * Application and hire counts per posting, keyed by opportunity id. Postings the
+ * caller can't see, and those without a row, are simply missing from the map.
+ */
+export const fetchApplicationStats = async (
+  opportunityIds: string[],
+): Promise<Map<string, OpportunityApplicationStats>> => {
+  if (opportunityIds.length === 0) return new Map();
+
+  const { data, error } = await supabase.rpc('opportunity_application_stats', {
+    p_opportunity_ids: opportunityIds,
+  });
+  if (error) throw error;
+
+  return new Map(((data as OpportunityApplicationStats[] | null) ?? []).map((row) => [row.opportunity_id, row]));
+};
+
+export const fetchCompanyHiringStats = async (companyId: string): Promise<CompanyHiringStats | null> => {
+  const { data, error } = await supabase.rpc('company_hiring_stats', { p_company_id: companyId });
+  if (error) throw error;
+  return (data as CompanyHiringStats | null) ?? null;
+};
@@ -0,0 +1,97 @@
+import { supabase } from './supabase';
+import type { SavedSearchFilters } from '../types';
+import { STIPEND_FLOORS, toFacetCounts, type FacetCounts, type RawFacetCounts } from '../utils/opportunityFacets';
+
+/** Where the next page starts; opaque to the client beyond passing it back. */
+export interface OpportunityCursor {
+  value: string;
+  id: string;
+}
+
+/** One row from the `browse_opportunities` RPC. */
+export interface OpportunitySearchHit {
+  opportunity_id: string;
+  next_cursor: OpportunityCursor;
+  /** Search relevance; null when there is no text query. */
+  rank: number | null;
+  /** The title with matched words wrapped in HIGHLIGHT_START/HIGHLIGHT_END; null without a query. */
+  title_highlight: string | null;
+  /** Best-matching description fragments, marked the same way. */
+  snippet: string | null;
+  total_count: number;
+}
+
+export interface OpportunityPage {
+  hits: OpportunitySearchHit[];
+  /** Matches across all pages. */
+  total: number;
+  /** Null once the last page has been read. */
+  nextCursor: OpportunityCursor | null;
+}
+
+export interface HighlightSegment {
+  text: string;
+  highlighted: boolean;
+}
+
+// Must match the StartSel/StopSel the RPC passes to ts_headline
+export const HIGHLIGHT_START = '\u0001';
+export const HIGHLIGHT_END = '\u0002';
+
+export const OPPORTUNITY_PAGE_SIZE = 24;
+
+/**
+ * One page of postings matching the OpportunitiesPage filters, in their sort
+ * order. The filters travel as one jsonb argument, so quotes, commas and
+ * operators in the text query are searched for rather than parsed.
+ */
+export const browseOpportunities = async (
+  filters: SavedSearchFilters,
+  cursor: OpportunityCursor | null = null,
+  limit = OPPORTUNITY_PAGE_SIZE,
+): Promise<OpportunityPage> => {
+  const { data, error } = await supabase.rpc('browse_opportunities', {
+    p_filters: filters,
+    p_cursor: cursor,
+    p_limit: limit,
+  });
+  if (error) throw error;
+
+  const hits = (data as OpportunitySearchHit[] | null) ?? [];
+  const last = hits[hits.length - 1];
+  return {
+    hits,
+    total: hits[0]?.total_count ?? 0,
+    nextCursor: hits.length === limit && last ? last.next_cursor : null,
+  };
+};
+
+/** Live counts for every facet option under the given filters. */
+export const fetchFacetCounts = async (filters: SavedSearchFilters): Promise<FacetCounts> => {
+  const { data, error } = await supabase.rpc('opportunity_facet_counts', {
+    p_filters: filters,
+    p_stipend_floors: STIPEND_FLOORS,
+  });
+  if (error) throw error;
+  return toFacetCounts(data as RawFacetCounts | null, filters);
+};
+
+/** Splits marked-up RPC text into plain and highlighted runs, for rendering without innerHTML. */
+export const parseHighlight = (marked: string): HighlightSegment[] => {
+  const segments: HighlightSegment[] = [];
+  let highlighted = false;
+  let text = '';
+
+  for (const char of marked) {
+    if (char === HIGHLIGHT_START || char === HIGHLIGHT_END) {
+      if (text) segments.push({ text, highlighted });
+      text = '';
+      highlighted = char === HIGHLIGHT_START;
+    } else {
+      text += char;
+    }
+  }
+  if (text) segments.push({ text, highlighted });
+
+  return segments;
+};
@@ -1,10 +1,11 @@
 import { create } from 'zustand';
 import { supabase } from '../lib/supabase';
-import type { Company } from '@/types';
+import type { Company, UserType } from '@/types';
 
 interface User {
   id: string;
   email: string;
+  email_confirmed_at?: string | null;
   user_metadata: {
     user_type?: 'student' | 'company';
     full_name?: string;
@@ -23,6 +24,11 @@ interface StudentProfile {
   github_url?: string;
   college_name?: string;
   course?: string;
+  cgpa?: number | null;
+  year_of_study?: number | null;
+  expected_graduation?: string | null;
+  preferred_locations?: string[] | null;
+  expected_salary_min?: number | null;
 }
 
 interface AuthState {
@@ -30,16 +36,28 @@ interface AuthState {
   profile: StudentProfile | null;
   studentId: string | null;
   loading: boolean;
-  userType: 'student' | 'company' | null;
+  userType: UserType | null;
   companyProfile: Company | null;
   companyId: string | null;
+  /** Set while the user is signed in through a password recovery link. */
+  passwordRecovery: boolean;
+  /** Set when Supabase ends the session without the user asking to sign out. */
+  sessionExpired: boolean;
+  /** Set when a suspended account was signed out on load or sign-in. */
+  accountSuspended: boolean;
   signIn: (email: string, password: string) => Promise<{ success: boolean; error?: string }>;
   signUp: (email: string, password: string, userType: 'student' | 'company', fullName: string) => Promise<{ success: boolean; error?: string }>;
   signOut: () => Promise<void>;
   checkSession: () => Promise<void>;
   fetchUserProfile: () => Promise<void>;
+  refreshUser: () => Promise<User | null>;
+  clearSessionExpired: () => void;
+  clearAccountSuspended: () => void;
 }
 
+// SIGNED_OUT fires for both explicit sign-outs and expired refresh tokens; this tells them apart
+let signingOut = false;
+
 export const useAuthStore = create<AuthState>((set, get) => ({
   user: null,
   profile: null,
@@ -48,6 +66,9 @@ export const useAuthStore = create<AuthState>((set, get) => ({
   userType: null,
   companyProfile: null,
   companyId: null,
+  passwordRecovery: false,
+  sessionExpired: false,
+  accountSuspended: false,
 
   fetchUserProfile: async () => {
     const { user } = get();
@@ -62,13 +83,30 @@ export const useAuthStore = create<AuthState>((set, get) => ({
         return;
       }
 
-      const userType = (user.user_metadata?.user_type as 'student' | 'company' | undefined) || null;
+      // users.user_type is authoritative; metadata is only what was picked at signup
+      const { data: account, error: accountError } = await supabase
+        .from('users')
+        .select('user_type, is_active, verification_status')
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (accountError) {
+        console.error('Error fetching account:', accountError);
+      }
+
+      if (account && (account.is_active === false || account.verification_status === 'suspended')) {
+        await get().signOut();
+        set({ accountSuspended: true });
+        return;
+      }
+
+      const userType = (account?.user_type as UserType | undefined) ?? (user.user_metadata?.user_type as 'student' | 'company' | undefined) ?? null;
       set({ userType });
 
       if (userType === 'student') {
         const { data, error } = await supabase
           .from('students')
-          .select('student_id, full_name, profile_strength, bio, skills, resume_url, linkedin_url, github_url, college_name, course')
+          .select('student_id, full_name, profile_strength, bio, skills, resume_url, linkedin_url, github_url, college_name, course, cgpa, year_of_study, expected_graduation, preferred_locations, expected_salary_min')
           .eq('user_id', user.id)
           .single();
 
@@ -86,7 +124,7 @@ export const useAuthStore = create<AuthState>((set, get) => ({
       } else if (userType === 'company') {
         const { data: company, error: companyError } = await supabase
           .from('companies')
-          .select('company_id, company_name, brand_logo_url, industry_type, company_size, headquarters_location, website, description, glassdoor_rating, tech_stack, benefits')
+          .select('company_id, user_id, company_name, company_description, industry, company_size, headquarters_location, website_url, linkedin_url, logo_url, founded_year, employee_count_range, company_culture, benefits_offered, tech_stack, is_verified')
           .eq('user_id', user.id)
           .single();
 
@@ -115,8 +153,12 @@ export const useAuthStore = create<AuthState>((set, get) => ({
       const { data, error } = await supabase.auth.signInWithPassword({ email, password });
       if (error) throw error;
       if (data.user) {
-        set({ user: data.user as User, userType: (data.user.user_metadata?.user_type as 'student' | 'company' | undefined) || null });
+        set({ user: data.user as User, userType: (data.user.user_metadata?.user_type as 'student' | 'company' | undefined) || null, sessionExpired: false, accountSuspended: false });
         await get().fetchUserProfile();
+        if (get().accountSuspended) {
+          set({ accountSuspended: false });
+          return { success: false, error: 'This account has been suspended. Contact support if you think this is a mistake.' };
+        }
       }
       return { success: true };
     } catch (err: any) {
@@ -135,6 +177,7 @@ export const useAuthStore = create<AuthState>((set, get) => ({
             user_type: userType,
             full_name: fullName, // The trigger will use this data
           },
+          emailRedirectTo: `${window.location.origin}/verify-email`,
         },
       });
 
@@ -155,14 +198,31 @@ export const useAuthStore = create<AuthState>((set, get) => ({
   },
 
   signOut: async () => {
+    signingOut = true;
     try {
       await supabase.auth.signOut();
-      set({ user: null, profile: null, studentId: null, userType: null, companyProfile: null, companyId: null });
+      set({ user: null, profile: null, studentId: null, userType: null, companyProfile: null, companyId: null, passwordRecovery: false });
     } catch {
       console.error('Error signing out');
+    } finally {
+      signingOut = false;
+    }
+  },
+
+  // Re-reads the user from the auth server, e.g. to pick up email confirmation from another tab
+  refreshUser: async () => {
+    const { data, error } = await supabase.auth.getUser();
+    if (error || !data.user) {
+      return null;
     }
+    set({ user: data.user as User });
+    return data.user as User;
   },
 
+  clearSessionExpired: () => set({ sessionExpired: false }),
+
+  clearAccountSuspended: () => set({ accountSuspended: false }),
+
   checkSession: async () => {
     set({ loading: true });
     try {
@@ -182,10 +242,45 @@ export const useAuthStore = create<AuthState>((set, get) => ({
 // Listen for auth state changes to keep the store in sync
 supabase.auth.onAuthStateChange((event, session) => {
   const { user, fetchUserProfile } = useAuthStore.getState();
+
+  switch (event) {
+    case 'SIGNED_OUT':
+      useAuthStore.setState({
+        user: null,
+        profile: null,
+        studentId: null,
+        userType: null,
+        companyProfile: null,
+        companyId: null,
+        passwordRecovery: false,
+        sessionExpired: Boolean(user) && !signingOut,
+      });
+      return;
+    case 'PASSWORD_RECOVERY':
+      if (session?.user) {
+        useAuthStore.setState({ user: session.user as User, passwordRecovery: true, sessionExpired: false });
+      }
+      return;
+    case 'TOKEN_REFRESHED':
+      // Same user, fresh JWT; nothing profile-related changed
+      if (session?.user) {
+        useAuthStore.setState({ user: session.user as User });
+      }
+      return;
+    case 'USER_UPDATED':
+      // Fired after updateUser (new password, confirmed email change, metadata)
+      if (session?.user) {
+        useAuthStore.setState({ user: session.user as User, passwordRecovery: false });
+      }
+      return;
+    default:
+      break;
+  }
+
   if (session?.user) {
     // If the user in the store is different, or there was no user before, update the session
     if (user?.id !== session.user.id) {
-        useAuthStore.setState({ user: session.user as User, userType: (session.user.user_metadata?.user_type as 'student' | 'company' | undefined) || null });
+        useAuthStore.setState({ user: session.user as User, userType: (session.user.user_metadata?.user_type as 'student' | 'company' | undefined) || null, sessionExpired: false });
         fetchUserProfile();
     }
   } else if (!session?.user && user) {
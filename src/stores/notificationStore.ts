@@ -1,90 +1,191 @@
 import { create } from 'zustand';
-import { persist } from 'zustand/middleware';
-
-export interface Notification {
-  id: string;
-  type: 'info' | 'success' | 'warning' | 'error';
-  title: string;
-  message: string;
-  timestamp: Date;
-  read: boolean;
-  actionUrl?: string;
-  actionText?: string;
-}
+import type { RealtimeChannel, RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import toast from 'react-hot-toast';
+import { supabase } from '../lib/supabase';
+import type { Notification } from '../types';
+
+const NOTIFICATION_LIMIT = 50;
 
 interface NotificationStore {
   notifications: Notification[];
   unreadCount: number;
-  addNotification: (notification: Omit<Notification, 'id' | 'timestamp' | 'read'>) => void;
-  markAsRead: (id: string) => void;
-  markAllAsRead: () => void;
-  removeNotification: (id: string) => void;
-  clearAll: () => void;
+  loading: boolean;
+  userId: string | null;
+  channel: RealtimeChannel | null;
+  loadNotifications: (userId: string) => Promise<void>;
+  reset: () => void;
+  markAsRead: (id: string) => Promise<void>;
+  markAllAsRead: () => Promise<void>;
+  removeNotification: (id: string) => Promise<void>;
+  clearAll: () => Promise<void>;
 }
 
-export const useNotificationStore = create<NotificationStore>()(
-  persist(
-    (set) => ({
-      notifications: [],
-      unreadCount: 0,
-
-      addNotification: (notification) => {
-        const newNotification: Notification = {
-          ...notification,
-          id: Date.now().toString() + Math.random().toString(36).substr(2, 9),
-          timestamp: new Date(),
-          read: false,
-        };
-
-        set((state) => ({
-          notifications: [newNotification, ...state.notifications],
-          unreadCount: state.unreadCount + 1,
-        }));
-      },
-
-      markAsRead: (id) => {
-        set((state) => ({
-          notifications: state.notifications.map((notif) =>
-            notif.id === id ? { ...notif, read: true } : notif
-          ),
-          unreadCount: Math.max(0, state.unreadCount - 1),
-        }));
-      },
-
-      markAllAsRead: () => {
-        set((state) => ({
-          notifications: state.notifications.map((notif) => ({ ...notif, read: true })),
-          unreadCount: 0,
-        }));
-      },
-
-      removeNotification: (id) => {
-        set((state) => {
-          const notification = state.notifications.find((n) => n.id === id);
-          const newUnreadCount = notification && !notification.read
-            ? Math.max(0, state.unreadCount - 1)
-            : state.unreadCount;
-
-          return {
-            notifications: state.notifications.filter((notif) => notif.id !== id),
-            unreadCount: newUnreadCount,
-          };
-        });
-      },
-
-      clearAll: () => {
-        set(() => ({
-          notifications: [],
-          unreadCount: 0,
-        }));
-      },
-    }),
-    {
-      name: 'notification-store',
-      partialize: (state) => ({
-        notifications: state.notifications,
-        unreadCount: state.unreadCount,
-      }),
+const countUnread = (notifications: Notification[]) =>
+  notifications.filter((notification) => !notification.is_read).length;
+
+const withNotifications = (notifications: Notification[]) => ({
+  notifications,
+  unreadCount: countUnread(notifications),
+});
+
+export const useNotificationStore = create<NotificationStore>()((set, get) => {
+  const handleRealtimeChange = (payload: RealtimePostgresChangesPayload<Notification>) => {
+    const { notifications } = get();
+
+    if (payload.eventType === 'INSERT') {
+      const incoming = payload.new;
+      if (incoming.is_archived || notifications.some((n) => n.notification_id === incoming.notification_id)) {
+        return;
+      }
+      set(withNotifications([incoming, ...notifications].slice(0, NOTIFICATION_LIMIT)));
+      return;
+    }
+
+    if (payload.eventType === 'UPDATE') {
+      const updated = payload.new;
+      const next = updated.is_archived
+        ? notifications.filter((n) => n.notification_id !== updated.notification_id)
+        : notifications.map((n) => (n.notification_id === updated.notification_id ? updated : n));
+      set(withNotifications(next));
+      return;
+    }
+
+    const removedId = payload.old.notification_id;
+    if (removedId) {
+      set(withNotifications(notifications.filter((n) => n.notification_id !== removedId)));
     }
-  )
-);
+  };
+
+  return {
+    notifications: [],
+    unreadCount: 0,
+    loading: false,
+    userId: null,
+    channel: null,
+
+    loadNotifications: async (userId) => {
+      // Already subscribed, or a load for this user is still in flight
+      if (get().userId === userId && (get().channel || get().loading)) return;
+      get().reset();
+      set({ userId, loading: true });
+
+      const { data, error } = await supabase
+        .from('notifications')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('is_archived', false)
+        .order('created_at', { ascending: false })
+        .limit(NOTIFICATION_LIMIT)
+        .returns<Notification[]>();
+
+      // The user may have signed out while the request was in flight
+      if (get().userId !== userId) return;
+
+      if (error) {
+        console.error('Failed to load notifications:', error);
+        set({ loading: false });
+      } else {
+        set({ ...withNotifications(data ?? []), loading: false });
+      }
+
+      const previousChannel = get().channel;
+      if (previousChannel) {
+        supabase.removeChannel(previousChannel);
+      }
+
+      const channel = supabase
+        .channel(`notifications:${userId}`)
+        .on<Notification>(
+          'postgres_changes',
+          { event: '*', schema: 'public', table: 'notifications', filter: `user_id=eq.${userId}` },
+          handleRealtimeChange,
+        )
+        .subscribe();
+
+      set({ channel });
+    },
+
+    reset: () => {
+      const { channel } = get();
+      if (channel) {
+        supabase.removeChannel(channel);
+      }
+      set({ notifications: [], unreadCount: 0, loading: false, userId: null, channel: null });
+    },
+
+    markAsRead: async (id) => {
+      const previous = get().notifications;
+      const target = previous.find((n) => n.notification_id === id);
+      if (!target || target.is_read) return;
+
+      const readAt = new Date().toISOString();
+      set(withNotifications(previous.map((n) => (n.notification_id === id ? { ...n, is_read: true, read_at: readAt } : n))));
+
+      const { error } = await supabase
+        .from('notifications')
+        .update({ is_read: true, read_at: readAt })
+        .eq('notification_id', id);
+
+      if (error) {
+        console.error('Failed to mark notification as read:', error);
+        set(withNotifications(previous));
+        toast.error('Could not update notification');
+      }
+    },
+
+    markAllAsRead: async () => {
+      const { notifications: previous, userId } = get();
+      if (!userId || countUnread(previous) === 0) return;
+
+      const readAt = new Date().toISOString();
+      set(withNotifications(previous.map((n) => (n.is_read ? n : { ...n, is_read: true, read_at: readAt }))));
+
+      const { error } = await supabase
+        .from('notifications')
+        .update({ is_read: true, read_at: readAt })
+        .eq('user_id', userId)
+        .eq('is_read', false);
+
+      if (error) {
+        console.error('Failed to mark notifications as read:', error);
+        set(withNotifications(previous));
+        toast.error('Could not update notifications');
+      }
+    },
+
+    removeNotification: async (id) => {
+      const previous = get().notifications;
+      set(withNotifications(previous.filter((n) => n.notification_id !== id)));
+
+      const { error } = await supabase
+        .from('notifications')
+        .update({ is_archived: true })
+        .eq('notification_id', id);
+
+      if (error) {
+        console.error('Failed to archive notification:', error);
+        set(withNotifications(previous));
+        toast.error('Could not remove notification');
+      }
+    },
+
+    clearAll: async () => {
+      const { notifications: previous, userId } = get();
+      if (!userId || previous.length === 0) return;
+
+      set(withNotifications([]));
+
+      const { error } = await supabase
+        .from('notifications')
+        .update({ is_archived: true })
+        .eq('user_id', userId)
+        .eq('is_archived', false);
+
+      if (error) {
+        console.error('Failed to clear notifications:', error);
+        set(withNotifications(previous));
+        toast.error('Could not clear notifications');
+      }
+    },
+  };
+});
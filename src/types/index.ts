@@ -6,18 +6,31 @@ export type JsonValue =
   | JsonValue[]
   | { [key: string]: JsonValue };
 
+export type CompanySize = 'startup' | 'mid-size' | 'enterprise' | 'mnc';
+
+/** Free-form `companies.company_culture`; the settings page writes these keys. */
+export interface CompanyCulture {
+  summary?: string;
+  values?: string[];
+}
+
 export interface Company {
   company_id: string;
+  user_id: string | null;
   company_name: string;
-  brand_logo_url: string | null;
-  industry_type: string | null;
-  company_size: string | null;
+  company_description: string | null;
+  industry: string | null;
+  company_size: CompanySize | null;
   headquarters_location: string | null;
-  website: string | null;
-  description: string | null;
-  glassdoor_rating: number | null;
-  tech_stack: JsonValue | null;
-  benefits: JsonValue | null;
+  website_url: string | null;
+  linkedin_url: string | null;
+  logo_url: string | null;
+  founded_year: number | null;
+  employee_count_range: string | null;
+  company_culture: CompanyCulture | null;
+  benefits_offered: string[] | null;
+  tech_stack: string[] | null;
+  is_verified: boolean | null;
 }
 
 export interface Opportunity {
@@ -44,7 +57,11 @@ export interface Opportunity {
   perks: JsonValue | null;
   is_ppo_offered: boolean;
   conversion_probability: number | null;
+  /** Unique daily viewers, maintained by `record_opportunity_view`. */
   view_count: number;
+  /** Set when an admin took the posting down; the company can't reopen it. */
+  taken_down_at?: string | null;
+  takedown_reason?: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -53,11 +70,24 @@ export interface OpportunityWithCompany extends Opportunity {
   company: Company;
 }
 
+export type ApplicationStatus =
+  | 'draft'
+  | 'submitted'
+  | 'under_review'
+  | 'shortlisted'
+  | 'interview_scheduled'
+  | 'interviewed'
+  | 'selected'
+  | 'rejected'
+  | 'withdrawn';
+
+export type ApplicationSource = 'application_form' | 'quick_apply';
+
 export interface Application {
   application_id: string;
   student_id: string;
   opportunity_id: string;
-  status: string;
+  status: ApplicationStatus;
   applied_date: string;
   status_updated_at: string | null;
   cover_letter: string | null;
@@ -70,6 +100,10 @@ export interface Application {
   is_accepted: boolean | null;
   rejection_reason: string | null;
   application_score: number | null;
+  /** Set when the student's placement cell signed off on this application. */
+  college_approved_at?: string | null;
+  /** How the student applied; null on applications that predate tracking it. */
+  source?: ApplicationSource | null;
   created_at: string;
   updated_at: string;
 }
@@ -86,6 +120,7 @@ export interface StudentProfile {
   course: string | null;
   specialization: string | null;
   year_of_study: string | null;
+  expected_graduation: string | null;
   cgpa: number | null;
   skills: string[] | null;
   resume_url: string | null;
@@ -101,20 +136,449 @@ export interface SavedOpportunity {
   student_id: string;
   opportunity_id: string;
   saved_at: string;
+  /** Folder the student filed it under; null means unfiled. */
+  collection: string | null;
+  /** Private to the student. */
+  notes: string | null;
+  tags: string[];
+  /** Set when the posting closed or its deadline moved since the student last looked. */
+  change_note: string | null;
+  changed_at: string | null;
+}
+
+export interface SavedOpportunityWithDetails extends SavedOpportunity {
+  opportunities: {
+    opportunity_id: string;
+    slug: string | null;
+    title: string;
+    type: OpportunityType;
+    work_mode: WorkMode | null;
+    status: OpportunityStatus;
+    application_deadline: string | null;
+    taken_down_at: string | null;
+    companies: { company_name: string; logo_url: string | null } | null;
+  } | null;
 }
 
 export interface ApplicationFormData {
   coverLetter: string;
   additionalDocuments: string[];
-  answersToQuestions: Record<string, string>;
+  answersToQuestions: Record<string, CustomQuestionAnswer>;
 }
 
-export type CustomQuestionType = 'text' | 'textarea' | 'select' | 'radio';
+export type CustomQuestionType =
+  | 'text'
+  | 'textarea'
+  | 'select'
+  | 'radio'
+  | 'number'
+  | 'url'
+  | 'checkbox'
+  | 'file';
 
+/** One entry of `opportunities.additional_questions`. */
 export interface CustomQuestion {
   id: string;
   question: string;
   type: CustomQuestionType;
   required: boolean;
   options?: string[];
-}
\ No newline at end of file
+}
+
+/**
+ * Answer stored in `applications.answers_to_questions` under the question id.
+ * Checkbox answers list the ticked options; file answers are the uploaded URL.
+ */
+export type CustomQuestionAnswer = string | number | string[];
+
+export type NotificationType =
+  | 'application_update'
+  | 'new_opportunity'
+  | 'deadline_reminder'
+  | 'profile_view'
+  | 'message'
+  | 'system';
+
+export type NotificationPriority = 'low' | 'medium' | 'high' | 'urgent';
+
+export interface Notification {
+  notification_id: string;
+  user_id: string;
+  type: NotificationType;
+  title: string;
+  message: string | null;
+  action_url: string | null;
+  is_read: boolean;
+  is_archived: boolean;
+  priority: NotificationPriority;
+  metadata: Record<string, JsonValue> | null;
+  created_at: string;
+  read_at: string | null;
+}
+
+export type InterviewType = 'technical' | 'hr' | 'managerial' | 'group';
+
+export type InterviewStatus = 'scheduled' | 'completed' | 'cancelled' | 'rescheduled';
+
+export interface Interview {
+  interview_id: string;
+  application_id: string;
+  round_number: number;
+  interview_type: InterviewType;
+  scheduled_at: string | null;
+  duration_minutes: number;
+  meeting_link: string | null;
+  interviewer_names: string[] | null;
+  status: InterviewStatus;
+  feedback: string | null;
+  rating: number | null;
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface UpcomingInterview extends Interview {
+  opportunity_title: string;
+  company_name: string;
+}
+
+export interface ApplicationNote {
+  note_id: string;
+  application_id: string;
+  student_id: string;
+  body: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export type StatusChangeActor = 'student' | 'company' | 'system';
+
+export interface ApplicationStatusChange {
+  history_id: string;
+  application_id: string;
+  from_status: ApplicationStatus | null;
+  to_status: ApplicationStatus;
+  changed_by: string | null;
+  actor_type: StatusChangeActor;
+  reason: string | null;
+  changed_at: string;
+}
+
+export type OpportunityType = 'internship' | 'placement' | 'apprenticeship';
+
+export type WorkMode = 'remote' | 'hybrid' | 'onsite';
+
+export type OpportunityStatus = 'draft' | 'active' | 'paused' | 'closed' | 'expired';
+
+export interface EligibilityCriteria {
+  min_cgpa?: number | null;
+  allowed_courses?: string[];
+  allowed_years?: number[];
+  graduation_after?: string | null;
+  graduation_before?: string | null;
+  /** Skills an applicant must list on their profile; unlike `required_skills` on the opportunity this blocks applying. */
+  required_skills?: string[];
+}
+
+export type EligibilityRule = 'min_cgpa' | 'allowed_courses' | 'allowed_years' | 'graduation_window' | 'required_skills';
+
+export interface EligibilityCheck {
+  rule: EligibilityRule;
+  passed: boolean;
+  /** Short requirement text for badges, e.g. "CGPA 7+" */
+  label: string;
+  reason: string;
+}
+
+export interface EligibilityResult {
+  eligible: boolean;
+  checks: EligibilityCheck[];
+}
+
+/** Row shape of the `opportunities` table as created by the complete setup migration. */
+export interface OpportunityRecord {
+  opportunity_id: string;
+  company_id: string;
+  title: string;
+  /** Set by the database on insert; used in /opportunities/:slug. */
+  slug: string | null;
+  description: string | null;
+  type: OpportunityType;
+  work_mode: WorkMode;
+  location: string | null;
+  duration_months: number | null;
+  stipend_min: number | null;
+  stipend_max: number | null;
+  /** Lakhs per annum; placements only. */
+  ctc_min: number | null;
+  ctc_max: number | null;
+  currency: string | null;
+  required_skills: string[] | null;
+  preferred_skills: string[] | null;
+  eligibility_criteria: EligibilityCriteria | null;
+  application_deadline: string | null;
+  start_date: string | null;
+  positions_available: number | null;
+  positions_filled: number | null;
+  status: OpportunityStatus;
+  application_process: JsonValue | null;
+  additional_questions: CustomQuestion[] | null;
+  perks_benefits: string[] | null;
+  is_featured: boolean;
+  view_count: number;
+  applications_count: number;
+  taken_down_at: string | null;
+  takedown_reason: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/** One row from `opportunity_application_stats`; use these, not the stale counters above. */
+export interface OpportunityApplicationStats {
+  opportunity_id: string;
+  applications_count: number;
+  hired_count: number;
+}
+
+/** What `company_hiring_stats` returns. */
+export interface CompanyHiringStats {
+  open_roles: number;
+  roles_posted: number;
+  hired: number;
+  applications: number;
+}
+
+export type SkillCategory = 'technical' | 'soft' | 'tool' | 'language' | 'framework';
+
+export interface SkillMasterEntry {
+  skill_id: string;
+  skill_name: string;
+  category: SkillCategory;
+  is_trending: boolean;
+  demand_index: number;
+  related_skills: string[] | null;
+}
+
+export type MatchFactor = 'required_skills' | 'preferred_skills' | 'location' | 'stipend';
+
+export interface MatchFactorScore {
+  factor: MatchFactor;
+  /** Points earned out of `weight`. */
+  earned: number;
+  weight: number;
+  detail: string;
+}
+
+export interface MatchScore {
+  /** 0-100, comparable across opportunities. */
+  score: number;
+  factors: MatchFactorScore[];
+}
+
+export type StudentOnboardingStep = 'education' | 'skills' | 'resume';
+
+export type CompanyOnboardingStep = 'company' | 'presence' | 'logo';
+
+export interface OnboardingStepInfo<Step extends string = string> {
+  id: Step;
+  title: string;
+  description: string;
+  /** Optional steps can be skipped and never hold back completion. */
+  optional: boolean;
+}
+
+/** `users.user_type`; admins are promoted by hand, never through signup. */
+export type UserType = 'student' | 'company' | 'admin' | 'college_coordinator';
+
+export type VerificationStatus = 'pending' | 'verified' | 'rejected' | 'suspended';
+
+/** A row from the `admin_search_users` RPC. */
+export interface AdminUserRow {
+  user_id: string;
+  email: string;
+  user_type: UserType;
+  display_name: string | null;
+  verification_status: VerificationStatus | null;
+  is_active: boolean;
+  created_at: string;
+  last_login: string | null;
+}
+
+/** What `admin_platform_metrics` returns. */
+export interface PlatformMetrics {
+  students: number;
+  companies: number;
+  verified_companies: number;
+  suspended_users: number;
+  new_users_7d: number;
+  active_opportunities: number;
+  taken_down_opportunities: number;
+  applications: number;
+  applications_7d: number;
+}
+
+export interface CollegeCoordinator {
+  coordinator_id: string;
+  user_id: string;
+  college_name: string;
+  full_name: string | null;
+  designation: string | null;
+}
+
+/** A row from the `coordinator_cohort` RPC. */
+export interface CohortStudent {
+  student_id: string;
+  full_name: string;
+  email: string;
+  course: string | null;
+  specialization: string | null;
+  year_of_study: number | null;
+  cgpa: number | null;
+  expected_graduation: string | null;
+  resume_url: string | null;
+  applications_count: number;
+  interviewing_count: number;
+  offers_count: number;
+  accepted_offers_count: number;
+  nominations_count: number;
+  last_applied_at: string | null;
+}
+
+/** Furthest point a student has reached across all their applications. */
+export type PlacementStatus = 'placed' | 'offered' | 'interviewing' | 'applied' | 'not_applied';
+
+/** A row from the `coordinator_student_applications` RPC. */
+export interface CoordinatorApplication {
+  application_id: string;
+  opportunity_id: string;
+  opportunity_title: string;
+  opportunity_slug: string | null;
+  company_name: string | null;
+  status: ApplicationStatus;
+  applied_date: string | null;
+  is_accepted: boolean | null;
+  college_approved_at: string | null;
+}
+
+export type ReportScope = 'college' | 'company';
+
+/** One application in `placement_report`; money fields come from its opportunity. */
+export interface PlacementReportApplication {
+  application_id: string;
+  student_id: string;
+  course: string | null;
+  status: ApplicationStatus;
+  is_accepted: boolean | null;
+  applied_date: string;
+  opportunity_id: string;
+  opportunity_title: string;
+  opportunity_type: OpportunityType;
+  company_id: string | null;
+  company_name: string | null;
+  stipend_min: number | null;
+  stipend_max: number | null;
+  /** Lakhs per annum. */
+  ctc_min: number | null;
+  ctc_max: number | null;
+  currency: string | null;
+}
+
+export interface PlacementReportData {
+  scope: ReportScope;
+  scope_name: string;
+  /** Coordinators get the whole cohort; companies get everyone who applied in the range. */
+  students: { student_id: string; course: string | null }[];
+  applications: PlacementReportApplication[];
+}
+
+/** `applications.source`, plus nominations from a placement cell and older rows with no source. */
+export type FunnelApplicationSource = ApplicationSource | 'placement_cell' | 'unknown';
+
+/** A posting in `company_funnel_report`; `view_count` is all-time, not limited to the range. */
+export interface FunnelOpportunity {
+  opportunity_id: string;
+  title: string;
+  status: OpportunityStatus;
+  created_at: string;
+  view_count: number;
+}
+
+/** Unique viewers of one posting on one day. */
+export interface FunnelViewDay {
+  opportunity_id: string;
+  day: string;
+  views: number;
+}
+
+export interface FunnelApplication {
+  application_id: string;
+  opportunity_id: string;
+  status: ApplicationStatus;
+  applied_date: string;
+  /** Every status the application has held, so earlier stages still count after a rejection. */
+  statuses: ApplicationStatus[] | null;
+  source: FunnelApplicationSource;
+}
+
+export interface CompanyFunnelData {
+  opportunities: FunnelOpportunity[];
+  views: FunnelViewDay[];
+  applications: FunnelApplication[];
+}
+
+/** A student's application as read for dashboard insights, with its status timeline. */
+export interface InsightApplication {
+  application_id: string;
+  status: ApplicationStatus;
+  applied_date: string | null;
+  status_updated_at: string | null;
+  opportunities: {
+    title: string;
+    slug: string | null;
+    type: OpportunityType | null;
+    work_mode: WorkMode | null;
+  } | null;
+  application_status_history: Pick<ApplicationStatusChange, 'to_status' | 'actor_type' | 'changed_at'>[] | null;
+}
+
+export type SavedSearchAlertMode = 'instant' | 'daily' | 'off';
+
+export type OpportunitySortKey = 'match' | 'newest' | 'deadline' | 'stipend';
+
+/** Up to 2 months, 3-6 months, and longer than 6 months. */
+export type DurationBucket = 'short' | 'medium' | 'long';
+
+/** Applications closing within the next 7 or 30 days. */
+export type DeadlineWindow = 'week' | 'month';
+
+/** OpportunitiesPage facets; values within a list are OR'd, facets are AND'd. */
+export interface OpportunityFacets {
+  workMode: string;
+  /** Minimum monthly stipend; 0 means any. */
+  stipendMin: number;
+  durations: DurationBucket[];
+  locations: string[];
+  deadline: DeadlineWindow | '';
+  ppo: boolean;
+  skills: string[];
+  companySizes: CompanySize[];
+  featured: boolean;
+}
+
+/** The OpportunitiesPage filter state, as kept in the URL and restored by a saved search. */
+export interface SavedSearchFilters extends OpportunityFacets {
+  q: string;
+  tab: 'internships' | 'placements' | 'all';
+  sort: OpportunitySortKey;
+}
+
+export interface SavedSearch {
+  search_id: string;
+  student_id: string;
+  name: string;
+  filters: SavedSearchFilters;
+  alert_mode: SavedSearchAlertMode;
+  last_viewed_at: string;
+  last_digest_at: string;
+  created_at: string;
+}
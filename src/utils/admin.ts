@@ -0,0 +1,31 @@
+import type { JsonValue } from '../types';
+
+export interface VerificationDocument {
+  name: string;
+  url: string;
+}
+
+const toDocument = (item: JsonValue, fallbackName: string): VerificationDocument | null => {
+  if (typeof item === 'string') {
+    return item.trim() ? { name: fallbackName, url: item.trim() } : null;
+  }
+  if (!item || typeof item !== 'object' || Array.isArray(item)) return null;
+  const url = [item.url, item.path, item.file_url].find((value) => typeof value === 'string' && value.trim());
+  if (typeof url !== 'string') return null;
+  const name = [item.name, item.label, item.type].find((value) => typeof value === 'string' && value.trim());
+  return { name: typeof name === 'string' ? name.trim() : fallbackName, url: url.trim() };
+};
+
+/**
+ * Reads `companies.verification_documents`, which older rows store as an object
+ * keyed by document name and newer ones as a list of URLs or {name, url} objects.
+ */
+export const parseVerificationDocuments = (raw: JsonValue | null | undefined): VerificationDocument[] => {
+  if (!raw || typeof raw !== 'object') return [];
+  const entries: [string, JsonValue][] = Array.isArray(raw)
+    ? raw.map((item, index) => [`Document ${index + 1}`, item])
+    : Object.entries(raw);
+  return entries
+    .map(([name, item]) => toDocument(item, name))
+    .filter((doc): doc is VerificationDocument => doc !== null);
+};
@@ -0,0 +1,264 @@
+import { differenceInCalendarDays, format, startOfWeek, subWeeks } from 'date-fns';
+import type { ApplicationStatus, InsightApplication } from '../types';
+
+export interface ApplicationInsightsSummary {
+  /** Everything past draft, including withdrawn applications. */
+  applications: number;
+  responded: number;
+  /** Share of applications a company acted on, 0-1. */
+  responseRate: number;
+  /** Mean time from applying to the company's first move; null until one has responded. */
+  averageResponseMs: number | null;
+  interviews: number;
+  offers: number;
+}
+
+export interface SuccessBreakdownRow {
+  key: string;
+  label: string;
+  applications: number;
+  interviews: number;
+  offers: number;
+  /** Offers per application, 0-1. */
+  successRate: number;
+}
+
+export interface WeeklyApplicationsPoint {
+  weekStart: string;
+  label: string;
+  applications: number;
+}
+
+export interface StalledApplication {
+  applicationId: string;
+  title: string;
+  slug: string | null;
+  status: ApplicationStatus;
+  lastChangeAt: string;
+  daysStalled: number;
+}
+
+export type InsightNudgeKind = 'follow_up' | 'profile' | 'momentum' | 'focus';
+
+export interface InsightNudge {
+  kind: InsightNudgeKind;
+  message: string;
+  /** Where the nudge's action takes the student. */
+  link: string;
+  action: string;
+}
+
+export const STALLED_DAY_OPTIONS = [7, 14, 30];
+export const DEFAULT_STALLED_DAYS = 14;
+
+// Still waiting on the company; interview_scheduled has a date on the calendar, so it isn't stalled
+const AWAITING_STATUSES = new Set<ApplicationStatus>(['submitted', 'under_review', 'shortlisted', 'interviewed']);
+const UNANSWERED_STATUSES = new Set<ApplicationStatus>(['draft', 'submitted', 'withdrawn']);
+const INTERVIEW_STATUSES = new Set<ApplicationStatus>(['interview_scheduled', 'interviewed', 'selected']);
+
+const TYPE_LABELS: Record<string, string> = {
+  internship: 'Internship',
+  placement: 'Placement',
+  apprenticeship: 'Apprenticeship',
+};
+
+const WORK_MODE_LABELS: Record<string, string> = {
+  remote: 'Remote',
+  hybrid: 'Hybrid',
+  onsite: 'Onsite',
+};
+
+// Below this many applications the rates are too noisy to nudge on
+const MIN_APPLICATIONS_FOR_RATES = 5;
+const LOW_RESPONSE_RATE = 0.2;
+const STRONG_PROFILE = 70;
+const MOMENTUM_DAYS = 14;
+
+const ratio = (part: number, whole: number) => (whole === 0 ? 0 : part / whole);
+
+const submitted = (applications: InsightApplication[]) => applications.filter((application) => application.status !== 'draft');
+
+const statusesOf = (application: InsightApplication): ApplicationStatus[] => [
+  application.status,
+  ...(application.application_status_history ?? []).map((change) => change.to_status),
+];
+
+const reachedInterview = (application: InsightApplication) =>
+  statusesOf(application).some((status) => INTERVIEW_STATUSES.has(status));
+
+const isOffer = (application: InsightApplication) => application.status === 'selected';
+
+/**
+ * When the company first acted on the application: the earliest change it made
+ * in the history, or the last status update for rows that predate the history.
+ */
+export const getFirstResponseAt = (application: InsightApplication): string | null => {
+  const companyMoves = (application.application_status_history ?? [])
+    .filter((change) => change.actor_type !== 'student' && !UNANSWERED_STATUSES.has(change.to_status))
+    .map((change) => change.changed_at)
+    .sort();
+  if (companyMoves.length > 0) return companyMoves[0];
+  return UNANSWERED_STATUSES.has(application.status) ? null : application.status_updated_at;
+};
+
+export const summarizeApplications = (applications: InsightApplication[]): ApplicationInsightsSummary => {
+  const sent = submitted(applications);
+  const responseTimes = sent
+    .map((application) => {
+      const respondedAt = getFirstResponseAt(application);
+      if (!respondedAt || !application.applied_date) return null;
+      return Math.max(0, new Date(respondedAt).getTime() - new Date(application.applied_date).getTime());
+    })
+    .filter((value): value is number => value !== null);
+  const responded = sent.filter((application) => getFirstResponseAt(application) !== null).length;
+
+  return {
+    applications: sent.length,
+    responded,
+    responseRate: ratio(responded, sent.length),
+    averageResponseMs:
+      responseTimes.length === 0 ? null : responseTimes.reduce((sum, value) => sum + value, 0) / responseTimes.length,
+    interviews: sent.filter(reachedInterview).length,
+    offers: sent.filter(isOffer).length,
+  };
+};
+
+const breakdownBy = (
+  applications: InsightApplication[],
+  keyOf: (application: InsightApplication) => string | null,
+  labelOf: (key: string) => string,
+): SuccessBreakdownRow[] => {
+  const groups = new Map<string, InsightApplication[]>();
+  submitted(applications).forEach((application) => {
+    const key = keyOf(application) ?? 'unknown';
+    groups.set(key, [...(groups.get(key) ?? []), application]);
+  });
+
+  return [...groups.entries()]
+    .map(([key, group]) => {
+      const offers = group.filter(isOffer).length;
+      return {
+        key,
+        label: key === 'unknown' ? 'Not specified' : labelOf(key),
+        applications: group.length,
+        interviews: group.filter(reachedInterview).length,
+        offers,
+        successRate: ratio(offers, group.length),
+      };
+    })
+    .sort((a, b) => b.applications - a.applications);
+};
+
+export const getSuccessByType = (applications: InsightApplication[]) =>
+  breakdownBy(applications, (application) => application.opportunities?.type ?? null, (key) => TYPE_LABELS[key] ?? key);
+
+export const getSuccessByWorkMode = (applications: InsightApplication[]) =>
+  breakdownBy(applications, (application) => application.opportunities?.work_mode ?? null, (key) => WORK_MODE_LABELS[key] ?? key);
+
+/** Applications sent in each of the last `weeks` weeks, oldest first, empty weeks included. */
+export const getWeeklyApplications = (
+  applications: InsightApplication[],
+  weeks = 12,
+  now: Date = new Date(),
+): WeeklyApplicationsPoint[] => {
+  const currentWeek = startOfWeek(now);
+  const points = Array.from({ length: weeks }, (_, index) => {
+    const weekStart = subWeeks(currentWeek, weeks - 1 - index);
+    return { weekStart: format(weekStart, 'yyyy-MM-dd'), label: format(weekStart, 'd MMM'), applications: 0 };
+  });
+  const byWeek = new Map(points.map((point) => [point.weekStart, point]));
+
+  submitted(applications).forEach((application) => {
+    if (!application.applied_date) return;
+    const point = byWeek.get(format(startOfWeek(new Date(application.applied_date)), 'yyyy-MM-dd'));
+    if (point) point.applications += 1;
+  });
+
+  return points;
+};
+
+/** Open applications with no status change for at least `days` days, longest wait first. */
+export const getStalledApplications = (
+  applications: InsightApplication[],
+  days: number,
+  now: Date = new Date(),
+): StalledApplication[] =>
+  applications
+    .filter((application) => AWAITING_STATUSES.has(application.status))
+    .map((application) => {
+      const lastChangeAt = application.status_updated_at ?? application.applied_date;
+      return lastChangeAt
+        ? {
+            applicationId: application.application_id,
+            title: application.opportunities?.title ?? 'Unknown Opportunity',
+            slug: application.opportunities?.slug ?? null,
+            status: application.status,
+            lastChangeAt,
+            daysStalled: differenceInCalendarDays(now, new Date(lastChangeAt)),
+          }
+        : null;
+    })
+    .filter((row): row is StalledApplication => row !== null && row.daysStalled >= days)
+    .sort((a, b) => b.daysStalled - a.daysStalled);
+
+/** A short list of things the student can do next, most pressing first. */
+export const getInsightNudges = (
+  applications: InsightApplication[],
+  options: { stalled: StalledApplication[]; profileStrength: number; now?: Date },
+): InsightNudge[] => {
+  const now = options.now ?? new Date();
+  const summary = summarizeApplications(applications);
+  const nudges: InsightNudge[] = [];
+
+  if (options.stalled.length > 0) {
+    nudges.push({
+      kind: 'follow_up',
+      message: `${options.stalled.length} ${options.stalled.length === 1 ? 'application has' : 'applications have'} had no update in a while. A polite follow-up can get things moving.`,
+      link: '/applications',
+      action: 'Review applications',
+    });
+  }
+
+  if (
+    summary.applications >= MIN_APPLICATIONS_FOR_RATES &&
+    summary.responseRate < LOW_RESPONSE_RATE &&
+    options.profileStrength < STRONG_PROFILE
+  ) {
+    nudges.push({
+      kind: 'profile',
+      message: `Only ${Math.round(summary.responseRate * 100)}% of your applications got a response. A stronger profile usually lifts that.`,
+      link: '/profile',
+      action: 'Improve profile',
+    });
+  }
+
+  const lastApplied = submitted(applications)
+    .map((application) => application.applied_date)
+    .filter((date): date is string => !!date)
+    .sort()
+    .pop();
+  if (!lastApplied || differenceInCalendarDays(now, new Date(lastApplied)) >= MOMENTUM_DAYS) {
+    nudges.push({
+      kind: 'momentum',
+      message: lastApplied
+        ? `You haven't applied anywhere in ${differenceInCalendarDays(now, new Date(lastApplied))} days. Keep your pipeline full.`
+        : 'Send your first application to start tracking your progress here.',
+      link: '/opportunities',
+      action: 'Browse opportunities',
+    });
+  }
+
+  const bestMode = getSuccessByWorkMode(applications)
+    .filter((row) => row.key !== 'unknown' && row.applications >= MIN_APPLICATIONS_FOR_RATES && row.offers > 0)
+    .sort((a, b) => b.successRate - a.successRate)[0];
+  if (bestMode) {
+    nudges.push({
+      kind: 'focus',
+      message: `${bestMode.label} roles convert best for you (${Math.round(bestMode.successRate * 100)}% offer rate). Consider prioritising them.`,
+      link: '/opportunities',
+      action: 'Find more',
+    });
+  }
+
+  return nudges;
+};
@@ -0,0 +1,183 @@
+import type { Application, ApplicationStatus, ApplicationStatusChange } from '../types';
+
+export type StatusActor = 'student' | 'company';
+
+export interface TransitionResult {
+  allowed: boolean;
+  reason: string | null;
+}
+
+export const APPLICATION_STATUSES: ApplicationStatus[] = [
+  'draft',
+  'submitted',
+  'under_review',
+  'shortlisted',
+  'interview_scheduled',
+  'interviewed',
+  'selected',
+  'rejected',
+  'withdrawn',
+];
+
+/**
+ * Legal moves through application_status_enum. Mirrors the
+ * enforce_application_status_transition trigger in the database.
+ */
+const ALLOWED_TRANSITIONS: Record<ApplicationStatus, ApplicationStatus[]> = {
+  draft: ['submitted', 'withdrawn'],
+  submitted: ['under_review', 'shortlisted', 'rejected', 'withdrawn'],
+  under_review: ['shortlisted', 'rejected', 'withdrawn'],
+  shortlisted: ['interview_scheduled', 'selected', 'rejected', 'withdrawn'],
+  interview_scheduled: ['shortlisted', 'interviewed', 'rejected', 'withdrawn'],
+  interviewed: ['interview_scheduled', 'selected', 'rejected', 'withdrawn'],
+  selected: ['withdrawn'],
+  rejected: [],
+  withdrawn: [],
+};
+
+const ACTOR_STATUSES: Record<StatusActor, Set<ApplicationStatus>> = {
+  student: new Set(['submitted', 'withdrawn']),
+  company: new Set(['under_review', 'shortlisted', 'interview_scheduled', 'interviewed', 'selected', 'rejected']),
+};
+
+export const TERMINAL_STATUSES = new Set<ApplicationStatus>(['rejected', 'withdrawn']);
+
+export const isApplicationStatus = (value: string | null | undefined): value is ApplicationStatus =>
+  typeof value === 'string' && (APPLICATION_STATUSES as string[]).includes(value);
+
+export const getAllowedTransitions = (
+  from: ApplicationStatus,
+  actor?: StatusActor,
+): ApplicationStatus[] => {
+  const targets = ALLOWED_TRANSITIONS[from] ?? [];
+  return actor ? targets.filter((status) => ACTOR_STATUSES[actor].has(status)) : targets;
+};
+
+export const canTransition = (
+  from: ApplicationStatus,
+  to: ApplicationStatus,
+  actor?: StatusActor,
+): TransitionResult => {
+  if (from === to) {
+    return { allowed: false, reason: 'Application is already in this stage.' };
+  }
+
+  if (!ALLOWED_TRANSITIONS[from]?.includes(to)) {
+    return {
+      allowed: false,
+      reason: `Cannot move an application from ${from.replace(/_/g, ' ')} to ${to.replace(/_/g, ' ')}.`,
+    };
+  }
+
+  if (actor && !ACTOR_STATUSES[actor].has(to)) {
+    return {
+      allowed: false,
+      reason: `Only the ${actor === 'company' ? 'student' : 'company'} can move an application to ${to.replace(/_/g, ' ')}.`,
+    };
+  }
+
+  return { allowed: true, reason: null };
+};
+
+/**
+ * Board lanes on the student tracker. Selected applications are split by the
+ * student's offer decision (`is_accepted`), which is not part of the status enum.
+ */
+export type TrackerLane = ApplicationStatus | 'offer_accepted' | 'offer_declined';
+
+export const getTrackerLane = (application: Pick<Application, 'status' | 'is_accepted'>): TrackerLane => {
+  if (application.status !== 'selected' || application.is_accepted == null) {
+    return application.status;
+  }
+  return application.is_accepted ? 'offer_accepted' : 'offer_declined';
+};
+
+const OFFER_LANES = new Set<TrackerLane>(['selected', 'offer_accepted', 'offer_declined']);
+
+export const canStudentMoveToLane = (
+  application: Pick<Application, 'status' | 'is_accepted'>,
+  lane: TrackerLane,
+): TransitionResult => {
+  const current = getTrackerLane(application);
+  if (current === lane) {
+    return { allowed: false, reason: 'Application is already in this stage.' };
+  }
+
+  if (lane === 'offer_accepted' || lane === 'offer_declined') {
+    return application.status === 'selected'
+      ? { allowed: true, reason: null }
+      : { allowed: false, reason: 'Only offers you have received can be accepted or declined.' };
+  }
+
+  // Moving back to the plain Selected lane just clears the offer decision
+  if (OFFER_LANES.has(current) && lane === 'selected') {
+    return { allowed: true, reason: null };
+  }
+
+  return canTransition(application.status, lane, 'student');
+};
+
+export interface StageDuration {
+  status: ApplicationStatus;
+  enteredAt: string;
+  exitedAt: string | null;
+  durationMs: number;
+}
+
+/**
+ * Splits one application's history into the stretches it spent in each stage.
+ * The last stage is still open, so it is measured up to `now`.
+ */
+export const getStageDurations = (
+  history: ApplicationStatusChange[],
+  now: Date = new Date(),
+): StageDuration[] => {
+  const ordered = [...history].sort(
+    (a, b) => new Date(a.changed_at).getTime() - new Date(b.changed_at).getTime(),
+  );
+
+  return ordered.map((change, index) => {
+    const next = ordered[index + 1];
+    const exitedAt = next?.changed_at ?? null;
+    const end = exitedAt ? new Date(exitedAt).getTime() : now.getTime();
+    return {
+      status: change.to_status,
+      enteredAt: change.changed_at,
+      exitedAt,
+      durationMs: Math.max(0, end - new Date(change.changed_at).getTime()),
+    };
+  });
+};
+
+/**
+ * Mean time spent in each non-terminal stage across many applications. Only
+ * completed stays count, so a stage someone just entered doesn't drag the mean down.
+ */
+export const getAverageTimeInStage = (
+  history: ApplicationStatusChange[],
+): Partial<Record<ApplicationStatus, number>> => {
+  const byApplication = new Map<string, ApplicationStatusChange[]>();
+  history.forEach((change) => {
+    const list = byApplication.get(change.application_id) ?? [];
+    list.push(change);
+    byApplication.set(change.application_id, list);
+  });
+
+  const totals = new Map<ApplicationStatus, { sum: number; count: number }>();
+  byApplication.forEach((changes) => {
+    getStageDurations(changes)
+      .filter((stage) => stage.exitedAt !== null)
+      .forEach((stage) => {
+        const entry = totals.get(stage.status) ?? { sum: 0, count: 0 };
+        entry.sum += stage.durationMs;
+        entry.count += 1;
+        totals.set(stage.status, entry);
+      });
+  });
+
+  const averages: Partial<Record<ApplicationStatus, number>> = {};
+  totals.forEach(({ sum, count }, status) => {
+    averages[status] = sum / count;
+  });
+  return averages;
+};
@@ -0,0 +1,210 @@
+import type { Interview, UpcomingInterview } from '../types';
+
+/**
+ * Minimal RFC 5545 (iCalendar) writer.
+ *
+ * Timed events are always written in UTC (`...Z`) so calendar apps convert them
+ * to the viewer's zone. Application deadlines are stored as plain `date` columns,
+ * so they are exported as all-day events without a zone at all.
+ */
+
+export interface CalendarEvent {
+  /** Must be stable across exports so re-imports update instead of duplicating. */
+  uid: string;
+  title: string;
+  start: Date | string;
+  end?: Date | string | null;
+  allDay?: boolean;
+  description?: string | null;
+  location?: string | null;
+  url?: string | null;
+  status?: 'CONFIRMED' | 'TENTATIVE' | 'CANCELLED';
+  lastModified?: Date | string | null;
+  /** Revision number; calendar apps ignore a re-import unless it went up. */
+  sequence?: number | null;
+}
+
+export interface DeadlineSource {
+  opportunity_id: string;
+  slug?: string | null;
+  title?: string | null;
+  company_name?: string | null;
+  application_deadline?: string | null;
+  /** Bumps the event's SEQUENCE, so a moved deadline replaces the imported one. */
+  updated_at?: string | null;
+}
+
+const PRODUCT_ID = '-//TrackIntern//Calendar Export//EN';
+const UID_DOMAIN = 'trackintern.app';
+const MAX_LINE_OCTETS = 75;
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// SEQUENCE is a 32-bit integer in most clients, so revisions count seconds from
+// a recent epoch rather than from 1970
+const SEQUENCE_EPOCH_MS = Date.UTC(2025, 0, 1);
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const toDate = (value: Date | string) => (value instanceof Date ? value : new Date(value));
+
+const formatUtcDateTime = (value: Date | string) => {
+  const date = toDate(value);
+  return (
+    `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+    `T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`
+  );
+};
+
+// Date-only strings are taken verbatim; parsing them with `new Date` would shift
+// the day for anyone west of UTC.
+const formatDateValue = (value: Date | string) => {
+  if (typeof value === 'string' && DATE_ONLY_PATTERN.test(value)) {
+    return value.replace(/-/g, '');
+  }
+  const date = toDate(value);
+  return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}`;
+};
+
+const nextDateValue = (value: Date | string) => {
+  const current = formatDateValue(value);
+  const year = Number(current.slice(0, 4));
+  const month = Number(current.slice(4, 6));
+  const day = Number(current.slice(6, 8));
+  const next = new Date(Date.UTC(year, month - 1, day + 1));
+  return `${next.getUTCFullYear()}${pad(next.getUTCMonth() + 1)}${pad(next.getUTCDate())}`;
+};
+
+const escapeText = (value: string) =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+// Lines longer than 75 octets must be folded with CRLF + a single space.
+// Splitting happens on code points so multi-byte characters are never cut.
+const foldLine = (line: string) => {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= MAX_LINE_OCTETS) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+
+  for (const char of line) {
+    const octets = encoder.encode(char).length;
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentOctets + octets > limit) {
+      parts.push(current);
+      current = '';
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+};
+
+const serializeEvent = (event: CalendarEvent, stamp: string) => {
+  const lines = ['BEGIN:VEVENT', `UID:${event.uid}`, `DTSTAMP:${stamp}`];
+
+  if (event.allDay) {
+    lines.push(`DTSTART;VALUE=DATE:${formatDateValue(event.start)}`);
+    lines.push(`DTEND;VALUE=DATE:${event.end ? formatDateValue(event.end) : nextDateValue(event.start)}`);
+  } else {
+    lines.push(`DTSTART:${formatUtcDateTime(event.start)}`);
+    if (event.end) lines.push(`DTEND:${formatUtcDateTime(event.end)}`);
+  }
+
+  lines.push(`SUMMARY:${escapeText(event.title)}`);
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+  if (event.url) lines.push(`URL:${event.url}`);
+  if (event.status) lines.push(`STATUS:${event.status}`);
+  if (event.sequence != null) lines.push(`SEQUENCE:${event.sequence}`);
+  if (event.lastModified) lines.push(`LAST-MODIFIED:${formatUtcDateTime(event.lastModified)}`);
+  lines.push('END:VEVENT');
+
+  return lines;
+};
+
+const toSequence = (updatedAt: string | null | undefined) => {
+  if (!updatedAt) return null;
+  const ms = new Date(updatedAt).getTime();
+  return Number.isNaN(ms) ? null : Math.max(0, Math.floor((ms - SEQUENCE_EPOCH_MS) / 1000));
+};
+
+export const buildCalendar = (events: CalendarEvent[], calendarName = 'TrackIntern') => {
+  const stamp = formatUtcDateTime(new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+    ...events.flatMap((event) => serializeEvent(event, stamp)),
+    'END:VCALENDAR',
+  ];
+
+  return `${lines.map(foldLine).join('\r\n')}\r\n`;
+};
+
+export const deadlineToEvent = (deadline: DeadlineSource): CalendarEvent | null => {
+  if (!deadline.application_deadline) return null;
+
+  const title = deadline.title || 'Opportunity';
+  const company = deadline.company_name ? ` at ${deadline.company_name}` : '';
+
+  return {
+    uid: `deadline-${deadline.opportunity_id}@${UID_DOMAIN}`,
+    title: `Apply: ${title}${company}`,
+    start: deadline.application_deadline.slice(0, 10),
+    allDay: true,
+    description: `Last day to apply for ${title}${company}.`,
+    url: `${window.location.origin}/opportunities/${deadline.slug ?? deadline.opportunity_id}`,
+    lastModified: deadline.updated_at,
+    sequence: toSequence(deadline.updated_at),
+  };
+};
+
+export const interviewToEvent = (interview: Interview | UpcomingInterview): CalendarEvent | null => {
+  if (!interview.scheduled_at) return null;
+
+  const start = new Date(interview.scheduled_at);
+  const end = new Date(start.getTime() + (interview.duration_minutes || 60) * 60000);
+  const context =
+    'opportunity_title' in interview ? ` – ${interview.opportunity_title} (${interview.company_name})` : '';
+  const details = [
+    `Round ${interview.round_number} (${interview.interview_type})`,
+    interview.interviewer_names?.length ? `Interviewers: ${interview.interviewer_names.join(', ')}` : null,
+    interview.notes,
+  ].filter(Boolean);
+
+  return {
+    uid: `interview-${interview.interview_id}@${UID_DOMAIN}`,
+    title: `Interview round ${interview.round_number}${context}`,
+    start,
+    end,
+    description: details.join('\n'),
+    location: interview.meeting_link,
+    url: interview.meeting_link,
+    status: interview.status === 'cancelled' ? 'CANCELLED' : 'CONFIRMED',
+    lastModified: interview.updated_at,
+    sequence: toSequence(interview.updated_at),
+  };
+};
+
+export const downloadCalendar = (filename: string, events: CalendarEvent[], calendarName?: string) => {
+  const blob = new Blob([buildCalendar(events, calendarName)], { type: 'text/calendar;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename.endsWith('.ics') ? filename : `${filename}.ics`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,127 @@
+import { z } from 'zod';
+import type { Company, CompanyCulture, CompanySize } from '../types';
+import { normalizeWebsite } from './onboarding';
+import { optionalNumber, stringList } from './opportunityForm';
+
+export const COMPANY_SIZES: { value: CompanySize; label: string }[] = [
+  { value: 'startup', label: 'Startup' },
+  { value: 'mid-size', label: 'Mid-size' },
+  { value: 'enterprise', label: 'Enterprise' },
+  { value: 'mnc', label: 'MNC' },
+];
+
+const COMPANY_SIZE_VALUES = COMPANY_SIZES.map((size) => size.value) as [CompanySize, ...CompanySize[]];
+
+export const EMPLOYEE_COUNT_RANGES = ['1-10', '11-50', '51-200', '201-1000', '1001-5000', '5000+'] as const;
+
+const optionalText = z.string().trim().transform((value) => value || null);
+
+// Bare domains are accepted and saved with a scheme
+const optionalUrl = (label: string) =>
+  z
+    .string()
+    .transform(normalizeWebsite)
+    .refine((value) => {
+      if (!value) return true;
+      try {
+        return Boolean(new URL(value).hostname.includes('.'));
+      } catch {
+        return false;
+      }
+    }, `${label} must be a valid link`)
+    .transform((value) => value || null);
+
+export const companySchema = z.object({
+  company_name: z.string().trim().min(2, 'Company name must be at least 2 characters').max(120, 'Company name is too long'),
+  company_description: optionalText,
+  industry: z.string().trim().min(2, 'Industry is required'),
+  company_size: z.enum(COMPANY_SIZE_VALUES, 'Pick a company size'),
+  headquarters_location: z.string().trim().min(2, 'Headquarters is required'),
+  website_url: optionalUrl('Website'),
+  linkedin_url: optionalUrl('LinkedIn page'),
+  logo_url: optionalText,
+  founded_year: optionalNumber('Founded year', { min: 1800, max: new Date().getFullYear() }),
+  employee_count_range: z.union([z.enum(EMPLOYEE_COUNT_RANGES), z.literal('')]).transform((value) => value || null),
+  tech_stack: stringList,
+  benefits_offered: stringList,
+  culture_summary: z.string().trim(),
+  culture_values: stringList,
+});
+
+export type CompanyFormInput = z.input<typeof companySchema>;
+export type CompanyFormValues = z.output<typeof companySchema>;
+
+/** Columns the settings page writes; ownership, verification and billing stay with the database. */
+export type CompanyPayload = Pick<
+  Company,
+  | 'company_name'
+  | 'company_description'
+  | 'industry'
+  | 'company_size'
+  | 'headquarters_location'
+  | 'website_url'
+  | 'linkedin_url'
+  | 'logo_url'
+  | 'founded_year'
+  | 'employee_count_range'
+  | 'tech_stack'
+  | 'benefits_offered'
+  | 'company_culture'
+>;
+
+const numberToInput = (value: number | null | undefined) => (value === null || value === undefined ? '' : String(value));
+
+const asStringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+
+/** Reads `company_culture` defensively; older rows hold `{}` or nothing. */
+export const parseCompanyCulture = (raw: unknown): CompanyCulture => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return {};
+  const record = raw as Record<string, unknown>;
+  return {
+    summary: typeof record.summary === 'string' ? record.summary : undefined,
+    values: asStringList(record.values),
+  };
+};
+
+export const toCompanyFormInput = (row: Company): CompanyFormInput => {
+  const culture = parseCompanyCulture(row.company_culture);
+  return {
+    company_name: row.company_name ?? '',
+    company_description: row.company_description ?? '',
+    industry: row.industry ?? '',
+    company_size: (COMPANY_SIZE_VALUES.includes(row.company_size as CompanySize) ? row.company_size : 'startup') as CompanySize,
+    headquarters_location: row.headquarters_location ?? '',
+    website_url: row.website_url ?? '',
+    linkedin_url: row.linkedin_url ?? '',
+    logo_url: row.logo_url ?? '',
+    founded_year: numberToInput(row.founded_year),
+    employee_count_range: EMPLOYEE_COUNT_RANGES.find((range) => range === row.employee_count_range) ?? '',
+    tech_stack: asStringList(row.tech_stack),
+    benefits_offered: asStringList(row.benefits_offered),
+    culture_summary: culture.summary ?? '',
+    culture_values: culture.values ?? [],
+  };
+};
+
+export const toCompanyPayload = (values: CompanyFormValues): CompanyPayload => {
+  const culture: CompanyCulture = {};
+  if (values.culture_summary) culture.summary = values.culture_summary;
+  if (values.culture_values.length > 0) culture.values = values.culture_values;
+
+  return {
+    company_name: values.company_name,
+    company_description: values.company_description,
+    industry: values.industry,
+    company_size: values.company_size,
+    headquarters_location: values.headquarters_location,
+    website_url: values.website_url,
+    linkedin_url: values.linkedin_url,
+    logo_url: values.logo_url,
+    founded_year: values.founded_year,
+    employee_count_range: values.employee_count_range,
+    tech_stack: values.tech_stack,
+    benefits_offered: values.benefits_offered,
+    company_culture: culture,
+  };
+};
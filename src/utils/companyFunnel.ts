@@ -0,0 +1,180 @@
+import { differenceInCalendarDays, eachDayOfInterval, eachWeekOfInterval, format, parseISO, startOfWeek } from 'date-fns';
+import type { ApplicationStatus, CompanyFunnelData, FunnelApplication, FunnelApplicationSource } from '../types';
+
+export type FunnelStageKey = 'viewed' | 'applied' | 'shortlisted' | 'interviewed' | 'offered';
+
+export const FUNNEL_STAGES: { key: FunnelStageKey; label: string }[] = [
+  { key: 'viewed', label: 'Views' },
+  { key: 'applied', label: 'Applied' },
+  { key: 'shortlisted', label: 'Shortlisted' },
+  { key: 'interviewed', label: 'Interviewed' },
+  { key: 'offered', label: 'Offers' },
+];
+
+export const FUNNEL_SOURCE_LABELS: Record<FunnelApplicationSource, string> = {
+  application_form: 'Application form',
+  quick_apply: 'Quick apply',
+  placement_cell: 'Placement cell nomination',
+  unknown: 'Not recorded',
+};
+
+export type FunnelCounts = Record<FunnelStageKey, number>;
+
+export interface FunnelStageRow {
+  key: FunnelStageKey;
+  label: string;
+  count: number;
+  /** Share of the previous stage that made it here, 0-1; null for the first stage. */
+  conversionRate: number | null;
+}
+
+export interface FunnelComparisonRow extends FunnelCounts {
+  opportunityId: string;
+  title: string;
+  status: string;
+  /** All-time unique daily views, regardless of the selected range. */
+  totalViews: number;
+  applyRate: number;
+  shortlistRate: number;
+  interviewRate: number;
+  offerRate: number;
+}
+
+export interface FunnelTrendPoint {
+  label: string;
+  views: number;
+  applications: number;
+}
+
+export interface FunnelSourceRow {
+  source: FunnelApplicationSource;
+  label: string;
+  applications: number;
+  offers: number;
+}
+
+// Each status maps to the furthest stage it proves the applicant reached
+const STATUS_STAGE: Partial<Record<ApplicationStatus, FunnelStageKey>> = {
+  submitted: 'applied',
+  under_review: 'applied',
+  shortlisted: 'shortlisted',
+  interview_scheduled: 'interviewed',
+  interviewed: 'interviewed',
+  selected: 'offered',
+};
+
+const STAGE_ORDER = FUNNEL_STAGES.map((stage) => stage.key);
+
+// Trends switch from daily to weekly points past this many days
+const DAILY_TREND_MAX_DAYS = 45;
+
+// company_funnel_report filters applied_date by UTC day, so trends bucket by the
+// same day; the viewer's local day would push some applications out of range
+const toUtcDay = (timestamp: string) => parseISO(new Date(timestamp).toISOString().slice(0, 10));
+
+const ratio = (part: number, whole: number) => (whole === 0 ? 0 : part / whole);
+
+const emptyCounts = (): FunnelCounts => ({ viewed: 0, applied: 0, shortlisted: 0, interviewed: 0, offered: 0 });
+
+/** Furthest stage across every status the application has held, so a later rejection doesn't erase progress. */
+export const getReachedStage = (application: FunnelApplication): FunnelStageKey => {
+  const statuses = [application.status, ...(application.statuses ?? [])];
+  return statuses.reduce<FunnelStageKey>((furthest, status) => {
+    const stage = STATUS_STAGE[status];
+    return stage && STAGE_ORDER.indexOf(stage) > STAGE_ORDER.indexOf(furthest) ? stage : furthest;
+  }, 'applied');
+};
+
+/** Counts per stage; each applicant is counted in every stage up to the one they reached. */
+export const countFunnel = (data: CompanyFunnelData, opportunityIds?: string[]): FunnelCounts => {
+  const included = (opportunityId: string) => !opportunityIds || opportunityIds.includes(opportunityId);
+  const counts = emptyCounts();
+
+  data.views.filter((row) => included(row.opportunity_id)).forEach((row) => {
+    counts.viewed += row.views;
+  });
+  data.applications.filter((application) => included(application.opportunity_id)).forEach((application) => {
+    const reached = STAGE_ORDER.indexOf(getReachedStage(application));
+    STAGE_ORDER.slice(1, reached + 1).forEach((stage) => {
+      counts[stage] += 1;
+    });
+  });
+
+  return counts;
+};
+
+export const getFunnelStages = (counts: FunnelCounts): FunnelStageRow[] =>
+  FUNNEL_STAGES.map((stage, index) => ({
+    ...stage,
+    count: counts[stage.key],
+    conversionRate: index === 0 ? null : ratio(counts[stage.key], counts[FUNNEL_STAGES[index - 1].key]),
+  }));
+
+/** One row per posting, most applications first. */
+export const getFunnelComparison = (data: CompanyFunnelData): FunnelComparisonRow[] =>
+  data.opportunities
+    .map((opportunity) => {
+      const counts = countFunnel(data, [opportunity.opportunity_id]);
+      return {
+        ...counts,
+        opportunityId: opportunity.opportunity_id,
+        title: opportunity.title,
+        status: opportunity.status,
+        totalViews: opportunity.view_count,
+        applyRate: ratio(counts.applied, counts.viewed),
+        shortlistRate: ratio(counts.shortlisted, counts.applied),
+        interviewRate: ratio(counts.interviewed, counts.shortlisted),
+        offerRate: ratio(counts.offered, counts.applied),
+      };
+    })
+    .sort((a, b) => b.applied - a.applied || b.viewed - a.viewed);
+
+/** Views and applications per day, or per week for long ranges, with empty periods filled in. */
+export const getFunnelTrend = (
+  data: CompanyFunnelData,
+  range: { from: string; to: string },
+  opportunityIds?: string[],
+): FunnelTrendPoint[] => {
+  const included = (opportunityId: string) => !opportunityIds || opportunityIds.includes(opportunityId);
+  const interval = { start: parseISO(range.from), end: parseISO(range.to) };
+  const weekly = differenceInCalendarDays(interval.end, interval.start) > DAILY_TREND_MAX_DAYS;
+  const bucketOf = (date: Date) => format(weekly ? startOfWeek(date) : date, 'yyyy-MM-dd');
+
+  const periods = weekly ? eachWeekOfInterval(interval) : eachDayOfInterval(interval);
+  const points = new Map<string, FunnelTrendPoint>(
+    periods.map((period) => [
+      format(period, 'yyyy-MM-dd'),
+      { label: format(period, weekly ? "'Wk of' d MMM" : 'd MMM'), views: 0, applications: 0 },
+    ]),
+  );
+
+  data.views.filter((row) => included(row.opportunity_id)).forEach((row) => {
+    const point = points.get(bucketOf(parseISO(row.day)));
+    if (point) point.views += row.views;
+  });
+  data.applications.filter((application) => included(application.opportunity_id)).forEach((application) => {
+    const point = points.get(bucketOf(toUtcDay(application.applied_date)));
+    if (point) point.applications += 1;
+  });
+
+  return [...points.values()];
+};
+
+export const getSourceBreakdown = (data: CompanyFunnelData, opportunityIds?: string[]): FunnelSourceRow[] => {
+  const rows = new Map<FunnelApplicationSource, FunnelSourceRow>();
+  data.applications
+    .filter((application) => !opportunityIds || opportunityIds.includes(application.opportunity_id))
+    .forEach((application) => {
+      const row = rows.get(application.source) ?? {
+        source: application.source,
+        label: FUNNEL_SOURCE_LABELS[application.source] ?? application.source,
+        applications: 0,
+        offers: 0,
+      };
+      row.applications += 1;
+      if (getReachedStage(application) === 'offered') row.offers += 1;
+      rows.set(application.source, row);
+    });
+
+  return [...rows.values()].sort((a, b) => b.applications - a.applications);
+};
@@ -0,0 +1,75 @@
+import type { CohortStudent, PlacementStatus } from '../types';
+import type { CsvColumn } from './csv';
+
+export interface CohortFilters {
+  search: string;
+  course: string;
+  yearOfStudy: number | null;
+  minCgpa: number | null;
+  placement: PlacementStatus | 'all';
+}
+
+export const EMPTY_COHORT_FILTERS: CohortFilters = {
+  search: '',
+  course: '',
+  yearOfStudy: null,
+  minCgpa: null,
+  placement: 'all',
+};
+
+export const PLACEMENT_STATUS_LABELS: Record<PlacementStatus, string> = {
+  placed: 'Placed',
+  offered: 'Offer pending',
+  interviewing: 'Interviewing',
+  applied: 'Applied',
+  not_applied: 'Not applied yet',
+};
+
+export const getPlacementStatus = (student: CohortStudent): PlacementStatus => {
+  if (student.accepted_offers_count > 0) return 'placed';
+  if (student.offers_count > 0) return 'offered';
+  if (student.interviewing_count > 0) return 'interviewing';
+  if (student.applications_count > 0) return 'applied';
+  return 'not_applied';
+};
+
+/** Distinct courses in the cohort, for the filter dropdown. */
+export const getCohortCourses = (students: CohortStudent[]): string[] =>
+  Array.from(new Set(students.map((s) => s.course?.trim()).filter((course): course is string => Boolean(course)))).sort();
+
+export const filterCohort = (students: CohortStudent[], filters: CohortFilters): CohortStudent[] => {
+  const search = filters.search.trim().toLowerCase();
+  return students.filter((student) => {
+    if (search && !`${student.full_name} ${student.email}`.toLowerCase().includes(search)) return false;
+    if (filters.course && student.course?.trim() !== filters.course) return false;
+    if (filters.yearOfStudy !== null && student.year_of_study !== filters.yearOfStudy) return false;
+    // Students without a CGPA can't be shown to meet a minimum
+    if (filters.minCgpa !== null && (student.cgpa === null || student.cgpa < filters.minCgpa)) return false;
+    if (filters.placement !== 'all' && getPlacementStatus(student) !== filters.placement) return false;
+    return true;
+  });
+};
+
+export const getCohortSummary = (students: CohortStudent[]): Record<PlacementStatus, number> & { total: number } => {
+  const summary = { total: students.length, placed: 0, offered: 0, interviewing: 0, applied: 0, not_applied: 0 };
+  students.forEach((student) => {
+    summary[getPlacementStatus(student)] += 1;
+  });
+  return summary;
+};
+
+export const COHORT_CSV_COLUMNS: CsvColumn<CohortStudent>[] = [
+  { header: 'Name', value: (s) => s.full_name },
+  { header: 'Email', value: (s) => s.email },
+  { header: 'Course', value: (s) => s.course },
+  { header: 'Specialization', value: (s) => s.specialization },
+  { header: 'Year', value: (s) => s.year_of_study },
+  { header: 'CGPA', value: (s) => s.cgpa },
+  { header: 'Expected graduation', value: (s) => s.expected_graduation },
+  { header: 'Placement status', value: (s) => PLACEMENT_STATUS_LABELS[getPlacementStatus(s)] },
+  { header: 'Applications', value: (s) => s.applications_count },
+  { header: 'Interviewing', value: (s) => s.interviewing_count },
+  { header: 'Offers', value: (s) => s.offers_count },
+  { header: 'Nominations', value: (s) => s.nominations_count },
+  { header: 'Last applied', value: (s) => s.last_applied_at?.slice(0, 10) },
+];
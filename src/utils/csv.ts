@@ -0,0 +1,31 @@
+export interface CsvColumn<Row> {
+  header: string;
+  value: (row: Row) => string | number | boolean | null | undefined;
+}
+
+// Spreadsheets run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const escapeCell = (value: string | number | boolean | null | undefined): string => {
+  if (value === null || value === undefined) return '';
+  // Text only, so negative numbers stay numbers
+  const text = typeof value === 'string' && FORMULA_PREFIX.test(value) ? `'${value}` : String(value);
+  // Quote anything a spreadsheet would otherwise split or mangle
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = <Row>(rows: Row[], columns: CsvColumn<Row>[]): string => {
+  const header = columns.map((column) => escapeCell(column.header)).join(',');
+  const lines = rows.map((row) => columns.map((column) => escapeCell(column.value(row))).join(','));
+  return [header, ...lines].join('\r\n');
+};
+
+/** Starts a browser download; the BOM makes Excel read UTF-8 names correctly. */
+export const downloadCsv = (filename: string, csv: string) => {
+  const url = URL.createObjectURL(new Blob(['\uFEFF', csv], { type: 'text/csv;charset=utf-8' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
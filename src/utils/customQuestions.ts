@@ -0,0 +1,126 @@
+import type { CustomQuestion, CustomQuestionAnswer, CustomQuestionType, JsonValue } from '../types';
+
+export const CUSTOM_QUESTION_TYPES: { value: CustomQuestionType; label: string }[] = [
+  { value: 'text', label: 'Short text' },
+  { value: 'textarea', label: 'Paragraph' },
+  { value: 'select', label: 'Dropdown' },
+  { value: 'radio', label: 'Single choice' },
+  { value: 'checkbox', label: 'Multiple choice' },
+  { value: 'number', label: 'Number' },
+  { value: 'url', label: 'Link' },
+  { value: 'file', label: 'File upload' },
+];
+
+export const QUESTION_TYPES_WITH_OPTIONS = new Set<CustomQuestionType>(['select', 'radio', 'checkbox']);
+
+const KNOWN_TYPES = new Set<string>(CUSTOM_QUESTION_TYPES.map((t) => t.value));
+
+export const createQuestionId = () => `q_${Math.random().toString(36).slice(2, 10)}`;
+
+const isUrl = (value: string) => {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Reads `additional_questions` defensively: older rows may hold plain strings
+ * or objects without ids, and anything unrecognisable is dropped.
+ */
+export const parseCustomQuestions = (raw: JsonValue | CustomQuestion[] | null | undefined): CustomQuestion[] => {
+  if (!Array.isArray(raw)) return [];
+
+  return raw.flatMap((item, index): CustomQuestion[] => {
+    if (typeof item === 'string') {
+      return item.trim() ? [{ id: `q_${index}`, question: item.trim(), type: 'text', required: false }] : [];
+    }
+    if (!item || typeof item !== 'object' || Array.isArray(item)) return [];
+
+    const record = item as Record<string, unknown>;
+    const question = typeof record.question === 'string' ? record.question.trim() : '';
+    if (!question) return [];
+
+    const type = typeof record.type === 'string' && KNOWN_TYPES.has(record.type) ? (record.type as CustomQuestionType) : 'text';
+    const options = Array.isArray(record.options)
+      ? record.options.filter((o): o is string => typeof o === 'string' && o.trim().length > 0)
+      : undefined;
+
+    return [
+      {
+        id: typeof record.id === 'string' && record.id ? record.id : `q_${index}`,
+        question,
+        type,
+        required: Boolean(record.required),
+        ...(QUESTION_TYPES_WITH_OPTIONS.has(type) ? { options: options ?? [] } : {}),
+      },
+    ];
+  });
+};
+
+const isEmptyAnswer = (answer: CustomQuestionAnswer | undefined) =>
+  answer === undefined ||
+  (typeof answer === 'string' && answer.trim() === '') ||
+  (Array.isArray(answer) && answer.length === 0);
+
+/** Returns an error message for one answer, or null when it is acceptable. */
+export const validateCustomQuestionAnswer = (question: CustomQuestion, answer: CustomQuestionAnswer | undefined): string | null => {
+  if (isEmptyAnswer(answer)) {
+    return question.required ? 'This question is required.' : null;
+  }
+
+  const options = question.options ?? [];
+
+  switch (question.type) {
+    case 'number':
+      return Number.isFinite(Number(answer)) && !Array.isArray(answer) ? null : 'Enter a number.';
+    case 'url':
+    case 'file':
+      return typeof answer === 'string' && isUrl(answer.trim()) ? null : 'Enter a valid link starting with http(s)://.';
+    case 'select':
+    case 'radio':
+      return typeof answer === 'string' && options.includes(answer) ? null : 'Choose one of the listed options.';
+    case 'checkbox':
+      return Array.isArray(answer) && answer.every((a) => options.includes(a)) ? null : 'Choose from the listed options.';
+    default:
+      return typeof answer === 'string' ? null : 'Enter a text answer.';
+  }
+};
+
+export const validateCustomQuestionAnswers = (
+  questions: CustomQuestion[],
+  answers: Record<string, CustomQuestionAnswer>,
+): Record<string, string> =>
+  questions.reduce<Record<string, string>>((errors, question) => {
+    const error = validateCustomQuestionAnswer(question, answers[question.id]);
+    if (error) errors[question.id] = error;
+    return errors;
+  }, {});
+
+/** Shapes answers for `answers_to_questions`: known questions only, trimmed, numbers as numbers. */
+export const normalizeCustomQuestionAnswers = (
+  questions: CustomQuestion[],
+  answers: Record<string, CustomQuestionAnswer>,
+): Record<string, JsonValue> =>
+  questions.reduce<Record<string, JsonValue>>((normalized, question) => {
+    const answer = answers[question.id];
+    if (isEmptyAnswer(answer)) return normalized;
+
+    if (question.type === 'number') {
+      normalized[question.id] = Number(answer);
+    } else if (Array.isArray(answer)) {
+      normalized[question.id] = answer;
+    } else {
+      normalized[question.id] = String(answer).trim();
+    }
+    return normalized;
+  }, {});
+
+export const formatCustomQuestionAnswer = (answer: JsonValue | undefined): string => {
+  if (answer === undefined || answer === null || answer === '') return '';
+  if (Array.isArray(answer)) return answer.join(', ');
+  if (typeof answer === 'object') return JSON.stringify(answer);
+  return String(answer);
+};
@@ -0,0 +1,182 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateEligibility, getFailedChecks, parseEligibilityCriteria } from './eligibility';
+import type { EligibilityStudent } from './eligibility';
+
+const student: EligibilityStudent = {
+  cgpa: 8.2,
+  course: 'B.Tech',
+  year_of_study: 3,
+  expected_graduation: '2026-06-15',
+  skills: ['React', 'TypeScript', 'SQL'],
+};
+
+const checkFor = (result: ReturnType<typeof evaluateEligibility>, rule: string) =>
+  result.checks.find((check) => check.rule === rule);
+
+describe('evaluateEligibility', () => {
+  it('treats an opportunity without criteria as open to everyone', () => {
+    expect(evaluateEligibility(null, student)).toEqual({ eligible: true, checks: [] });
+    expect(evaluateEligibility({}, null)).toEqual({ eligible: true, checks: [] });
+  });
+
+  describe('min_cgpa', () => {
+    it('passes at or above the minimum', () => {
+      expect(checkFor(evaluateEligibility({ min_cgpa: 8.2 }, student), 'min_cgpa')?.passed).toBe(true);
+    });
+
+    it('fails below the minimum', () => {
+      const result = evaluateEligibility({ min_cgpa: 9 }, student);
+      expect(result.eligible).toBe(false);
+      expect(checkFor(result, 'min_cgpa')?.reason).toContain('yours is 8.2');
+    });
+
+    it('reads a CGPA stored as a string', () => {
+      expect(evaluateEligibility({ min_cgpa: 7 }, { ...student, cgpa: '7.5' }).eligible).toBe(true);
+    });
+
+    it('fails when the profile has no CGPA', () => {
+      const result = evaluateEligibility({ min_cgpa: 7 }, { ...student, cgpa: null });
+      expect(result.eligible).toBe(false);
+      expect(checkFor(result, 'min_cgpa')?.reason).toContain('Add your CGPA');
+    });
+  });
+
+  describe('allowed_courses', () => {
+    it('matches courses case-insensitively', () => {
+      expect(evaluateEligibility({ allowed_courses: ['b.tech ', 'M.Tech'] }, student).eligible).toBe(true);
+    });
+
+    it('fails for a course not on the list', () => {
+      const result = evaluateEligibility({ allowed_courses: ['MBA'] }, student);
+      expect(result.eligible).toBe(false);
+      expect(checkFor(result, 'allowed_courses')?.reason).toContain("you're in B.Tech");
+    });
+
+    it('fails when the profile has no course', () => {
+      const result = evaluateEligibility({ allowed_courses: ['B.Tech'] }, { ...student, course: '  ' });
+      expect(result.eligible).toBe(false);
+      expect(checkFor(result, 'allowed_courses')?.reason).toContain('Add your course');
+    });
+  });
+
+  describe('allowed_years', () => {
+    it('passes for a listed year', () => {
+      const result = evaluateEligibility({ allowed_years: [4, 3] }, student);
+      expect(result.eligible).toBe(true);
+      expect(checkFor(result, 'allowed_years')?.label).toBe('Year 3/4');
+    });
+
+    it('fails for a year not on the list', () => {
+      expect(evaluateEligibility({ allowed_years: [4] }, student).eligible).toBe(false);
+    });
+
+    it('fails when the profile has no year of study', () => {
+      const result = evaluateEligibility({ allowed_years: [3] }, { ...student, year_of_study: '' });
+      expect(result.eligible).toBe(false);
+      expect(checkFor(result, 'allowed_years')?.reason).toContain('Add your year of study');
+    });
+  });
+
+  describe('graduation_window', () => {
+    it('passes inside a closed window, bounds included', () => {
+      expect(
+        evaluateEligibility({ graduation_after: '2026-06-15', graduation_before: '2026-12-31' }, student).eligible,
+      ).toBe(true);
+    });
+
+    it('checks an open-ended window against its one bound', () => {
+      expect(evaluateEligibility({ graduation_after: '2027-01-01' }, student).eligible).toBe(false);
+      expect(evaluateEligibility({ graduation_before: '2026-01-01' }, student).eligible).toBe(false);
+      expect(evaluateEligibility({ graduation_before: '2026-07-01' }, student).eligible).toBe(true);
+    });
+
+    it('ignores the time part of a timestamp', () => {
+      const result = evaluateEligibility(
+        { graduation_before: '2026-06-15' },
+        { ...student, expected_graduation: '2026-06-15T18:30:00Z' },
+      );
+      expect(result.eligible).toBe(true);
+    });
+
+    it('fails when the profile has no expected graduation', () => {
+      const result = evaluateEligibility({ graduation_after: '2026-01-01' }, { ...student, expected_graduation: null });
+      expect(result.eligible).toBe(false);
+      expect(checkFor(result, 'graduation_window')?.reason).toContain('Add your expected graduation');
+    });
+  });
+
+  describe('required_skills', () => {
+    it('passes when every skill is listed, ignoring case', () => {
+      expect(evaluateEligibility({ required_skills: ['react', 'sql'] }, student).eligible).toBe(true);
+    });
+
+    it('names only the missing skills', () => {
+      const result = evaluateEligibility({ required_skills: ['React', 'Docker', 'Go'] }, student);
+      expect(result.eligible).toBe(false);
+      expect(checkFor(result, 'required_skills')?.label).toBe('Docker, Go');
+    });
+
+    it('fails when the profile lists no skills', () => {
+      const result = evaluateEligibility({ required_skills: ['React'] }, { ...student, skills: null });
+      expect(result.eligible).toBe(false);
+      expect(checkFor(result, 'required_skills')?.label).toBe('React');
+    });
+  });
+
+  it('fails every rule for a student with no profile yet', () => {
+    const result = evaluateEligibility(
+      {
+        min_cgpa: 6,
+        allowed_courses: ['B.Tech'],
+        allowed_years: [3],
+        graduation_before: '2027-01-01',
+        required_skills: ['React'],
+      },
+      null,
+    );
+    expect(result.eligible).toBe(false);
+    expect(result.checks.map((check) => check.rule)).toEqual([
+      'min_cgpa',
+      'allowed_courses',
+      'allowed_years',
+      'graduation_window',
+      'required_skills',
+    ]);
+    expect(getFailedChecks(result)).toHaveLength(5);
+  });
+
+  it('is eligible only when every rule passes', () => {
+    const result = evaluateEligibility({ min_cgpa: 7, allowed_years: [4] }, student);
+    expect(result.eligible).toBe(false);
+    expect(getFailedChecks(result).map((check) => check.rule)).toEqual(['allowed_years']);
+  });
+});
+
+describe('parseEligibilityCriteria', () => {
+  it('drops malformed values from rows written before the editor existed', () => {
+    expect(
+      parseEligibilityCriteria({
+        min_cgpa: 'seven',
+        allowed_courses: ['B.Tech', 42, ''],
+        allowed_years: ['3', 'x'],
+        graduation_after: '',
+        required_skills: 'React',
+      }),
+    ).toEqual({ allowed_courses: ['B.Tech'], allowed_years: [3] });
+  });
+
+  it('reads numbers stored as strings and skips blank or non-numeric entries', () => {
+    expect(
+      parseEligibilityCriteria({
+        min_cgpa: ' 7.5 ',
+        allowed_years: ['3', 4, ' ', true, null, '2.5'],
+      }),
+    ).toEqual({ min_cgpa: 7.5, allowed_years: [3, 4] });
+    expect(parseEligibilityCriteria({ min_cgpa: ' ' })).toEqual({});
+  });
+
+  it('returns no rules for non-object criteria', () => {
+    expect(parseEligibilityCriteria(['min_cgpa'])).toEqual({});
+    expect(parseEligibilityCriteria('open to all')).toEqual({});
+  });
+});
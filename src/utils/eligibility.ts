@@ -0,0 +1,153 @@
+import type { EligibilityCheck, EligibilityCriteria, EligibilityResult, JsonValue } from '../types';
+
+/** The profile fields the rules read. Everything is optional so store snapshots can be passed as-is. */
+export interface EligibilityStudent {
+  cgpa?: number | string | null;
+  course?: string | null;
+  year_of_study?: number | string | null;
+  expected_graduation?: string | null;
+  skills?: string[] | null;
+}
+
+const normalize = (value: string) => value.trim().toLowerCase();
+
+const toNumber = (value: number | string | null | undefined): number | null => {
+  if (value === null || value === undefined || String(value).trim() === '') return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+const asNumber = (value: unknown): number | null =>
+  typeof value === 'number' || typeof value === 'string' ? toNumber(value) : null;
+
+const formatMonth = (date: string) =>
+  new Date(`${date.slice(0, 10)}T00:00:00`).toLocaleDateString('en-IN', { month: 'short', year: 'numeric' });
+
+const asStringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && item.trim().length > 0) : [];
+
+/**
+ * Reads `eligibility_criteria` defensively; rows written before the editor
+ * existed may hold anything.
+ */
+export const parseEligibilityCriteria = (raw: JsonValue | EligibilityCriteria | null | undefined): EligibilityCriteria => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return {};
+  const record = raw as Record<string, unknown>;
+  const criteria: EligibilityCriteria = {};
+
+  // Numbers may be stored as strings ("7.5", "3"); the eligibility trigger reads them the same way
+  const minCgpa = asNumber(record.min_cgpa);
+  if (minCgpa !== null) criteria.min_cgpa = minCgpa;
+
+  const courses = asStringList(record.allowed_courses);
+  if (courses.length > 0) criteria.allowed_courses = courses;
+
+  const years = Array.isArray(record.allowed_years)
+    ? record.allowed_years.map(asNumber).filter((y): y is number => y !== null && Number.isInteger(y))
+    : [];
+  if (years.length > 0) criteria.allowed_years = years;
+
+  if (typeof record.graduation_after === 'string' && record.graduation_after) criteria.graduation_after = record.graduation_after;
+  if (typeof record.graduation_before === 'string' && record.graduation_before) criteria.graduation_before = record.graduation_before;
+
+  const skills = asStringList(record.required_skills);
+  if (skills.length > 0) criteria.required_skills = skills;
+
+  return criteria;
+};
+
+const checkMinCgpa = (minCgpa: number, student: EligibilityStudent): EligibilityCheck => {
+  const cgpa = toNumber(student.cgpa);
+  const label = `CGPA ${minCgpa}+`;
+  if (cgpa === null) {
+    return { rule: 'min_cgpa', passed: false, label, reason: `Requires a CGPA of at least ${minCgpa}. Add your CGPA to your profile.` };
+  }
+  return cgpa >= minCgpa
+    ? { rule: 'min_cgpa', passed: true, label, reason: `Your CGPA of ${cgpa} meets the ${minCgpa} minimum.` }
+    : { rule: 'min_cgpa', passed: false, label, reason: `Requires a CGPA of at least ${minCgpa} (yours is ${cgpa}).` };
+};
+
+const checkCourse = (courses: string[], student: EligibilityStudent): EligibilityCheck => {
+  const label = courses.join(' / ');
+  if (!student.course?.trim()) {
+    return { rule: 'allowed_courses', passed: false, label, reason: `Open to ${label}. Add your course to your profile.` };
+  }
+  const passed = courses.some((course) => normalize(course) === normalize(student.course ?? ''));
+  return {
+    rule: 'allowed_courses',
+    passed,
+    label,
+    reason: passed ? `Open to ${student.course} students.` : `Open to ${label} only (you're in ${student.course}).`,
+  };
+};
+
+const checkYear = (years: number[], student: EligibilityStudent): EligibilityCheck => {
+  const sorted = [...years].sort((a, b) => a - b);
+  const label = `Year ${sorted.join('/')}`;
+  const year = toNumber(student.year_of_study);
+  if (year === null) {
+    return { rule: 'allowed_years', passed: false, label, reason: `Open to ${label} students. Add your year of study to your profile.` };
+  }
+  return sorted.includes(year)
+    ? { rule: 'allowed_years', passed: true, label, reason: `Open to year ${year} students.` }
+    : { rule: 'allowed_years', passed: false, label, reason: `Open to ${label} students (you're in year ${year}).` };
+};
+
+const checkGraduation = (after: string | null | undefined, before: string | null | undefined, student: EligibilityStudent): EligibilityCheck => {
+  const window =
+    after && before
+      ? `between ${formatMonth(after)} and ${formatMonth(before)}`
+      : after
+        ? `from ${formatMonth(after)}`
+        : `by ${formatMonth(before as string)}`;
+  const label = `Graduating ${window}`;
+  const graduation = student.expected_graduation?.slice(0, 10);
+  if (!graduation) {
+    return { rule: 'graduation_window', passed: false, label, reason: `For students graduating ${window}. Add your expected graduation to your profile.` };
+  }
+  // ISO dates compare correctly as strings
+  const passed = (!after || graduation >= after.slice(0, 10)) && (!before || graduation <= before.slice(0, 10));
+  return {
+    rule: 'graduation_window',
+    passed,
+    label,
+    reason: passed
+      ? `Your expected graduation (${formatMonth(graduation)}) is in the window.`
+      : `For students graduating ${window} (you graduate ${formatMonth(graduation)}).`,
+  };
+};
+
+const checkSkills = (skills: string[], student: EligibilityStudent): EligibilityCheck => {
+  const owned = new Set((student.skills ?? []).map(normalize));
+  const missing = skills.filter((skill) => !owned.has(normalize(skill)));
+  return missing.length === 0
+    ? { rule: 'required_skills', passed: true, label: skills.join(', '), reason: 'You have every must-have skill.' }
+    : { rule: 'required_skills', passed: false, label: missing.join(', '), reason: `Add these skills to your profile: ${missing.join(', ')}.` };
+};
+
+/**
+ * Runs every rule the opportunity sets against the student's profile. Rules
+ * left blank are skipped, so an opportunity with no criteria is open to all.
+ * Missing profile data fails the rule rather than passing it silently.
+ */
+export const evaluateEligibility = (
+  raw: JsonValue | EligibilityCriteria | null | undefined,
+  student: EligibilityStudent | null,
+): EligibilityResult => {
+  const criteria = parseEligibilityCriteria(raw);
+  const profile = student ?? {};
+  const checks: EligibilityCheck[] = [];
+
+  if (criteria.min_cgpa !== undefined && criteria.min_cgpa !== null) checks.push(checkMinCgpa(criteria.min_cgpa, profile));
+  if (criteria.allowed_courses?.length) checks.push(checkCourse(criteria.allowed_courses, profile));
+  if (criteria.allowed_years?.length) checks.push(checkYear(criteria.allowed_years, profile));
+  if (criteria.graduation_after || criteria.graduation_before) {
+    checks.push(checkGraduation(criteria.graduation_after, criteria.graduation_before, profile));
+  }
+  if (criteria.required_skills?.length) checks.push(checkSkills(criteria.required_skills, profile));
+
+  return { eligible: checks.every((check) => check.passed), checks };
+};
+
+export const getFailedChecks = (result: EligibilityResult | null | undefined): EligibilityCheck[] =>
+  result ? result.checks.filter((check) => !check.passed) : [];
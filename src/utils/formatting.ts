@@ -277,4 +277,24 @@ export const getStatusColor = (status: string | null | undefined): string => {
 
   const key = status.toLowerCase();
   return STATUS_COLOR_MAP[key] ?? 'bg-gray-100 text-gray-800';
+};
+
+export const formatElapsed = (milliseconds: number | null | undefined): string => {
+  if (milliseconds === null || milliseconds === undefined || Number.isNaN(milliseconds)) {
+    return NO_VALUE_TEXT;
+  }
+
+  const totalHours = Math.floor(milliseconds / (1000 * 60 * 60));
+  if (totalHours < 1) {
+    return '<1h';
+  }
+
+  const days = Math.floor(totalHours / 24);
+  const hours = totalHours % 24;
+
+  if (days === 0) {
+    return `${hours}h`;
+  }
+
+  return hours > 0 && days < 7 ? `${days}d ${hours}h` : `${days}d`;
 };
\ No newline at end of file
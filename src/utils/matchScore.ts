@@ -0,0 +1,161 @@
+import type { JsonValue, MatchFactor, MatchFactorScore, MatchScore, SkillMasterEntry } from '../types';
+
+/** Profile fields the score reads; matches what the auth store keeps for students. */
+export interface MatchStudent {
+  skills?: string[] | null;
+  preferred_locations?: string[] | null;
+  expected_salary_min?: number | null;
+}
+
+export interface MatchOpportunity {
+  required_skills?: JsonValue | null;
+  preferred_skills?: JsonValue | null;
+  location?: JsonValue | null;
+  work_mode?: string | null;
+  stipend_min?: number | null;
+  stipend_max?: number | null;
+}
+
+/** skill (lowercased) -> related skills (lowercased), in both directions. */
+export type RelatedSkillIndex = Map<string, Set<string>>;
+
+const FACTOR_WEIGHTS: Record<MatchFactor, number> = {
+  required_skills: 50,
+  preferred_skills: 20,
+  location: 15,
+  stipend: 15,
+};
+
+// A related skill (e.g. Vue for a React role) is worth half an exact match
+const RELATED_SKILL_CREDIT = 0.5;
+
+const normalize = (value: string) => value.trim().toLowerCase();
+
+const toStringList = (value: JsonValue | string[] | null | undefined): string[] => {
+  if (typeof value === 'string') return value.split(',').map((item) => item.trim()).filter(Boolean);
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((item) => {
+    if (typeof item === 'string') return item.trim() ? [item.trim()] : [];
+    // Older rows store locations as {city: ...}
+    if (item && typeof item === 'object' && !Array.isArray(item) && typeof item.city === 'string') return [item.city];
+    return [];
+  });
+};
+
+export const buildRelatedSkillIndex = (skills: SkillMasterEntry[]): RelatedSkillIndex => {
+  const index: RelatedSkillIndex = new Map();
+  const link = (a: string, b: string) => {
+    const set = index.get(a) ?? new Set<string>();
+    set.add(b);
+    index.set(a, set);
+  };
+  skills.forEach((entry) => {
+    const name = normalize(entry.skill_name);
+    (entry.related_skills ?? []).forEach((related) => {
+      if (typeof related !== 'string' || !related.trim()) return;
+      link(name, normalize(related));
+      link(normalize(related), name);
+    });
+  });
+  return index;
+};
+
+const scoreSkills = (
+  factor: 'required_skills' | 'preferred_skills',
+  wanted: string[],
+  owned: Set<string>,
+  related: RelatedSkillIndex,
+): MatchFactorScore | null => {
+  if (wanted.length === 0) return null;
+
+  const exact: string[] = [];
+  const partial: string[] = [];
+  wanted.forEach((skill) => {
+    const key = normalize(skill);
+    if (owned.has(key)) {
+      exact.push(skill);
+    } else if ([...(related.get(key) ?? [])].some((r) => owned.has(r))) {
+      partial.push(skill);
+    }
+  });
+
+  const credit = (exact.length + partial.length * RELATED_SKILL_CREDIT) / wanted.length;
+  const noun = factor === 'required_skills' ? 'required' : 'preferred';
+  const detail =
+    `${exact.length} of ${wanted.length} ${noun} skills` +
+    (partial.length > 0 ? `, related experience in ${partial.join(', ')}` : '');
+
+  return { factor, earned: credit * FACTOR_WEIGHTS[factor], weight: FACTOR_WEIGHTS[factor], detail };
+};
+
+const scoreLocation = (opportunity: MatchOpportunity, student: MatchStudent): MatchFactorScore | null => {
+  const weight = FACTOR_WEIGHTS.location;
+  if ((opportunity.work_mode ?? '').toLowerCase() === 'remote') {
+    return { factor: 'location', earned: weight, weight, detail: 'Remote, so location does not matter' };
+  }
+
+  const locations = toStringList(opportunity.location);
+  const preferred = (student.preferred_locations ?? []).map(normalize).filter(Boolean);
+  if (locations.length === 0 || preferred.length === 0) return null;
+
+  const match = locations.find((location) => preferred.some((p) => normalize(location).includes(p) || p.includes(normalize(location))));
+  if (match) {
+    return { factor: 'location', earned: weight, weight, detail: `In ${match}, one of your preferred locations` };
+  }
+  // Hybrid roles only need you on site part of the week, so a mismatch hurts less
+  const earned = (opportunity.work_mode ?? '').toLowerCase() === 'hybrid' ? weight / 3 : 0;
+  return { factor: 'location', earned, weight, detail: `Based in ${locations.join(', ')}, outside your preferred locations` };
+};
+
+const scoreStipend = (opportunity: MatchOpportunity, student: MatchStudent): MatchFactorScore | null => {
+  const expected = student.expected_salary_min;
+  const offered = opportunity.stipend_max ?? opportunity.stipend_min;
+  if (!expected || offered === null || offered === undefined) return null;
+
+  const weight = FACTOR_WEIGHTS.stipend;
+  if (offered >= expected) {
+    return { factor: 'stipend', earned: weight, weight, detail: 'Meets your expected stipend' };
+  }
+  return {
+    factor: 'stipend',
+    earned: Math.max(0, offered / expected) * weight,
+    weight,
+    detail: `Pays up to ${offered}, below your expected ${expected}`,
+  };
+};
+
+/**
+ * Scores how well an opportunity fits a student. The compute_match_score SQL
+ * function mirrors this for the application_score stored on each application. Factors that can't be judged
+ * (no skills listed, no location preference, ...) are left out and the rest are
+ * rescaled, so a sparse profile isn't punished for what it doesn't say.
+ */
+export const computeMatchScore = (
+  opportunity: MatchOpportunity,
+  student: MatchStudent | null,
+  related: RelatedSkillIndex = new Map(),
+): MatchScore => {
+  const profile = student ?? {};
+  const owned = new Set((profile.skills ?? []).filter((s): s is string => typeof s === 'string').map(normalize));
+
+  const factors = [
+    scoreSkills('required_skills', toStringList(opportunity.required_skills), owned, related),
+    scoreSkills('preferred_skills', toStringList(opportunity.preferred_skills), owned, related),
+    scoreLocation(opportunity, profile),
+    scoreStipend(opportunity, profile),
+  ].filter((factor): factor is MatchFactorScore => factor !== null);
+
+  const possible = factors.reduce((sum, factor) => sum + factor.weight, 0);
+  const earned = factors.reduce((sum, factor) => sum + factor.earned, 0);
+
+  return {
+    score: possible === 0 ? 0 : Math.round((earned / possible) * 100),
+    factors,
+  };
+};
+
+/** The factor that helped the most, for a one-line "why this was recommended". */
+export const getTopMatchReason = (match: MatchScore): string | null => {
+  const best = [...match.factors].sort((a, b) => b.earned / b.weight - a.earned / a.weight || b.weight - a.weight)[0];
+  return best && best.earned > 0 ? best.detail : null;
+};
@@ -0,0 +1,86 @@
+import type { CompanyOnboardingStep, OnboardingStepInfo, StudentOnboardingStep, UserType } from '../types';
+
+/** Student fields onboarding fills in; matches what the auth store keeps. */
+export interface OnboardingStudent {
+  college_name?: string | null;
+  course?: string | null;
+  year_of_study?: number | null;
+  skills?: string[] | null;
+  resume_url?: string | null;
+}
+
+/** Company fields onboarding fills in; matches what the auth store keeps. */
+export interface OnboardingCompany {
+  company_name?: string | null;
+  industry?: string | null;
+  company_size?: string | null;
+  headquarters_location?: string | null;
+  website_url?: string | null;
+  logo_url?: string | null;
+}
+
+export const STUDENT_ONBOARDING_STEPS: OnboardingStepInfo<StudentOnboardingStep>[] = [
+  { id: 'education', title: 'Education', description: 'Where and what you study.', optional: false },
+  { id: 'skills', title: 'Skills', description: 'What you can bring to a team.', optional: false },
+  { id: 'resume', title: 'Resume', description: 'Companies see this when you apply.', optional: false },
+];
+
+export const COMPANY_ONBOARDING_STEPS: OnboardingStepInfo<CompanyOnboardingStep>[] = [
+  { id: 'company', title: 'Company', description: 'Who you are and how big you are.', optional: false },
+  { id: 'presence', title: 'Location & Website', description: 'Where students can find you.', optional: false },
+  { id: 'logo', title: 'Logo', description: 'Shown next to every opportunity you post.', optional: true },
+];
+
+const filled = (value: string | null | undefined) => Boolean(value?.trim());
+
+const studentStepDone: Record<StudentOnboardingStep, (student: OnboardingStudent) => boolean> = {
+  education: (s) => filled(s.college_name) && filled(s.course) && Boolean(s.year_of_study),
+  skills: (s) => (s.skills ?? []).some((skill) => typeof skill === 'string' && filled(skill)),
+  resume: (s) => filled(s.resume_url),
+};
+
+const companyStepDone: Record<CompanyOnboardingStep, (company: OnboardingCompany) => boolean> = {
+  company: (c) => filled(c.company_name) && filled(c.industry) && filled(c.company_size),
+  presence: (c) => filled(c.headquarters_location) && filled(c.website_url),
+  logo: (c) => filled(c.logo_url),
+};
+
+/** Required steps the student still has to finish, in wizard order. A missing row needs all of them. */
+export const getPendingStudentSteps = (student: OnboardingStudent | null): StudentOnboardingStep[] =>
+  STUDENT_ONBOARDING_STEPS.filter((step) => !step.optional && !(student && studentStepDone[step.id](student))).map((step) => step.id);
+
+export const getPendingCompanySteps = (company: OnboardingCompany | null): CompanyOnboardingStep[] =>
+  COMPANY_ONBOARDING_STEPS.filter((step) => !step.optional && !(company && companyStepDone[step.id](company))).map((step) => step.id);
+
+/**
+ * Whether routing should hold the user on /onboarding. Accounts without a
+ * known role are let through; there is no wizard to send them to.
+ */
+export const needsOnboarding = (
+  userType: UserType | null,
+  student: OnboardingStudent | null,
+  company: OnboardingCompany | null,
+): boolean => {
+  if (userType === 'student') return getPendingStudentSteps(student).length > 0;
+  if (userType === 'company') return getPendingCompanySteps(company).length > 0;
+  return false;
+};
+
+/**
+ * Where to reopen the wizard: the first step not yet saved, so closing the tab
+ * halfway through picks up where the user left off.
+ */
+export const getResumeStepIndex = <Step extends string>(
+  steps: OnboardingStepInfo<Step>[],
+  pending: Step[],
+): number => {
+  const index = steps.findIndex((step) => pending.includes(step.id));
+  return index === -1 ? steps.length - 1 : index;
+};
+
+/** Adds a scheme to bare domains ("acme.com") so the saved website is a working link. */
+export const normalizeWebsite = (value: string): string => {
+  const trimmed = value.trim();
+  if (!trimmed) return '';
+  return /^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`;
+};
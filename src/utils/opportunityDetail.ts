@@ -0,0 +1,78 @@
+import type { JsonValue } from '../types';
+
+export type OpportunityAvailability = 'open' | 'paused' | 'closed' | 'expired' | 'draft';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/** Notifications and older links point at the raw id; everything new uses the slug. */
+export const isOpportunityId = (value: string) => UUID_PATTERN.test(value);
+
+export const getOpportunityPath = (opportunity: { opportunity_id: string; slug?: string | null }) =>
+  `/opportunities/${opportunity.slug || opportunity.opportunity_id}`;
+
+/**
+ * Whether students can still apply. A past deadline counts as expired even if
+ * the company never changed the status.
+ */
+export const getOpportunityAvailability = (
+  opportunity: { status?: string | null; application_deadline?: string | null },
+  now: Date = new Date(),
+): OpportunityAvailability => {
+  switch (opportunity.status) {
+    case 'draft':
+      return 'draft';
+    case 'paused':
+      return 'paused';
+    case 'closed':
+    case 'filled':
+      return 'closed';
+    case 'expired':
+      return 'expired';
+    default:
+      break;
+  }
+  if (opportunity.application_deadline) {
+    // Deadlines are dates; applications stay open through the whole day
+    const deadline = new Date(`${opportunity.application_deadline.slice(0, 10)}T23:59:59`);
+    if (deadline.getTime() < now.getTime()) return 'expired';
+  }
+  return 'open';
+};
+
+export const AVAILABILITY_MESSAGES: Record<Exclude<OpportunityAvailability, 'open'>, string> = {
+  draft: 'This is a draft. Students cannot see it until you publish it.',
+  paused: 'The company has paused applications for now. Check back later.',
+  closed: 'This opportunity is closed and no longer accepting applications.',
+  expired: 'The application deadline has passed.',
+};
+
+export interface SelectionStage {
+  title: string;
+  description?: string;
+}
+
+const toStage = (item: JsonValue): SelectionStage | null => {
+  if (typeof item === 'string') return item.trim() ? { title: item.trim() } : null;
+  if (!item || typeof item !== 'object' || Array.isArray(item)) return null;
+  const title = [item.title, item.name, item.stage, item.round].find((value) => typeof value === 'string' && value.trim());
+  if (typeof title !== 'string') return null;
+  const description = [item.description, item.details].find((value) => typeof value === 'string' && value.trim());
+  return { title: title.trim(), description: typeof description === 'string' ? description.trim() : undefined };
+};
+
+/**
+ * Reads `application_process` / `selection_process`, which have been stored as
+ * a list of strings, a list of {title|name, description} objects, or an object
+ * wrapping either under `rounds`/`stages`/`steps`.
+ */
+export const parseSelectionProcess = (raw: JsonValue | null | undefined): SelectionStage[] => {
+  if (!raw) return [];
+  if (Array.isArray(raw)) {
+    return raw.map(toStage).filter((stage): stage is SelectionStage => stage !== null);
+  }
+  if (typeof raw === 'object') {
+    const list = raw.rounds ?? raw.stages ?? raw.steps;
+    return Array.isArray(list) ? parseSelectionProcess(list) : [];
+  }
+  return [];
+};
@@ -0,0 +1,115 @@
+import type { CompanySize, DeadlineWindow, DurationBucket, OpportunityFacets, OpportunitySortKey } from '../types';
+
+export interface FacetOption<T extends string | number = string> {
+  value: T;
+  label: string;
+  count: number;
+}
+
+export interface FacetCounts {
+  workMode: FacetOption[];
+  stipendMin: FacetOption<number>[];
+  durations: FacetOption<DurationBucket>[];
+  locations: FacetOption[];
+  deadline: FacetOption<DeadlineWindow>[];
+  ppo: number;
+  skills: FacetOption[];
+  companySizes: FacetOption<CompanySize>[];
+  featured: number;
+}
+
+/** What `opportunity_facet_counts` returns: counts keyed by option value. */
+export interface RawFacetCounts {
+  workMode?: Record<string, number>;
+  stipendMin?: Record<string, number>;
+  durations?: Partial<Record<DurationBucket, number>>;
+  locations?: { value: string; count: number }[];
+  deadline?: Partial<Record<DeadlineWindow, number>>;
+  ppo?: number;
+  skills?: { value: string; count: number }[];
+  companySizes?: Partial<Record<CompanySize, number>>;
+  featured?: number;
+}
+
+export const DEFAULT_FACETS: OpportunityFacets = {
+  workMode: '',
+  stipendMin: 0,
+  durations: [],
+  locations: [],
+  deadline: '',
+  ppo: false,
+  skills: [],
+  companySizes: [],
+  featured: false,
+};
+
+export const SORT_LABELS: Record<OpportunitySortKey, string> = {
+  match: 'Best match',
+  newest: 'Newest',
+  deadline: 'Deadline soonest',
+  stipend: 'Highest pay',
+};
+
+export const WORK_MODE_LABELS: Record<string, string> = {
+  remote: 'Remote',
+  hybrid: 'Hybrid',
+  onsite: 'On-site',
+};
+
+export const STIPEND_FLOORS = [5000, 10000, 20000, 50000];
+
+export const DURATION_LABELS: Record<DurationBucket, string> = {
+  short: 'Up to 2 months',
+  medium: '3-6 months',
+  long: 'Over 6 months',
+};
+
+export const DEADLINE_LABELS: Record<DeadlineWindow, string> = {
+  week: 'Closing this week',
+  month: 'Closing this month',
+};
+
+export const COMPANY_SIZE_LABELS: Record<CompanySize, string> = {
+  startup: 'Startup',
+  'mid-size': 'Mid-size',
+  enterprise: 'Enterprise',
+  mnc: 'MNC',
+};
+
+export const formatStipendFloor = (floor: number) => `₹${floor.toLocaleString('en-IN')}+`;
+
+const optionsFrom = <T extends string>(labels: Record<T, string>, counts: Partial<Record<T, number>> | undefined) =>
+  (Object.keys(labels) as T[]).map((value) => ({ value, label: labels[value], count: counts?.[value] ?? 0 }));
+
+// The RPC only lists values something matched; a selected value must stay listed so it can be cleared
+const withSelected = (options: { value: string; count: number }[] | undefined, selected: string[]): FacetOption[] => [
+  ...(options ?? []).map(({ value, count }) => ({ value, label: value, count })),
+  ...selected
+    .filter((value) => !options?.some((option) => option.value.toLowerCase() === value.toLowerCase()))
+    .map((value) => ({ value, label: value, count: 0 })),
+];
+
+/** Puts the RPC's counts into display order, with zeroes for options nothing matched. */
+export const toFacetCounts = (raw: RawFacetCounts | null | undefined, facets: OpportunityFacets): FacetCounts => ({
+  workMode: optionsFrom(WORK_MODE_LABELS, raw?.workMode),
+  stipendMin: STIPEND_FLOORS.map((floor) => ({
+    value: floor,
+    label: formatStipendFloor(floor),
+    count: raw?.stipendMin?.[String(floor)] ?? 0,
+  })),
+  durations: optionsFrom(DURATION_LABELS, raw?.durations),
+  locations: withSelected(raw?.locations, facets.locations),
+  deadline: optionsFrom(DEADLINE_LABELS, raw?.deadline),
+  ppo: raw?.ppo ?? 0,
+  skills: withSelected(raw?.skills, facets.skills),
+  companySizes: optionsFrom(COMPANY_SIZE_LABELS, raw?.companySizes),
+  featured: raw?.featured ?? 0,
+});
+
+/** How many facets narrow the results, for the "Filters (n)" badge. */
+export const countActiveFacets = (facets: OpportunityFacets) =>
+  (Object.keys(DEFAULT_FACETS) as (keyof OpportunityFacets)[]).filter((key) => {
+    const value = facets[key];
+    if (Array.isArray(value)) return value.length > 0;
+    return !!value;
+  }).length;
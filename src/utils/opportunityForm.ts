@@ -0,0 +1,251 @@
+import { z } from 'zod';
+import type { EligibilityCriteria, OpportunityRecord } from '../types';
+import { QUESTION_TYPES_WITH_OPTIONS, parseCustomQuestions } from './customQuestions';
+
+export const OPPORTUNITY_TYPES = ['internship', 'placement', 'apprenticeship'] as const;
+export const WORK_MODES = ['remote', 'hybrid', 'onsite'] as const;
+export const OPPORTUNITY_STATUSES = ['draft', 'active', 'paused', 'closed', 'expired'] as const;
+export const CURRENCIES = ['INR', 'USD', 'EUR', 'GBP', 'SGD', 'AED'] as const;
+export const YEARS_OF_STUDY = [1, 2, 3, 4] as const;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Number inputs hand back strings; blank means "not set"
+export const optionalNumber = (label: string, { min = 0, max, integer = true }: { min?: number; max?: number; integer?: boolean } = {}) =>
+  z
+    .string()
+    .trim()
+    .transform((value, ctx) => {
+      if (value === '') return null;
+      const parsed = Number(value);
+      if (Number.isNaN(parsed)) {
+        ctx.addIssue({ code: 'custom', message: `${label} must be a number` });
+        return z.NEVER;
+      }
+      if (integer && !Number.isInteger(parsed)) {
+        ctx.addIssue({ code: 'custom', message: `${label} must be a whole number` });
+        return z.NEVER;
+      }
+      if (parsed < min || (max !== undefined && parsed > max)) {
+        ctx.addIssue({
+          code: 'custom',
+          message: max !== undefined ? `${label} must be between ${min} and ${max}` : `${label} must be at least ${min}`,
+        });
+        return z.NEVER;
+      }
+      return parsed;
+    });
+
+const optionalDate = (label: string) =>
+  z
+    .string()
+    .trim()
+    .refine((value) => value === '' || DATE_PATTERN.test(value), `${label} must be a valid date`)
+    .transform((value) => (value === '' ? null : value));
+
+export const stringList = z.array(z.string().trim().min(1)).transform((items) => Array.from(new Set(items)));
+
+const screeningQuestionSchema = z
+  .object({
+    id: z.string().min(1),
+    question: z.string().trim().min(3, 'Question must be at least 3 characters'),
+    type: z.enum(['text', 'textarea', 'select', 'radio', 'number', 'url', 'checkbox', 'file']),
+    required: z.boolean(),
+    options: z.array(z.string().trim().min(1)),
+  })
+  .superRefine((question, ctx) => {
+    if (!QUESTION_TYPES_WITH_OPTIONS.has(question.type)) return;
+    if (question.options.length < 2) {
+      ctx.addIssue({ code: 'custom', path: ['options'], message: 'Add at least two options' });
+    }
+  })
+  // Options only mean something for choice questions
+  .transform(({ options, ...question }) =>
+    QUESTION_TYPES_WITH_OPTIONS.has(question.type) ? { ...question, options } : question,
+  );
+
+export const opportunitySchema = z
+  .object({
+    title: z.string().trim().min(3, 'Title must be at least 3 characters').max(120, 'Title is too long'),
+    description: z.string().trim().min(10, 'Description must be at least 10 characters'),
+    type: z.enum(OPPORTUNITY_TYPES),
+    work_mode: z.enum(WORK_MODES),
+    status: z.enum(OPPORTUNITY_STATUSES),
+    location: z.string().trim().transform((value) => value || null),
+    stipend_min: optionalNumber('Minimum stipend'),
+    stipend_max: optionalNumber('Maximum stipend'),
+    ctc_min: optionalNumber('Minimum CTC', { integer: false }),
+    ctc_max: optionalNumber('Maximum CTC', { integer: false }),
+    currency: z.enum(CURRENCIES),
+    duration_months: optionalNumber('Duration', { min: 1, max: 60 }),
+    positions_available: optionalNumber('Openings', { min: 1 }),
+    application_deadline: optionalDate('Application deadline'),
+    start_date: optionalDate('Start date'),
+    required_skills: stringList,
+    preferred_skills: stringList,
+    min_cgpa: optionalNumber('Minimum CGPA', { min: 0, max: 10, integer: false }),
+    allowed_courses: stringList,
+    allowed_years: z.array(z.number().int().min(1).max(4)),
+    graduation_after: optionalDate('Graduating from'),
+    graduation_before: optionalDate('Graduating by'),
+    must_have_skills: stringList,
+    perks_benefits: stringList,
+    additional_questions: z.array(screeningQuestionSchema).max(20, 'Keep it to 20 questions or fewer'),
+  })
+  .superRefine((values, ctx) => {
+    if (values.stipend_min !== null && values.stipend_max !== null && values.stipend_min > values.stipend_max) {
+      ctx.addIssue({ code: 'custom', path: ['stipend_max'], message: 'Maximum must be at least the minimum' });
+    }
+    if (values.ctc_min !== null && values.ctc_max !== null && values.ctc_min > values.ctc_max) {
+      ctx.addIssue({ code: 'custom', path: ['ctc_max'], message: 'Maximum must be at least the minimum' });
+    }
+    // ISO dates compare correctly as strings
+    if (values.application_deadline && values.start_date && values.application_deadline >= values.start_date) {
+      ctx.addIssue({ code: 'custom', path: ['application_deadline'], message: 'Deadline must be before the start date' });
+    }
+    if (values.graduation_after && values.graduation_before && values.graduation_after > values.graduation_before) {
+      ctx.addIssue({ code: 'custom', path: ['graduation_before'], message: 'End of the window must be after its start' });
+    }
+    const required = new Set(values.required_skills.map((skill) => skill.toLowerCase()));
+    const overlap = values.preferred_skills.filter((skill) => required.has(skill.toLowerCase()));
+    if (overlap.length > 0) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['preferred_skills'],
+        message: `Already listed as required: ${overlap.join(', ')}`,
+      });
+    }
+  });
+
+export type OpportunityFormInput = z.input<typeof opportunitySchema>;
+export type OpportunityFormValues = z.output<typeof opportunitySchema>;
+
+/** Columns the editor writes; everything else on the row is owned by the database. */
+export type OpportunityPayload = Pick<
+  OpportunityRecord,
+  | 'title'
+  | 'description'
+  | 'type'
+  | 'work_mode'
+  | 'status'
+  | 'location'
+  | 'stipend_min'
+  | 'stipend_max'
+  | 'ctc_min'
+  | 'ctc_max'
+  | 'currency'
+  | 'duration_months'
+  | 'positions_available'
+  | 'application_deadline'
+  | 'start_date'
+  | 'required_skills'
+  | 'preferred_skills'
+  | 'eligibility_criteria'
+  | 'perks_benefits'
+  | 'additional_questions'
+>;
+
+export const EMPTY_OPPORTUNITY_FORM: OpportunityFormInput = {
+  title: '',
+  description: '',
+  type: 'internship',
+  work_mode: 'remote',
+  status: 'active',
+  location: '',
+  stipend_min: '',
+  stipend_max: '',
+  ctc_min: '',
+  ctc_max: '',
+  currency: 'INR',
+  duration_months: '',
+  positions_available: '1',
+  application_deadline: '',
+  start_date: '',
+  required_skills: [],
+  preferred_skills: [],
+  min_cgpa: '',
+  allowed_courses: [],
+  allowed_years: [],
+  graduation_after: '',
+  graduation_before: '',
+  must_have_skills: [],
+  perks_benefits: [],
+  additional_questions: [],
+};
+
+const numberToInput = (value: number | null | undefined) => (value === null || value === undefined ? '' : String(value));
+
+const asStringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+
+const pickEnum = <T extends string>(options: readonly T[], value: unknown, fallback: T): T =>
+  options.includes(value as T) ? (value as T) : fallback;
+
+export const toOpportunityFormInput = (row: OpportunityRecord): OpportunityFormInput => {
+  const eligibility: EligibilityCriteria = row.eligibility_criteria ?? {};
+
+  return {
+    title: row.title ?? '',
+    description: row.description ?? '',
+    type: pickEnum(OPPORTUNITY_TYPES, row.type, 'internship'),
+    work_mode: pickEnum(WORK_MODES, row.work_mode, 'remote'),
+    status: pickEnum(OPPORTUNITY_STATUSES, row.status, 'active'),
+    location: row.location ?? '',
+    stipend_min: numberToInput(row.stipend_min),
+    stipend_max: numberToInput(row.stipend_max),
+    ctc_min: numberToInput(row.ctc_min),
+    ctc_max: numberToInput(row.ctc_max),
+    currency: pickEnum(CURRENCIES, row.currency, 'INR'),
+    duration_months: numberToInput(row.duration_months),
+    positions_available: numberToInput(row.positions_available),
+    application_deadline: row.application_deadline?.slice(0, 10) ?? '',
+    start_date: row.start_date?.slice(0, 10) ?? '',
+    required_skills: asStringList(row.required_skills),
+    preferred_skills: asStringList(row.preferred_skills),
+    min_cgpa: numberToInput(eligibility.min_cgpa),
+    allowed_courses: asStringList(eligibility.allowed_courses),
+    allowed_years: Array.isArray(eligibility.allowed_years) ? eligibility.allowed_years : [],
+    graduation_after: eligibility.graduation_after ?? '',
+    graduation_before: eligibility.graduation_before ?? '',
+    must_have_skills: asStringList(eligibility.required_skills),
+    perks_benefits: asStringList(row.perks_benefits),
+    additional_questions: parseCustomQuestions(row.additional_questions).map((question) => ({
+      ...question,
+      options: question.options ?? [],
+    })),
+  };
+};
+
+export const toOpportunityPayload = (values: OpportunityFormValues): OpportunityPayload => {
+  const eligibility: EligibilityCriteria = {};
+  if (values.min_cgpa !== null) eligibility.min_cgpa = values.min_cgpa;
+  if (values.allowed_courses.length > 0) eligibility.allowed_courses = values.allowed_courses;
+  if (values.allowed_years.length > 0) eligibility.allowed_years = [...values.allowed_years].sort((a, b) => a - b);
+  if (values.graduation_after) eligibility.graduation_after = values.graduation_after;
+  if (values.graduation_before) eligibility.graduation_before = values.graduation_before;
+  if (values.must_have_skills.length > 0) eligibility.required_skills = values.must_have_skills;
+
+  return {
+    title: values.title,
+    description: values.description,
+    type: values.type,
+    work_mode: values.work_mode,
+    status: values.status,
+    location: values.location,
+    stipend_min: values.stipend_min,
+    stipend_max: values.stipend_max,
+    // Only placements quote a CTC; the inputs are hidden for other types
+    ctc_min: values.type === 'placement' ? values.ctc_min : null,
+    ctc_max: values.type === 'placement' ? values.ctc_max : null,
+    currency: values.currency,
+    duration_months: values.duration_months,
+    positions_available: values.positions_available ?? 1,
+    application_deadline: values.application_deadline,
+    start_date: values.start_date,
+    required_skills: values.required_skills,
+    preferred_skills: values.preferred_skills,
+    eligibility_criteria: eligibility,
+    perks_benefits: values.perks_benefits,
+    additional_questions: values.additional_questions,
+  };
+};
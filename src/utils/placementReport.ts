@@ -0,0 +1,227 @@
+import type { PlacementReportApplication, PlacementReportData } from '../types';
+import { toCsv, type CsvColumn } from './csv';
+
+export interface MoneyStats {
+  median: number | null;
+  average: number | null;
+  /** Offers that quoted an amount; offers without one are left out of the stats. */
+  count: number;
+}
+
+export interface PlacementSummary {
+  students: number;
+  studentsWithOffers: number;
+  /** Share of students with at least one offer, 0-1. */
+  placementRate: number;
+  applications: number;
+  offers: number;
+  acceptedOffers: number;
+  offersPerStudent: number;
+  /** Most common currency among offers; stipends in other currencies are excluded. */
+  currency: string;
+  stipend: MoneyStats;
+  ctc: MoneyStats;
+}
+
+export interface GroupBreakdownRow {
+  key: string;
+  label: string;
+  applications: number;
+  offers: number;
+  acceptedOffers: number;
+  /** Offers per application, 0-1. */
+  conversionRate: number;
+  medianStipend: number | null;
+  medianCtc: number | null;
+}
+
+export interface CourseBreakdownRow {
+  course: string;
+  students: number;
+  studentsWithOffers: number;
+  placementRate: number;
+  offers: number;
+}
+
+const UNSPECIFIED_COURSE = 'Not specified';
+
+export const isOffer = (application: PlacementReportApplication) => application.status === 'selected';
+
+const midpoint = (min: number | null, max: number | null): number | null => {
+  if (min !== null && max !== null) return (min + max) / 2;
+  return min ?? max;
+};
+
+export const median = (values: number[]): number | null => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+};
+
+export const average = (values: number[]): number | null =>
+  values.length === 0 ? null : values.reduce((sum, value) => sum + value, 0) / values.length;
+
+const toMoneyStats = (values: number[]): MoneyStats => ({ median: median(values), average: average(values), count: values.length });
+
+const ratio = (part: number, whole: number) => (whole === 0 ? 0 : part / whole);
+
+const getReportCurrency = (offers: PlacementReportApplication[]): string => {
+  const counts = new Map<string, number>();
+  offers.forEach((offer) => {
+    const currency = (offer.currency ?? 'INR').toUpperCase();
+    counts.set(currency, (counts.get(currency) ?? 0) + 1);
+  });
+  return [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? 'INR';
+};
+
+// Placements are paid in CTC, everything else in a monthly stipend
+const getStipends = (offers: PlacementReportApplication[], currency: string) =>
+  offers
+    .filter((offer) => offer.opportunity_type !== 'placement' && (offer.currency ?? 'INR').toUpperCase() === currency)
+    .map((offer) => midpoint(offer.stipend_min, offer.stipend_max))
+    .filter((value): value is number => value !== null);
+
+const getCtcs = (offers: PlacementReportApplication[]) =>
+  offers
+    .filter((offer) => offer.opportunity_type === 'placement')
+    .map((offer) => midpoint(offer.ctc_min, offer.ctc_max))
+    .filter((value): value is number => value !== null);
+
+export const summarizePlacements = (report: PlacementReportData): PlacementSummary => {
+  const offers = report.applications.filter(isOffer);
+  const currency = getReportCurrency(offers);
+  const studentsWithOffers = new Set(offers.map((offer) => offer.student_id)).size;
+  const students = report.students.length;
+
+  return {
+    students,
+    studentsWithOffers,
+    placementRate: ratio(studentsWithOffers, students),
+    applications: report.applications.length,
+    offers: offers.length,
+    acceptedOffers: offers.filter((offer) => offer.is_accepted === true).length,
+    offersPerStudent: ratio(offers.length, students),
+    currency,
+    stipend: toMoneyStats(getStipends(offers, currency)),
+    ctc: toMoneyStats(getCtcs(offers)),
+  };
+};
+
+/**
+ * Colleges compare companies; a company compares its own postings. Sorted by
+ * offers, then applications.
+ */
+export const getGroupBreakdown = (report: PlacementReportData): GroupBreakdownRow[] => {
+  const byCompany = report.scope === 'college';
+  const groups = new Map<string, { label: string; applications: PlacementReportApplication[] }>();
+  report.applications.forEach((application) => {
+    const key = byCompany ? application.company_id ?? 'unknown' : application.opportunity_id;
+    const label = byCompany ? application.company_name ?? 'Unknown company' : application.opportunity_title;
+    const group = groups.get(key) ?? { label, applications: [] };
+    group.applications.push(application);
+    groups.set(key, group);
+  });
+
+  const currency = getReportCurrency(report.applications.filter(isOffer));
+  return [...groups.entries()]
+    .map(([key, group]) => {
+      const offers = group.applications.filter(isOffer);
+      return {
+        key,
+        label: group.label,
+        applications: group.applications.length,
+        offers: offers.length,
+        acceptedOffers: offers.filter((offer) => offer.is_accepted === true).length,
+        conversionRate: ratio(offers.length, group.applications.length),
+        medianStipend: median(getStipends(offers, currency)),
+        medianCtc: median(getCtcs(offers)),
+      };
+    })
+    .sort((a, b) => b.offers - a.offers || b.applications - a.applications);
+};
+
+export const getCourseBreakdown = (report: PlacementReportData): CourseBreakdownRow[] => {
+  const courseOf = (course: string | null) => course?.trim() || UNSPECIFIED_COURSE;
+  const rows = new Map<string, { students: Set<string>; placed: Set<string>; offers: number }>();
+  const rowFor = (course: string) => {
+    const row = rows.get(course) ?? { students: new Set<string>(), placed: new Set<string>(), offers: 0 };
+    rows.set(course, row);
+    return row;
+  };
+
+  report.students.forEach((student) => rowFor(courseOf(student.course)).students.add(student.student_id));
+  report.applications.filter(isOffer).forEach((offer) => {
+    const row = rowFor(courseOf(offer.course));
+    row.offers += 1;
+    row.placed.add(offer.student_id);
+  });
+
+  return [...rows.entries()]
+    .map(([course, row]) => ({
+      course,
+      students: row.students.size,
+      studentsWithOffers: row.placed.size,
+      placementRate: ratio(row.placed.size, row.students.size),
+      offers: row.offers,
+    }))
+    .sort((a, b) => b.students - a.students);
+};
+
+export const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+export const formatLpa = (value: number | null) => (value === null ? '—' : `${value.toFixed(1)} LPA`);
+
+const round = (value: number | null) => (value === null ? null : Math.round(value * 100) / 100);
+
+/** Summary and both breakdowns as one CSV, each section under its own header row. */
+export const placementReportToCsv = (
+  report: PlacementReportData,
+  range: { from: string; to: string },
+): string => {
+  const summary = summarizePlacements(report);
+  const summaryRows: [string, string | number | null][] = [
+    ['Report', `${report.scope_name} placements`],
+    ['From', range.from],
+    ['To', range.to],
+    ['Students', summary.students],
+    ['Students with offers', summary.studentsWithOffers],
+    ['Placement rate', formatPercent(summary.placementRate)],
+    ['Applications', summary.applications],
+    ['Offers', summary.offers],
+    ['Accepted offers', summary.acceptedOffers],
+    ['Offers per student', round(summary.offersPerStudent)],
+    [`Median stipend (${summary.currency}/month)`, round(summary.stipend.median)],
+    [`Average stipend (${summary.currency}/month)`, round(summary.stipend.average)],
+    ['Median CTC (LPA)', round(summary.ctc.median)],
+    ['Average CTC (LPA)', round(summary.ctc.average)],
+  ];
+  const summaryColumns: CsvColumn<[string, string | number | null]>[] = [
+    { header: 'Metric', value: (row) => row[0] },
+    { header: 'Value', value: (row) => row[1] },
+  ];
+
+  const groupColumns: CsvColumn<GroupBreakdownRow>[] = [
+    { header: report.scope === 'college' ? 'Company' : 'Opportunity', value: (row) => row.label },
+    { header: 'Applications', value: (row) => row.applications },
+    { header: 'Offers', value: (row) => row.offers },
+    { header: 'Accepted', value: (row) => row.acceptedOffers },
+    { header: 'Offer rate', value: (row) => formatPercent(row.conversionRate) },
+    { header: `Median stipend (${summary.currency}/month)`, value: (row) => round(row.medianStipend) },
+    { header: 'Median CTC (LPA)', value: (row) => round(row.medianCtc) },
+  ];
+
+  const courseColumns: CsvColumn<CourseBreakdownRow>[] = [
+    { header: 'Course', value: (row) => row.course },
+    { header: 'Students', value: (row) => row.students },
+    { header: 'Students with offers', value: (row) => row.studentsWithOffers },
+    { header: 'Placement rate', value: (row) => formatPercent(row.placementRate) },
+    { header: 'Offers', value: (row) => row.offers },
+  ];
+
+  return [
+    toCsv(summaryRows, summaryColumns),
+    toCsv(getGroupBreakdown(report), groupColumns),
+    toCsv(getCourseBreakdown(report), courseColumns),
+  ].join('\r\n\r\n');
+};
@@ -0,0 +1,15 @@
+import type { UserType } from '../types';
+
+/** Landing page after sign-in; accounts without a type are treated as students. */
+export const getHomePath = (userType: UserType | null): string => {
+  switch (userType) {
+    case 'company':
+      return '/company';
+    case 'admin':
+      return '/admin';
+    case 'college_coordinator':
+      return '/coordinator';
+    default:
+      return '/dashboard';
+  }
+};
@@ -0,0 +1,49 @@
+import type { SavedOpportunityWithDetails } from '../types';
+import { getOpportunityAvailability } from './opportunityDetail';
+
+export type SavedSortKey = 'deadline' | 'recent';
+
+/** Filter value for saves that aren't in any collection. */
+export const UNFILED_COLLECTION = '__unfiled__';
+
+export interface SavedFilters {
+  /** A collection name, UNFILED_COLLECTION, or '' for everything. */
+  collection: string;
+  tag: string;
+}
+
+const deadlineTime = (item: SavedOpportunityWithDetails) => {
+  const deadline = item.opportunities?.application_deadline;
+  return deadline ? new Date(deadline).getTime() : Number.POSITIVE_INFINITY;
+};
+
+export const isSavedOpportunityOpen = (item: SavedOpportunityWithDetails) =>
+  !!item.opportunities && !item.opportunities.taken_down_at && getOpportunityAvailability(item.opportunities) === 'open';
+
+/**
+ * Deadline order puts open postings first, soonest deadline first, with
+ * no-deadline postings after them and closed ones last.
+ */
+export const sortSavedOpportunities = (
+  items: SavedOpportunityWithDetails[],
+  sortBy: SavedSortKey,
+): SavedOpportunityWithDetails[] =>
+  [...items].sort((a, b) => {
+    if (sortBy === 'recent') return new Date(b.saved_at).getTime() - new Date(a.saved_at).getTime();
+    const openDiff = Number(isSavedOpportunityOpen(b)) - Number(isSavedOpportunityOpen(a));
+    return openDiff || deadlineTime(a) - deadlineTime(b);
+  });
+
+export const filterSavedOpportunities = (
+  items: SavedOpportunityWithDetails[],
+  filters: SavedFilters,
+): SavedOpportunityWithDetails[] =>
+  items.filter((item) => {
+    if (filters.collection === UNFILED_COLLECTION && item.collection) return false;
+    if (filters.collection && filters.collection !== UNFILED_COLLECTION && item.collection !== filters.collection) return false;
+    if (filters.tag && !item.tags.includes(filters.tag)) return false;
+    return true;
+  });
+
+export const getSavedTags = (items: SavedOpportunityWithDetails[]): string[] =>
+  [...new Set(items.flatMap((item) => item.tags))].sort((a, b) => a.localeCompare(b));
@@ -0,0 +1,110 @@
+import type { CompanySize, DeadlineWindow, DurationBucket, OpportunitySortKey, SavedSearchFilters } from '../types';
+import {
+  COMPANY_SIZE_LABELS,
+  DEADLINE_LABELS,
+  DEFAULT_FACETS,
+  DURATION_LABELS,
+  SORT_LABELS,
+  WORK_MODE_LABELS,
+  formatStipendFloor,
+} from './opportunityFacets';
+
+const TAB_LABELS: Record<SavedSearchFilters['tab'], string> = {
+  internships: 'Internships',
+  placements: 'Placements',
+  all: 'All types',
+};
+
+// Own keys only, so "constructor" in a hand-edited URL isn't taken for a value
+const isKnown = <T extends string>(value: string | undefined, labels: Record<T, string>): value is T =>
+  value != null && Object.prototype.hasOwnProperty.call(labels, value);
+
+const pickKnown = <T extends string>(values: readonly string[] | undefined, labels: Record<T, string>): T[] =>
+  [...new Set((values ?? []).filter((value): value is T => isKnown(value, labels)))].sort();
+
+const uniqueSorted = (values: readonly string[] | undefined) =>
+  [...new Set((values ?? []).map((value) => value.trim()).filter(Boolean))].sort();
+
+/**
+ * Fills gaps and drops unknown values in filters saved by older versions of the
+ * page or typed into the URL by hand.
+ */
+export const normalizeSearchFilters = (filters: Partial<SavedSearchFilters> | null | undefined): SavedSearchFilters => {
+  const stipendMin = Number(filters?.stipendMin);
+  const workMode = filters?.workMode?.toLowerCase() ?? '';
+  const deadline = filters?.deadline;
+
+  return {
+    q: filters?.q?.trim() ?? '',
+    tab: isKnown(filters?.tab, TAB_LABELS) ? filters.tab : 'internships',
+    sort: isKnown(filters?.sort, SORT_LABELS) ? filters.sort : 'match',
+    workMode: isKnown(workMode, WORK_MODE_LABELS) ? workMode : DEFAULT_FACETS.workMode,
+    stipendMin: Number.isFinite(stipendMin) && stipendMin > 0 ? Math.round(stipendMin) : DEFAULT_FACETS.stipendMin,
+    durations: pickKnown<DurationBucket>(filters?.durations, DURATION_LABELS),
+    locations: uniqueSorted(filters?.locations),
+    deadline: isKnown(deadline, DEADLINE_LABELS) ? deadline : DEFAULT_FACETS.deadline,
+    ppo: !!filters?.ppo,
+    skills: uniqueSorted(filters?.skills),
+    companySizes: pickKnown<CompanySize>(filters?.companySizes, COMPANY_SIZE_LABELS),
+    featured: !!filters?.featured,
+  };
+};
+
+export const isSameSearch = (a: Partial<SavedSearchFilters>, b: Partial<SavedSearchFilters>) =>
+  JSON.stringify(normalizeSearchFilters(a)) === JSON.stringify(normalizeSearchFilters(b));
+
+/** Reads the OpportunitiesPage URL; list facets repeat their key (`?skill=react&skill=node`). */
+export const searchFiltersFromParams = (params: URLSearchParams): SavedSearchFilters =>
+  normalizeSearchFilters({
+    q: params.get('q') ?? '',
+    tab: (params.get('tab') ?? undefined) as SavedSearchFilters['tab'] | undefined,
+    sort: (params.get('sort') ?? undefined) as OpportunitySortKey | undefined,
+    workMode: params.get('workMode') ?? '',
+    stipendMin: Number(params.get('stipend') ?? 0),
+    durations: params.getAll('duration') as DurationBucket[],
+    locations: params.getAll('location'),
+    deadline: (params.get('deadline') ?? '') as DeadlineWindow | '',
+    ppo: params.get('ppo') === '1',
+    skills: params.getAll('skill'),
+    companySizes: params.getAll('size') as CompanySize[],
+    featured: params.get('featured') === '1',
+  });
+
+/** The inverse of searchFiltersFromParams; defaults are left out to keep links short. */
+export const searchFiltersToParams = (filters: SavedSearchFilters): URLSearchParams => {
+  const normalized = normalizeSearchFilters(filters);
+  const params = new URLSearchParams();
+  if (normalized.q) params.set('q', normalized.q);
+  params.set('tab', normalized.tab);
+  if (normalized.sort !== 'match') params.set('sort', normalized.sort);
+  if (normalized.workMode) params.set('workMode', normalized.workMode);
+  if (normalized.stipendMin > 0) params.set('stipend', String(normalized.stipendMin));
+  normalized.durations.forEach((duration) => params.append('duration', duration));
+  normalized.locations.forEach((location) => params.append('location', location));
+  if (normalized.deadline) params.set('deadline', normalized.deadline);
+  if (normalized.ppo) params.set('ppo', '1');
+  normalized.skills.forEach((skill) => params.append('skill', skill));
+  normalized.companySizes.forEach((size) => params.append('size', size));
+  if (normalized.featured) params.set('featured', '1');
+  return params;
+};
+
+/** "Internships · "react" · Remote · ₹10,000+", for tooltips and default names. */
+export const describeSearchFilters = (filters: Partial<SavedSearchFilters>): string => {
+  const normalized = normalizeSearchFilters(filters);
+  return [
+    TAB_LABELS[normalized.tab],
+    normalized.q && `"${normalized.q}"`,
+    normalized.workMode && WORK_MODE_LABELS[normalized.workMode],
+    normalized.stipendMin > 0 && formatStipendFloor(normalized.stipendMin),
+    ...normalized.durations.map((duration) => DURATION_LABELS[duration]),
+    ...normalized.locations,
+    normalized.deadline && DEADLINE_LABELS[normalized.deadline],
+    normalized.ppo && 'PPO',
+    ...normalized.skills,
+    ...normalized.companySizes.map((size) => COMPANY_SIZE_LABELS[size]),
+    normalized.featured && 'Featured',
+  ]
+    .filter(Boolean)
+    .join(' · ');
+};
@@ -1,4 +1,4 @@
-import type { Application, Opportunity, StudentProfile } from '../types';
+import type { Application, EligibilityResult, Opportunity, StudentProfile } from '../types';
 
 export interface ValidationResult {
   valid: boolean;
@@ -196,6 +196,7 @@ export const isDeadlineUrgent = (deadline?: string | null): boolean => {
 export const canApplyToOpportunity = (
   opportunity: Opportunity,
   existingApplication: Application | null,
+  eligibility?: EligibilityResult | null,
 ): ApplyValidationResult => {
   if (existingApplication) {
     return {
@@ -230,6 +231,14 @@ export const canApplyToOpportunity = (
     };
   }
 
+  const failedCheck = eligibility?.checks.find((check) => !check.passed);
+  if (failedCheck) {
+    return {
+      canApply: false,
+      reason: failedCheck.reason,
+    };
+  }
+
   return {
     canApply: true,
     reason: null,
@@ -0,0 +1,77 @@
+-- Server-backed notification center
+-- Streams notification rows to clients over realtime and creates a notification
+-- for the student whenever a company changes the status of their application.
+
+-- 1) Publish notifications to the realtime channel
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime'
+      AND schemaname = 'public'
+      AND tablename = 'notifications'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
+  END IF;
+END $$;
+
+-- 2) Index used by the client when loading the inbox
+CREATE INDEX IF NOT EXISTS idx_notifications_user_created
+  ON notifications(user_id, created_at DESC)
+  WHERE is_archived = false;
+
+-- 3) Notify the student when their application status changes
+CREATE OR REPLACE FUNCTION public.notify_application_status_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  target_user_id uuid;
+  opportunity_title text;
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT s.user_id INTO target_user_id
+  FROM students s
+  WHERE s.student_id = NEW.student_id;
+
+  IF target_user_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT o.title INTO opportunity_title
+  FROM opportunities o
+  WHERE o.opportunity_id = NEW.opportunity_id;
+
+  INSERT INTO notifications (user_id, type, title, message, action_url, priority, metadata)
+  VALUES (
+    target_user_id,
+    'application_update',
+    'Application status updated',
+    format(
+      'Your application for %s is now %s.',
+      COALESCE(opportunity_title, 'an opportunity'),
+      replace(NEW.status::text, '_', ' ')
+    ),
+    '/applications',
+    CASE
+      WHEN NEW.status IN ('selected', 'interview_scheduled') THEN 'high'::priority_enum
+      WHEN NEW.status = 'rejected' THEN 'medium'::priority_enum
+      ELSE 'low'::priority_enum
+    END,
+    jsonb_build_object(
+      'application_id', NEW.application_id,
+      'opportunity_id', NEW.opportunity_id,
+      'from_status', OLD.status,
+      'to_status', NEW.status
+    )
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS on_application_status_change ON applications;
+CREATE TRIGGER on_application_status_change
+  AFTER UPDATE OF status ON applications
+  FOR EACH ROW EXECUTE FUNCTION public.notify_application_status_change();
@@ -0,0 +1,88 @@
+-- Company-side applicant pipeline
+-- Lets companies move applicants on their own opportunities through
+-- application_status_enum and rejects illegal status jumps at the database level.
+
+-- 1) Companies can update applications to their opportunities
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'public'
+      AND tablename = 'applications'
+      AND policyname = 'Companies can update applications to their opportunities'
+  ) THEN
+    CREATE POLICY "Companies can update applications to their opportunities" ON applications
+    FOR UPDATE TO authenticated
+    USING (
+      EXISTS (
+        SELECT 1 FROM opportunities o
+        JOIN companies c ON c.company_id = o.company_id
+        WHERE o.opportunity_id = applications.opportunity_id
+          AND c.user_id = auth.uid()
+      )
+    );
+  END IF;
+END $$;
+
+-- 2) Transition guard. Keep in sync with src/utils/applicationStatus.ts
+CREATE OR REPLACE FUNCTION public.enforce_application_status_transition()
+RETURNS TRIGGER AS $$
+DECLARE
+  allowed application_status_enum[];
+  is_student boolean;
+  is_company boolean;
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  allowed := CASE OLD.status
+    WHEN 'draft' THEN ARRAY['submitted', 'withdrawn']::application_status_enum[]
+    WHEN 'submitted' THEN ARRAY['under_review', 'shortlisted', 'rejected', 'withdrawn']::application_status_enum[]
+    WHEN 'under_review' THEN ARRAY['shortlisted', 'rejected', 'withdrawn']::application_status_enum[]
+    WHEN 'shortlisted' THEN ARRAY['interview_scheduled', 'selected', 'rejected', 'withdrawn']::application_status_enum[]
+    WHEN 'interview_scheduled' THEN ARRAY['shortlisted', 'interviewed', 'rejected', 'withdrawn']::application_status_enum[]
+    WHEN 'interviewed' THEN ARRAY['interview_scheduled', 'selected', 'rejected', 'withdrawn']::application_status_enum[]
+    WHEN 'selected' THEN ARRAY['withdrawn']::application_status_enum[]
+    ELSE ARRAY[]::application_status_enum[]
+  END;
+
+  IF NOT (NEW.status = ANY(allowed)) THEN
+    RAISE EXCEPTION 'Illegal application status transition from % to %', OLD.status, NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Students only submit and withdraw; every other stage is the company's call.
+  -- Moves made by other triggers (e.g. interview scheduling) or without a
+  -- signed-in user are not tied to either side.
+  IF pg_trigger_depth() = 1 AND auth.uid() IS NOT NULL THEN
+    is_student := EXISTS (
+      SELECT 1 FROM students s
+      WHERE s.student_id = NEW.student_id AND s.user_id = auth.uid()
+    );
+    is_company := EXISTS (
+      SELECT 1 FROM opportunities o
+      JOIN companies c ON c.company_id = o.company_id
+      WHERE o.opportunity_id = NEW.opportunity_id AND c.user_id = auth.uid()
+    );
+
+    IF is_student AND NOT (NEW.status = ANY(ARRAY['submitted', 'withdrawn']::application_status_enum[])) THEN
+      RAISE EXCEPTION 'Only the company can move an application to %', NEW.status
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    IF is_company AND NEW.status = ANY(ARRAY['submitted', 'withdrawn']::application_status_enum[]) THEN
+      RAISE EXCEPTION 'Only the student can move an application to %', NEW.status
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+  END IF;
+
+  NEW.status_updated_at := now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS enforce_application_status_transition ON applications;
+CREATE TRIGGER enforce_application_status_transition
+  BEFORE UPDATE OF status ON applications
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_application_status_transition();
@@ -0,0 +1,49 @@
+-- Interview scheduling
+-- Keeps applications.status in step with the rounds scheduled in the interviews table:
+--   * a scheduled/rescheduled round moves the application to interview_scheduled
+--   * once no round is pending, the application moves to interviewed if any round
+--     was completed, otherwise back to shortlisted
+
+CREATE INDEX IF NOT EXISTS idx_interviews_application_id ON interviews(application_id);
+CREATE INDEX IF NOT EXISTS idx_interviews_scheduled_at ON interviews(scheduled_at);
+
+CREATE OR REPLACE FUNCTION public.sync_application_interview_status()
+RETURNS TRIGGER AS $$
+DECLARE
+  current_status application_status_enum;
+  has_pending boolean;
+  has_completed boolean;
+BEGIN
+  SELECT status INTO current_status
+  FROM applications
+  WHERE application_id = NEW.application_id;
+
+  IF current_status IS NULL OR current_status IN ('selected', 'rejected', 'withdrawn') THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT
+    bool_or(status IN ('scheduled', 'rescheduled')),
+    bool_or(status = 'completed')
+  INTO has_pending, has_completed
+  FROM interviews
+  WHERE application_id = NEW.application_id;
+
+  IF has_pending THEN
+    IF current_status IN ('shortlisted', 'interviewed') THEN
+      UPDATE applications SET status = 'interview_scheduled' WHERE application_id = NEW.application_id;
+    END IF;
+  ELSIF current_status = 'interview_scheduled' THEN
+    UPDATE applications
+    SET status = CASE WHEN has_completed THEN 'interviewed'::application_status_enum ELSE 'shortlisted'::application_status_enum END
+    WHERE application_id = NEW.application_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS on_interview_change ON interviews;
+CREATE TRIGGER on_interview_change
+  AFTER INSERT OR UPDATE OF status, scheduled_at ON interviews
+  FOR EACH ROW EXECUTE FUNCTION public.sync_application_interview_status();
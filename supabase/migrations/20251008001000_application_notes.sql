@@ -0,0 +1,50 @@
+-- Private application notes
+-- Free-form notes a student keeps against their own applications. Companies
+-- never see these, so only the owning student has any access.
+
+CREATE TABLE IF NOT EXISTS application_notes (
+  note_id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  application_id uuid NOT NULL REFERENCES applications(application_id) ON DELETE CASCADE,
+  student_id uuid NOT NULL REFERENCES students(student_id) ON DELETE CASCADE,
+  body text NOT NULL CHECK (length(trim(body)) > 0),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_application_notes_application_id ON application_notes(application_id);
+
+ALTER TABLE application_notes ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'public'
+      AND tablename = 'application_notes'
+      AND policyname = 'Students can manage own application notes'
+  ) THEN
+    CREATE POLICY "Students can manage own application notes" ON application_notes
+    FOR ALL TO authenticated
+    USING (
+      EXISTS (
+        SELECT 1 FROM students s
+        WHERE s.student_id = application_notes.student_id
+          AND s.user_id = auth.uid()
+      )
+    )
+    WITH CHECK (
+      EXISTS (
+        SELECT 1 FROM students s
+        JOIN applications a ON a.student_id = s.student_id
+        WHERE s.student_id = application_notes.student_id
+          AND a.application_id = application_notes.application_id
+          AND s.user_id = auth.uid()
+      )
+    );
+  END IF;
+END $$;
+
+DROP TRIGGER IF EXISTS update_application_notes_updated_at ON application_notes;
+CREATE TRIGGER update_application_notes_updated_at
+  BEFORE UPDATE ON application_notes
+  FOR EACH ROW EXECUTE PROCEDURE update_updated_at_column();
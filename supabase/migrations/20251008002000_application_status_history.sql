@@ -0,0 +1,123 @@
+-- Application status history
+-- applications.status is overwritten in place, so every transition is also
+-- appended here (from, to, actor, timestamp, reason). Rows are only ever written
+-- by the trigger below; clients get read access through RLS.
+
+CREATE TABLE IF NOT EXISTS application_status_history (
+  history_id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  application_id uuid NOT NULL REFERENCES applications(application_id) ON DELETE CASCADE,
+  from_status application_status_enum,
+  to_status application_status_enum NOT NULL,
+  changed_by uuid REFERENCES users(user_id) ON DELETE SET NULL,
+  actor_type text NOT NULL CHECK (actor_type IN ('student', 'company', 'system')),
+  reason text,
+  changed_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_application_status_history_application
+  ON application_status_history(application_id, changed_at);
+
+ALTER TABLE application_status_history ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'public'
+      AND tablename = 'application_status_history'
+      AND policyname = 'Students can read own application history'
+  ) THEN
+    CREATE POLICY "Students can read own application history" ON application_status_history
+    FOR SELECT TO authenticated
+    USING (
+      EXISTS (
+        SELECT 1 FROM applications a
+        JOIN students s ON s.student_id = a.student_id
+        WHERE a.application_id = application_status_history.application_id
+          AND s.user_id = auth.uid()
+      )
+    );
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'public'
+      AND tablename = 'application_status_history'
+      AND policyname = 'Companies can read history for their opportunities'
+  ) THEN
+    CREATE POLICY "Companies can read history for their opportunities" ON application_status_history
+    FOR SELECT TO authenticated
+    USING (
+      EXISTS (
+        SELECT 1 FROM applications a
+        JOIN opportunities o ON o.opportunity_id = a.opportunity_id
+        JOIN companies c ON c.company_id = o.company_id
+        WHERE a.application_id = application_status_history.application_id
+          AND c.user_id = auth.uid()
+      )
+    );
+  END IF;
+END $$;
+
+CREATE OR REPLACE FUNCTION public.record_application_status_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  actor text;
+  change_reason text;
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  -- Updates issued from another trigger (e.g. interview scheduling) are system moves
+  IF pg_trigger_depth() > 1 OR auth.uid() IS NULL THEN
+    actor := 'system';
+  ELSIF EXISTS (
+    SELECT 1 FROM students s
+    WHERE s.student_id = NEW.student_id AND s.user_id = auth.uid()
+  ) THEN
+    actor := 'student';
+  ELSIF EXISTS (
+    SELECT 1 FROM opportunities o
+    JOIN companies c ON c.company_id = o.company_id
+    WHERE o.opportunity_id = NEW.opportunity_id AND c.user_id = auth.uid()
+  ) THEN
+    actor := 'company';
+  ELSE
+    -- Anyone else (an admin fixing a record) is neither side of the application
+    actor := 'system';
+  END IF;
+
+  IF NEW.status = 'rejected' THEN
+    change_reason := NEW.rejection_reason;
+  END IF;
+
+  INSERT INTO application_status_history (
+    application_id, from_status, to_status, changed_by, actor_type, reason, changed_at
+  ) VALUES (
+    NEW.application_id,
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.status ELSE NULL END,
+    NEW.status,
+    auth.uid(),
+    actor,
+    change_reason,
+    COALESCE(NEW.status_updated_at, now())
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS record_application_status_change ON applications;
+CREATE TRIGGER record_application_status_change
+  AFTER INSERT OR UPDATE OF status ON applications
+  FOR EACH ROW EXECUTE FUNCTION public.record_application_status_change();
+
+-- Seed one entry per existing application so older rows still have a timeline
+INSERT INTO application_status_history (application_id, from_status, to_status, actor_type, changed_at)
+SELECT a.application_id, NULL, a.status, 'system', COALESCE(a.status_updated_at, a.created_at, now())
+FROM applications a
+WHERE a.status IS NOT NULL
+  AND NOT EXISTS (
+    SELECT 1 FROM application_status_history h WHERE h.application_id = a.application_id
+  );
@@ -0,0 +1,94 @@
+-- Screening question answers
+-- opportunities.additional_questions holds the company's question definitions
+-- ({id, question, type, required, options}); applications.answers_to_questions
+-- maps question id -> answer. The client validates too, but this trigger is the
+-- source of truth so a hand-crafted insert cannot skip required questions or
+-- pick an option that was never offered.
+
+CREATE OR REPLACE FUNCTION public.validate_application_answers()
+RETURNS TRIGGER AS $$
+DECLARE
+  questions jsonb;
+  question jsonb;
+  answers jsonb := COALESCE(NEW.answers_to_questions, '{}'::jsonb);
+  answer jsonb;
+  question_type text;
+  options jsonb;
+BEGIN
+  -- Drafts may be incomplete; check on submit and whenever submitted answers change
+  IF NEW.status = 'draft' THEN
+    RETURN NEW;
+  END IF;
+  IF TG_OP = 'UPDATE'
+     AND OLD.status <> 'draft'
+     AND NEW.answers_to_questions IS NOT DISTINCT FROM OLD.answers_to_questions THEN
+    RETURN NEW;
+  END IF;
+
+  IF jsonb_typeof(answers) <> 'object' THEN
+    RAISE EXCEPTION 'answers_to_questions must be an object keyed by question id'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT o.additional_questions INTO questions
+  FROM opportunities o
+  WHERE o.opportunity_id = NEW.opportunity_id;
+
+  IF questions IS NULL OR jsonb_typeof(questions) <> 'array' THEN
+    RETURN NEW;
+  END IF;
+
+  FOR question IN SELECT * FROM jsonb_array_elements(questions) LOOP
+    -- Legacy rows stored bare strings without ids; nothing to validate against
+    CONTINUE WHEN jsonb_typeof(question) <> 'object' OR question->>'id' IS NULL;
+
+    answer := answers -> (question->>'id');
+    question_type := COALESCE(question->>'type', 'text');
+    options := COALESCE(question->'options', '[]'::jsonb);
+
+    -- Whitespace-only text is empty too, as in isEmptyAnswer
+    IF answer IS NULL
+       OR answer = 'null'::jsonb
+       OR (jsonb_typeof(answer) = 'string' AND btrim(answer #>> '{}', E' \t\r\n') = '')
+       OR answer = '[]'::jsonb THEN
+      IF COALESCE((question->>'required')::boolean, false) THEN
+        RAISE EXCEPTION 'Missing answer to required question "%"', question->>'question'
+          USING ERRCODE = 'check_violation';
+      END IF;
+      CONTINUE;
+    END IF;
+
+    IF question_type IN ('select', 'radio') THEN
+      IF jsonb_typeof(answer) <> 'string' OR NOT options @> jsonb_build_array(answer) THEN
+        RAISE EXCEPTION 'Answer to "%" is not one of the offered options', question->>'question'
+          USING ERRCODE = 'check_violation';
+      END IF;
+    ELSIF question_type = 'checkbox' THEN
+      IF jsonb_typeof(answer) <> 'array' OR NOT options @> answer THEN
+        RAISE EXCEPTION 'Answer to "%" includes options that were not offered', question->>'question'
+          USING ERRCODE = 'check_violation';
+      END IF;
+    ELSIF question_type = 'number' THEN
+      IF jsonb_typeof(answer) <> 'number' THEN
+        RAISE EXCEPTION 'Answer to "%" must be a number', question->>'question'
+          USING ERRCODE = 'check_violation';
+      END IF;
+    ELSIF question_type IN ('url', 'file') THEN
+      IF jsonb_typeof(answer) <> 'string' OR answer #>> '{}' !~* '^https?://' THEN
+        RAISE EXCEPTION 'Answer to "%" must be a link', question->>'question'
+          USING ERRCODE = 'check_violation';
+      END IF;
+    ELSIF jsonb_typeof(answer) <> 'string' THEN
+      RAISE EXCEPTION 'Answer to "%" must be text', question->>'question'
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS validate_application_answers ON applications;
+CREATE TRIGGER validate_application_answers
+  BEFORE INSERT OR UPDATE OF status, answers_to_questions ON applications
+  FOR EACH ROW EXECUTE FUNCTION public.validate_application_answers();
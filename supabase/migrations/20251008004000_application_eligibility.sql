@@ -0,0 +1,110 @@
+-- Application eligibility
+-- opportunities.eligibility_criteria ({min_cgpa, allowed_courses, allowed_years,
+-- graduation_after, graduation_before, required_skills}) is evaluated in the
+-- client to explain what's missing; this trigger repeats the same rules on
+-- submit so they can't be bypassed. Keep it in step with src/utils/eligibility.ts.
+
+-- A criteria number, which older rows may store as a string ("7.5", "3");
+-- null when it isn't numeric, so the rule is skipped as in the client
+CREATE OR REPLACE FUNCTION public.eligibility_number(p_value jsonb)
+RETURNS numeric AS $$
+  SELECT CASE jsonb_typeof(p_value)
+    WHEN 'number' THEN (p_value #>> '{}')::numeric
+    WHEN 'string' THEN CASE
+      WHEN trim(p_value #>> '{}') ~ '^[+-]?([0-9]+(\.[0-9]*)?|\.[0-9]+)([eE][+-]?[0-9]+)?$'
+      THEN trim(p_value #>> '{}')::numeric
+    END
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION public.enforce_application_eligibility()
+RETURNS TRIGGER AS $$
+DECLARE
+  criteria jsonb;
+  student students%ROWTYPE;
+  missing_skills text;
+  min_cgpa numeric;
+  allowed_years numeric[];
+BEGIN
+  IF NEW.status = 'draft' THEN
+    RETURN NEW;
+  END IF;
+  -- Only the move out of draft (or a direct submit) is checked; later status
+  -- changes by the company must not fail because the profile changed since
+  IF TG_OP = 'UPDATE' AND OLD.status <> 'draft' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT o.eligibility_criteria INTO criteria
+  FROM opportunities o
+  WHERE o.opportunity_id = NEW.opportunity_id;
+
+  IF criteria IS NULL OR jsonb_typeof(criteria) <> 'object' OR criteria = '{}'::jsonb THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO student FROM students s WHERE s.student_id = NEW.student_id;
+
+  min_cgpa := public.eligibility_number(criteria->'min_cgpa');
+  IF min_cgpa IS NOT NULL THEN
+    IF student.cgpa IS NULL OR student.cgpa < min_cgpa THEN
+      RAISE EXCEPTION 'Requires a CGPA of at least %', min_cgpa
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+
+  IF jsonb_typeof(criteria->'allowed_courses') = 'array' AND jsonb_array_length(criteria->'allowed_courses') > 0 THEN
+    IF student.course IS NULL OR NOT EXISTS (
+      SELECT 1 FROM jsonb_array_elements_text(criteria->'allowed_courses') AS c(course)
+      WHERE lower(trim(c.course)) = lower(trim(student.course))
+    ) THEN
+      RAISE EXCEPTION 'Your course is not eligible for this opportunity'
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+
+  -- Whole years only, whether stored as 3 or "3"; anything else is dropped
+  IF jsonb_typeof(criteria->'allowed_years') = 'array' THEN
+    SELECT array_agg(y.num) INTO allowed_years
+    FROM jsonb_array_elements(criteria->'allowed_years') AS e(item)
+    CROSS JOIN LATERAL (SELECT public.eligibility_number(e.item) AS num) y
+    WHERE y.num = trunc(y.num);
+  END IF;
+
+  IF cardinality(allowed_years) > 0 THEN
+    IF student.year_of_study IS NULL OR NOT (student.year_of_study::numeric = ANY(allowed_years)) THEN
+      RAISE EXCEPTION 'Your year of study is not eligible for this opportunity'
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+
+  IF criteria->>'graduation_after' IS NOT NULL OR criteria->>'graduation_before' IS NOT NULL THEN
+    IF student.expected_graduation IS NULL
+       OR (criteria->>'graduation_after' IS NOT NULL AND student.expected_graduation < (criteria->>'graduation_after')::date)
+       OR (criteria->>'graduation_before' IS NOT NULL AND student.expected_graduation > (criteria->>'graduation_before')::date) THEN
+      RAISE EXCEPTION 'Your expected graduation is outside the eligible window'
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+
+  IF jsonb_typeof(criteria->'required_skills') = 'array' THEN
+    SELECT string_agg(r.skill, ', ') INTO missing_skills
+    FROM jsonb_array_elements_text(criteria->'required_skills') AS r(skill)
+    WHERE NOT EXISTS (
+      SELECT 1 FROM jsonb_array_elements_text(COALESCE(student.skills, '[]'::jsonb)) AS s(skill)
+      WHERE lower(trim(s.skill)) = lower(trim(r.skill))
+    );
+    IF missing_skills IS NOT NULL THEN
+      RAISE EXCEPTION 'Missing required skills: %', missing_skills
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS enforce_application_eligibility ON applications;
+CREATE TRIGGER enforce_application_eligibility
+  BEFORE INSERT OR UPDATE OF status ON applications
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_application_eligibility();
@@ -0,0 +1,118 @@
+-- Application fit score
+-- applications.application_score ranks applicants under "Best fit first", so it
+-- is computed here from the student's profile and the opportunity when the
+-- application is created. Whatever the client sends is ignored.
+-- Keep in sync with computeMatchScore in src/utils/matchScore.ts.
+
+-- Trimmed, lowercased items of a jsonb list; also takes a comma-separated string
+-- and the {city: ...} objects older rows store locations as
+CREATE OR REPLACE FUNCTION public.match_text_list(p_value jsonb)
+RETURNS text[] AS $$
+  SELECT COALESCE(array_agg(lower(trim(item))) FILTER (WHERE trim(item) <> ''), '{}')
+  FROM (
+    SELECT CASE jsonb_typeof(element) WHEN 'object' THEN element->>'city' ELSE element #>> '{}' END AS item
+    FROM jsonb_array_elements(CASE jsonb_typeof(p_value) WHEN 'array' THEN p_value ELSE '[]'::jsonb END) element
+    UNION ALL
+    SELECT regexp_split_to_table(p_value #>> '{}', ',')
+    WHERE jsonb_typeof(p_value) = 'string'
+  ) items;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Share of the wanted skills the student has; a skill related to one they have
+-- (through skills_master) is worth half. Null when nothing is wanted.
+CREATE OR REPLACE FUNCTION public.skill_match_credit(p_wanted text[], p_owned text[])
+RETURNS numeric AS $$
+  SELECT sum(
+    CASE
+      WHEN wanted = ANY(p_owned) THEN 1
+      WHEN EXISTS (
+        SELECT 1 FROM skills_master sm
+        WHERE (lower(trim(sm.skill_name)) = wanted AND public.match_text_list(sm.related_skills) && p_owned)
+          OR (lower(trim(sm.skill_name)) = ANY(p_owned) AND wanted = ANY(public.match_text_list(sm.related_skills)))
+      ) THEN 0.5
+      ELSE 0
+    END
+  ) / NULLIF(cardinality(p_wanted), 0)
+  FROM unnest(p_wanted) wanted;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- 0-100. Factors that can't be judged are left out and the rest rescaled:
+-- required skills 50, preferred skills 20, location 15, stipend 15.
+CREATE OR REPLACE FUNCTION public.compute_match_score(s students, o opportunities)
+RETURNS integer AS $$
+DECLARE
+  owned text[] := public.match_text_list(s.skills);
+  locations text[] := public.match_text_list(to_jsonb(o.location));
+  preferred text[] := public.match_text_list(s.preferred_locations);
+  credit numeric;
+  offered numeric := COALESCE(o.stipend_max, o.stipend_min);
+  earned numeric := 0;
+  possible numeric := 0;
+BEGIN
+  credit := public.skill_match_credit(public.match_text_list(o.required_skills), owned);
+  IF credit IS NOT NULL THEN
+    earned := earned + credit * 50;
+    possible := possible + 50;
+  END IF;
+
+  credit := public.skill_match_credit(public.match_text_list(o.preferred_skills), owned);
+  IF credit IS NOT NULL THEN
+    earned := earned + credit * 20;
+    possible := possible + 20;
+  END IF;
+
+  IF o.work_mode = 'remote' THEN
+    earned := earned + 15;
+    possible := possible + 15;
+  ELSIF cardinality(locations) > 0 AND cardinality(preferred) > 0 THEN
+    possible := possible + 15;
+    IF EXISTS (
+      SELECT 1 FROM unnest(locations) l, unnest(preferred) p
+      WHERE position(p IN l) > 0 OR position(l IN p) > 0
+    ) THEN
+      earned := earned + 15;
+    ELSIF o.work_mode = 'hybrid' THEN
+      earned := earned + 5;
+    END IF;
+  END IF;
+
+  IF COALESCE(s.expected_salary_min, 0) > 0 AND offered IS NOT NULL THEN
+    possible := possible + 15;
+    earned := earned + LEAST(1, GREATEST(0, offered / s.expected_salary_min)) * 15;
+  END IF;
+
+  IF possible = 0 THEN
+    RETURN 0;
+  END IF;
+  RETURN round(earned / possible * 100);
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.set_application_score()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    NEW.application_score := OLD.application_score;
+    RETURN NEW;
+  END IF;
+
+  SELECT public.compute_match_score(s, o) INTO NEW.application_score
+  FROM students s, opportunities o
+  WHERE s.student_id = NEW.student_id
+    AND o.opportunity_id = NEW.opportunity_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Rescore applications sent while the browser supplied the score
+UPDATE applications a
+SET application_score = public.compute_match_score(s, o)
+FROM students s, opportunities o
+WHERE s.student_id = a.student_id
+  AND o.opportunity_id = a.opportunity_id;
+
+DROP TRIGGER IF EXISTS set_application_score ON applications;
+CREATE TRIGGER set_application_score
+  BEFORE INSERT OR UPDATE OF application_score ON applications
+  FOR EACH ROW EXECUTE FUNCTION public.set_application_score();
@@ -0,0 +1,62 @@
+-- Company profiles at signup
+-- handle_new_user only created a students row, so company accounts had no
+-- companies row and every company page silently did nothing. The trigger now
+-- creates a bare companies row too; the onboarding wizard fills in the rest.
+
+-- Onboarding writes the original companies columns; the other setup script
+-- named them industry_type, website and brand_logo_url instead
+ALTER TABLE companies ADD COLUMN IF NOT EXISTS industry text;
+ALTER TABLE companies ADD COLUMN IF NOT EXISTS website_url text;
+ALTER TABLE companies ADD COLUMN IF NOT EXISTS logo_url text;
+
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER AS $$
+DECLARE
+  signup_type text := COALESCE(NEW.raw_user_meta_data->>'user_type', 'student');
+  display_name text := COALESCE(NEW.raw_user_meta_data->>'full_name', SPLIT_PART(NEW.email, '@', 1));
+BEGIN
+  INSERT INTO public.users (
+    user_id,
+    email,
+    user_type,
+    verification_status,
+    email_verified,
+    created_at,
+    updated_at
+  ) VALUES (
+    NEW.id,
+    NEW.email,
+    signup_type::user_type_enum,
+    CASE
+      WHEN NEW.email_confirmed_at IS NOT NULL THEN 'verified'::verification_status_enum
+      ELSE 'pending'::verification_status_enum
+    END,
+    NEW.email_confirmed_at IS NOT NULL,
+    NEW.created_at,
+    NEW.updated_at
+  );
+
+  IF signup_type = 'student' THEN
+    INSERT INTO public.students (user_id, full_name, profile_strength)
+    VALUES (NEW.id, display_name, 10);
+  ELSIF signup_type = 'company' THEN
+    -- The signup form only asks for a name; onboarding collects the rest
+    INSERT INTO public.companies (user_id, company_name)
+    VALUES (NEW.id, COALESCE(NEW.raw_user_meta_data->>'company_name', display_name));
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Backfill company accounts that signed up before this trigger handled them
+INSERT INTO public.companies (user_id, company_name)
+SELECT
+  u.user_id,
+  COALESCE(au.raw_user_meta_data->>'company_name', au.raw_user_meta_data->>'full_name', SPLIT_PART(u.email, '@', 1))
+FROM public.users u
+JOIN auth.users au ON au.id = u.user_id
+WHERE u.user_type = 'company'
+AND NOT EXISTS (
+  SELECT 1 FROM public.companies c WHERE c.user_id = u.user_id
+);
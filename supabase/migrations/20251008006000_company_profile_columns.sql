@@ -0,0 +1,49 @@
+-- Company profile columns
+-- The client now reads and writes the columns from the original companies
+-- definition (company_description, industry, website_url, logo_url, ...).
+-- Databases built from the other setup script keep their data in
+-- industry_type/website/brand_logo_url and description/benefits; it is carried
+-- over here.
+
+ALTER TABLE companies ADD COLUMN IF NOT EXISTS company_description text;
+ALTER TABLE companies ADD COLUMN IF NOT EXISTS industry text;
+ALTER TABLE companies ADD COLUMN IF NOT EXISTS website_url text;
+ALTER TABLE companies ADD COLUMN IF NOT EXISTS linkedin_url text;
+ALTER TABLE companies ADD COLUMN IF NOT EXISTS logo_url text;
+ALTER TABLE companies ADD COLUMN IF NOT EXISTS founded_year integer;
+ALTER TABLE companies ADD COLUMN IF NOT EXISTS employee_count_range text;
+ALTER TABLE companies ADD COLUMN IF NOT EXISTS company_culture jsonb DEFAULT '{}'::jsonb;
+ALTER TABLE companies ADD COLUMN IF NOT EXISTS benefits_offered jsonb DEFAULT '[]'::jsonb;
+ALTER TABLE companies ADD COLUMN IF NOT EXISTS tech_stack jsonb DEFAULT '[]'::jsonb;
+ALTER TABLE companies ADD COLUMN IF NOT EXISTS is_verified boolean DEFAULT false;
+
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'companies' AND column_name = 'industry_type'
+  ) THEN
+    EXECUTE 'UPDATE companies SET
+               industry = COALESCE(industry, industry_type),
+               website_url = COALESCE(website_url, website),
+               logo_url = COALESCE(logo_url, brand_logo_url)
+             WHERE (industry IS NULL AND industry_type IS NOT NULL)
+                OR (website_url IS NULL AND website IS NOT NULL)
+                OR (logo_url IS NULL AND brand_logo_url IS NOT NULL)';
+  END IF;
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'companies' AND column_name = 'description'
+  ) THEN
+    EXECUTE 'UPDATE companies SET company_description = description
+             WHERE company_description IS NULL AND description IS NOT NULL';
+  END IF;
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'companies' AND column_name = 'benefits'
+  ) THEN
+    EXECUTE 'UPDATE companies SET benefits_offered = benefits
+             WHERE jsonb_typeof(benefits) = ''array''
+               AND COALESCE(benefits_offered, ''[]''::jsonb) = ''[]''::jsonb';
+  END IF;
+END $$;
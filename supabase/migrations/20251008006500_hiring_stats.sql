@@ -0,0 +1,44 @@
+-- Hiring stats
+-- opportunities.applications_count and positions_filled are never kept up to
+-- date, and RLS hides closed postings from everyone but their company, so
+-- totals summed in the browser came out as zero. These count straight from
+-- applications instead. An application counts once it is sent; a hire is a
+-- selected applicant who hasn't declined the offer.
+
+CREATE OR REPLACE FUNCTION public.opportunity_application_stats(p_opportunity_ids uuid[])
+RETURNS TABLE (
+  opportunity_id uuid,
+  applications_count integer,
+  hired_count integer
+) AS $$
+  SELECT
+    o.opportunity_id,
+    (count(a.application_id) FILTER (WHERE a.status <> 'draft'))::integer,
+    (count(a.application_id) FILTER (WHERE a.status = 'selected' AND a.is_accepted IS DISTINCT FROM false))::integer
+  FROM opportunities o
+  LEFT JOIN applications a ON a.opportunity_id = o.opportunity_id
+  WHERE o.opportunity_id = ANY(p_opportunity_ids)
+    AND (
+      o.status <> 'draft'
+      OR EXISTS (SELECT 1 FROM companies c WHERE c.company_id = o.company_id AND c.user_id = auth.uid())
+    )
+  GROUP BY o.opportunity_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- The tiles on a company's public page; drafts are left out
+CREATE OR REPLACE FUNCTION public.company_hiring_stats(p_company_id uuid)
+RETURNS jsonb AS $$
+  SELECT jsonb_build_object(
+    'open_roles', count(*) FILTER (WHERE o.status = 'active'),
+    'roles_posted', count(*),
+    'hired', COALESCE(sum(s.hired_count), 0),
+    'applications', COALESCE(sum(s.applications_count), 0)
+  )
+  FROM opportunities o
+  CROSS JOIN LATERAL public.opportunity_application_stats(ARRAY[o.opportunity_id]) s
+  WHERE o.company_id = p_company_id
+    AND o.status <> 'draft';
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.opportunity_application_stats(uuid[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.company_hiring_stats(uuid) TO authenticated;
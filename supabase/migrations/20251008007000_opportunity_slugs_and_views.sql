@@ -0,0 +1,86 @@
+-- Opportunity detail pages
+-- Every opportunity gets a readable, stable slug for /opportunities/:slug, and
+-- views are counted at most once per viewer per day through
+-- record_opportunity_view so refreshes and re-renders don't inflate view_count.
+
+ALTER TABLE opportunities ADD COLUMN IF NOT EXISTS slug text;
+-- In the base schema; databases set up from complete_setup.sql lack it
+ALTER TABLE opportunities ADD COLUMN IF NOT EXISTS view_count integer DEFAULT 0;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_opportunities_slug ON opportunities(slug);
+
+-- "Frontend Intern (React)" -> "frontend-intern-react-1a2b3c4d"; the id suffix
+-- keeps slugs unique without a lookup
+CREATE OR REPLACE FUNCTION public.opportunity_slug(title text, opportunity_id uuid)
+RETURNS text AS $$
+  SELECT concat_ws(
+    '-',
+    NULLIF(left(trim(BOTH '-' FROM regexp_replace(lower(COALESCE(title, '')), '[^a-z0-9]+', '-', 'g')), 60), ''),
+    left(opportunity_id::text, 8)
+  );
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Only filled in when missing: renaming a posting must not break links already shared
+CREATE OR REPLACE FUNCTION public.set_opportunity_slug()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.slug IS NULL OR NEW.slug = '' THEN
+    NEW.slug := public.opportunity_slug(NEW.title, NEW.opportunity_id);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS set_opportunity_slug ON opportunities;
+CREATE TRIGGER set_opportunity_slug
+  BEFORE INSERT OR UPDATE OF slug ON opportunities
+  FOR EACH ROW EXECUTE FUNCTION public.set_opportunity_slug();
+
+UPDATE opportunities
+SET slug = public.opportunity_slug(title, opportunity_id)
+WHERE slug IS NULL OR slug = '';
+
+-- One row per viewer per opportunity per day
+CREATE TABLE IF NOT EXISTS opportunity_views (
+  opportunity_id uuid NOT NULL REFERENCES opportunities(opportunity_id) ON DELETE CASCADE,
+  viewer_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  viewed_on date NOT NULL DEFAULT CURRENT_DATE,
+  PRIMARY KEY (opportunity_id, viewer_id, viewed_on)
+);
+
+-- Only written through record_opportunity_view
+ALTER TABLE opportunity_views ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.record_opportunity_view(p_opportunity_id uuid)
+RETURNS void AS $$
+DECLARE
+  inserted integer;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN;
+  END IF;
+
+  -- The posting company previewing its own listing is not a view
+  IF EXISTS (
+    SELECT 1
+    FROM opportunities o
+    JOIN companies c ON c.company_id = o.company_id
+    WHERE o.opportunity_id = p_opportunity_id AND c.user_id = auth.uid()
+  ) THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO opportunity_views (opportunity_id, viewer_id)
+  VALUES (p_opportunity_id, auth.uid())
+  ON CONFLICT DO NOTHING;
+
+  GET DIAGNOSTICS inserted = ROW_COUNT;
+  IF inserted > 0 THEN
+    UPDATE opportunities
+    SET view_count = COALESCE(view_count, 0) + 1
+    WHERE opportunity_id = p_opportunity_id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.record_opportunity_view(uuid) TO authenticated;
@@ -0,0 +1,381 @@
+-- Admin console
+-- Moderation runs through SECURITY DEFINER functions that check is_admin()
+-- first, so the role check holds even if a client skips the /admin route guard.
+-- Admins are promoted by hand in the users table; signup can no longer request
+-- the role through user metadata.
+
+CREATE OR REPLACE FUNCTION public.is_admin()
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM users
+    WHERE user_id = auth.uid()
+      AND user_type = 'admin'
+      AND COALESCE(is_active, true)
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.is_admin() TO authenticated;
+
+-- False only for suspended accounts, so rows from before is_active existed
+-- still count. Defaults to the caller; browsing passes a company's owner.
+CREATE OR REPLACE FUNCTION public.is_active_user(p_user_id uuid DEFAULT auth.uid())
+RETURNS boolean AS $$
+  SELECT NOT EXISTS (
+    SELECT 1 FROM users
+    WHERE user_id = p_user_id
+      AND (NOT COALESCE(is_active, true) OR verification_status = 'suspended')
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.is_active_user(uuid) TO authenticated;
+
+-- 1) Signup only ever creates students and companies
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER AS $$
+DECLARE
+  signup_type text := CASE
+    WHEN NEW.raw_user_meta_data->>'user_type' IN ('student', 'company') THEN NEW.raw_user_meta_data->>'user_type'
+    ELSE 'student'
+  END;
+  display_name text := COALESCE(NEW.raw_user_meta_data->>'full_name', SPLIT_PART(NEW.email, '@', 1));
+BEGIN
+  INSERT INTO public.users (
+    user_id,
+    email,
+    user_type,
+    verification_status,
+    email_verified,
+    created_at,
+    updated_at
+  ) VALUES (
+    NEW.id,
+    NEW.email,
+    signup_type::user_type_enum,
+    CASE
+      WHEN NEW.email_confirmed_at IS NOT NULL THEN 'verified'::verification_status_enum
+      ELSE 'pending'::verification_status_enum
+    END,
+    NEW.email_confirmed_at IS NOT NULL,
+    NEW.created_at,
+    NEW.updated_at
+  );
+
+  IF signup_type = 'student' THEN
+    INSERT INTO public.students (user_id, full_name, profile_strength)
+    VALUES (NEW.id, display_name, 10);
+  ELSE
+    -- The signup form only asks for a name; onboarding collects the rest
+    INSERT INTO public.companies (user_id, company_name)
+    VALUES (NEW.id, COALESCE(NEW.raw_user_meta_data->>'company_name', display_name));
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- 2) Moderation bookkeeping
+ALTER TABLE companies ADD COLUMN IF NOT EXISTS verification_documents jsonb DEFAULT '[]'::jsonb;
+ALTER TABLE companies ADD COLUMN IF NOT EXISTS verified_at timestamptz;
+ALTER TABLE companies ADD COLUMN IF NOT EXISTS verification_note text;
+
+ALTER TABLE opportunities ADD COLUMN IF NOT EXISTS taken_down_at timestamptz;
+ALTER TABLE opportunities ADD COLUMN IF NOT EXISTS taken_down_by uuid REFERENCES users(user_id) ON DELETE SET NULL;
+ALTER TABLE opportunities ADD COLUMN IF NOT EXISTS takedown_reason text;
+
+-- Admins review every company and posting, not just active ones
+DROP POLICY IF EXISTS "Admins can read companies" ON companies;
+CREATE POLICY "Admins can read companies" ON companies FOR SELECT TO authenticated USING (public.is_admin());
+
+DROP POLICY IF EXISTS "Admins can read opportunities" ON opportunities;
+CREATE POLICY "Admins can read opportunities" ON opportunities FOR SELECT TO authenticated USING (public.is_admin());
+
+-- 3) Owners can update their own rows under RLS, so the moderated columns are
+-- guarded here. auth.uid() is null for migrations and the service role.
+CREATE OR REPLACE FUNCTION public.guard_moderated_columns()
+RETURNS TRIGGER AS $$
+DECLARE
+  changed boolean := false;
+BEGIN
+  IF auth.uid() IS NULL OR public.is_admin() THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_TABLE_NAME = 'users' THEN
+    changed := NEW.user_type IS DISTINCT FROM OLD.user_type
+      OR NEW.is_active IS DISTINCT FROM OLD.is_active
+      OR NEW.verification_status IS DISTINCT FROM OLD.verification_status;
+  ELSIF TG_TABLE_NAME = 'companies' THEN
+    changed := NEW.is_verified IS DISTINCT FROM OLD.is_verified
+      OR NEW.verified_at IS DISTINCT FROM OLD.verified_at;
+  ELSIF TG_TABLE_NAME = 'opportunities' THEN
+    changed := NEW.taken_down_at IS DISTINCT FROM OLD.taken_down_at
+      OR NEW.takedown_reason IS DISTINCT FROM OLD.takedown_reason
+      OR (OLD.taken_down_at IS NOT NULL AND NEW.status IS DISTINCT FROM OLD.status);
+  END IF;
+
+  IF changed THEN
+    RAISE EXCEPTION 'Only admins can change this field'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS guard_moderated_columns ON users;
+CREATE TRIGGER guard_moderated_columns
+  BEFORE UPDATE ON users
+  FOR EACH ROW EXECUTE FUNCTION public.guard_moderated_columns();
+
+DROP TRIGGER IF EXISTS guard_moderated_columns ON companies;
+CREATE TRIGGER guard_moderated_columns
+  BEFORE UPDATE ON companies
+  FOR EACH ROW EXECUTE FUNCTION public.guard_moderated_columns();
+
+DROP TRIGGER IF EXISTS guard_moderated_columns ON opportunities;
+CREATE TRIGGER guard_moderated_columns
+  BEFORE UPDATE ON opportunities
+  FOR EACH ROW EXECUTE FUNCTION public.guard_moderated_columns();
+
+-- Suspension is enforced here rather than by the client signing the user out:
+-- a suspended account's token can't write to any of these tables. Restrictive
+-- policies are ANDed with the existing ones, so those stay as they are.
+DO $$
+DECLARE
+  target text;
+BEGIN
+  FOREACH target IN ARRAY ARRAY['students', 'companies', 'opportunities', 'applications', 'interviews', 'application_notes'] LOOP
+    EXECUTE format('DROP POLICY IF EXISTS "Suspended users cannot insert" ON %I', target);
+    EXECUTE format(
+      'CREATE POLICY "Suspended users cannot insert" ON %I AS RESTRICTIVE FOR INSERT TO authenticated WITH CHECK (public.is_active_user())',
+      target
+    );
+    EXECUTE format('DROP POLICY IF EXISTS "Suspended users cannot update" ON %I', target);
+    EXECUTE format(
+      'CREATE POLICY "Suspended users cannot update" ON %I AS RESTRICTIVE FOR UPDATE TO authenticated USING (public.is_active_user())',
+      target
+    );
+    EXECUTE format('DROP POLICY IF EXISTS "Suspended users cannot delete" ON %I', target);
+    EXECUTE format(
+      'CREATE POLICY "Suspended users cannot delete" ON %I AS RESTRICTIVE FOR DELETE TO authenticated USING (public.is_active_user())',
+      target
+    );
+  END LOOP;
+END $$;
+
+-- 4) User search; emails are not otherwise readable across accounts
+CREATE OR REPLACE FUNCTION public.admin_search_users(
+  p_query text DEFAULT NULL,
+  p_user_type user_type_enum DEFAULT NULL,
+  p_limit integer DEFAULT 50
+)
+RETURNS TABLE (
+  user_id uuid,
+  email text,
+  user_type user_type_enum,
+  display_name text,
+  verification_status verification_status_enum,
+  is_active boolean,
+  created_at timestamptz,
+  last_login timestamptz
+) AS $$
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can search users'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    u.user_id,
+    u.email,
+    u.user_type,
+    COALESCE(s.full_name, c.company_name) AS display_name,
+    u.verification_status,
+    COALESCE(u.is_active, true) AS is_active,
+    u.created_at,
+    u.last_login
+  FROM users u
+  LEFT JOIN students s ON s.user_id = u.user_id
+  LEFT JOIN companies c ON c.user_id = u.user_id
+  WHERE (p_user_type IS NULL OR u.user_type = p_user_type)
+    AND (
+      p_query IS NULL OR trim(p_query) = ''
+      OR u.email ILIKE '%' || trim(p_query) || '%'
+      OR s.full_name ILIKE '%' || trim(p_query) || '%'
+      OR c.company_name ILIKE '%' || trim(p_query) || '%'
+    )
+  ORDER BY u.created_at DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 200);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- 5) Suspend / reinstate
+CREATE OR REPLACE FUNCTION public.admin_set_user_access(
+  p_user_id uuid,
+  p_is_active boolean
+)
+RETURNS verification_status_enum AS $$
+DECLARE
+  new_status verification_status_enum;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can change account access'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+  IF p_user_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot suspend your own account'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  UPDATE users SET
+    is_active = p_is_active,
+    verification_status = CASE
+      WHEN NOT p_is_active THEN 'suspended'::verification_status_enum
+      WHEN email_verified THEN 'verified'::verification_status_enum
+      ELSE 'pending'::verification_status_enum
+    END,
+    updated_at = now()
+  WHERE user_id = p_user_id
+  RETURNING verification_status INTO new_status;
+
+  IF new_status IS NULL THEN
+    RAISE EXCEPTION 'User not found'
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF p_is_active THEN
+    INSERT INTO notifications (user_id, type, title, message, priority)
+    VALUES (p_user_id, 'system', 'Account reinstated', 'Your TrackIntern account is active again.', 'high');
+  END IF;
+
+  RETURN new_status;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- 6) Company verification
+CREATE OR REPLACE FUNCTION public.admin_set_company_verification(
+  p_company_id uuid,
+  p_verified boolean,
+  p_note text DEFAULT NULL
+)
+RETURNS void AS $$
+DECLARE
+  owner_id uuid;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can verify companies'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  UPDATE companies SET
+    is_verified = p_verified,
+    verified_at = CASE WHEN p_verified THEN now() ELSE NULL END,
+    verification_note = NULLIF(trim(COALESCE(p_note, '')), ''),
+    updated_at = now()
+  WHERE company_id = p_company_id
+  RETURNING user_id INTO owner_id;
+
+  IF owner_id IS NULL THEN
+    RAISE EXCEPTION 'Company not found'
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  INSERT INTO notifications (user_id, type, title, message, action_url, priority)
+  VALUES (
+    owner_id,
+    'system',
+    CASE WHEN p_verified THEN 'Company verified' ELSE 'Company verification declined' END,
+    CASE
+      WHEN p_verified THEN 'Your company is verified. Students now see a verified badge on your postings.'
+      ELSE COALESCE('Your verification was declined: ' || NULLIF(trim(p_note), ''), 'Your verification was declined.')
+    END,
+    '/company/settings',
+    'medium'
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- 7) Opportunity takedown
+CREATE OR REPLACE FUNCTION public.admin_take_down_opportunity(
+  p_opportunity_id uuid,
+  p_reason text
+)
+RETURNS void AS $$
+DECLARE
+  owner_id uuid;
+  posting_title text;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can take down opportunities'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+  IF trim(COALESCE(p_reason, '')) = '' THEN
+    RAISE EXCEPTION 'A reason is required'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  UPDATE opportunities o SET
+    status = 'closed',
+    taken_down_at = now(),
+    taken_down_by = auth.uid(),
+    takedown_reason = trim(p_reason),
+    updated_at = now()
+  WHERE o.opportunity_id = p_opportunity_id
+  RETURNING o.title INTO posting_title;
+
+  IF posting_title IS NULL THEN
+    RAISE EXCEPTION 'Opportunity not found'
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  SELECT c.user_id INTO owner_id
+  FROM opportunities o
+  JOIN companies c ON c.company_id = o.company_id
+  WHERE o.opportunity_id = p_opportunity_id;
+
+  IF owner_id IS NOT NULL THEN
+    INSERT INTO notifications (user_id, type, title, message, action_url, priority, metadata)
+    VALUES (
+      owner_id,
+      'system',
+      'Opportunity taken down',
+      format('"%s" was taken down by a moderator: %s', posting_title, trim(p_reason)),
+      '/company',
+      'high',
+      jsonb_build_object('opportunity_id', p_opportunity_id)
+    );
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- 8) Platform metrics for the overview tab
+CREATE OR REPLACE FUNCTION public.admin_platform_metrics()
+RETURNS jsonb AS $$
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can view platform metrics'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN jsonb_build_object(
+    'students', (SELECT count(*) FROM users WHERE user_type = 'student'),
+    'companies', (SELECT count(*) FROM companies),
+    'verified_companies', (SELECT count(*) FROM companies WHERE is_verified),
+    'suspended_users', (SELECT count(*) FROM users WHERE NOT COALESCE(is_active, true)),
+    'new_users_7d', (SELECT count(*) FROM users WHERE created_at >= now() - interval '7 days'),
+    'active_opportunities', (SELECT count(*) FROM opportunities WHERE status = 'active'),
+    'taken_down_opportunities', (SELECT count(*) FROM opportunities WHERE taken_down_at IS NOT NULL),
+    'applications', (SELECT count(*) FROM applications WHERE status <> 'draft'),
+    'applications_7d', (
+      SELECT count(*) FROM applications
+      WHERE status <> 'draft' AND COALESCE(applied_date, created_at) >= now() - interval '7 days'
+    )
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.admin_search_users(text, user_type_enum, integer) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.admin_set_user_access(uuid, boolean) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.admin_set_company_verification(uuid, boolean, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.admin_take_down_opportunity(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.admin_platform_metrics() TO authenticated;
@@ -0,0 +1,297 @@
+-- College placement coordinators
+-- A coordinator belongs to one college and sees the students whose
+-- students.college_name matches it (case and surrounding spaces ignored).
+-- Everything they read or change goes through the coordinator_* functions
+-- below, which scope to that college, so no cross-college RLS is needed.
+-- Admins assign the role with admin_make_coordinator.
+
+CREATE TABLE IF NOT EXISTS college_coordinators (
+  coordinator_id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL UNIQUE REFERENCES users(user_id) ON DELETE CASCADE,
+  college_name text NOT NULL,
+  full_name text,
+  designation text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE college_coordinators ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Coordinators can read own profile" ON college_coordinators;
+CREATE POLICY "Coordinators can read own profile" ON college_coordinators FOR SELECT TO authenticated USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_students_college_normalized ON students(lower(trim(college_name)));
+
+-- College sign-off on individual applications
+ALTER TABLE applications ADD COLUMN IF NOT EXISTS college_approved_at timestamptz;
+ALTER TABLE applications ADD COLUMN IF NOT EXISTS college_approved_by uuid REFERENCES college_coordinators(coordinator_id) ON DELETE SET NULL;
+
+-- Coordinator puts a student forward for an opportunity
+CREATE TABLE IF NOT EXISTS opportunity_nominations (
+  nomination_id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  opportunity_id uuid NOT NULL REFERENCES opportunities(opportunity_id) ON DELETE CASCADE,
+  student_id uuid NOT NULL REFERENCES students(student_id) ON DELETE CASCADE,
+  coordinator_id uuid NOT NULL REFERENCES college_coordinators(coordinator_id) ON DELETE CASCADE,
+  note text,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (opportunity_id, student_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_opportunity_nominations_student ON opportunity_nominations(student_id);
+
+ALTER TABLE opportunity_nominations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Coordinators can read own nominations" ON opportunity_nominations;
+CREATE POLICY "Coordinators can read own nominations" ON opportunity_nominations FOR SELECT TO authenticated USING (
+  EXISTS (SELECT 1 FROM college_coordinators cc WHERE cc.coordinator_id = opportunity_nominations.coordinator_id AND cc.user_id = auth.uid())
+);
+
+DROP POLICY IF EXISTS "Students can read own nominations" ON opportunity_nominations;
+CREATE POLICY "Students can read own nominations" ON opportunity_nominations FOR SELECT TO authenticated USING (
+  EXISTS (SELECT 1 FROM students s WHERE s.student_id = opportunity_nominations.student_id AND s.user_id = auth.uid())
+);
+
+DROP POLICY IF EXISTS "Companies can read nominations for own opportunities" ON opportunity_nominations;
+CREATE POLICY "Companies can read nominations for own opportunities" ON opportunity_nominations FOR SELECT TO authenticated USING (
+  EXISTS (
+    SELECT 1 FROM opportunities o
+    JOIN companies c ON c.company_id = o.company_id
+    WHERE o.opportunity_id = opportunity_nominations.opportunity_id AND c.user_id = auth.uid()
+  )
+);
+
+-- The caller's coordinator row; raises unless the caller is an active coordinator
+CREATE OR REPLACE FUNCTION public.current_coordinator()
+RETURNS college_coordinators AS $$
+DECLARE
+  coordinator college_coordinators;
+BEGIN
+  SELECT cc.* INTO coordinator
+  FROM college_coordinators cc
+  JOIN users u ON u.user_id = cc.user_id
+  WHERE cc.user_id = auth.uid()
+    AND u.user_type = 'college_coordinator'
+    AND COALESCE(u.is_active, true);
+
+  IF coordinator.coordinator_id IS NULL THEN
+    RAISE EXCEPTION 'Only college coordinators can do this'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+  RETURN coordinator;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- 1) Cohort overview: one row per student with their application funnel
+CREATE OR REPLACE FUNCTION public.coordinator_cohort()
+RETURNS TABLE (
+  student_id uuid,
+  full_name text,
+  email text,
+  course text,
+  specialization text,
+  year_of_study integer,
+  cgpa numeric,
+  expected_graduation date,
+  resume_url text,
+  applications_count integer,
+  interviewing_count integer,
+  offers_count integer,
+  accepted_offers_count integer,
+  nominations_count integer,
+  last_applied_at timestamptz
+) AS $$
+DECLARE
+  coordinator college_coordinators := public.current_coordinator();
+BEGIN
+  RETURN QUERY
+  SELECT
+    s.student_id,
+    s.full_name,
+    u.email,
+    s.course,
+    s.specialization,
+    s.year_of_study,
+    s.cgpa,
+    s.expected_graduation,
+    s.resume_url,
+    COUNT(a.application_id) FILTER (WHERE a.status NOT IN ('draft', 'withdrawn'))::integer,
+    COUNT(a.application_id) FILTER (WHERE a.status IN ('shortlisted', 'interview_scheduled', 'interviewed'))::integer,
+    COUNT(a.application_id) FILTER (WHERE a.status = 'selected')::integer,
+    COUNT(a.application_id) FILTER (WHERE a.status = 'selected' AND a.is_accepted)::integer,
+    (SELECT COUNT(*) FROM opportunity_nominations n WHERE n.student_id = s.student_id)::integer,
+    MAX(COALESCE(a.applied_date, a.created_at)) FILTER (WHERE a.status <> 'draft')
+  FROM students s
+  JOIN users u ON u.user_id = s.user_id
+  LEFT JOIN applications a ON a.student_id = s.student_id
+  WHERE lower(trim(s.college_name)) = lower(trim(coordinator.college_name))
+  GROUP BY s.student_id, u.email
+  ORDER BY s.full_name;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- 2) One student's applications, for the expanded row
+CREATE OR REPLACE FUNCTION public.coordinator_student_applications(p_student_id uuid)
+RETURNS TABLE (
+  application_id uuid,
+  opportunity_id uuid,
+  opportunity_title text,
+  opportunity_slug text,
+  company_name text,
+  status application_status_enum,
+  applied_date timestamptz,
+  is_accepted boolean,
+  college_approved_at timestamptz
+) AS $$
+DECLARE
+  coordinator college_coordinators := public.current_coordinator();
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM students s
+    WHERE s.student_id = p_student_id
+      AND lower(trim(s.college_name)) = lower(trim(coordinator.college_name))
+  ) THEN
+    RAISE EXCEPTION 'Student is not in your college'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    a.application_id,
+    o.opportunity_id,
+    o.title,
+    o.slug,
+    c.company_name,
+    a.status,
+    a.applied_date,
+    a.is_accepted,
+    a.college_approved_at
+  FROM applications a
+  JOIN opportunities o ON o.opportunity_id = a.opportunity_id
+  LEFT JOIN companies c ON c.company_id = o.company_id
+  WHERE a.student_id = p_student_id
+    AND a.status <> 'draft'
+  ORDER BY COALESCE(a.applied_date, a.created_at) DESC;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- 3) College sign-off on an application; companies see it on the applicant
+CREATE OR REPLACE FUNCTION public.coordinator_set_application_approval(
+  p_application_id uuid,
+  p_approved boolean
+)
+RETURNS timestamptz AS $$
+DECLARE
+  coordinator college_coordinators := public.current_coordinator();
+  approved_at timestamptz;
+BEGIN
+  UPDATE applications a SET
+    college_approved_at = CASE WHEN p_approved THEN now() ELSE NULL END,
+    college_approved_by = CASE WHEN p_approved THEN coordinator.coordinator_id ELSE NULL END
+  FROM students s
+  WHERE a.application_id = p_application_id
+    AND s.student_id = a.student_id
+    AND lower(trim(s.college_name)) = lower(trim(coordinator.college_name))
+  RETURNING a.college_approved_at INTO approved_at;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Application not found for your college'
+      USING ERRCODE = 'no_data_found';
+  END IF;
+  RETURN approved_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- 4) Nominate students for an active opportunity; returns how many were new
+CREATE OR REPLACE FUNCTION public.coordinator_nominate(
+  p_opportunity_id uuid,
+  p_student_ids uuid[],
+  p_note text DEFAULT NULL
+)
+RETURNS integer AS $$
+DECLARE
+  coordinator college_coordinators := public.current_coordinator();
+  posting opportunities;
+  inserted integer;
+BEGIN
+  SELECT * INTO posting FROM opportunities WHERE opportunity_id = p_opportunity_id;
+  IF posting.opportunity_id IS NULL OR posting.status <> 'active' THEN
+    RAISE EXCEPTION 'Opportunity is not open'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  WITH added AS (
+    INSERT INTO opportunity_nominations (opportunity_id, student_id, coordinator_id, note)
+    SELECT p_opportunity_id, s.student_id, coordinator.coordinator_id, NULLIF(trim(COALESCE(p_note, '')), '')
+    FROM students s
+    WHERE s.student_id = ANY (p_student_ids)
+      AND lower(trim(s.college_name)) = lower(trim(coordinator.college_name))
+    ON CONFLICT (opportunity_id, student_id) DO NOTHING
+    RETURNING student_id
+  ), notified AS (
+    INSERT INTO notifications (user_id, type, title, message, action_url, priority, metadata)
+    SELECT
+      s.user_id,
+      'new_opportunity',
+      'Your placement cell nominated you',
+      format('%s nominated you for "%s". Take a look and apply.', coordinator.college_name, posting.title),
+      '/opportunities/' || COALESCE(posting.slug, posting.opportunity_id::text),
+      'high',
+      jsonb_build_object('opportunity_id', posting.opportunity_id)
+    FROM added
+    JOIN students s ON s.student_id = added.student_id
+    RETURNING 1
+  )
+  SELECT count(*) INTO inserted FROM added;
+
+  RETURN inserted;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- 5) Admins assign the role; the user's students/companies row, if any, is left alone
+CREATE OR REPLACE FUNCTION public.admin_make_coordinator(
+  p_user_id uuid,
+  p_college_name text
+)
+RETURNS void AS $$
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can assign coordinators'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+  IF trim(COALESCE(p_college_name, '')) = '' THEN
+    RAISE EXCEPTION 'A college name is required'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  UPDATE users SET user_type = 'college_coordinator', updated_at = now()
+  WHERE user_id = p_user_id AND user_type <> 'admin';
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User not found or is an admin'
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  INSERT INTO college_coordinators (user_id, college_name, full_name)
+  SELECT p_user_id, trim(p_college_name), COALESCE(s.full_name, c.company_name)
+  FROM users u
+  LEFT JOIN students s ON s.user_id = u.user_id
+  LEFT JOIN companies c ON c.user_id = u.user_id
+  WHERE u.user_id = p_user_id
+  ON CONFLICT (user_id) DO UPDATE SET college_name = EXCLUDED.college_name, updated_at = now();
+
+  INSERT INTO notifications (user_id, type, title, message, action_url, priority)
+  VALUES (
+    p_user_id,
+    'system',
+    'Placement cell access granted',
+    format('You can now manage placements for %s.', trim(p_college_name)),
+    '/coordinator',
+    'high'
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.coordinator_cohort() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.coordinator_student_applications(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.coordinator_set_application_approval(uuid, boolean) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.coordinator_nominate(uuid, uuid[], text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.admin_make_coordinator(uuid, text) TO authenticated;
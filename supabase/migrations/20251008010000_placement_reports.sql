@@ -0,0 +1,136 @@
+-- Placement reports
+-- placement_report returns the raw rows behind a report for the caller's own
+-- scope: a coordinator gets their college's students, a company gets the
+-- applicants to its postings. The app computes rates, medians and breakdowns,
+-- so one call serves every chart and export.
+
+-- Placements quote CTC in lakhs per annum; older databases predate the columns.
+-- The opportunity editor sets them for placement postings.
+ALTER TABLE opportunities ADD COLUMN IF NOT EXISTS ctc_min numeric;
+ALTER TABLE opportunities ADD COLUMN IF NOT EXISTS ctc_max numeric;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'opportunities_ctc_range_check'
+  ) THEN
+    ALTER TABLE opportunities
+      ADD CONSTRAINT opportunities_ctc_range_check
+      CHECK (
+        (ctc_min IS NULL OR ctc_min >= 0)
+        AND (ctc_max IS NULL OR ctc_max >= 0)
+        AND (ctc_min IS NULL OR ctc_max IS NULL OR ctc_min <= ctc_max)
+      );
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_applications_applied_date ON applications(applied_date);
+
+CREATE OR REPLACE FUNCTION public.placement_report(
+  p_from date,
+  p_to date
+)
+RETURNS jsonb AS $$
+DECLARE
+  coordinator college_coordinators;
+  caller_company companies;
+  range_start timestamptz := p_from::timestamptz;
+  -- Inclusive of the whole last day
+  range_end timestamptz := (p_to + 1)::timestamptz;
+BEGIN
+  SELECT cc.* INTO coordinator
+  FROM college_coordinators cc
+  JOIN users u ON u.user_id = cc.user_id
+  WHERE cc.user_id = auth.uid() AND u.user_type = 'college_coordinator' AND COALESCE(u.is_active, true);
+
+  IF coordinator.coordinator_id IS NOT NULL THEN
+    RETURN jsonb_build_object(
+      'scope', 'college',
+      'scope_name', coordinator.college_name,
+      -- The whole cohort, so students who never applied count against the placement rate
+      'students', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object('student_id', s.student_id, 'course', s.course))
+        FROM students s
+        WHERE lower(trim(s.college_name)) = lower(trim(coordinator.college_name))
+      ), '[]'::jsonb),
+      'applications', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object(
+          'application_id', a.application_id,
+          'student_id', a.student_id,
+          'course', s.course,
+          'status', a.status,
+          'is_accepted', a.is_accepted,
+          'applied_date', a.applied_date,
+          'opportunity_id', o.opportunity_id,
+          'opportunity_title', o.title,
+          'opportunity_type', o.type,
+          'company_id', c.company_id,
+          'company_name', c.company_name,
+          'stipend_min', o.stipend_min,
+          'stipend_max', o.stipend_max,
+          'ctc_min', o.ctc_min,
+          'ctc_max', o.ctc_max,
+          'currency', o.currency
+        ))
+        FROM applications a
+        JOIN students s ON s.student_id = a.student_id
+        JOIN opportunities o ON o.opportunity_id = a.opportunity_id
+        LEFT JOIN companies c ON c.company_id = o.company_id
+        WHERE lower(trim(s.college_name)) = lower(trim(coordinator.college_name))
+          AND a.status NOT IN ('draft', 'withdrawn')
+          AND a.applied_date >= range_start AND a.applied_date < range_end
+      ), '[]'::jsonb)
+    );
+  END IF;
+
+  SELECT c.* INTO caller_company FROM companies c WHERE c.user_id = auth.uid();
+
+  IF caller_company.company_id IS NOT NULL THEN
+    RETURN jsonb_build_object(
+      'scope', 'company',
+      'scope_name', caller_company.company_name,
+      -- Everyone who applied in the range; a company has no wider cohort
+      'students', COALESCE((
+        SELECT jsonb_agg(DISTINCT jsonb_build_object('student_id', s.student_id, 'course', s.course))
+        FROM applications a
+        JOIN students s ON s.student_id = a.student_id
+        JOIN opportunities o ON o.opportunity_id = a.opportunity_id
+        WHERE o.company_id = caller_company.company_id
+          AND a.status NOT IN ('draft', 'withdrawn')
+          AND a.applied_date >= range_start AND a.applied_date < range_end
+      ), '[]'::jsonb),
+      'applications', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object(
+          'application_id', a.application_id,
+          'student_id', a.student_id,
+          'course', s.course,
+          'status', a.status,
+          'is_accepted', a.is_accepted,
+          'applied_date', a.applied_date,
+          'opportunity_id', o.opportunity_id,
+          'opportunity_title', o.title,
+          'opportunity_type', o.type,
+          'company_id', caller_company.company_id,
+          'company_name', caller_company.company_name,
+          'stipend_min', o.stipend_min,
+          'stipend_max', o.stipend_max,
+          'ctc_min', o.ctc_min,
+          'ctc_max', o.ctc_max,
+          'currency', o.currency
+        ))
+        FROM applications a
+        JOIN students s ON s.student_id = a.student_id
+        JOIN opportunities o ON o.opportunity_id = a.opportunity_id
+        WHERE o.company_id = caller_company.company_id
+          AND a.status NOT IN ('draft', 'withdrawn')
+          AND a.applied_date >= range_start AND a.applied_date < range_end
+      ), '[]'::jsonb)
+    );
+  END IF;
+
+  RAISE EXCEPTION 'Reports are available to placement coordinators and companies'
+    USING ERRCODE = 'insufficient_privilege';
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.placement_report(date, date) TO authenticated;
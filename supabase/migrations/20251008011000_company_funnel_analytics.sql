@@ -0,0 +1,99 @@
+-- Company hiring funnel analytics
+-- applications.source records how a student applied, and company_funnel_report
+-- returns the raw rows behind a company's per-posting funnel: daily unique views
+-- from opportunity_views, and every application with each status it has ever
+-- held (from application_status_history) so a rejected-after-interview
+-- applicant still counts towards the interview stage. The app computes the
+-- conversion rates, trends and source breakdown.
+
+ALTER TABLE applications ADD COLUMN IF NOT EXISTS source text;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'applications_source_check'
+  ) THEN
+    ALTER TABLE applications
+      ADD CONSTRAINT applications_source_check
+      CHECK (source IS NULL OR source IN ('application_form', 'quick_apply'));
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_opportunity_views_viewed_on ON opportunity_views(opportunity_id, viewed_on);
+
+CREATE OR REPLACE FUNCTION public.company_funnel_report(
+  p_from date,
+  p_to date
+)
+RETURNS jsonb AS $$
+DECLARE
+  caller_company companies;
+  range_start timestamptz := p_from::timestamptz;
+  -- Inclusive of the whole last day
+  range_end timestamptz := (p_to + 1)::timestamptz;
+BEGIN
+  SELECT c.* INTO caller_company FROM companies c WHERE c.user_id = auth.uid();
+
+  IF caller_company.company_id IS NULL THEN
+    RAISE EXCEPTION 'Hiring analytics are only available to companies'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN jsonb_build_object(
+    'opportunities', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'opportunity_id', o.opportunity_id,
+        'title', o.title,
+        'status', o.status,
+        'created_at', o.created_at,
+        'view_count', COALESCE(o.view_count, 0)
+      ) ORDER BY o.created_at DESC)
+      FROM opportunities o
+      WHERE o.company_id = caller_company.company_id
+    ), '[]'::jsonb),
+    'views', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'opportunity_id', v.opportunity_id,
+        'day', v.viewed_on,
+        'views', v.views
+      ))
+      FROM (
+        SELECT ov.opportunity_id, ov.viewed_on, count(*) AS views
+        FROM opportunity_views ov
+        JOIN opportunities o ON o.opportunity_id = ov.opportunity_id
+        WHERE o.company_id = caller_company.company_id
+          AND ov.viewed_on BETWEEN p_from AND p_to
+        GROUP BY ov.opportunity_id, ov.viewed_on
+      ) v
+    ), '[]'::jsonb),
+    'applications', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'application_id', a.application_id,
+        'opportunity_id', a.opportunity_id,
+        'status', a.status,
+        'applied_date', a.applied_date,
+        'statuses', (
+          SELECT jsonb_agg(DISTINCT h.to_status)
+          FROM application_status_history h
+          WHERE h.application_id = a.application_id
+        ),
+        -- A placement cell nomination outranks however the student then applied
+        'source', CASE
+          WHEN EXISTS (
+            SELECT 1 FROM opportunity_nominations n
+            WHERE n.opportunity_id = a.opportunity_id AND n.student_id = a.student_id
+          ) THEN 'placement_cell'
+          ELSE COALESCE(a.source, 'unknown')
+        END
+      ))
+      FROM applications a
+      JOIN opportunities o ON o.opportunity_id = a.opportunity_id
+      WHERE o.company_id = caller_company.company_id
+        AND a.status <> 'draft'
+        AND a.applied_date >= range_start AND a.applied_date < range_end
+    ), '[]'::jsonb)
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.company_funnel_report(date, date) TO authenticated;
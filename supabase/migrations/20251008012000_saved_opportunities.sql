@@ -0,0 +1,78 @@
+-- Saved opportunities
+-- Students keep saved postings in named collections with private notes and
+-- tags. When a saved posting closes or its deadline moves, the save is flagged
+-- (change_note/changed_at) until the student dismisses it, and the student is
+-- notified once per change.
+
+CREATE TABLE IF NOT EXISTS saved_opportunities (
+  saved_id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  student_id uuid NOT NULL REFERENCES students(student_id) ON DELETE CASCADE,
+  opportunity_id uuid NOT NULL REFERENCES opportunities(opportunity_id) ON DELETE CASCADE,
+  saved_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (student_id, opportunity_id)
+);
+
+ALTER TABLE saved_opportunities ADD COLUMN IF NOT EXISTS collection text;
+ALTER TABLE saved_opportunities ADD COLUMN IF NOT EXISTS notes text;
+ALTER TABLE saved_opportunities ADD COLUMN IF NOT EXISTS tags text[] NOT NULL DEFAULT '{}';
+ALTER TABLE saved_opportunities ADD COLUMN IF NOT EXISTS change_note text;
+ALTER TABLE saved_opportunities ADD COLUMN IF NOT EXISTS changed_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_saved_opportunities_opportunity ON saved_opportunities(opportunity_id);
+
+ALTER TABLE saved_opportunities ENABLE ROW LEVEL SECURITY;
+
+-- Notes are private, so only the student who saved can see or touch the row
+DROP POLICY IF EXISTS "Students manage own saved opportunities" ON saved_opportunities;
+CREATE POLICY "Students manage own saved opportunities" ON saved_opportunities FOR ALL TO authenticated
+USING (
+  EXISTS (SELECT 1 FROM students s WHERE s.student_id = saved_opportunities.student_id AND s.user_id = auth.uid())
+)
+WITH CHECK (
+  EXISTS (SELECT 1 FROM students s WHERE s.student_id = saved_opportunities.student_id AND s.user_id = auth.uid())
+);
+
+CREATE OR REPLACE FUNCTION public.flag_saved_opportunity_changes()
+RETURNS TRIGGER AS $$
+DECLARE
+  note text;
+BEGIN
+  -- A take-down closes the posting in the same update, so it is checked first
+  IF NEW.taken_down_at IS NOT NULL AND OLD.taken_down_at IS NULL THEN
+    note := 'This opportunity was removed by a moderator.';
+  ELSIF NEW.status IN ('closed', 'expired') AND OLD.status IS DISTINCT FROM NEW.status THEN
+    note := 'This opportunity is no longer accepting applications.';
+  ELSIF NEW.application_deadline IS DISTINCT FROM OLD.application_deadline THEN
+    note := CASE
+      WHEN NEW.application_deadline IS NULL THEN 'The application deadline was removed.'
+      ELSE format('The application deadline changed to %s.', to_char(NEW.application_deadline, 'DD Mon YYYY'))
+    END;
+  ELSE
+    RETURN NEW;
+  END IF;
+
+  UPDATE saved_opportunities
+  SET change_note = note, changed_at = now()
+  WHERE opportunity_id = NEW.opportunity_id;
+
+  INSERT INTO notifications (user_id, type, title, message, action_url, priority, metadata)
+  SELECT
+    s.user_id,
+    'deadline_reminder',
+    format('Update on "%s"', NEW.title),
+    note,
+    '/saved',
+    'medium',
+    jsonb_build_object('opportunity_id', NEW.opportunity_id)
+  FROM saved_opportunities so
+  JOIN students s ON s.student_id = so.student_id
+  WHERE so.opportunity_id = NEW.opportunity_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS flag_saved_opportunity_changes ON opportunities;
+CREATE TRIGGER flag_saved_opportunity_changes
+  AFTER UPDATE OF status, application_deadline, taken_down_at ON opportunities
+  FOR EACH ROW EXECUTE FUNCTION public.flag_saved_opportunity_changes();
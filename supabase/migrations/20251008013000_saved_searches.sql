@@ -0,0 +1,198 @@
+-- Saved searches
+-- Students name and keep the full OpportunitiesPage filter state. New postings
+-- that match a saved search raise new_opportunity notifications, either as
+-- each posting goes live ('instant') or bundled once a day ('daily').
+-- saved_search_alerts records which posting was already announced for which
+-- search, so a posting that is paused and reactivated isn't announced twice.
+
+-- When a posting first went live; "new" is measured from here rather than
+-- created_at, because drafts can sit for days before they're published
+ALTER TABLE opportunities ADD COLUMN IF NOT EXISTS published_at timestamptz;
+
+UPDATE opportunities SET published_at = created_at
+WHERE published_at IS NULL AND status <> 'draft';
+
+CREATE INDEX IF NOT EXISTS idx_opportunities_published_at ON opportunities(published_at);
+
+CREATE OR REPLACE FUNCTION public.set_opportunity_published_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'active' AND NEW.published_at IS NULL THEN
+    NEW.published_at := now();
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS set_opportunity_published_at ON opportunities;
+CREATE TRIGGER set_opportunity_published_at
+  BEFORE INSERT OR UPDATE OF status ON opportunities
+  FOR EACH ROW EXECUTE FUNCTION public.set_opportunity_published_at();
+
+CREATE TABLE IF NOT EXISTS saved_searches (
+  search_id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  student_id uuid NOT NULL REFERENCES students(student_id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  -- { q, tab, workMode, types, sort } exactly as OpportunitiesPage keeps them
+  filters jsonb NOT NULL DEFAULT '{}'::jsonb,
+  alert_mode text NOT NULL DEFAULT 'daily' CHECK (alert_mode IN ('instant', 'daily', 'off')),
+  last_viewed_at timestamptz NOT NULL DEFAULT now(),
+  last_digest_at timestamptz NOT NULL DEFAULT now(),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (student_id, name)
+);
+
+CREATE TABLE IF NOT EXISTS saved_search_alerts (
+  search_id uuid NOT NULL REFERENCES saved_searches(search_id) ON DELETE CASCADE,
+  opportunity_id uuid NOT NULL REFERENCES opportunities(opportunity_id) ON DELETE CASCADE,
+  alerted_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (search_id, opportunity_id)
+);
+
+ALTER TABLE saved_searches ENABLE ROW LEVEL SECURITY;
+-- Only written by the functions below
+ALTER TABLE saved_search_alerts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Students manage own saved searches" ON saved_searches;
+CREATE POLICY "Students manage own saved searches" ON saved_searches FOR ALL TO authenticated
+USING (
+  EXISTS (SELECT 1 FROM students s WHERE s.student_id = saved_searches.student_id AND s.user_id = auth.uid())
+)
+WITH CHECK (
+  EXISTS (SELECT 1 FROM students s WHERE s.student_id = saved_searches.student_id AND s.user_id = auth.uid())
+);
+
+-- Mirrors the OpportunitiesPage query: tab picks the type, workMode is exact,
+-- q matches the title or company name
+CREATE OR REPLACE FUNCTION public.opportunity_matches_search(p_opportunity_id uuid, p_filters jsonb)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM opportunities o
+    LEFT JOIN companies c ON c.company_id = o.company_id
+    WHERE o.opportunity_id = p_opportunity_id
+      AND o.status = 'active'
+      AND o.taken_down_at IS NULL
+      AND CASE COALESCE(p_filters->>'tab', 'all')
+        WHEN 'internships' THEN o.type = 'internship'
+        WHEN 'placements' THEN o.type = 'placement'
+        ELSE true
+      END
+      AND (NULLIF(p_filters->>'workMode', '') IS NULL OR o.work_mode::text = p_filters->>'workMode')
+      AND (
+        NULLIF(trim(p_filters->>'q'), '') IS NULL
+        OR o.title ILIKE '%' || trim(p_filters->>'q') || '%'
+        OR c.company_name ILIKE '%' || trim(p_filters->>'q') || '%'
+      )
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Postings published since the student last opened each of their saved searches
+CREATE OR REPLACE FUNCTION public.saved_search_new_counts()
+RETURNS TABLE (search_id uuid, new_count integer) AS $$
+  SELECT ss.search_id, count(o.opportunity_id)::integer
+  FROM saved_searches ss
+  JOIN students s ON s.student_id = ss.student_id
+  LEFT JOIN opportunities o
+    ON o.published_at > ss.last_viewed_at
+    AND public.opportunity_matches_search(o.opportunity_id, ss.filters)
+  WHERE s.user_id = auth.uid()
+  GROUP BY ss.search_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.saved_search_new_counts() TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.notify_instant_saved_searches()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status <> 'active' OR (TG_OP = 'UPDATE' AND OLD.status = 'active') THEN
+    RETURN NEW;
+  END IF;
+
+  WITH matches AS (
+    INSERT INTO saved_search_alerts (search_id, opportunity_id)
+    SELECT ss.search_id, NEW.opportunity_id
+    FROM saved_searches ss
+    WHERE ss.alert_mode = 'instant'
+      AND public.opportunity_matches_search(NEW.opportunity_id, ss.filters)
+    ON CONFLICT DO NOTHING
+    RETURNING search_id
+  )
+  INSERT INTO notifications (user_id, type, title, message, action_url, priority, metadata)
+  SELECT
+    s.user_id,
+    'new_opportunity',
+    format('New match for "%s"', ss.name),
+    format('"%s" matches your saved search.', NEW.title),
+    '/opportunities/' || COALESCE(NEW.slug, NEW.opportunity_id::text),
+    'medium',
+    jsonb_build_object('opportunity_id', NEW.opportunity_id, 'search_id', ss.search_id)
+  FROM matches m
+  JOIN saved_searches ss ON ss.search_id = m.search_id
+  JOIN students s ON s.student_id = ss.student_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS notify_instant_saved_searches ON opportunities;
+CREATE TRIGGER notify_instant_saved_searches
+  AFTER INSERT OR UPDATE OF status ON opportunities
+  FOR EACH ROW EXECUTE FUNCTION public.notify_instant_saved_searches();
+
+-- One notification per daily search that picked up new postings since its last digest
+CREATE OR REPLACE FUNCTION public.send_saved_search_digests()
+RETURNS integer AS $$
+DECLARE
+  sent integer;
+BEGIN
+  WITH matches AS (
+    INSERT INTO saved_search_alerts (search_id, opportunity_id)
+    SELECT ss.search_id, o.opportunity_id
+    FROM saved_searches ss
+    JOIN opportunities o
+      ON o.published_at > ss.last_digest_at
+      AND public.opportunity_matches_search(o.opportunity_id, ss.filters)
+    WHERE ss.alert_mode = 'daily'
+    ON CONFLICT DO NOTHING
+    RETURNING search_id
+  ),
+  digests AS (
+    SELECT search_id, count(*) AS matched FROM matches GROUP BY search_id
+  ),
+  notified AS (
+    INSERT INTO notifications (user_id, type, title, message, action_url, priority, metadata)
+    SELECT
+      s.user_id,
+      'new_opportunity',
+      format('%s new %s for "%s"', d.matched, CASE WHEN d.matched = 1 THEN 'match' ELSE 'matches' END, ss.name),
+      'New opportunities match your saved search.',
+      '/opportunities?search=' || ss.search_id,
+      'low',
+      jsonb_build_object('search_id', ss.search_id, 'count', d.matched)
+    FROM digests d
+    JOIN saved_searches ss ON ss.search_id = d.search_id
+    JOIN students s ON s.student_id = ss.student_id
+    RETURNING 1
+  )
+  SELECT count(*) INTO sent FROM notified;
+
+  UPDATE saved_searches SET last_digest_at = now() WHERE alert_mode = 'daily';
+
+  RETURN sent;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Digests go out for everyone at once, so only the scheduler may run them.
+-- Supabase grants anon and authenticated EXECUTE on new functions directly,
+-- so revoking from PUBLIC alone would leave it open through /rpc.
+REVOKE EXECUTE ON FUNCTION public.send_saved_search_digests() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.send_saved_search_digests() TO service_role;
+
+-- Projects without pg_cron can call send_saved_search_digests() from any daily job
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('saved-search-digests', '0 8 * * *', 'SELECT public.send_saved_search_digests()');
+  END IF;
+END $$;
@@ -0,0 +1,149 @@
+-- Opportunity search
+-- Each posting carries a weighted search_document (title A, skills and company
+-- name B, location C, description D), kept current by triggers on both
+-- opportunities and companies. search_opportunities ranks full-text matches
+-- and falls back to trigram similarity on the title and company name so typos
+-- still find something. The query only ever reaches Postgres as a bound
+-- parameter through websearch_to_tsquery, never as filter syntax.
+
+ALTER TABLE opportunities ADD COLUMN IF NOT EXISTS search_document tsvector;
+
+CREATE INDEX IF NOT EXISTS idx_opportunities_search_document ON opportunities USING gin(search_document);
+CREATE INDEX IF NOT EXISTS idx_opportunities_title_trgm ON opportunities USING gin(title gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_companies_name_trgm ON companies USING gin(company_name gin_trgm_ops);
+
+-- Skills and locations are jsonb arrays on some databases and text on others;
+-- their text form tokenizes the same either way
+CREATE OR REPLACE FUNCTION public.set_opportunity_search_document()
+RETURNS TRIGGER AS $$
+DECLARE
+  posting_company text;
+BEGIN
+  SELECT c.company_name INTO posting_company FROM companies c WHERE c.company_id = NEW.company_id;
+
+  NEW.search_document :=
+    setweight(to_tsvector('english', COALESCE(NEW.title, '')), 'A') ||
+    setweight(to_tsvector('english', COALESCE(NEW.required_skills::text, '') || ' ' || COALESCE(NEW.preferred_skills::text, '')), 'B') ||
+    setweight(to_tsvector('simple', COALESCE(posting_company, '')), 'B') ||
+    setweight(to_tsvector('simple', COALESCE(NEW.location::text, '')), 'C') ||
+    setweight(to_tsvector('english', COALESCE(NEW.description, '')), 'D');
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Listing search_document lets other triggers force a rebuild by clearing it
+DROP TRIGGER IF EXISTS set_opportunity_search_document ON opportunities;
+CREATE TRIGGER set_opportunity_search_document
+  BEFORE INSERT OR UPDATE OF title, description, required_skills, preferred_skills, location, company_id, search_document
+  ON opportunities
+  FOR EACH ROW EXECUTE FUNCTION public.set_opportunity_search_document();
+
+CREATE OR REPLACE FUNCTION public.refresh_company_opportunity_search()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE opportunities SET search_document = NULL WHERE company_id = NEW.company_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS refresh_company_opportunity_search ON companies;
+CREATE TRIGGER refresh_company_opportunity_search
+  AFTER UPDATE OF company_name ON companies
+  FOR EACH ROW
+  WHEN (OLD.company_name IS DISTINCT FROM NEW.company_name)
+  EXECUTE FUNCTION public.refresh_company_opportunity_search();
+
+UPDATE opportunities SET search_document = NULL;
+
+-- The one definition of "this posting matches the text query", shared by the
+-- search RPC and saved search alerts
+CREATE OR REPLACE FUNCTION public.opportunity_text_matches(
+  p_document tsvector,
+  p_title text,
+  p_company_name text,
+  p_query text
+)
+RETURNS boolean AS $$
+  SELECT NULLIF(trim(p_query), '') IS NULL
+    OR p_document @@ websearch_to_tsquery('english', p_query)
+    OR word_similarity(lower(trim(p_query)), lower(COALESCE(p_title, ''))) >= 0.4
+    OR word_similarity(lower(trim(p_query)), lower(COALESCE(p_company_name, ''))) >= 0.4;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION public.opportunity_matches_search(p_opportunity_id uuid, p_filters jsonb)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM opportunities o
+    LEFT JOIN companies c ON c.company_id = o.company_id
+    WHERE o.opportunity_id = p_opportunity_id
+      AND o.status = 'active'
+      AND o.taken_down_at IS NULL
+      AND CASE COALESCE(p_filters->>'tab', 'all')
+        WHEN 'internships' THEN o.type = 'internship'
+        WHEN 'placements' THEN o.type = 'placement'
+        ELSE true
+      END
+      AND (NULLIF(p_filters->>'workMode', '') IS NULL OR o.work_mode::text = p_filters->>'workMode')
+      AND public.opportunity_text_matches(o.search_document, o.title, c.company_name, p_filters->>'q')
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.search_opportunities(
+  p_query text,
+  p_type text DEFAULT NULL,
+  p_work_mode text DEFAULT NULL,
+  p_limit integer DEFAULT 50
+)
+RETURNS TABLE (
+  opportunity_id uuid,
+  rank real,
+  title_highlight text,
+  snippet text
+) AS $$
+DECLARE
+  -- Control characters can't appear in postings, so the client can split on
+  -- them without ever treating posting text as markup
+  highlight_options text := format('StartSel=%s, StopSel=%s', chr(1), chr(2));
+  search_query tsquery;
+BEGIN
+  IF NULLIF(trim(p_query), '') IS NULL THEN
+    RETURN;
+  END IF;
+  search_query := websearch_to_tsquery('english', p_query);
+
+  RETURN QUERY
+  SELECT
+    o.opportunity_id,
+    (
+      ts_rank_cd(o.search_document, search_query, 32)
+      -- Fuzzy hits rank below exact ones but still order by closeness
+      + 0.5 * greatest(
+        word_similarity(lower(trim(p_query)), lower(o.title)),
+        word_similarity(lower(trim(p_query)), lower(COALESCE(c.company_name, '')))
+      )
+    )::real,
+    ts_headline('english', o.title, search_query, highlight_options || ', HighlightAll=true'),
+    NULLIF(
+      ts_headline(
+        'english',
+        COALESCE(o.description, ''),
+        search_query,
+        highlight_options || ', MaxWords=30, MinWords=12, ShortWord=2, MaxFragments=2, FragmentDelimiter=" … "'
+      ),
+      ''
+    )
+  FROM opportunities o
+  LEFT JOIN companies c ON c.company_id = o.company_id
+  WHERE o.status = 'active'
+    AND o.taken_down_at IS NULL
+    AND (p_type IS NULL OR o.type::text = p_type)
+    AND (p_work_mode IS NULL OR o.work_mode::text = p_work_mode)
+    AND public.opportunity_text_matches(o.search_document, o.title, c.company_name, p_query)
+  -- By position: the OUT parameter named rank would make the column name ambiguous
+  ORDER BY 2 DESC, o.created_at DESC
+  LIMIT LEAST(GREATEST(COALESCE(p_limit, 50), 1), 200);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.search_opportunities(text, text, text, integer) TO authenticated;
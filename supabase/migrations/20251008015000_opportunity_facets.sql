@@ -0,0 +1,72 @@
+-- Opportunity facets
+-- OpportunitiesPage filters on stipend, duration, location, deadline window,
+-- PPO, skills, company size and featured. Saved searches store the same
+-- facets, so opportunity_matches_search applies them too and alerts only fire
+-- for postings the student would actually see with that search open.
+
+-- Older databases were created without one or the other
+ALTER TABLE opportunities ADD COLUMN IF NOT EXISTS is_ppo_offered boolean DEFAULT false;
+ALTER TABLE opportunities ADD COLUMN IF NOT EXISTS is_featured boolean DEFAULT false;
+
+-- Skills and locations are jsonb arrays (of strings, or {city} objects) on
+-- some databases and comma-separated text on others; this reads either into
+-- lowercased values, like toStringList does on the client
+CREATE OR REPLACE FUNCTION public.opportunity_text_list(p_value jsonb)
+RETURNS text[] AS $$
+  SELECT COALESCE(array_agg(lower(trim(item))) FILTER (WHERE trim(item) <> ''), '{}')
+  FROM (
+    SELECT CASE jsonb_typeof(element) WHEN 'object' THEN element->>'city' ELSE element #>> '{}' END AS item
+    FROM jsonb_array_elements(CASE jsonb_typeof(p_value) WHEN 'array' THEN p_value ELSE '[]'::jsonb END) element
+    UNION ALL
+    SELECT regexp_split_to_table(p_value #>> '{}', ',')
+    WHERE jsonb_typeof(p_value) = 'string'
+  ) items;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION public.opportunity_matches_search(p_opportunity_id uuid, p_filters jsonb)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM opportunities o
+    LEFT JOIN companies c ON c.company_id = o.company_id
+    WHERE o.opportunity_id = p_opportunity_id
+      AND o.status = 'active'
+      AND o.taken_down_at IS NULL
+      AND CASE COALESCE(p_filters->>'tab', 'all')
+        WHEN 'internships' THEN o.type = 'internship'
+        WHEN 'placements' THEN o.type = 'placement'
+        ELSE true
+      END
+      AND (NULLIF(p_filters->>'workMode', '') IS NULL OR o.work_mode::text = p_filters->>'workMode')
+      AND public.opportunity_text_matches(o.search_document, o.title, c.company_name, p_filters->>'q')
+      AND (
+        COALESCE((p_filters->>'stipendMin')::numeric, 0) <= 0
+        OR COALESCE(o.stipend_max, o.stipend_min, 0) >= (p_filters->>'stipendMin')::numeric
+      )
+      AND (
+        jsonb_array_length(COALESCE(p_filters->'durations', '[]'::jsonb)) = 0
+        OR (o.duration_months BETWEEN 1 AND 2 AND p_filters->'durations' ? 'short')
+        OR (o.duration_months BETWEEN 3 AND 6 AND p_filters->'durations' ? 'medium')
+        OR (o.duration_months > 6 AND p_filters->'durations' ? 'long')
+      )
+      AND (
+        jsonb_array_length(COALESCE(p_filters->'locations', '[]'::jsonb)) = 0
+        OR public.opportunity_text_list(to_jsonb(o.location)) && public.opportunity_text_list(p_filters->'locations')
+      )
+      AND CASE COALESCE(p_filters->>'deadline', '')
+        WHEN 'week' THEN o.application_deadline::date BETWEEN current_date AND current_date + 7
+        WHEN 'month' THEN o.application_deadline::date BETWEEN current_date AND current_date + 30
+        ELSE true
+      END
+      AND (NOT COALESCE((p_filters->>'ppo')::boolean, false) OR COALESCE(o.is_ppo_offered, false))
+      AND (
+        jsonb_array_length(COALESCE(p_filters->'skills', '[]'::jsonb)) = 0
+        OR public.opportunity_text_list(to_jsonb(o.required_skills)) && public.opportunity_text_list(p_filters->'skills')
+      )
+      AND (
+        jsonb_array_length(COALESCE(p_filters->'companySizes', '[]'::jsonb)) = 0
+        OR p_filters->'companySizes' ? c.company_size::text
+      )
+      AND (NOT COALESCE((p_filters->>'featured')::boolean, false) OR COALESCE(o.is_featured, false))
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,294 @@
+-- Opportunity browsing
+-- OpportunitiesPage pages through postings with a keyset cursor instead of
+-- loading every active posting and filtering in the browser. The tab, facets
+-- and text query are applied here by opportunity_matches_filters, the single
+-- definition shared by browsing, facet counts and saved search alerts.
+-- browse_opportunities returns one page of ids in the requested order plus the
+-- total; opportunity_facet_counts returns the live counts behind each facet.
+
+CREATE INDEX IF NOT EXISTS idx_opportunities_browse
+  ON opportunities(created_at DESC, opportunity_id)
+  WHERE status = 'active' AND taken_down_at IS NULL;
+
+-- Redefined to keep the original spelling, so facet options read naturally;
+-- compare through text_lists_overlap, which ignores case
+CREATE OR REPLACE FUNCTION public.opportunity_text_list(p_value jsonb)
+RETURNS text[] AS $$
+  SELECT COALESCE(array_agg(trim(item)) FILTER (WHERE trim(item) <> ''), '{}')
+  FROM (
+    SELECT CASE jsonb_typeof(element) WHEN 'object' THEN element->>'city' ELSE element #>> '{}' END AS item
+    FROM jsonb_array_elements(CASE jsonb_typeof(p_value) WHEN 'array' THEN p_value ELSE '[]'::jsonb END) element
+    UNION ALL
+    SELECT regexp_split_to_table(p_value #>> '{}', ',')
+    WHERE jsonb_typeof(p_value) = 'string'
+  ) items;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION public.text_lists_overlap(p_values text[], p_wanted jsonb)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM unnest(p_values) value
+    JOIN jsonb_array_elements_text(p_wanted) wanted ON lower(value) = lower(trim(wanted))
+  );
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Pay per month for the stipend filter and sort. Placements quote a yearly CTC
+-- in lakhs and usually leave the stipend empty, so theirs is converted.
+CREATE OR REPLACE FUNCTION public.opportunity_monthly_pay(o opportunities)
+RETURNS numeric AS $$
+  SELECT CASE
+    WHEN o.type = 'placement' THEN COALESCE(o.ctc_max, o.ctc_min) * 100000 / 12
+    ELSE COALESCE(o.stipend_max, o.stipend_min)
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Every filter OpportunitiesPage offers, in the shape of SavedSearchFilters.
+-- Facet counts drop one key from p_filters to count "everything else applied".
+CREATE OR REPLACE FUNCTION public.opportunity_matches_filters(o opportunities, c companies, p_filters jsonb)
+RETURNS boolean AS $$
+  SELECT o.status = 'active'
+    AND o.taken_down_at IS NULL
+    -- A suspended company's postings stay up for it but leave the listing
+    AND public.is_active_user(c.user_id)
+    AND CASE COALESCE(p_filters->>'tab', 'all')
+      WHEN 'internships' THEN o.type = 'internship'
+      WHEN 'placements' THEN o.type = 'placement'
+      ELSE true
+    END
+    AND (NULLIF(p_filters->>'workMode', '') IS NULL OR o.work_mode::text = p_filters->>'workMode')
+    AND public.opportunity_text_matches(o.search_document, o.title, c.company_name, p_filters->>'q')
+    AND (
+      COALESCE((p_filters->>'stipendMin')::numeric, 0) <= 0
+      OR COALESCE(public.opportunity_monthly_pay(o), 0) >= (p_filters->>'stipendMin')::numeric
+    )
+    AND (
+      jsonb_array_length(COALESCE(p_filters->'durations', '[]'::jsonb)) = 0
+      OR (o.duration_months BETWEEN 1 AND 2 AND p_filters->'durations' ? 'short')
+      OR (o.duration_months BETWEEN 3 AND 6 AND p_filters->'durations' ? 'medium')
+      OR (o.duration_months > 6 AND p_filters->'durations' ? 'long')
+    )
+    AND (
+      jsonb_array_length(COALESCE(p_filters->'locations', '[]'::jsonb)) = 0
+      OR public.text_lists_overlap(public.opportunity_text_list(to_jsonb(o.location)), p_filters->'locations')
+    )
+    AND CASE COALESCE(p_filters->>'deadline', '')
+      WHEN 'week' THEN o.application_deadline::date BETWEEN current_date AND current_date + 7
+      WHEN 'month' THEN o.application_deadline::date BETWEEN current_date AND current_date + 30
+      ELSE true
+    END
+    AND (NOT COALESCE((p_filters->>'ppo')::boolean, false) OR COALESCE(o.is_ppo_offered, false))
+    AND (
+      jsonb_array_length(COALESCE(p_filters->'skills', '[]'::jsonb)) = 0
+      OR public.text_lists_overlap(public.opportunity_text_list(to_jsonb(o.required_skills)), p_filters->'skills')
+    )
+    AND (
+      jsonb_array_length(COALESCE(p_filters->'companySizes', '[]'::jsonb)) = 0
+      OR COALESCE(p_filters->'companySizes' ? c.company_size::text, false)
+    )
+    AND (NOT COALESCE((p_filters->>'featured')::boolean, false) OR COALESCE(o.is_featured, false));
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.opportunity_matches_search(p_opportunity_id uuid, p_filters jsonb)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM opportunities o
+    LEFT JOIN companies c ON c.company_id = o.company_id
+    WHERE o.opportunity_id = p_opportunity_id
+      AND public.opportunity_matches_filters(o, c, p_filters)
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- The next page of matches after p_cursor (the previous page's last
+-- next_cursor; NULL for the first page). Every sort is mapped onto one
+-- ascending sort_value with the id as tiebreaker, so a single row comparison
+-- serves as the keyset condition whatever the order.
+CREATE OR REPLACE FUNCTION public.browse_opportunities(
+  p_filters jsonb,
+  p_cursor jsonb DEFAULT NULL,
+  p_limit integer DEFAULT 24
+)
+RETURNS TABLE (
+  opportunity_id uuid,
+  next_cursor jsonb,
+  rank real,
+  title_highlight text,
+  snippet text,
+  total_count bigint
+) AS $$
+DECLARE
+  -- Control characters the client splits on; see opportunitySearch.ts
+  highlight_options text := format('StartSel=%s, StopSel=%s', chr(1), chr(2));
+  search_text text := NULLIF(trim(p_filters->>'q'), '');
+  search_query tsquery;
+  sort_key text := COALESCE(p_filters->>'sort', 'newest');
+  viewer students;
+BEGIN
+  IF search_text IS NOT NULL THEN
+    search_query := websearch_to_tsquery('english', search_text);
+  END IF;
+  IF sort_key NOT IN ('deadline', 'stipend', 'match') THEN
+    sort_key := 'newest';
+  END IF;
+  -- Without a query, best match is the caller's profile fit (see
+  -- compute_match_score); callers without a student profile get newest first
+  IF sort_key = 'match' AND search_text IS NULL THEN
+    SELECT s.* INTO viewer FROM students s WHERE s.user_id = auth.uid();
+    IF NOT FOUND THEN
+      sort_key := 'newest';
+    END IF;
+  END IF;
+
+  RETURN QUERY
+  WITH matches AS (
+    SELECT
+      o.opportunity_id AS id,
+      o.title AS posting_title,
+      o.description AS posting_description,
+      o.created_at AS posted_at,
+      o.application_deadline AS deadline,
+      public.opportunity_monthly_pay(o) AS stipend,
+      CASE WHEN search_text IS NULL THEN NULL ELSE (
+        ts_rank_cd(o.search_document, search_query, 32)
+        + 0.5 * greatest(
+          word_similarity(lower(search_text), lower(o.title)),
+          word_similarity(lower(search_text), lower(COALESCE(c.company_name, '')))
+        )
+      ) END::real AS relevance,
+      CASE WHEN sort_key = 'match' AND search_text IS NULL THEN public.compute_match_score(viewer, o) END AS fit
+    FROM opportunities o
+    LEFT JOIN companies c ON c.company_id = o.company_id
+    WHERE public.opportunity_matches_filters(o, c, p_filters)
+  ),
+  keyed AS (
+    SELECT
+      m.*,
+      -- Descending sorts are negated; postings without a deadline or stipend go last
+      COALESCE(CASE sort_key
+        WHEN 'deadline' THEN extract(epoch FROM m.deadline::timestamptz)::double precision
+        WHEN 'stipend' THEN -m.stipend::double precision
+        WHEN 'match' THEN -COALESCE(m.fit, m.relevance)::double precision
+        ELSE -extract(epoch FROM m.posted_at)::double precision
+      END, 'Infinity'::double precision) AS sort_value,
+      count(*) OVER () AS total
+    FROM matches m
+  )
+  SELECT
+    k.id,
+    jsonb_build_object('value', k.sort_value::text, 'id', k.id),
+    k.relevance,
+    CASE WHEN search_text IS NULL THEN NULL
+      ELSE ts_headline('english', k.posting_title, search_query, highlight_options || ', HighlightAll=true')
+    END,
+    CASE WHEN search_text IS NULL THEN NULL ELSE NULLIF(
+      ts_headline(
+        'english',
+        COALESCE(k.posting_description, ''),
+        search_query,
+        highlight_options || ', MaxWords=30, MinWords=12, ShortWord=2, MaxFragments=2, FragmentDelimiter=" … "'
+      ),
+      ''
+    ) END,
+    k.total
+  FROM keyed k
+  WHERE p_cursor IS NULL
+    OR (k.sort_value, k.id) > ((p_cursor->>'value')::double precision, (p_cursor->>'id')::uuid)
+  ORDER BY k.sort_value, k.id
+  LIMIT LEAST(GREATEST(COALESCE(p_limit, 24), 1), 100);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.browse_opportunities(jsonb, jsonb, integer) TO authenticated;
+
+-- Live facet counts. Each facet is counted with every other filter applied but
+-- its own removed, so a count says how many results picking that option gives.
+-- Locations and skills return their p_list_limit most common values plus any
+-- already selected.
+CREATE OR REPLACE FUNCTION public.opportunity_facet_counts(
+  p_filters jsonb,
+  p_stipend_floors integer[],
+  p_list_limit integer DEFAULT 8
+)
+RETURNS jsonb AS $$
+  WITH rows_without AS (
+    SELECT facet, o.*, c.company_size::text AS company_size, public.opportunity_monthly_pay(o) AS monthly_pay
+    FROM unnest(ARRAY['workMode', 'stipendMin', 'durations', 'locations', 'deadline', 'ppo', 'skills', 'companySizes', 'featured']) facet
+    JOIN opportunities o ON true
+    LEFT JOIN companies c ON c.company_id = o.company_id
+    WHERE public.opportunity_matches_filters(o, c, p_filters - facet)
+  ),
+  list_values AS (
+    SELECT r.facet, lower(value) AS value_key, min(value) AS label, count(*) AS hits
+    FROM rows_without r
+    CROSS JOIN LATERAL unnest(public.opportunity_text_list(
+      CASE r.facet WHEN 'locations' THEN to_jsonb(r.location) ELSE to_jsonb(r.required_skills) END
+    )) value
+    WHERE r.facet IN ('locations', 'skills')
+    GROUP BY r.facet, lower(value)
+  ),
+  ranked_values AS (
+    SELECT lv.*, row_number() OVER (PARTITION BY lv.facet ORDER BY lv.hits DESC, lv.label) AS position
+    FROM list_values lv
+  )
+  SELECT jsonb_build_object(
+    'workMode', (
+      SELECT COALESCE(jsonb_object_agg(mode, hits), '{}'::jsonb)
+      FROM (
+        SELECT r.work_mode::text AS mode, count(*) AS hits
+        FROM rows_without r WHERE r.facet = 'workMode' AND r.work_mode IS NOT NULL GROUP BY 1
+      ) t
+    ),
+    'stipendMin', (
+      SELECT COALESCE(jsonb_object_agg(f.floor_value::text, f.hits), '{}'::jsonb)
+      FROM (
+        SELECT floor_value, (
+          SELECT count(*) FROM rows_without r
+          WHERE r.facet = 'stipendMin' AND COALESCE(r.monthly_pay, 0) >= floor_value
+        ) AS hits
+        FROM unnest(p_stipend_floors) floor_value
+      ) f
+    ),
+    'durations', (
+      SELECT jsonb_build_object(
+        'short', count(*) FILTER (WHERE r.duration_months BETWEEN 1 AND 2),
+        'medium', count(*) FILTER (WHERE r.duration_months BETWEEN 3 AND 6),
+        'long', count(*) FILTER (WHERE r.duration_months > 6)
+      )
+      FROM rows_without r WHERE r.facet = 'durations'
+    ),
+    'deadline', (
+      SELECT jsonb_build_object(
+        'week', count(*) FILTER (WHERE r.application_deadline::date BETWEEN current_date AND current_date + 7),
+        'month', count(*) FILTER (WHERE r.application_deadline::date BETWEEN current_date AND current_date + 30)
+      )
+      FROM rows_without r WHERE r.facet = 'deadline'
+    ),
+    'ppo', (SELECT count(*) FROM rows_without r WHERE r.facet = 'ppo' AND COALESCE(r.is_ppo_offered, false)),
+    'featured', (SELECT count(*) FROM rows_without r WHERE r.facet = 'featured' AND COALESCE(r.is_featured, false)),
+    'companySizes', (
+      SELECT COALESCE(jsonb_object_agg(size, hits), '{}'::jsonb)
+      FROM (
+        SELECT r.company_size AS size, count(*) AS hits
+        FROM rows_without r WHERE r.facet = 'companySizes' AND r.company_size IS NOT NULL GROUP BY 1
+      ) t
+    ),
+    'locations', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object('value', rv.label, 'count', rv.hits) ORDER BY rv.position), '[]'::jsonb)
+      FROM ranked_values rv
+      WHERE rv.facet = 'locations'
+        AND (rv.position <= p_list_limit OR public.text_lists_overlap(ARRAY[rv.label], COALESCE(p_filters->'locations', '[]'::jsonb)))
+    ),
+    'skills', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object('value', rv.label, 'count', rv.hits) ORDER BY rv.position), '[]'::jsonb)
+      FROM ranked_values rv
+      WHERE rv.facet = 'skills'
+        AND (rv.position <= p_list_limit OR public.text_lists_overlap(ARRAY[rv.label], COALESCE(p_filters->'skills', '[]'::jsonb)))
+    )
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.opportunity_facet_counts(jsonb, integer[], integer) TO authenticated;
+
+-- Superseded by browse_opportunities
+DROP FUNCTION IF EXISTS public.search_opportunities(text, text, text, integer);
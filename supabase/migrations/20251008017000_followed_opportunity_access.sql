@@ -0,0 +1,31 @@
+-- Closed postings a student follows
+-- Students could only read active opportunities, so once a posting they had
+-- applied to or saved closed or expired, its detail page said "Opportunity not
+-- found" and /saved lost its title and company. They can now keep reading it,
+-- unless it is a draft or was taken down.
+
+-- SECURITY DEFINER so the policy below doesn't evaluate the applications
+-- policies, which read opportunities in turn
+CREATE OR REPLACE FUNCTION public.student_follows_opportunity(p_opportunity_id uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM applications a
+    JOIN students s ON s.student_id = a.student_id
+    WHERE a.opportunity_id = p_opportunity_id
+      AND s.user_id = auth.uid()
+  ) OR EXISTS (
+    SELECT 1 FROM saved_opportunities so
+    JOIN students s ON s.student_id = so.student_id
+    WHERE so.opportunity_id = p_opportunity_id
+      AND s.user_id = auth.uid()
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.student_follows_opportunity(uuid) TO authenticated;
+
+DROP POLICY IF EXISTS "Students can read opportunities they follow" ON opportunities;
+CREATE POLICY "Students can read opportunities they follow" ON opportunities FOR SELECT TO authenticated USING (
+  status <> 'draft'
+  AND taken_down_at IS NULL
+  AND public.student_follows_opportunity(opportunity_id)
+);